@@ -6,7 +6,10 @@ const watch = process.argv.includes('--watch');
 const entries = {
   comparison: 'src/presentation/view/webview/comparison/index.tsx',
   runOptions: 'src/presentation/view/webview/runOptions/index.tsx',
+  pahcerSettings: 'src/presentation/view/webview/pahcerSettings/index.tsx',
   initialization: 'src/presentation/view/webview/initialization/index.tsx',
+  regressionReport: 'src/presentation/view/webview/regressionReport/index.tsx',
+  stderrTimeline: 'src/presentation/view/webview/stderrTimeline/index.tsx',
 };
 
 async function build() {
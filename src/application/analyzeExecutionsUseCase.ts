@@ -0,0 +1,107 @@
+import type { IFileAnalyzer } from '../domain/interfaces/IFileAnalyzer';
+import type { IInOutFilesAdapter } from '../domain/interfaces/IInOutFilesAdapter';
+import type { ITestCaseRepository } from '../domain/interfaces/ITestCaseRepository';
+import type { IUIConfigRepository } from '../domain/interfaces/IUIConfigRepository';
+import type { StderrPattern } from '../domain/models/uiConfig';
+
+export interface AnalyzeExecutionsOptions {
+  /** 実行 1 件の解析が終わるたびに呼ばれるコールバック */
+  onProgress?: (analyzedCount: number, total: number) => void;
+  /** true を返すと、次の実行の解析に進まずに終了する */
+  isCancelled?: () => boolean;
+}
+
+export interface AnalyzeExecutionsResult {
+  /** 解析した実行の ID */
+  analyzedExecutionIds: string[];
+  /** 解析したテストケースの数 */
+  testCaseCount: number;
+  /** 中断されたかどうか */
+  cancelled: boolean;
+}
+
+/**
+ * 実行結果を解析してテストケースのメタデータを保存するユースケース
+ *
+ * 責務:
+ * - 入力ファイルの1行目（firstInputLine）を取得
+ * - アーカイブ済みの stderr から、設定した形式（UIConfig.stderrPatterns）で
+ *   変数（stderrVars）・タグ（stderrTags）・数値の変数の推移（stderrSeries）を抽出
+ * - 特徴量の抽出ルール・スクリプトのキャッシュを破棄（次に比較ビューを開いたときに再抽出される）
+ *
+ * pahcer run の直後に呼ばれるほか、過去の実行結果の再解析にも使用する
+ */
+export class AnalyzeExecutionsUseCase {
+  constructor(
+    private testCaseRepository: ITestCaseRepository,
+    private inOutFilesAdapter: IInOutFilesAdapter,
+    private fileAnalyzer: IFileAnalyzer,
+    private uiConfigRepository: IUIConfigRepository,
+  ) {}
+
+  /**
+   * 実行結果を順に解析する
+   *
+   * @param executionIds 解析する実行の ID
+   */
+  async handle(
+    executionIds: string[],
+    options: AnalyzeExecutionsOptions = {},
+  ): Promise<AnalyzeExecutionsResult> {
+    const { stderrPatterns } = await this.uiConfigRepository.find();
+    const result: AnalyzeExecutionsResult = {
+      analyzedExecutionIds: [],
+      testCaseCount: 0,
+      cancelled: false,
+    };
+
+    for (const executionId of executionIds) {
+      if (options.isCancelled?.()) {
+        result.cancelled = true;
+        break;
+      }
+
+      result.testCaseCount += await this.analyzeExecution(executionId, stderrPatterns);
+      result.analyzedExecutionIds.push(executionId);
+      options.onProgress?.(result.analyzedExecutionIds.length, executionIds.length);
+    }
+
+    return result;
+  }
+
+  /**
+   * 1 件の実行結果を解析してメタデータを保存
+   * @returns 解析したテストケースの数
+   */
+  private async analyzeExecution(
+    executionId: string,
+    stderrPatterns: StderrPattern[],
+  ): Promise<number> {
+    const testCases = await this.testCaseRepository.findByExecutionId(executionId);
+
+    // 各テストケースにメタデータを追加して保存
+    await Promise.all(
+      testCases.map(async (tc) => {
+        const inputPath = this.inOutFilesAdapter.getNonArchivedPath('in', tc.id.seed);
+        const stderrPath = this.inOutFilesAdapter.getArchivedPath('err', tc.id);
+
+        // 解析データを取得
+        const firstInputLine = await this.fileAnalyzer.readFirstLine(inputPath);
+        const stderr = await this.fileAnalyzer.analyzeStderr(stderrPath, stderrPatterns);
+
+        // TestCaseに解析データを追加（入力ファイルが削除されている場合は以前の値を残す）
+        tc.firstInputLine = firstInputLine || tc.firstInputLine;
+        tc.stderrVars = stderr.variables;
+        // タグがないケースではメタデータに書き込まない
+        tc.stderrTags = Object.keys(stderr.tags).length > 0 ? stderr.tags : undefined;
+        // 推移は以前の解析結果を残さないよう、空でも保存する
+        tc.stderrSeries = stderr.series;
+        tc.inputFeaturesKey = undefined;
+
+        await this.testCaseRepository.upsert(tc);
+      }),
+    );
+
+    return testCases.length;
+  }
+}
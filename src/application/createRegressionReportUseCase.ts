@@ -0,0 +1,112 @@
+import type { IBaselineRepository } from '../domain/interfaces/IBaselineRepository';
+import type { IExecutionRepository } from '../domain/interfaces/IExecutionRepository';
+import type { IPahcerConfigRepository } from '../domain/interfaces/IPahcerConfigRepository';
+import type { ITestCaseSummaryQueryService } from '../domain/interfaces/ITestCaseSummaryQueryService';
+import type { Execution } from '../domain/models/execution';
+import { RegressionAnalyzer } from '../domain/services/regressionAnalyzer';
+import { ResourceNotFoundError } from './exceptions';
+
+/**
+ * 回帰レポートの比較元
+ * - previous: 対象の直前の実行
+ * - baseline: 基準実行（未設定の場合は直前の実行）
+ */
+export type RegressionReferenceMode = 'previous' | 'baseline';
+
+export interface RegressionReportRequest {
+  executionId: string;
+  referenceMode: RegressionReferenceMode;
+  thresholds: RegressionAnalyzer.Thresholds;
+}
+
+export interface RegressionReportResult {
+  target: Execution;
+  reference: Execution;
+  /** 比較元が基準実行かどうか（false の場合は直前の実行） */
+  isBaselineReference: boolean;
+  report: RegressionAnalyzer.Report;
+}
+
+/**
+ * 実行結果の回帰レポートを作成するユースケース
+ *
+ * 責務:
+ * - 比較元の実行（直前の実行 or 基準実行）を決定
+ * - 両実行のテストケースを読み込み、ドメインサービスで Seed ごとに比較
+ *
+ * フロー:
+ * 1. 実行結果を全件取得し、対象の実行を特定
+ * 2. 比較元の実行を決定（比較元がなければ undefined を返す）
+ * 3. 両実行のテストケースを軽量読み込み
+ * 4. 回帰レポートを作成（ドメインサービス）
+ */
+export class CreateRegressionReportUseCase {
+  constructor(
+    private executionRepository: IExecutionRepository,
+    private testCaseSummaryQueryService: ITestCaseSummaryQueryService,
+    private pahcerConfigRepository: IPahcerConfigRepository,
+    private baselineRepository: IBaselineRepository,
+  ) {}
+
+  /**
+   * 回帰レポートを作成する
+   *
+   * @returns レポート、比較元の実行が存在しない場合は undefined
+   * @throws ResourceNotFoundError - pahcer設定が見つからない場合
+   */
+  async handle(request: RegressionReportRequest): Promise<RegressionReportResult | undefined> {
+    const { executionId, referenceMode, thresholds } = request;
+
+    const config = await this.pahcerConfigRepository.findById('normal');
+    if (!config) {
+      throw new ResourceNotFoundError('pahcer 設定');
+    }
+
+    // 実行結果は新しい順に並んでいる
+    const executions = await this.executionRepository.findAll();
+    const targetIndex = executions.findIndex((e) => e.id === executionId);
+    if (targetIndex < 0) {
+      return undefined;
+    }
+    const target = executions[targetIndex];
+
+    const baselineId = await this.baselineRepository.find();
+    const reference = this.findReference(executions, targetIndex, referenceMode, baselineId);
+    if (!reference) {
+      return undefined;
+    }
+
+    const [targetCases, referenceCases] = await Promise.all([
+      this.testCaseSummaryQueryService.findByExecutionId(target.id),
+      this.testCaseSummaryQueryService.findByExecutionId(reference.id),
+    ]);
+
+    const report = RegressionAnalyzer.analyze(
+      targetCases,
+      referenceCases,
+      config.objective,
+      thresholds,
+    );
+
+    return { target, reference, isBaselineReference: reference.id === baselineId, report };
+  }
+
+  /**
+   * 比較元の実行を決定する
+   */
+  private findReference(
+    executions: Execution[],
+    targetIndex: number,
+    referenceMode: RegressionReferenceMode,
+    baselineId: string | undefined,
+  ): Execution | undefined {
+    if (referenceMode === 'baseline') {
+      const baseline = executions.find((e) => e.id === baselineId);
+      if (baseline && baseline.id !== executions[targetIndex].id) {
+        return baseline;
+      }
+    }
+
+    return executions[targetIndex + 1];
+  }
+}
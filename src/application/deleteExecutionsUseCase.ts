@@ -0,0 +1,38 @@
+import type { IBaselineRepository } from '../domain/interfaces/IBaselineRepository';
+import type { IExecutionRepository } from '../domain/interfaces/IExecutionRepository';
+
+/**
+ * 実行結果を削除するユースケース
+ *
+ * 責務:
+ * - 実行結果（result.json と保存済みの出力ファイル）を削除
+ * - 削除した実行が基準実行の場合は基準実行の設定を解除
+ *
+ * フロー:
+ * 1. 基準実行を取得
+ * 2. 各実行を削除
+ * 3. 基準実行を削除した場合は設定を解除
+ */
+export class DeleteExecutionsUseCase {
+  constructor(
+    private executionRepository: IExecutionRepository,
+    private baselineRepository: IBaselineRepository,
+  ) {}
+
+  /**
+   * 実行結果を削除する
+   *
+   * @param executionIds 削除する実行の ID
+   */
+  async handle(executionIds: string[]): Promise<void> {
+    const baselineId = await this.baselineRepository.find();
+
+    for (const executionId of executionIds) {
+      await this.executionRepository.delete(executionId);
+    }
+
+    if (baselineId !== undefined && executionIds.includes(baselineId)) {
+      await this.baselineRepository.delete();
+    }
+  }
+}
@@ -22,7 +22,7 @@ export abstract class ApplicationError extends Error {
  */
 export class ResourceNotFoundError extends ApplicationError {
   constructor(
-    public readonly resourceType: 'pahcer 設定' | 'テンポラリ設定ファイル',
+    public readonly resourceType: 'pahcer 設定' | 'テンポラリ設定ファイル' | 'Seed セット',
     public readonly resourceId?: string,
   ) {
     const message = resourceId
@@ -0,0 +1,79 @@
+import type { IInputFeatureAnalyzer } from '../domain/interfaces/IInputFeatureAnalyzer';
+import type { ITestCaseRepository } from '../domain/interfaces/ITestCaseRepository';
+import type { IUIConfigRepository } from '../domain/interfaces/IUIConfigRepository';
+import type { TestCase } from '../domain/models/testCase';
+import { InputFeatureExtractor } from '../domain/services/inputFeatureExtractor';
+
+export interface ExtractInputFeaturesResult {
+  /** 特徴量の抽出に失敗した Seed（次回また抽出を試みる） */
+  failedSeeds: number[];
+  /** 最初に失敗したときのエラーメッセージ */
+  error?: string;
+}
+
+/**
+ * 特徴量の抽出ルール・スクリプトで入力ファイルから特徴量を抽出し、TestCase のメタデータにキャッシュするユースケース
+ *
+ * フロー:
+ * 1. 比較設定から抽出ルール・スクリプトを取得（どちらも設定されていない場合は何も保存しない）
+ * 2. 現在の設定で抽出した特徴量がキャッシュされていない TestCase を Seed ごとにまとめる
+ * 3. Seed ごとに 1 回だけ抽出し（入力ファイルは実行によらず同じため）、各 TestCase に設定して保存
+ */
+export class ExtractInputFeaturesUseCase {
+  constructor(
+    private uiConfigRepository: IUIConfigRepository,
+    private testCaseRepository: ITestCaseRepository,
+    private inputFeatureAnalyzer: IInputFeatureAnalyzer,
+  ) {}
+
+  /**
+   * TestCase の inputFeatures を現在の設定で抽出したものにする（渡した TestCase を更新する）
+   */
+  async handle(testCases: TestCase[]): Promise<ExtractInputFeaturesResult> {
+    const { inputFeatureRules, inputFeatureScript } = await this.uiConfigRepository.find();
+    if (inputFeatureRules.length === 0 && inputFeatureScript.trim() === '') {
+      // 以前の設定で抽出した特徴量は使わない（メタデータは書き換えない）
+      for (const testCase of testCases) {
+        testCase.inputFeatures = undefined;
+      }
+      return { failedSeeds: [] };
+    }
+
+    const key = InputFeatureExtractor.cacheKey(inputFeatureRules, inputFeatureScript);
+
+    const staleBySeed = new Map<number, TestCase[]>();
+    for (const testCase of testCases) {
+      if (testCase.inputFeaturesKey === key) {
+        continue;
+      }
+      const group = staleBySeed.get(testCase.id.seed) ?? [];
+      group.push(testCase);
+      staleBySeed.set(testCase.id.seed, group);
+    }
+
+    const result: ExtractInputFeaturesResult = { failedSeeds: [] };
+    // スクリプトを大量に同時起動しないよう、Seed ごとに順に抽出する
+    for (const [seed, group] of staleBySeed) {
+      let features: Record<string, number>;
+      try {
+        features = await this.inputFeatureAnalyzer.analyze(
+          seed,
+          inputFeatureRules,
+          inputFeatureScript,
+        );
+      } catch (error) {
+        result.failedSeeds.push(seed);
+        result.error ??= error instanceof Error ? error.message : String(error);
+        continue;
+      }
+
+      for (const testCase of group) {
+        testCase.inputFeatures = features;
+        testCase.inputFeaturesKey = key;
+        await this.testCaseRepository.upsert(testCase);
+      }
+    }
+
+    return result;
+  }
+}
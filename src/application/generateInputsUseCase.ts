@@ -0,0 +1,61 @@
+import type { IInOutFilesAdapter } from '../domain/interfaces/IInOutFilesAdapter';
+import type { IInputGenerator } from '../domain/interfaces/IInputGenerator';
+import { PreconditionFailedError } from './exceptions';
+
+/**
+ * 入力生成コマンドの設定のインターフェース
+ */
+export interface IInputGeneratorConfig {
+  inputGeneratorCommand(): Promise<string>;
+}
+
+export interface GenerateInputsResult {
+  /** 入力ファイルを生成した Seed（昇順） */
+  generatedSeeds: number[];
+}
+
+/**
+ * 入力ファイルがない Seed の入力を公式ツールの入力生成プログラムで生成するユースケース
+ *
+ * フロー:
+ * 1. 入力ファイルがない Seed を求める（なければ何もしない）
+ * 2. tools/seeds.txt を書き込み、入力生成コマンドを実行
+ * 3. 入力ファイルが生成されたことを確認
+ */
+export class GenerateInputsUseCase {
+  constructor(
+    private inOutFilesAdapter: IInOutFilesAdapter,
+    private inputGenerator: IInputGenerator,
+    private inputGeneratorConfig: IInputGeneratorConfig,
+  ) {}
+
+  /**
+   * 入力ファイルがない Seed の入力を生成する
+   * @param seeds 入力ファイルが必要な Seed 一覧
+   * @throws PreconditionFailedError - tools ディレクトリがない場合、生成後も入力ファイルがない場合
+   */
+  async handle(seeds: number[]): Promise<GenerateInputsResult> {
+    const missingSeeds = await this.inOutFilesAdapter.findMissingInputs(seeds);
+    if (missingSeeds.length === 0) {
+      return { generatedSeeds: [] };
+    }
+
+    if (!(await this.inputGenerator.isAvailable())) {
+      throw new PreconditionFailedError(
+        'tools ディレクトリが見つからないため入力ファイルを生成できません。公式ツールをダウンロードしてください',
+      );
+    }
+
+    const command = await this.inputGeneratorConfig.inputGeneratorCommand();
+    await this.inputGenerator.generate(missingSeeds[missingSeeds.length - 1], command);
+
+    const stillMissingSeeds = await this.inOutFilesAdapter.findMissingInputs(missingSeeds);
+    if (stillMissingSeeds.length > 0) {
+      throw new PreconditionFailedError(
+        `入力生成コマンド（${command}）を実行しましたが、入力ファイルが作成されませんでした（${stillMissingSeeds.length} Seeds）`,
+      );
+    }
+
+    return { generatedSeeds: missingSeeds };
+  }
+}
@@ -0,0 +1,125 @@
+import type { IExecutionRepository } from '../domain/interfaces/IExecutionRepository';
+import type { IFileAnalyzer } from '../domain/interfaces/IFileAnalyzer';
+import type { IInOutFilesAdapter } from '../domain/interfaces/IInOutFilesAdapter';
+import type { IInputFeatureAnalyzer } from '../domain/interfaces/IInputFeatureAnalyzer';
+import type { IPahcerConfigRepository } from '../domain/interfaces/IPahcerConfigRepository';
+import type { ITestCaseRepository } from '../domain/interfaces/ITestCaseRepository';
+import type { IUIConfigRepository } from '../domain/interfaces/IUIConfigRepository';
+import { InputFeatureExtractor } from '../domain/services/inputFeatureExtractor';
+import { ResourceNotFoundError } from './exceptions';
+
+/** キャッシュした特徴量を探す実行の数（新しい順） */
+const MAX_CACHED_EXECUTIONS = 20;
+
+export interface InputFeatures {
+  /** 入力ファイル1行目から抽出する変数の定義（e.g., "N M K"） */
+  featureString: string;
+  /**
+   * Seed ごとの入力ファイル1行目（入力ファイルがない場合は空文字列）と、
+   * 特徴量の抽出ルール・スクリプトで抽出した特徴量
+   */
+  inputs: Array<{ seed: number; firstInputLine: string; inputFeatures: Record<string, number> }>;
+}
+
+/**
+ * pahcer 設定の Seed 範囲にある入力ファイルの特徴量を読み込むユースケース
+ * 特徴量に対する条件式から Seed セットを作成するために使用する
+ *
+ * フロー:
+ * 1. pahcer設定から Seed 範囲を取得
+ * 2. 比較設定から特徴量の定義を取得
+ * 3. 各 Seed の入力ファイル1行目を並列読み込み
+ * 4. 特徴量の抽出ルール・スクリプトがあれば、最近の実行の TestCase にキャッシュした特徴量
+ *    （ExtractInputFeaturesUseCase が現在の設定で抽出したもの）を使い、キャッシュがない Seed だけ抽出する
+ */
+export class LoadInputFeaturesUseCase {
+  constructor(
+    private pahcerConfigRepository: IPahcerConfigRepository,
+    private uiConfigRepository: IUIConfigRepository,
+    private executionRepository: IExecutionRepository,
+    private testCaseRepository: ITestCaseRepository,
+    private inOutFilesAdapter: IInOutFilesAdapter,
+    private fileAnalyzer: IFileAnalyzer,
+    private inputFeatureAnalyzer: IInputFeatureAnalyzer,
+  ) {}
+
+  /**
+   * 入力ファイルの特徴量を読み込む
+   *
+   * @throws ResourceNotFoundError - pahcer設定が見つからない場合
+   */
+  async handle(): Promise<InputFeatures> {
+    const config = await this.pahcerConfigRepository.findById('normal');
+    if (!config) {
+      throw new ResourceNotFoundError('pahcer 設定');
+    }
+
+    const { featureString, inputFeatureRules, inputFeatureScript } =
+      await this.uiConfigRepository.find();
+
+    const seeds: number[] = [];
+    for (let seed = config.startSeed; seed < config.endSeed; seed++) {
+      seeds.push(seed);
+    }
+    const firstInputLines = await Promise.all(
+      seeds.map((seed) =>
+        this.fileAnalyzer.readFirstLine(this.inOutFilesAdapter.getNonArchivedPath('in', seed)),
+      ),
+    );
+
+    const hasExtraction = inputFeatureRules.length > 0 || inputFeatureScript.trim() !== '';
+    const cachedFeatures = hasExtraction
+      ? await this.findCachedFeatures(
+          seeds,
+          InputFeatureExtractor.cacheKey(inputFeatureRules, inputFeatureScript),
+        )
+      : new Map<number, Record<string, number>>();
+
+    // スクリプトを大量に同時起動しないよう、Seed ごとに順に抽出する
+    const inputs: InputFeatures['inputs'] = [];
+    for (const [i, seed] of seeds.entries()) {
+      inputs.push({
+        seed,
+        firstInputLine: firstInputLines[i],
+        inputFeatures: hasExtraction
+          ? (cachedFeatures.get(seed) ??
+            (await this.inputFeatureAnalyzer.analyze(seed, inputFeatureRules, inputFeatureScript)))
+          : {},
+      });
+    }
+
+    return { featureString, inputs };
+  }
+
+  /**
+   * 最近の実行の TestCase から、現在の設定で抽出してキャッシュした特徴量を Seed ごとに集める
+   * 入力ファイルは実行によらず同じため、Seed ごとに新しい実行のものを 1 つ使う
+   */
+  private async findCachedFeatures(
+    seeds: number[],
+    key: string,
+  ): Promise<Map<number, Record<string, number>>> {
+    const targetSeeds = new Set(seeds);
+    const cachedFeatures = new Map<number, Record<string, number>>();
+
+    const executions = await this.executionRepository.findAll();
+    for (const execution of executions.slice(0, MAX_CACHED_EXECUTIONS)) {
+      if (cachedFeatures.size === targetSeeds.size) {
+        break;
+      }
+      for (const testCase of await this.testCaseRepository.findByExecutionId(execution.id)) {
+        const seed = testCase.id.seed;
+        if (
+          targetSeeds.has(seed) &&
+          !cachedFeatures.has(seed) &&
+          testCase.inputFeaturesKey === key &&
+          testCase.inputFeatures
+        ) {
+          cachedFeatures.set(seed, testCase.inputFeatures);
+        }
+      }
+    }
+
+    return cachedFeatures;
+  }
+}
@@ -1,11 +1,15 @@
+import type { IBaselineRepository } from '../domain/interfaces/IBaselineRepository';
 import type { IExecutionRepository } from '../domain/interfaces/IExecutionRepository';
 import type { IPahcerConfigRepository } from '../domain/interfaces/IPahcerConfigRepository';
+import type { ISeedSetRepository } from '../domain/interfaces/ISeedSetRepository';
 import type { ITestCaseRepository } from '../domain/interfaces/ITestCaseRepository';
 import type { ITestCaseSummaryQueryService } from '../domain/interfaces/ITestCaseSummaryQueryService';
+import type { IUIConfigRepository } from '../domain/interfaces/IUIConfigRepository';
 import { type TestCase, TestCaseId } from '../domain/models/testCase';
 import { TreeData } from '../domain/models/treeData';
-import { BestScoreCalculator } from '../domain/services/bestScoreCalculator';
 import { ExecutionStatsCalculator } from '../domain/services/executionStatsAggregator';
+import { RelativeScoreCalculator } from '../domain/services/relativeScoreCalculator';
+import { TimeLimitClassifier } from '../domain/services/timeLimitClassifier';
 import { ResourceNotFoundError } from './exceptions';
 
 /**
@@ -18,9 +22,10 @@ import { ResourceNotFoundError } from './exceptions';
  *
  * フロー:
  * 1. 実行結果（Execution）を全件取得
- * 2. pahcer設定を取得
- * 3. 各実行のテストケースを軽量読み込み（メタデータや出力存在確認は行わない）
- * 4. ベストスコアを計算（ドメインサービス）
+ * 2. pahcer設定と実行時間制限、絞り込む Seed セットを取得
+ * 3. 各実行のテストケースを軽量読み込み（メタデータや出力存在確認は行わない）、基準実行を取得
+ *    （Seed セットで絞り込む場合は、セット外のテストケースとケースが 1 つも残らない実行を除外）
+ * 4. ベストスコアと相対スコアの参照データを計算（ドメインサービス）
  * 5. 実行統計を計算（ドメインサービス）
  * 6. TreeData として返す
  */
@@ -30,17 +35,21 @@ export class LoadPahcerTreeDataUseCase {
     private testCaseRepository: ITestCaseRepository,
     private testCaseSummaryQueryService: ITestCaseSummaryQueryService,
     private pahcerConfigRepository: IPahcerConfigRepository,
+    private baselineRepository: IBaselineRepository,
+    private uiConfigRepository: IUIConfigRepository,
+    private seedSetRepository: ISeedSetRepository,
   ) {}
 
   /**
    * TreeView表示用データを読み込む
    *
+   * @param relativeScoreMethod 相対スコアの計算方式
    * @returns TreeData - TreeView表示に必要な計算済みデータ
    * @throws ResourceNotFoundError - pahcer設定が見つからない場合
    */
-  async load(): Promise<TreeData> {
+  async load(relativeScoreMethod: RelativeScoreCalculator.Method = 'bestRatio'): Promise<TreeData> {
     // 実行結果を全件取得
-    const executions = await this.executionRepository.findAll();
+    const allExecutions = await this.executionRepository.findAll();
 
     // pahcer設定を取得
     const config = await this.pahcerConfigRepository.findById('normal');
@@ -48,27 +57,59 @@ export class LoadPahcerTreeDataUseCase {
       throw new ResourceNotFoundError('pahcer 設定');
     }
 
+    // 実行時間制限と絞り込む Seed セットを取得（削除済みの Seed セットは無視する）
+    const uiConfig = await this.uiConfigRepository.find();
+    const timeLimit = TimeLimitClassifier.fromConfig(uiConfig);
+    const seedSet = uiConfig.treeSeedSetFilter
+      ? await this.seedSetRepository.findByName(uiConfig.treeSeedSetFilter)
+      : undefined;
+
     // Root表示用に軽量テストケースを読み込む
     const testCasesByExecution = await Promise.all(
-      executions.map((execution) =>
-        this.testCaseSummaryQueryService.findByExecutionId(execution.id),
-      ),
+      allExecutions.map(async (execution) => {
+        const testCases = await this.testCaseSummaryQueryService.findByExecutionId(execution.id);
+        return seedSet ? testCases.filter((tc) => seedSet.has(tc.id.seed)) : testCases;
+      }),
     );
+    const executions = seedSet
+      ? allExecutions.filter((_, index) => testCasesByExecution[index].length > 0)
+      : allExecutions;
     const allTestCases = testCasesByExecution.flat();
 
-    // ベストスコアを計算
-    const bestScores = BestScoreCalculator.calculate(allTestCases, config.objective);
+    // 基準実行を取得（削除済みの実行は無視する）
+    const pinnedExecutionId = await this.baselineRepository.find();
+    const baselineExecutionId = executions.some((e) => e.id === pinnedExecutionId)
+      ? pinnedExecutionId
+      : undefined;
+
+    // ベストスコアと相対スコアの参照データを計算
+    const relativeScoreContext = RelativeScoreCalculator.createContext(
+      allTestCases,
+      config.objective,
+      relativeScoreMethod,
+      baselineExecutionId,
+    );
 
     // 実行統計を計算
     const executionStatsList = ExecutionStatsCalculator.calculate(
       executions,
       allTestCases,
-      bestScores,
-      config.objective,
+      relativeScoreContext,
+      timeLimit,
     );
 
     // TreeData として返す
-    return new TreeData(executions, allTestCases, config, bestScores, executionStatsList);
+    return new TreeData(
+      executions,
+      allTestCases,
+      config,
+      relativeScoreContext.bestScores,
+      relativeScoreContext,
+      executionStatsList,
+      baselineExecutionId,
+      timeLimit,
+      seedSet,
+    );
   }
 
   /**
@@ -0,0 +1,59 @@
+import type { IBaselineRepository } from '../domain/interfaces/IBaselineRepository';
+import type { IExecutionRepository } from '../domain/interfaces/IExecutionRepository';
+import type { IPahcerConfigRepository } from '../domain/interfaces/IPahcerConfigRepository';
+import type { ITestCaseSummaryQueryService } from '../domain/interfaces/ITestCaseSummaryQueryService';
+import { ExecutionRetentionPlanner } from '../domain/services/executionRetentionPlanner';
+import { ResourceNotFoundError } from './exceptions';
+
+/**
+ * 実行結果の整理計画（ドライラン）を作成するユースケース
+ * 実際の削除は DeleteExecutionsUseCase が担当する
+ *
+ * 責務:
+ * - 実行結果、設定、軽量テストケース、基準実行を読み込み
+ * - ドメインサービスで保持ルールに従って削除対象を決定
+ *
+ * フロー:
+ * 1. 実行結果（Execution）を全件取得
+ * 2. pahcer設定を取得
+ * 3. 各実行のテストケースを軽量読み込み、基準実行を取得
+ * 4. 整理計画を作成（ドメインサービス）
+ */
+export class PlanExecutionPruneUseCase {
+  constructor(
+    private executionRepository: IExecutionRepository,
+    private testCaseSummaryQueryService: ITestCaseSummaryQueryService,
+    private pahcerConfigRepository: IPahcerConfigRepository,
+    private baselineRepository: IBaselineRepository,
+  ) {}
+
+  /**
+   * 整理計画を作成する（ファイルは削除しない）
+   *
+   * @param policy 保持ルール
+   * @throws ResourceNotFoundError - pahcer設定が見つからない場合
+   */
+  async handle(policy: ExecutionRetentionPlanner.Policy): Promise<ExecutionRetentionPlanner.Plan> {
+    const executions = await this.executionRepository.findAll();
+
+    const config = await this.pahcerConfigRepository.findById('normal');
+    if (!config) {
+      throw new ResourceNotFoundError('pahcer 設定');
+    }
+
+    const testCasesByExecution = await Promise.all(
+      executions.map((execution) =>
+        this.testCaseSummaryQueryService.findByExecutionId(execution.id),
+      ),
+    );
+    const baselineId = await this.baselineRepository.find();
+
+    return ExecutionRetentionPlanner.plan(
+      executions,
+      testCasesByExecution.flat(),
+      config.objective,
+      policy,
+      baselineId,
+    );
+  }
+}
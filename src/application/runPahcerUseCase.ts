@@ -1,20 +1,39 @@
 import type { IExecutionRepository } from '../domain/interfaces/IExecutionRepository';
-import type { IFileAnalyzer } from '../domain/interfaces/IFileAnalyzer';
 import type { IInOutFilesAdapter } from '../domain/interfaces/IInOutFilesAdapter';
 import type { IPahcerAdapter } from '../domain/interfaces/IPahcerAdapter';
 import type { IPahcerConfigRepository } from '../domain/interfaces/IPahcerConfigRepository';
 import type { ITestCaseRepository } from '../domain/interfaces/ITestCaseRepository';
 import type { PahcerConfig } from '../domain/models/configFile';
-import type { PahcerRunOptions } from '../domain/models/pahcerStatus';
+import type { PahcerRunOptions, PahcerRunResult } from '../domain/models/pahcerStatus';
+import { RunProgress } from '../domain/models/runProgress';
+import { PahcerProgressParser } from '../domain/services/pahcerProgressParser';
+import { SeedList } from '../domain/services/seedList';
+import type { AnalyzeExecutionsUseCase } from './analyzeExecutionsUseCase';
 import type { CommitResultsUseCase, ConfirmGitIntegration } from './commitResultsUseCase';
 import { PreconditionFailedError, ResourceNotFoundError } from './exceptions';
+import type { GenerateInputsUseCase } from './generateInputsUseCase';
 
 export interface RunUseCaseRequest {
   options: PahcerRunOptions;
   confirmGitIntegration: ConfirmGitIntegration;
+  /** pahcer run の実行中、ケースが完了するたびに呼ばれるコールバック（開始時にも 1 回呼ばれる） */
+  onProgress?: (progress: RunProgress) => void;
 }
 
+/**
+ * pahcer run の終了状態
+ * - succeeded: 正常終了
+ * - failed: 0 以外の終了コードで終了
+ * - cancelled: ユーザーが中断
+ */
+export type RunStatus = 'succeeded' | 'failed' | 'cancelled';
+
 export interface RunUseCaseResult {
+  status: RunStatus;
+  /** 今回の実行 ID（実行結果が作成されなかった場合は undefined） */
+  executionId?: string;
+  /** pahcer run の終了コード（シグナルで終了した場合は undefined） */
+  exitCode?: number;
   messages: string[];
 }
 
@@ -28,37 +47,88 @@ export interface RunUseCaseResult {
  * - 実行結果の解析とメタデータ保存
  *
  * フロー:
- * 1. 古い出力ファイルを削除
+ * 1. 古い出力ファイルを削除し、入力ファイルがない Seed の入力を生成（GenerateInputsUseCase）
  * 2. Git統合：実行前にソースコードをコミット（CommitResultsUseCase）
- * 3. テンポラリ設定ファイル作成（必要な場合）
- * 4. pahcer runコマンド実行
+ * 3. テンポラリ設定ファイル作成（Seed 範囲・並列実行数を指定した場合）
+ * 4. pahcer runコマンド実行（出力から進捗を解析してコールバックに通知）
  * 5. テンポラリファイルクリーンアップ
- * 6. 出力ファイルをコピー
- * 7. アーカイブ済みの出力ファイルを削除
- * 8. 実行結果を解析してメタデータ保存
- * 9. Git統合：実行後に結果をコミット（CommitResultsUseCase）
+ *    （Seed 一覧が指定された場合は連続した範囲ごとに 3〜5 を繰り返し、実行結果を 1 つにまとめる）
+ * 6. 中断された場合はここで終了（アーカイブ・コミットは行わず、Seed 一覧の場合は完了した範囲の実行結果も削除する）
+ * 7. 出力ファイルをコピー
+ * 8. アーカイブ済みの出力ファイルを削除
+ * 9. 実行結果を解析してメタデータ保存（AnalyzeExecutionsUseCase）
+ * 10. Git統合：実行後に結果をコミット（CommitResultsUseCase、異常終了した場合は行わない）
+ *
+ * tools/out やテンポラリ設定ファイルを共有するため、同時に実行できるのは 1 つだけ
  */
 export class RunPahcerUseCase {
+  private running = false;
+
   constructor(
     private pahcerAdapter: IPahcerAdapter,
     private commitResultsUseCase: CommitResultsUseCase,
     private inOutFilesAdapter: IInOutFilesAdapter,
-    private fileAnalyzer: IFileAnalyzer,
+    private analyzeExecutionsUseCase: AnalyzeExecutionsUseCase,
     private executionRepository: IExecutionRepository,
     private testCaseRepository: ITestCaseRepository,
     private pahcerConfigRepository: IPahcerConfigRepository,
+    private generateInputsUseCase: GenerateInputsUseCase,
   ) {}
 
+  /**
+   * pahcer run を実行中かどうか
+   */
+  isRunning(): boolean {
+    return this.running;
+  }
+
   /**
    * pahcer run を実行（全オーケストレーション含む）
+   * @throws PreconditionFailedError 既に実行中の場合
    */
   async handle(request: RunUseCaseRequest): Promise<RunUseCaseResult> {
-    const { options, confirmGitIntegration } = request;
+    if (this.running) {
+      throw new PreconditionFailedError(
+        'pahcer run は既に実行中です。続けて実行する場合は実行キューに追加してください',
+      );
+    }
+
+    this.running = true;
+    try {
+      return await this.execute(request);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async execute(request: RunUseCaseRequest): Promise<RunUseCaseResult> {
+    const { options, confirmGitIntegration, onProgress } = request;
     const messages: string[] = [];
 
     // 古い出力ファイルを削除（前回の実行結果のクリーンアップ）
     await this.inOutFilesAdapter.removeOutputs();
 
+    const seeds = options.seeds ? SeedList.normalize(options.seeds) : undefined;
+    if (seeds && seeds.length === 0) {
+      throw new PreconditionFailedError('実行する Seed が指定されていません');
+    }
+    const targetSeeds = await this.resolveTargetSeeds(options, seeds);
+
+    // 入力ファイルがない Seed（配布された範囲外の Seed など）の入力を生成
+    // 生成できなかった場合も実行は続ける（入力ファイルの扱いは pahcer の設定次第のため）
+    try {
+      const { generatedSeeds } = await this.generateInputsUseCase.handle(targetSeeds);
+      if (generatedSeeds.length > 0) {
+        messages.push(
+          `入力ファイルがなかった ${generatedSeeds.length} Seeds（${SeedList.format(generatedSeeds)}）の入力を生成しました`,
+        );
+      }
+    } catch (error) {
+      messages.push(
+        `入力ファイルの生成に失敗しました: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
     // Git統合 - 実行前にソースコードをコミット
     const beforeResult =
       await this.commitResultsUseCase.commitBeforeExecution(confirmGitIntegration);
@@ -66,25 +136,113 @@ export class RunPahcerUseCase {
       messages.push(beforeResult.message);
     }
 
-    // テンポラリ設定ファイルを作成（必要な場合）
-    const tempConfig = await this.prepareTemporaryConfig(options);
+    // Seed 一覧が指定された場合は連続した範囲ごとに分割して実行する
+    // パラメータは環境変数として渡す
+    const env = { ...options.env };
+    for (const [name, value] of Object.entries(options.params ?? {})) {
+      env[name] = String(value);
+    }
+    const baseOptions: PahcerRunOptions = { ...options, env };
+    const runOptionsList: PahcerRunOptions[] = seeds
+      ? SeedList.toRanges(seeds).map((range) => ({ ...baseOptions, ...range, seeds: undefined }))
+      : [baseOptions];
 
-    // pahcer runコマンドを実行
-    try {
-      await this.pahcerAdapter.run(options, tempConfig);
-    } finally {
-      if (tempConfig) {
-        // テンポラリ設定ファイルをクリーンアップ
-        await this.pahcerConfigRepository.delete('temporary');
+    // 進捗を初期化（Seed 範囲指定の場合、全ケース数は pahcer の出力から判明した時点で更新される）
+    const progress = new RunProgress(targetSeeds.length);
+    onProgress?.(progress);
+
+    // 今回の実行結果を特定するため、実行前の実行 ID を記録
+    const knownExecutionIds = new Set(
+      (await this.executionRepository.findAll()).map((execution) => execution.id),
+    );
+
+    // pahcer runコマンドを実行（中断・異常終了した場合は残りの範囲を実行しない）
+    let runResult: PahcerRunResult = { exitCode: 0, cancelled: false };
+    const newExecutionIds: string[] = [];
+    for (const [index, runOptions] of runOptionsList.entries()) {
+      // pahcer は実行結果のファイル名を秒単位の時刻で付けるため、
+      // 前の範囲の実行結果を上書きしないよう次の秒になってから実行する
+      if (index > 0) {
+        await waitForNextSecond();
       }
+
+      // テンポラリ設定ファイルを作成（必要な場合）
+      const tempConfig = await this.prepareTemporaryConfig(runOptions);
+      try {
+        runResult = await this.pahcerAdapter.run(runOptions, tempConfig, (line) => {
+          const parsed = PahcerProgressParser.parseLine(line);
+          if (parsed) {
+            // 範囲ごとのケース数ではなく Seed 一覧全体を全ケース数とする
+            progress.add(parsed.result, seeds ? undefined : parsed.total);
+            onProgress?.(progress);
+          }
+        });
+      } finally {
+        if (tempConfig) {
+          // テンポラリ設定ファイルをクリーンアップ
+          await this.pahcerConfigRepository.delete('temporary');
+        }
+      }
+
+      // この範囲で作成された実行結果
+      const createdIds = (await this.executionRepository.findAll())
+        .map((execution) => execution.id)
+        .filter((id) => !knownExecutionIds.has(id))
+        .sort();
+      for (const id of createdIds) {
+        knownExecutionIds.add(id);
+      }
+      newExecutionIds.push(...createdIds);
+      if (runResult.cancelled || runResult.exitCode !== 0) {
+        break;
+      }
+
+      // 範囲ごとの実行結果を 1 つずつ特定できない場合は、Seed が欠けた実行結果にならないよう中止する
+      if (seeds && createdIds.length !== 1) {
+        throw new PreconditionFailedError(
+          `Seed 範囲 ${index + 1}/${runOptionsList.length} の実行結果を特定できませんでした（新しい実行結果: ${createdIds.length} 件）`,
+        );
+      }
+    }
+
+    const { exitCode, cancelled } = runResult;
+
+    // 中断された場合は出力ファイルのアーカイブ・コミットを行わない
+    if (cancelled) {
+      // Seed 一覧の場合、完了した範囲の実行結果は出力ファイルも解析結果もない不完全なものになるため削除する
+      if (seeds && newExecutionIds.length > 0) {
+        for (const id of newExecutionIds) {
+          await this.executionRepository.delete(id);
+        }
+        messages.push(
+          '実行を中断しました。完了した範囲の実行結果は削除し、出力ファイルの保存と結果のコミットは行いませんでした',
+        );
+      } else {
+        messages.push('実行を中断しました。出力ファイルの保存と結果のコミットは行いませんでした');
+      }
+      return { status: 'cancelled', exitCode, messages };
     }
 
-    // 最新の実行結果を取得
-    const allExecutions = await this.executionRepository.findAll();
-    if (allExecutions.length === 0) {
+    // 範囲ごとに作成された実行結果を 1 つにまとめる
+    if (newExecutionIds.length > 1) {
+      await this.executionRepository.merge(newExecutionIds[0], newExecutionIds.slice(1));
+    }
+
+    // 今回の実行結果を取得
+    const latestExecution =
+      newExecutionIds.length > 0
+        ? await this.executionRepository.findById(newExecutionIds[0])
+        : undefined;
+    const failed = exitCode !== 0;
+    if (!latestExecution) {
+      if (failed) {
+        messages.push(
+          `pahcer run が異常終了しました（終了コード: ${exitCode ?? '不明'}）。実行結果は作成されませんでした`,
+        );
+        return { status: 'failed', exitCode, messages };
+      }
       throw new PreconditionFailedError('実行結果が取得できませんでした');
     }
-    const latestExecution = allExecutions[0];
 
     // 出力ファイルをコピー
     await this.inOutFilesAdapter.archiveOutputs(latestExecution.id);
@@ -93,11 +251,15 @@ export class RunPahcerUseCase {
     await this.inOutFilesAdapter.removeOutputs();
 
     // 実行結果を解析してメタデータを保存
-    await this.analyzeExecution(latestExecution.id);
+    await this.analyzeExecutionsUseCase.handle([latestExecution.id]);
 
-    // コミットハッシュを保存
-    if (beforeResult.commitHash) {
-      latestExecution.commitHash = beforeResult.commitHash;
+    // コミットハッシュ・部分実行かどうか・パラメータ・実行プロファイルを保存
+    // （コメントは pahcer run の --comment で実行結果に書き込まれる）
+    if (beforeResult.commitHash || seeds || options.params || options.profileName) {
+      latestExecution.commitHash = beforeResult.commitHash ?? undefined;
+      latestExecution.partial = seeds !== undefined;
+      latestExecution.params = { ...options.params };
+      latestExecution.profileName = options.profileName;
       await this.executionRepository.upsert(latestExecution);
     }
 
@@ -106,13 +268,21 @@ export class RunPahcerUseCase {
     const caseCount = executionTestCases.length;
     const totalScore = executionTestCases.reduce((sum, tc) => sum + tc.score, 0);
 
+    // 異常終了した場合は結果を保存したうえでコミットは行わない
+    if (failed) {
+      messages.push(
+        `pahcer run が異常終了しました（終了コード: ${exitCode ?? '不明'}）。実行結果は保存しましたが、結果のコミットは行いませんでした`,
+      );
+      return { status: 'failed', executionId: latestExecution.id, exitCode, messages };
+    }
+
     // Git統合 - 実行後に結果をコミット
     const afterResult = await this.commitResultsUseCase.commitAfterExecution(caseCount, totalScore);
     if (afterResult.message) {
       messages.push(afterResult.message);
     }
 
-    return { messages };
+    return { status: 'succeeded', executionId: latestExecution.id, exitCode, messages };
   }
 
   /**
@@ -121,7 +291,11 @@ export class RunPahcerUseCase {
   private async prepareTemporaryConfig(
     options: PahcerRunOptions,
   ): Promise<PahcerConfig | undefined> {
-    if (options.startSeed === undefined && options.endSeed === undefined) {
+    if (
+      options.startSeed === undefined &&
+      options.endSeed === undefined &&
+      options.threads === undefined
+    ) {
       // テンポラリ設定ファイルは不要
       return undefined;
     }
@@ -138,6 +312,10 @@ export class RunPahcerUseCase {
     if (options.endSeed !== undefined) {
       tempConfig.endSeed = options.endSeed;
     }
+    // 並列実行数が指定されている場合（実行プロファイルなど）
+    if (options.threads !== undefined) {
+      tempConfig.threads = options.threads;
+    }
 
     // 更新した設定を保存
     await this.pahcerConfigRepository.upsert(tempConfig);
@@ -146,27 +324,28 @@ export class RunPahcerUseCase {
   }
 
   /**
-   * 実行結果を解析してメタデータを保存
+   * 実行する Seed 一覧、または設定ファイルの Seed 範囲（オプションで上書き）から実行対象の Seed を求める
    */
-  private async analyzeExecution(executionId: string): Promise<void> {
-    const testCases = await this.testCaseRepository.findByExecutionId(executionId);
-
-    // 各テストケースにメタデータを追加して保存
-    await Promise.all(
-      testCases.map(async (tc) => {
-        const inputPath = this.inOutFilesAdapter.getNonArchivedPath('in', tc.id.seed);
-        const stderrPath = this.inOutFilesAdapter.getArchivedPath('err', tc.id);
-
-        // 解析データを取得
-        const firstInputLine = await this.fileAnalyzer.readFirstLine(inputPath);
-        const stderrVars = (await this.fileAnalyzer.parseStderrVariables(stderrPath)) || {};
-
-        // TestCaseに解析データを追加
-        tc.firstInputLine = firstInputLine;
-        tc.stderrVars = stderrVars;
-
-        await this.testCaseRepository.upsert(tc);
-      }),
-    );
+  private async resolveTargetSeeds(
+    options: PahcerRunOptions,
+    seeds: number[] | undefined,
+  ): Promise<number[]> {
+    if (seeds) {
+      return seeds;
+    }
+    const config = await this.pahcerConfigRepository.findById('normal');
+    if (!config) {
+      return [];
+    }
+    const startSeed = options.startSeed ?? config.startSeed;
+    const endSeed = options.endSeed ?? config.endSeed;
+    return Array.from({ length: Math.max(endSeed - startSeed, 0) }, (_, i) => startSeed + i);
   }
 }
+
+/**
+ * 次の秒になるまで待つ
+ */
+function waitForNextSecond(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 1000 - (Date.now() % 1000) + 10));
+}
@@ -0,0 +1,65 @@
+import type { PahcerRunOptions } from '../domain/models/pahcerStatus';
+import type { RunProgress } from '../domain/models/runProgress';
+import { ParameterSweep } from '../domain/services/parameterSweep';
+import type { ConfirmGitIntegration } from './commitResultsUseCase';
+import type { RunPahcerUseCase, RunUseCaseResult } from './runPahcerUseCase';
+
+export interface RunParameterSweepRequest {
+  /** 実行するパラメータの組み合わせ */
+  combinations: ParameterSweep.Params[];
+  /** 各実行に共通のオプション（params と comment は組み合わせごとに上書きする） */
+  options: PahcerRunOptions;
+  confirmGitIntegration: ConfirmGitIntegration;
+  /** 各組み合わせの実行開始時に呼ばれるコールバック（index は 0 始まり） */
+  onRunStart?: (index: number, params: ParameterSweep.Params) => void;
+  /** pahcer run の実行中、ケースが完了するたびに呼ばれるコールバック */
+  onProgress?: (progress: RunProgress) => void;
+}
+
+export interface RunParameterSweepResult {
+  runs: Array<{ params: ParameterSweep.Params; result: RunUseCaseResult }>;
+  /** 途中で中断・打ち切りされた場合は true */
+  stopped: boolean;
+}
+
+/**
+ * パラメータスイープ実行ユースケース
+ *
+ * 責務:
+ * - パラメータの組み合わせごとに pahcer run を実行（RunPahcerUseCase）
+ * - 各実行結果にパラメータとコメントを記録（パラメータは環境変数として解答プログラムに渡される）
+ *
+ * 中断された場合、または実行結果が作成されないまま異常終了した場合（コンパイルエラーなど）は
+ * 以降の組み合わせを実行しない
+ */
+export class RunParameterSweepUseCase {
+  constructor(private runPahcerUseCase: RunPahcerUseCase) {}
+
+  async handle(request: RunParameterSweepRequest): Promise<RunParameterSweepResult> {
+    const { combinations, options, confirmGitIntegration, onRunStart, onProgress } = request;
+    const runs: RunParameterSweepResult['runs'] = [];
+
+    for (const [index, params] of combinations.entries()) {
+      onRunStart?.(index, params);
+      const result = await this.runPahcerUseCase.handle({
+        options: {
+          ...options,
+          params: { ...options.params, ...params },
+          comment: `sweep: ${ParameterSweep.format(params)}`,
+        },
+        confirmGitIntegration,
+        onProgress,
+      });
+      runs.push({ params, result });
+
+      if (
+        result.status === 'cancelled' ||
+        (result.status === 'failed' && result.executionId === undefined)
+      ) {
+        return { runs, stopped: index < combinations.length - 1 };
+      }
+    }
+
+    return { runs, stopped: false };
+  }
+}
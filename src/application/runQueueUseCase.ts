@@ -0,0 +1,120 @@
+import type { ISeedSetRepository } from '../domain/interfaces/ISeedSetRepository';
+import type { RunProgress } from '../domain/models/runProgress';
+import type { QueuedRun, RunQueue } from '../domain/models/runQueue';
+import type { ConfirmGitIntegration } from './commitResultsUseCase';
+import { PreconditionFailedError, ResourceNotFoundError } from './exceptions';
+import type { RunPahcerUseCase, RunUseCaseResult } from './runPahcerUseCase';
+
+export interface RunQueueRequest {
+  queue: RunQueue;
+  confirmGitIntegration: ConfirmGitIntegration;
+  /** キューから取り出して実行を開始するときに呼ばれるコールバック */
+  onRunStart?: (run: QueuedRun) => void;
+  /** 1 つの実行が終了するたびに呼ばれるコールバック */
+  onRunFinish?: (run: QueuedRun, result: RunUseCaseResult) => void;
+  /** pahcer run の実行中、ケースが完了するたびに呼ばれるコールバック */
+  onProgress?: (progress: RunProgress) => void;
+}
+
+export interface RunQueueResult {
+  runs: Array<{ run: QueuedRun; result: RunUseCaseResult }>;
+  /** 実行待ちを残して打ち切った場合は true */
+  stopped: boolean;
+}
+
+/**
+ * 実行キュー処理ユースケース
+ *
+ * 責務:
+ * - キューの先頭から 1 つずつ pahcer run を実行（RunPahcerUseCase）
+ * - Seed セットを実行開始時点の内容で Seed 一覧に解決
+ *
+ * 中断された場合、または実行結果が作成されないまま異常終了した場合（コンパイルエラーなど）は
+ * 残りをキューに残したまま終了する
+ * 実行を開始できずに例外が発生した場合は、取り出した実行もキューの先頭に戻す
+ * 実行中にキューへ追加・並べ替えた内容は、次に取り出すときに反映される
+ */
+export class RunQueueUseCase {
+  private processing = false;
+
+  constructor(
+    private runPahcerUseCase: RunPahcerUseCase,
+    private seedSetRepository: ISeedSetRepository,
+  ) {}
+
+  /**
+   * キューを処理中かどうか
+   */
+  isProcessing(): boolean {
+    return this.processing;
+  }
+
+  /**
+   * キューが空になるまで順番に実行する
+   * @throws PreconditionFailedError 既にキューを処理中、または pahcer run を実行中の場合
+   * @throws ResourceNotFoundError 先頭の Seed セットが見つからない場合（キューには残す）
+   */
+  async handle(request: RunQueueRequest): Promise<RunQueueResult> {
+    if (this.processing) {
+      throw new PreconditionFailedError('実行キューは既に実行中です');
+    }
+    if (this.runPahcerUseCase.isRunning()) {
+      throw new PreconditionFailedError(
+        'pahcer run の実行中です。終了してから実行キューを開始してください',
+      );
+    }
+
+    this.processing = true;
+    try {
+      return await this.processQueue(request);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async processQueue(request: RunQueueRequest): Promise<RunQueueResult> {
+    const { queue, confirmGitIntegration, onRunStart, onRunFinish, onProgress } = request;
+    const runs: RunQueueResult['runs'] = [];
+
+    for (let run = queue.peek(); run; run = queue.peek()) {
+      // Seed セットが見つからない場合はキューから取り出さずに終了する
+      const seeds = await this.resolveSeeds(run);
+      queue.dequeue();
+      onRunStart?.(run);
+
+      let result: RunUseCaseResult;
+      try {
+        result = await this.runPahcerUseCase.handle({
+          options: { ...run.options, seeds },
+          confirmGitIntegration,
+          onProgress,
+        });
+      } catch (error) {
+        queue.requeue(run);
+        throw error;
+      }
+      runs.push({ run, result });
+      onRunFinish?.(run, result);
+
+      if (
+        result.status === 'cancelled' ||
+        (result.status === 'failed' && result.executionId === undefined)
+      ) {
+        return { runs, stopped: queue.length > 0 };
+      }
+    }
+
+    return { runs, stopped: false };
+  }
+
+  private async resolveSeeds(run: QueuedRun): Promise<number[] | undefined> {
+    if (!run.seedSetName) {
+      return run.options.seeds;
+    }
+    const seedSet = await this.seedSetRepository.findByName(run.seedSetName);
+    if (!seedSet) {
+      throw new ResourceNotFoundError('Seed セット', run.seedSetName);
+    }
+    return seedSet.seeds;
+  }
+}
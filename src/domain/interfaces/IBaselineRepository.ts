@@ -0,0 +1,22 @@
+/**
+ * 基準実行（ベースライン）のリポジトリインターフェース
+ */
+export interface IBaselineRepository {
+  /**
+   * 基準実行の ID を読み込む
+   * 未設定の場合は undefined を返す
+   * その他のエラーは投げ直す
+   */
+  find(): Promise<string | undefined>;
+
+  /**
+   * 基準実行の ID を保存する
+   */
+  upsert(executionId: string): Promise<void>;
+
+  /**
+   * 基準実行の設定を解除する
+   * 未設定の場合は何もしない
+   */
+  delete(): Promise<void>;
+}
@@ -22,4 +22,17 @@ export interface IExecutionRepository {
    * Execution を保存または更新
    */
   upsert(execution: Execution): Promise<void>;
+
+  /**
+   * Execution を削除
+   * result.json と保存済みの出力ファイル・メタデータ（.pahcer-ui/results/result_{id}）を削除する
+   * 存在しない場合は何もしない
+   */
+  delete(executionId: string): Promise<void>;
+
+  /**
+   * 複数の実行結果を 1 つにまとめる
+   * sourceIds の各ケースを targetId の result.json に追加し（同じ Seed は後のもので上書き）、sourceIds の実行結果は削除する
+   */
+  merge(targetId: string, sourceIds: string[]): Promise<void>;
 }
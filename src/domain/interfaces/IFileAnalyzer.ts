@@ -1,3 +1,6 @@
+import type { StderrPattern } from '../models/uiConfig';
+import type { StderrParser } from '../services/stderrParser';
+
 /**
  * ファイル解析の抽象化インターフェース
  *
@@ -36,20 +39,11 @@ export interface IFileAnalyzer {
   ): Promise<Map<string, { head: string; tail: string }>>;
 
   /**
-   * stderrファイルから変数を抽出（$varname = value）
+   * stderrファイル全体から変数・タグ・推移を抽出
+   * @param patterns 有効な形式
    */
-  parseStderrVariables(
+  analyzeStderr(
     filePath: string,
-    headLines?: number,
-    tailLines?: number,
-  ): Promise<Record<string, number>>;
-
-  /**
-   * 複数のstderrファイルから変数を並列抽出
-   */
-  parseStderrVariablesParallel(
-    filePaths: string[],
-    headLines?: number,
-    tailLines?: number,
-  ): Promise<Map<string, Record<string, number>>>;
+    patterns: readonly StderrPattern[],
+  ): Promise<StderrParser.Analysis>;
 }
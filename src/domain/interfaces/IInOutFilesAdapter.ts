@@ -40,6 +40,13 @@ export interface IInOutFilesAdapter {
    */
   loadIn(seed: number): Promise<string>;
 
+  /**
+   * 入力ファイルが存在しない Seed を求める
+   * @param seeds 確認する Seed 一覧
+   * @returns 入力ファイルが存在しない Seed（昇順）
+   */
+  findMissingInputs(seeds: number[]): Promise<number[]>;
+
   /**
    * tools/out と tools/err ディレクトリを削除
    */
@@ -0,0 +1,19 @@
+import type { InputFeatureRule } from '../models/uiConfig';
+
+/**
+ * 入力ファイルから特徴量を抽出するアダプターインターフェース
+ */
+export interface IInputFeatureAnalyzer {
+  /**
+   * Seed の入力ファイル（tools/in）から特徴量を抽出する
+   * @param seed Seed
+   * @param rules 抽出ルール
+   * @param script 入力ファイルのパスを渡して `key=value` 形式で特徴量を出力させるコマンド（空の場合は使用しない）
+   * @returns 特徴量（ルールとスクリプトで同じ名前がある場合はスクリプトの値）
+   */
+  analyze(
+    seed: number,
+    rules: readonly InputFeatureRule[],
+    script: string,
+  ): Promise<Record<string, number>>;
+}
@@ -0,0 +1,17 @@
+/**
+ * 公式ツール（tools ディレクトリ）の入力生成プログラムで入力ファイルを生成するアダプターインターフェース
+ */
+export interface IInputGenerator {
+  /**
+   * 入力ファイルを生成できるか（tools ディレクトリがあるか）を確認
+   */
+  isAvailable(): Promise<boolean>;
+
+  /**
+   * tools/seeds.txt を書き込み、入力生成コマンドを tools ディレクトリで実行する
+   * seeds.txt の i 行目が tools/in/{i:04}.txt の入力になるため、既存の行は保持し、足りない行を追加する
+   * @param maxSeed 生成が必要な最大の Seed（seeds.txt はこの Seed の行まで書き込む）
+   * @param command 入力生成コマンド（e.g., "cargo run -r --bin gen seeds.txt"）
+   */
+  generate(maxSeed: number, command: string): Promise<void>;
+}
@@ -0,0 +1,32 @@
+/**
+ * ローカルのビジュアライザの実行結果
+ */
+export interface LocalVisualizerResult {
+  /** 結果ファイルの形式 */
+  contentType: 'html' | 'svg';
+  /** 結果ファイルの内容 */
+  content: string;
+  /** ビジュアライザが出力したスコア（出力がない場合は undefined） */
+  score: number | undefined;
+  /** スコア以外の標準出力（エラーメッセージなど、ない場合は空文字列） */
+  message: string;
+}
+
+/**
+ * 公式ツール（tools ディレクトリ）のローカルのビジュアライザ（vis）を実行するアダプターインターフェース
+ */
+export interface ILocalVisualizerAdapter {
+  /**
+   * ビジュアライザのコマンドを tools ディレクトリで実行し、結果ファイル（SVG または HTML）を読み込む
+   * @param inputPath 入力ファイルのパス（コマンドの `{input}` に置換される）
+   * @param outputPath 出力ファイルのパス（コマンドの `{output}` に置換される）
+   * @param command ビジュアライザのコマンド（e.g., "cargo run -r --bin vis {input} {output}"）
+   * @param resultFile 結果ファイルのパス（tools ディレクトリからの相対パス、e.g., "vis.html"）
+   */
+  run(
+    inputPath: string,
+    outputPath: string,
+    command: string,
+    resultFile: string,
+  ): Promise<LocalVisualizerResult>;
+}
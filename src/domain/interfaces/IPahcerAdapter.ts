@@ -1,5 +1,5 @@
 import type { PahcerConfig } from '../models/configFile';
-import type { PahcerRunOptions, PahcerStatus } from '../models/pahcerStatus';
+import type { PahcerRunOptions, PahcerRunResult, PahcerStatus } from '../models/pahcerStatus';
 
 /**
  * pahcer CLI ツールの実行と状態をチェックするアダプターインターフェース
@@ -12,10 +12,22 @@ export interface IPahcerAdapter {
 
   /**
    * pahcer run コマンドを実行
-   * @param options 実行オプション（startSeed, endSeed, freezeBestScores）
+   * @param options 実行オプション（freezeBestScores, shuffle, json, comment, env を使用。Seed 範囲・並列実行数は configFile で指定する）
    * @param configFile 設定ファイル（指定時はこちらを使用）
+   * @param onOutput 出力 1 行ごとに呼ばれるコールバック（進捗表示用）
+   * @returns 終了コードと中断されたかどうか
    */
-  run(options?: PahcerRunOptions, configFile?: PahcerConfig): Promise<number | undefined>;
+  run(
+    options?: PahcerRunOptions,
+    configFile?: PahcerConfig,
+    onOutput?: (line: string) => void,
+  ): Promise<PahcerRunResult>;
+
+  /**
+   * 実行中の pahcer run を中断する
+   * @returns 実行中の pahcer run があった場合は true
+   */
+  stop(): boolean;
 
   /**
    * pahcer init を実行
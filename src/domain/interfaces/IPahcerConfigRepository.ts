@@ -5,7 +5,6 @@ import type { ConfigId, PahcerConfig } from '../models/configFile';
  *
  * 責務:
  * - TOML ファイルの読み込み/書き込み
- * - TOML コンテンツから start_seed, end_seed, objective をパース
  * - PahcerConfig ドメインモデルへの変換
  */
 export interface IPahcerConfigRepository {
@@ -20,7 +19,7 @@ export interface IPahcerConfigRepository {
 
   /**
    * PahcerConfig をファイルに保存
-   * config.path に指定されているパスに保存
+   * config.path に指定されているパスに保存（コメント・書式・未知のキーは保持する）
    */
   upsert(config: PahcerConfig): Promise<void>;
 
@@ -0,0 +1,29 @@
+import type { RunProfile } from '../models/runProfile';
+
+/**
+ * 実行プロファイルのリポジトリインターフェース
+ */
+export interface IRunProfileRepository {
+  /**
+   * すべての実行プロファイルを保存順に取得
+   * @returns RunProfile 配列（存在しない場合は空配列）
+   */
+  findAll(): Promise<RunProfile[]>;
+
+  /**
+   * 名前で実行プロファイルを取得
+   * @returns RunProfile または undefined（存在しない場合）
+   */
+  findByName(name: string): Promise<RunProfile | undefined>;
+
+  /**
+   * 実行プロファイルを保存または更新（同名のものは同じ位置で置き換える）
+   */
+  upsert(profile: RunProfile): Promise<void>;
+
+  /**
+   * 実行プロファイルを削除
+   * 存在しない場合は何もしない
+   */
+  delete(name: string): Promise<void>;
+}
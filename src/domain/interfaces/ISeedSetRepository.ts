@@ -0,0 +1,29 @@
+import type { SeedSet } from '../models/seedSet';
+
+/**
+ * 名前付き Seed セットのリポジトリインターフェース
+ */
+export interface ISeedSetRepository {
+  /**
+   * すべての Seed セットを名前順に取得
+   * @returns SeedSet 配列（存在しない場合は空配列）
+   */
+  findAll(): Promise<SeedSet[]>;
+
+  /**
+   * 名前で Seed セットを取得
+   * @returns SeedSet または undefined（存在しない場合）
+   */
+  findByName(name: string): Promise<SeedSet | undefined>;
+
+  /**
+   * Seed セットを保存または更新
+   */
+  upsert(seedSet: SeedSet): Promise<void>;
+
+  /**
+   * Seed セットを削除
+   * 存在しない場合は何もしない
+   */
+  delete(name: string): Promise<void>;
+}
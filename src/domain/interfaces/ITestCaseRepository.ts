@@ -1,4 +1,4 @@
-import type { TestCase, TestCaseId } from '../models/testCase';
+import type { StderrSeries, TestCase, TestCaseId } from '../models/testCase';
 
 /**
  * テストケースリポジトリインターフェース
@@ -7,6 +7,7 @@ import type { TestCase, TestCaseId } from '../models/testCase';
  * データソース:
  * - pahcer/json/result_${executionId}.json (実行結果の元データ)
  * - .pahcer-ui/results/result_${executionId}/meta/testcase_{seed}.json (解析データ)
+ * - .pahcer-ui/results/result_${executionId}/meta/stderr_series_{seed}.json (stderr の変数の推移)
  *
  * 識別方法:
  * - executionId と seed の複合キーで TestCase を一意に識別
@@ -24,8 +25,15 @@ export interface ITestCaseRepository {
    */
   findByExecutionId(executionId: string): Promise<TestCase[]>;
 
+  /**
+   * 指定された TestCase の stderr の変数の推移を取得
+   * @returns 変数名 → 推移（解析されていない場合は undefined）
+   */
+  findStderrSeries(id: TestCaseId): Promise<Record<string, StderrSeries> | undefined>;
+
   /**
    * TestCase のメタデータを保存
+   * stderrSeries が設定されている場合は推移も保存する
    */
   upsert(testCase: TestCase): Promise<void>;
 }
@@ -1,7 +1,7 @@
 import type { UIConfig } from '../models/uiConfig';
 
 /**
- * 比較設定のリポジトリインターフェース
+ * 比較設定・問題固有設定のリポジトリインターフェース
  */
 export interface IUIConfigRepository {
   /**
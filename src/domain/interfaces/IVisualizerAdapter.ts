@@ -1,47 +1,67 @@
+import type { CachedVisualizer } from '../models/cachedVisualizer';
+
 /**
  * ビジュアライザのキャッシュ管理とダウンロードを行うアダプターインターフェース
  *
  * 責務:
  * - ビジュアライザファイルのダウンロード
+ * - ローカルのファイルからの取り込み
+ * - キャッシュされたビジュアライザの一覧・削除
  * - キャッシュされたファイルの読み込み・存在確認
  * - リソースパスの管理
  */
 export interface IVisualizerAdapter {
   /**
-   * キャッシュされたHTMLファイル名を取得
-   * @returns HTMLファイル名、存在しない場合は null
+   * キャッシュされたビジュアライザの一覧を取得
+   * @returns 取得日時の新しい順
    */
-  getCachedHtmlFileName(): Promise<string | null>;
+  list(): Promise<CachedVisualizer[]>;
 
   /**
    * ビジュアライザをダウンロード
+   * 同じ URL のビジュアライザがキャッシュされている場合は置き換える
    * @param url ビジュアライザのURL
-   * @returns ダウンロードされたHTMLファイル名
+   * @returns ダウンロードされたビジュアライザ
+   */
+  download(url: string): Promise<CachedVisualizer>;
+
+  /**
+   * ローカルの HTML ファイル・フォルダ・ZIP ファイルからビジュアライザを取り込む
+   * 依存ファイル（JS、CSS、WASM など）は取り込み元からの相対パスで解決する。同じ取り込み元のビジュアライザは置き換える
+   * @param sourcePath HTML ファイル・フォルダ・ZIP ファイルのパス
+   * @returns 取り込まれたビジュアライザ
+   */
+  importFromLocal(sourcePath: string): Promise<CachedVisualizer>;
+
+  /**
+   * ビジュアライザを取得元から取得し直す（失敗した場合は元のキャッシュを残す）
+   * @param id ビジュアライザの ID
    */
-  download(url: string): Promise<string>;
+  redownload(id: string): Promise<CachedVisualizer>;
 
   /**
-   * HTMLファイルのパスを取得
+   * キャッシュされたビジュアライザを削除
+   * @param id ビジュアライザの ID
    */
-  getHtmlPath(fileName: string): string;
+  delete(id: string): Promise<void>;
 
   /**
    * HTMLファイルを読み込む
    */
-  readHtml(fileName: string): Promise<string>;
+  readHtml(visualizer: CachedVisualizer): Promise<string>;
 
   /**
    * リソースファイルのパスを取得
    */
-  getResourcePath(fileName: string): string;
+  getResourcePath(visualizer: CachedVisualizer, fileName: string): string;
 
   /**
    * リソースファイルが存在するかチェック
    */
-  resourceExists(fileName: string): Promise<boolean>;
+  resourceExists(visualizer: CachedVisualizer, fileName: string): Promise<boolean>;
 
   /**
-   * ビジュアライザディレクトリのパスを取得
+   * ビジュアライザディレクトリ（すべてのビジュアライザを含む）のパスを取得
    */
   getVisualizerDir(): string;
 }
@@ -3,14 +3,20 @@
 export type { PahcerRunOptions } from '../models/pahcerStatus';
 // Domain Models (exported for use throughout app)
 export { PahcerStatus } from '../models/pahcerStatus';
+export type { IBaselineRepository } from './IBaselineRepository';
 export type { IExecutionRepository } from './IExecutionRepository';
 export type { IFileAnalyzer } from './IFileAnalyzer';
 export type { IGitAdapter } from './IGitAdapter';
 export type { IGitignoreAdapter } from './IGitignoreAdapter';
 export type { FileType, IInOutFilesAdapter } from './IInOutFilesAdapter';
+export type { IInputFeatureAnalyzer } from './IInputFeatureAnalyzer';
+export type { IInputGenerator } from './IInputGenerator';
+export type { ILocalVisualizerAdapter, LocalVisualizerResult } from './ILocalVisualizerAdapter';
 // Adapter Interfaces
 export type { IPahcerAdapter } from './IPahcerAdapter';
 export type { IPahcerConfigRepository } from './IPahcerConfigRepository';
+export type { IRunProfileRepository } from './IRunProfileRepository';
+export type { ISeedSetRepository } from './ISeedSetRepository';
 export type { ITestCaseRepository } from './ITestCaseRepository';
 export type { ITestCaseSummaryQueryService } from './ITestCaseSummaryQueryService';
 export type { DownloadedTester, ITesterDownloader } from './ITesterDownloader';
@@ -0,0 +1,71 @@
+import type { Dayjs } from 'dayjs';
+
+/**
+ * キャッシュされたビジュアライザ（1 つずつ `.pahcer-ui/visualizer/{id}/` に保存する）
+ */
+export class CachedVisualizer {
+  /**
+   * CachedVisualizer を構築する
+   * @param id ID - 不変（ディレクトリ名として使用する）
+   * @param htmlFileName HTMLファイル名（ビジュアライザのファイルのディレクトリからの相対パス）
+   * @param sourceType 取得元の種類（url: ダウンロード, local: ローカルのファイルから取り込み）
+   * @param source 取得元の URL またはパス（不明な場合は空文字列）
+   * @param downloadedAt 取得日時
+   * @param files ファイル一覧（ビジュアライザのファイルのディレクトリからの相対パス）
+   */
+  constructor(
+    public readonly id: string,
+    public readonly htmlFileName: string,
+    public readonly sourceType: 'url' | 'local',
+    public readonly source: string,
+    public readonly downloadedAt: Dayjs,
+    public readonly files: readonly string[],
+  ) {}
+
+  /**
+   * 取得元から取得し直せるか
+   */
+  canRedownload(): boolean {
+    return this.source !== '';
+  }
+
+  /**
+   * HTML から相対パスで参照しているファイル（`./main.js`, `css/style.css` など）をファイル一覧のファイルに解決する
+   * @param reference src・href などに書かれたパス（クエリ・フラグメントは無視する）
+   * @returns ファイル一覧のファイル（URL・絶対パス・一覧にないファイルの場合は undefined）
+   */
+  resolveFile(reference: string): string | undefined {
+    const filePath = reference.split(/[?#]/)[0];
+    if (filePath === '' || filePath.startsWith('/') || /^[a-z][a-z\d+.-]*:/i.test(filePath)) {
+      return undefined;
+    }
+
+    // HTML ファイルのディレクトリからの相対パスとして解決する
+    const segments = this.htmlFileName.split('/').slice(0, -1);
+    for (const segment of filePath.split('/')) {
+      if (segment === '..') {
+        if (segments.length === 0) {
+          return undefined;
+        }
+        segments.pop();
+      } else if (segment !== '.' && segment !== '') {
+        segments.push(segment);
+      }
+    }
+
+    const fileName = segments.join('/');
+    return this.files.includes(fileName) ? fileName : undefined;
+  }
+
+  /**
+   * 使用するビジュアライザを求める
+   * @param visualizers キャッシュされたビジュアライザ（新しい順）
+   * @param activeId 選択されているビジュアライザの ID（未選択・削除済みの場合は最も新しいものを使用する）
+   */
+  static findActive(
+    visualizers: readonly CachedVisualizer[],
+    activeId: string,
+  ): CachedVisualizer | undefined {
+    return visualizers.find((visualizer) => visualizer.id === activeId) ?? visualizers[0];
+  }
+}
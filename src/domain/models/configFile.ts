@@ -1,13 +1,52 @@
-import { DomainValidationError } from '../exceptions';
-
 export type ConfigId = 'normal' | 'temporary';
 
+/**
+ * pahcer のコンパイル・テストの 1 ステップ（`[[test.compile_steps]]` / `[[test.test_steps]]`）
+ *
+ * テストステップでは `{SEED}`, `{SEED04}` などのプレースホルダーが Seed に置換される
+ */
+export interface PahcerStep {
+  /** 実行するプログラム */
+  program: string;
+  /** 引数 */
+  args: string[];
+  /** 作業ディレクトリ（省略時はワークスペースルート） */
+  currentDir?: string;
+  /** 標準入力として渡すファイル */
+  stdin?: string;
+  /** 標準出力の保存先 */
+  stdout?: string;
+  /** 標準エラー出力の保存先 */
+  stderr?: string;
+  /** 実行時間の計測対象とするか */
+  measureTime: boolean;
+}
+
+/**
+ * problem_name, start_seed, end_seed, objective 以外の pahcer の設定
+ */
+export interface PahcerConfigDetails {
+  /** 設定ファイルを作成した pahcer のバージョン（読み取り専用） */
+  version: string;
+  /** 出力からスコアを抽出する正規表現（Rust の regex 構文、名前付きグループ score が必要） */
+  scoreRegex: string;
+  /** 並列実行数（0 の場合は CPU の論理コア数） */
+  threads: number;
+  /** 実行結果の出力先ディレクトリ */
+  outDir: string;
+  /** テスト前に 1 回だけ実行するステップ */
+  compileSteps: PahcerStep[];
+  /** Seed ごとに実行するステップ */
+  testSteps: PahcerStep[];
+}
+
 /**
  * pahcer の設定ファイル（pahcer_config.toml）のドメインモデル
  *
  * 責務:
- * - startSeed, endSeed, objective の値を保持
+ * - pahcer_config.toml の各設定値を保持
  * - 値の取得・設定を提供
+ * - 設定値の検証
  */
 export class PahcerConfig {
   constructor(
@@ -17,14 +56,55 @@ export class PahcerConfig {
     private _startSeed: number,
     private _endSeed: number,
     private _objective: 'max' | 'min',
-  ) {
-    if (this._startSeed < 0) {
-      throw new DomainValidationError('startSeed は非負数である必要があります');
-    }
+    private _details: PahcerConfigDetails,
+  ) {}
 
-    if (this._endSeed < this._startSeed) {
-      throw new DomainValidationError('endSeed は startSeed 以上である必要があります');
+  /**
+   * 設定値を検証する
+   * 既存の設定ファイルは pahcer が実行できる限り使えるよう、読み込み時には検証しない（設定の保存時のみ検証する）
+   * @returns 問題点の一覧（問題がなければ空配列）
+   */
+  static validate(
+    problemName: string,
+    startSeed: number,
+    endSeed: number,
+    details: PahcerConfigDetails,
+  ): string[] {
+    const errors: string[] = [];
+
+    if (problemName.trim() === '') {
+      errors.push('problem_name を指定してください');
+    }
+    if (!Number.isInteger(startSeed) || startSeed < 0) {
+      errors.push('start_seed は非負整数である必要があります');
+    }
+    if (!Number.isInteger(endSeed) || endSeed < startSeed) {
+      errors.push('end_seed は start_seed 以上の整数である必要があります');
+    }
+    if (!Number.isInteger(details.threads) || details.threads < 0) {
+      errors.push('threads は非負整数である必要があります（0 の場合は CPU の論理コア数）');
+    }
+    if (!/\(\?P?<score>/.test(details.scoreRegex)) {
+      errors.push('score_regex には名前付きグループ (?P<score>...) が必要です');
     }
+    if (details.outDir.trim() === '') {
+      errors.push('out_dir を指定してください');
+    }
+    if (details.testSteps.length === 0) {
+      errors.push('test_steps を 1 つ以上指定してください');
+    }
+    for (const [name, steps] of [
+      ['compile_steps', details.compileSteps],
+      ['test_steps', details.testSteps],
+    ] as const) {
+      steps.forEach((step, i) => {
+        if (step.program.trim() === '') {
+          errors.push(`${name}[${i}] の program を指定してください`);
+        }
+      });
+    }
+
+    return errors;
   }
 
   get id(): ConfigId {
@@ -62,4 +142,48 @@ export class PahcerConfig {
   set objective(value: 'max' | 'min') {
     this._objective = value;
   }
+
+  get version(): string {
+    return this._details.version;
+  }
+
+  get scoreRegex(): string {
+    return this._details.scoreRegex;
+  }
+
+  set scoreRegex(value: string) {
+    this._details.scoreRegex = value;
+  }
+
+  get threads(): number {
+    return this._details.threads;
+  }
+
+  set threads(value: number) {
+    this._details.threads = value;
+  }
+
+  get outDir(): string {
+    return this._details.outDir;
+  }
+
+  set outDir(value: string) {
+    this._details.outDir = value;
+  }
+
+  get compileSteps(): PahcerStep[] {
+    return this._details.compileSteps;
+  }
+
+  set compileSteps(value: PahcerStep[]) {
+    this._details.compileSteps = value;
+  }
+
+  get testSteps(): PahcerStep[] {
+    return this._details.testSteps;
+  }
+
+  set testSteps(value: PahcerStep[]) {
+    this._details.testSteps = value;
+  }
 }
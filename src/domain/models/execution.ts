@@ -14,6 +14,9 @@ export class Execution {
    * @param comment コメント - 可変
    * @param tagName タグ名 - 不変
    * @param commitHash コミットハッシュ - 可変（オプション）
+   * @param partial Seed を指定した部分実行かどうか - 可変（オプション）
+   * @param params 実行時に環境変数として渡したパラメータ（パラメータスイープなど） - 可変（オプション）
+   * @param profileName 実行に使用した実行プロファイルの名前 - 可変（オプション）
    */
   constructor(
     public readonly id: string,
@@ -21,6 +24,9 @@ export class Execution {
     comment: string,
     public readonly tagName: string | null,
     public commitHash?: string,
+    public partial = false,
+    public params: Record<string, number> = {},
+    public profileName?: string,
   ) {
     if (!id || id.trim() === '') {
       throw new Error('Execution id must not be empty');
@@ -19,10 +19,36 @@ export class PahcerRunOptions {
    * @param startSeed 開始seed（オプション）
    * @param endSeed 終了seed（オプション）
    * @param freezeBestScores ベストスコアを固定するか（オプション）
+   * @param seeds 実行する Seed 一覧（オプション、指定時は startSeed/endSeed より優先）
+   * @param env pahcer run に渡す追加の環境変数（オプション）
+   * @param params 環境変数として渡し、実行結果に記録するパラメータ（オプション）
+   * @param comment 実行結果に設定するコメント（オプション）
+   * @param threads 並列実行数（オプション、指定時は設定ファイルの threads を上書き）
+   * @param profileName 実行プロファイルの名前（オプション、実行結果に記録する）
+   * @param shuffle テストケースの実行順をシャッフルするか（オプション）
+   * @param json 結果を JSON 形式で出力するか（オプション）
    */
   constructor(
     public startSeed?: number,
     public endSeed?: number,
     public freezeBestScores?: boolean,
+    public seeds?: number[],
+    public env?: Record<string, string>,
+    public params?: Record<string, number>,
+    public comment?: string,
+    public threads?: number,
+    public profileName?: string,
+    public shuffle?: boolean,
+    public json?: boolean,
   ) {}
 }
+
+/**
+ * pahcer run の実行結果（プロセスの終了状態）
+ */
+export interface PahcerRunResult {
+  /** 終了コード（シグナルで終了した場合は undefined） */
+  exitCode: number | undefined;
+  /** ユーザーが中断したかどうか */
+  cancelled: boolean;
+}
@@ -0,0 +1,107 @@
+import { DomainValidationError } from '../exceptions';
+import type { PahcerRunOptions } from './pahcerStatus';
+import { SeedSet } from './seedSet';
+
+/**
+ * 名前付きの実行プロファイル（e.g., "quick", "full", "stress"）
+ *
+ * Seed 範囲または Seed セット、ベストスコアの固定、並列実行数、環境変数、既定のコメントをまとめたもの
+ */
+export class RunProfile {
+  /**
+   * RunProfile を構築する
+   * @param name 名前 - 不変
+   * @param startSeed 開始 Seed（endSeed と組で指定、省略時は pahcer 設定の Seed 範囲）
+   * @param endSeed 終了 Seed（この値は含まない）
+   * @param seedSetName 実行する Seed セットの名前（Seed 範囲とは同時に指定できない）
+   * @param freezeBestScores ベストスコアを更新しないか
+   * @param threads 並列実行数（省略時は pahcer 設定の threads）
+   * @param env pahcer run に渡す追加の環境変数
+   * @param comment 実行結果に設定する既定のコメント
+   */
+  constructor(
+    public readonly name: string,
+    public readonly startSeed: number | undefined,
+    public readonly endSeed: number | undefined,
+    public readonly seedSetName: string | undefined,
+    public readonly freezeBestScores: boolean = false,
+    public readonly threads: number | undefined = undefined,
+    public readonly env: Record<string, string> = {},
+    public readonly comment: string = '',
+  ) {
+    const nameError = RunProfile.validateName(name);
+    if (nameError) {
+      throw new DomainValidationError(nameError);
+    }
+    if ((startSeed === undefined) !== (endSeed === undefined)) {
+      throw new DomainValidationError('startSeed と endSeed は両方指定する必要があります');
+    }
+    if (
+      startSeed !== undefined &&
+      endSeed !== undefined &&
+      (!Number.isInteger(startSeed) ||
+        startSeed < 0 ||
+        !Number.isInteger(endSeed) ||
+        endSeed <= startSeed)
+    ) {
+      throw new DomainValidationError(
+        'Seed 範囲は 0 <= startSeed < endSeed の整数で指定してください',
+      );
+    }
+    if (startSeed !== undefined && seedSetName !== undefined) {
+      throw new DomainValidationError('Seed 範囲と Seed セットは同時に指定できません');
+    }
+    if (threads !== undefined && (!Number.isInteger(threads) || threads < 0)) {
+      throw new DomainValidationError('threads は非負整数である必要があります');
+    }
+  }
+
+  /**
+   * 実行オプションに変換する
+   * @param seeds Seed セットを指定している場合、実行時点の Seed セットの内容
+   */
+  toRunOptions(seeds?: number[]): PahcerRunOptions {
+    return {
+      startSeed: this.startSeed,
+      endSeed: this.endSeed,
+      seeds,
+      freezeBestScores: this.freezeBestScores,
+      threads: this.threads,
+      env: Object.keys(this.env).length > 0 ? { ...this.env } : undefined,
+      comment: this.comment || undefined,
+      profileName: this.name,
+    };
+  }
+
+  /**
+   * 内容を表示用の文字列にする（e.g., "Seed 0〜49, threads=4, ベストスコア固定, T0=100"）
+   */
+  getSummary(): string {
+    const parts: string[] = [];
+    if (this.seedSetName !== undefined) {
+      parts.push(`Seed セット「${this.seedSetName}」`);
+    } else if (this.startSeed !== undefined && this.endSeed !== undefined) {
+      parts.push(`Seed ${this.startSeed}〜${this.endSeed - 1}`);
+    } else {
+      parts.push('pahcer 設定の Seed 範囲');
+    }
+    if (this.threads !== undefined) {
+      parts.push(`threads=${this.threads}`);
+    }
+    if (this.freezeBestScores) {
+      parts.push('ベストスコア固定');
+    }
+    for (const [name, value] of Object.entries(this.env)) {
+      parts.push(`${name}=${value}`);
+    }
+    return parts.join(', ');
+  }
+
+  /**
+   * 名前として使用できるか検証する（規則は Seed セットと同じ）
+   * @returns 使用できない理由、使用できる場合は undefined
+   */
+  static validateName(name: string): string | undefined {
+    return SeedSet.validateName(name);
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * 実行中の pahcer run で完了した 1 ケースの結果
+ */
+export interface SeedProgress {
+  seed: number;
+  /** スコア（0以下の場合は WA） */
+  score: number;
+  /** 実行時間（秒） */
+  executionTime: number;
+}
+
+/**
+ * 実行中の pahcer run の進捗
+ * pahcer の出力を逐次反映し、TreeView の実行中ノードとステータスバーに表示する
+ */
+export class RunProgress {
+  private readonly _results: SeedProgress[] = [];
+
+  /**
+   * RunProgress を構築する
+   * @param _total 実行予定のケース数 - pahcer の出力から判明した場合は更新される
+   * @param startedAt 開始時刻（エポックミリ秒） - 不変
+   */
+  constructor(
+    private _total: number,
+    public readonly startedAt: number = Date.now(),
+  ) {}
+
+  /**
+   * 実行予定のケース数を取得する
+   */
+  get total(): number {
+    return this._total;
+  }
+
+  /**
+   * 完了したケースの結果を取得する（完了順）
+   */
+  get results(): readonly SeedProgress[] {
+    return this._results;
+  }
+
+  /**
+   * 完了したケース数を取得する
+   */
+  get completedCount(): number {
+    return this._results.length;
+  }
+
+  /**
+   * AC したケース数を取得する
+   */
+  get acCount(): number {
+    return this._results.filter((r) => r.score > 0).length;
+  }
+
+  /**
+   * 完了したケースの平均スコアを取得する（WA を含む）
+   */
+  get averageScore(): number {
+    if (this._results.length === 0) {
+      return 0;
+    }
+    return this._results.reduce((sum, r) => sum + r.score, 0) / this._results.length;
+  }
+
+  /**
+   * 進捗率（%）を取得する
+   */
+  get percentage(): number {
+    return this._total > 0 ? (this.completedCount / this._total) * 100 : 0;
+  }
+
+  /**
+   * 完了したケースの結果を追加する
+   * @param result ケースの結果
+   * @param total pahcer が出力した全ケース数（判明している場合）
+   */
+  add(result: SeedProgress, total?: number): void {
+    this._results.push(result);
+    if (total !== undefined && total > 0) {
+      this._total = total;
+    }
+  }
+
+  /**
+   * これまでのペースから残り時間（ミリ秒）を推定する
+   * @param now 現在時刻（エポックミリ秒）
+   * @returns 残り時間、完了したケースがない場合は undefined
+   */
+  estimateRemainingMs(now: number = Date.now()): number | undefined {
+    if (this.completedCount === 0) {
+      return undefined;
+    }
+    const elapsed = now - this.startedAt;
+    const remaining = Math.max(0, this._total - this.completedCount);
+    return (elapsed / this.completedCount) * remaining;
+  }
+}
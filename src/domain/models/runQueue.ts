@@ -0,0 +1,122 @@
+import { SeedList } from '../services/seedList';
+import type { PahcerRunOptions } from './pahcerStatus';
+
+/**
+ * 実行キューに追加された pahcer run
+ */
+export class QueuedRun {
+  /**
+   * QueuedRun を構築する
+   * @param id キュー内で一意な ID
+   * @param options 実行オプション（Seed 範囲・Seed 一覧、コメント、環境変数など）
+   * @param seedSetName 実行する Seed セットの名前（実行開始時に Seed 一覧に解決する）
+   */
+  constructor(
+    public readonly id: string,
+    public readonly options: PahcerRunOptions,
+    public readonly seedSetName?: string,
+  ) {}
+
+  /**
+   * 実行対象の Seed を表示用の文字列にする
+   */
+  getSeedsText(): string {
+    if (this.seedSetName) {
+      return `Seed セット「${this.seedSetName}」`;
+    }
+    if (this.options.seeds) {
+      return `Seed ${SeedList.format(this.options.seeds)}`;
+    }
+    if (this.options.startSeed !== undefined && this.options.endSeed !== undefined) {
+      return `Seed ${this.options.startSeed}〜${this.options.endSeed - 1}`;
+    }
+    return 'pahcer 設定の Seed 範囲';
+  }
+}
+
+/**
+ * 順番に実行する pahcer run の待ち行列
+ */
+export class RunQueue {
+  private runs: QueuedRun[] = [];
+  private nextId = 1;
+
+  /**
+   * 待ち行列の内容（先頭から実行する）
+   */
+  getAll(): readonly QueuedRun[] {
+    return this.runs;
+  }
+
+  get length(): number {
+    return this.runs.length;
+  }
+
+  /**
+   * 末尾に追加する
+   */
+  enqueue(options: PahcerRunOptions, seedSetName?: string): QueuedRun {
+    const run = new QueuedRun(String(this.nextId++), options, seedSetName);
+    this.runs.push(run);
+    return run;
+  }
+
+  /**
+   * 先頭を参照する（取り出さない）
+   */
+  peek(): QueuedRun | undefined {
+    return this.runs[0];
+  }
+
+  /**
+   * 先頭を取り出す
+   */
+  dequeue(): QueuedRun | undefined {
+    return this.runs.shift();
+  }
+
+  /**
+   * 取り出したものを先頭に戻す（実行を開始できなかった場合など）
+   */
+  requeue(run: QueuedRun): void {
+    this.runs.unshift(run);
+  }
+
+  /**
+   * 指定した ID を取り除く
+   * @returns 取り除いた場合は true
+   */
+  remove(id: string): boolean {
+    const index = this.runs.findIndex((run) => run.id === id);
+    if (index < 0) {
+      return false;
+    }
+    this.runs.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * 指定した ID の位置を移動する（負の値で先頭方向、範囲外は端で止める）
+   * @returns 移動した場合は true
+   */
+  move(id: string, offset: number): boolean {
+    const index = this.runs.findIndex((run) => run.id === id);
+    if (index < 0) {
+      return false;
+    }
+    const newIndex = Math.min(Math.max(index + offset, 0), this.runs.length - 1);
+    if (newIndex === index) {
+      return false;
+    }
+    const [run] = this.runs.splice(index, 1);
+    this.runs.splice(newIndex, 0, run);
+    return true;
+  }
+
+  /**
+   * すべて取り除く
+   */
+  clear(): void {
+    this.runs = [];
+  }
+}
@@ -0,0 +1,51 @@
+import { SeedList } from '../services/seedList';
+
+/**
+ * 名前付きの Seed セット（e.g., "small N", "hard seeds"）
+ */
+export class SeedSet {
+  /** Seed 一覧（重複のない昇順） */
+  public readonly seeds: number[];
+
+  /**
+   * SeedSet を構築する
+   * @param name 名前 - 不変（ファイル名として使用する）
+   * @param seeds Seed 一覧（順不同・重複可、正規化して保持する）
+   * @param description 説明（作成元の条件式など）
+   */
+  constructor(
+    public readonly name: string,
+    seeds: readonly number[],
+    public readonly description: string = '',
+  ) {
+    const error = SeedSet.validateName(name);
+    if (error) {
+      throw new Error(error);
+    }
+    this.seeds = SeedList.normalize(seeds);
+  }
+
+  /**
+   * Seed を含むかどうか
+   */
+  has(seed: number): boolean {
+    return this.seeds.includes(seed);
+  }
+
+  /**
+   * 名前として使用できるか検証する
+   * @returns 使用できない理由、使用できる場合は undefined
+   */
+  static validateName(name: string): string | undefined {
+    if (name.trim() === '') {
+      return '名前を入力してください';
+    }
+    if (name !== name.trim()) {
+      return '名前の前後に空白は使用できません';
+    }
+    if (/[\\/:*?"<>|]/.test(name) || name.startsWith('.')) {
+      return '名前に \\ / : * ? " < > | は使用できず、. から始めることもできません';
+    }
+    return undefined;
+  }
+}
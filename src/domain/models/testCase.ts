@@ -11,6 +11,16 @@ export class TestCaseId {
   }
 }
 
+/**
+ * 標準エラー出力に出力された数値の変数の推移
+ */
+export interface StderrSeries {
+  /** x 座標に使用した変数名（`iter` または `time`、省略時は出力された順番） */
+  xKey?: string;
+  /** [x, 値] の組（出力された順） */
+  points: [number, number][];
+}
+
 /**
  * テストケースのドメインモデル（集約ルート）
  * executionId と seed の複合キーで識別
@@ -32,5 +42,16 @@ export class TestCase {
     public firstInputLine?: string,
     /** 標準エラー出力から抽出した変数 */
     public stderrVars?: Record<string, number>,
+    /** 特徴量の抽出ルールで入力ファイルから抽出した特徴量 */
+    public inputFeatures?: Record<string, number>,
+    /** inputFeatures を抽出したときの設定（設定が変わったら抽出し直す） */
+    public inputFeaturesKey?: string,
+    /**
+     * 標準エラー出力に出力された数値の変数の推移（変数名 → 推移）
+     * 大きくなるため解析時に保存するときのみ設定する（読み込んだ TestCase には含まれず、ITestCaseRepository.findStderrSeries で取得する）
+     */
+    public stderrSeries?: Record<string, StderrSeries>,
+    /** 標準エラー出力から抽出した文字列の値（カテゴリとして扱うタグ） */
+    public stderrTags?: Record<string, string>,
   ) {}
 }
@@ -1,6 +1,9 @@
 import type { ExecutionStatsCalculator } from '../services/executionStatsAggregator';
+import type { RelativeScoreCalculator } from '../services/relativeScoreCalculator';
+import type { TimeLimitClassifier } from '../services/timeLimitClassifier';
 import type { PahcerConfig } from './configFile';
 import type { Execution } from './execution';
+import type { SeedSet } from './seedSet';
 import type { SummaryTestCase } from './summaryTestCase';
 
 /**
@@ -29,9 +32,31 @@ export class TreeData {
      */
     public readonly bestScores: Map<number, number>,
 
+    /**
+     * 相対スコア計算用のコンテキスト
+     */
+    public readonly relativeScoreContext: RelativeScoreCalculator.Context,
+
     /**
      * 実行ごとの集計情報（ソート順序は不定）
      */
     public readonly executionStatsList: ExecutionStatsCalculator.ExecutionStats[],
+
+    /**
+     * 基準実行の ID（未設定の場合は undefined）
+     * 基準実行の seed ごとのスコアは relativeScoreContext.baselineScores に保持される
+     */
+    public readonly baselineExecutionId: string | undefined,
+
+    /**
+     * 実行時間制限（未設定の場合は undefined）
+     */
+    public readonly timeLimit: TimeLimitClassifier.TimeLimit | undefined,
+
+    /**
+     * 絞り込み中の Seed セット（絞り込まない場合は undefined）
+     * testCases と executionStatsList はこの Seed セットで絞り込み済み
+     */
+    public readonly seedSet: SeedSet | undefined,
   ) {}
 }
@@ -1,5 +1,57 @@
 /**
- * 比較モードの設定
+ * 詳細実行オプションで最後に使用した値（次に開いたときの初期値）
+ */
+export interface LastRunOptions {
+  startSeed: number;
+  endSeed: number;
+  freezeBestScores: boolean;
+  /** 実行する Seed セットの名前（指定時は startSeed/endSeed より優先） */
+  seedSetName?: string;
+  /** テストケースの実行順をシャッフルするか */
+  shuffle?: boolean;
+  /** 並列実行数（省略時は pahcer 設定の threads） */
+  threads?: number;
+  /** 結果を JSON 形式で出力するか */
+  json?: boolean;
+  comment?: string;
+  env?: Record<string, string>;
+}
+
+/**
+ * 入力ファイルから特徴量を抽出するルール（比較ビューの式などで名前を変数として使用できる）
+ * - token: line 行目の column 番目のトークン（どちらも 0 始まり、トークンは空白区切り）
+ * - regex: 入力全体に対する正規表現
+ *   - first: 最初の一致の group 番目のキャプチャ（省略時は 1、キャプチャがない場合は一致全体）
+ *   - count: 一致した回数（e.g., 障害物 `#` の数）
+ *   - sum: 各一致の group 番目のキャプチャの合計
+ */
+export type InputFeatureRule =
+  | { name: string; type: 'token'; line: number; column: number }
+  | {
+      name: string;
+      type: 'regex';
+      pattern: string;
+      group?: number;
+      aggregate?: 'first' | 'count' | 'sum';
+    };
+
+/**
+ * 標準エラー出力から値を抽出する形式
+ * - dollar: `$name = value`（1 行に複数可）
+ * - json: 1 行 1 オブジェクトの JSON（e.g., `{"iter": 100, "score": 1234}`）
+ * - keyValue: `name: value`（1 行に 1 つ）
+ * - regex: 独自の正規表現（名前付きグループの名前を変数名とする、e.g., `turn (?<turn>\d+) score (?<score>\d+)`）
+ *
+ * いずれの形式も、数値として解釈できない値は文字列のタグとして扱う
+ */
+export type StderrPattern =
+  | { type: 'dollar' }
+  | { type: 'json' }
+  | { type: 'keyValue' }
+  | { type: 'regex'; pattern: string };
+
+/**
+ * 比較モードおよび問題固有の設定
  */
 export class UIConfig {
   /**
@@ -11,6 +63,17 @@ export class UIConfig {
    * @param filter フィルター式（e.g., "N >= 100", "N == 50"）
    * @param bestRankingInclude Best 判定の対象に含めるコメント（部分一致）
    * @param bestRankingExclude Best 判定の対象から除外するコメント（部分一致）
+   * @param timeLimitMs 問題の実行時間制限（ミリ秒）。未設定の場合は undefined
+   * @param timeLimitWarningRatio 実行時間制限に対する警告ライン（e.g., 0.9 = 90%）
+   * @param seedSetFilter 比較ビューで絞り込む Seed セットの名前（空の場合は絞り込まない）
+   * @param treeSeedSetFilter TreeView で絞り込む Seed セットの名前（空の場合は絞り込まない）
+   * @param lastRunOptions 詳細実行オプションで最後に使用した値。未使用の場合は undefined
+   * @param inputFeatureRules 入力ファイルから特徴量を抽出するルール
+   * @param inputFeatureScript 入力ファイルのパスを渡して `key=value` 形式で特徴量を出力させるコマンド（空の場合は使用しない）
+   * @param stderrPatterns 標準エラー出力から値を抽出する形式
+   * @param tagFilter 比較ビューで絞り込む標準エラー出力のタグ（`name=value` の形式、空の場合は絞り込まない）
+   * @param groupByTag 比較ビューでグループ分けに使う標準エラー出力のタグの名前（空の場合はグループ分けしない）
+   * @param activeVisualizer 使用するキャッシュされたビジュアライザの ID（空の場合は最も新しいものを使用する）
    */
   constructor(
     public featureString: string = 'N M K',
@@ -20,5 +83,16 @@ export class UIConfig {
     public filter: string = '',
     public bestRankingInclude: string = '',
     public bestRankingExclude: string = '',
+    public timeLimitMs: number | undefined = undefined,
+    public timeLimitWarningRatio: number = 0.9,
+    public seedSetFilter: string = '',
+    public treeSeedSetFilter: string = '',
+    public lastRunOptions: LastRunOptions | undefined = undefined,
+    public inputFeatureRules: InputFeatureRule[] = [],
+    public inputFeatureScript: string = '',
+    public stderrPatterns: StderrPattern[] = [{ type: 'dollar' }],
+    public tagFilter: string = '',
+    public groupByTag: string = '',
+    public activeVisualizer: string = '',
   ) {}
 }
@@ -0,0 +1,106 @@
+export namespace BaselineDeltaCalculator {
+  export type CaseLike = {
+    seed: number;
+    score: number;
+  };
+
+  /**
+   * 基準実行との差分
+   */
+  export interface Delta {
+    /** スコアの差（対象 − 基準） */
+    absolute: number;
+    /** 基準スコアに対する差の割合（%）、基準スコアが 0 以下の場合は undefined */
+    percentage: number | undefined;
+  }
+
+  /**
+   * 実行単位の基準実行との差分
+   */
+  export interface ExecutionDelta {
+    /** 基準実行と共通する Seed 数 */
+    commonCount: number;
+    /** 共通 Seed のスコア合計の差 */
+    total: Delta;
+    /** 共通 Seed の平均スコアの差 */
+    average: number;
+  }
+
+  /**
+   * 1 ケースの基準実行との差分を計算する
+   *
+   * @param score 対象のスコア
+   * @param baselineScore 基準実行のスコア
+   * @returns 差分、基準実行に該当ケースがない場合は undefined
+   */
+  export function calculateCase(
+    score: number,
+    baselineScore: number | undefined,
+  ): Delta | undefined {
+    if (baselineScore === undefined) {
+      return undefined;
+    }
+
+    return {
+      absolute: score - baselineScore,
+      percentage: baselineScore > 0 ? ((score - baselineScore) / baselineScore) * 100 : undefined,
+    };
+  }
+
+  /**
+   * 実行全体の基準実行との差分を、共通する Seed のみで計算する
+   *
+   * @param cases 対象実行のテストケース
+   * @param baselineScores seed => 基準実行のスコア
+   * @returns 差分、共通する Seed がない場合は undefined
+   */
+  export function calculateExecution(
+    cases: CaseLike[],
+    baselineScores: Map<number, number>,
+  ): ExecutionDelta | undefined {
+    let commonCount = 0;
+    let targetTotal = 0;
+    let baselineTotal = 0;
+    for (const tc of cases) {
+      const baselineScore = baselineScores.get(tc.seed);
+      if (baselineScore === undefined) {
+        continue;
+      }
+      commonCount++;
+      targetTotal += tc.score;
+      baselineTotal += baselineScore;
+    }
+
+    if (commonCount === 0) {
+      return undefined;
+    }
+
+    const total = calculateCase(targetTotal, baselineTotal);
+    if (!total) {
+      return undefined;
+    }
+
+    return {
+      commonCount,
+      total,
+      average: total.absolute / commonCount,
+    };
+  }
+
+  /**
+   * 差分を表示用の文字列にする（e.g., "+123 (+1.23%)"）
+   *
+   * @param delta 差分
+   * @param fractionDigits 絶対差の小数点以下桁数
+   */
+  export function format(delta: Delta, fractionDigits = 0): string {
+    const absolute = `${delta.absolute > 0 ? '+' : ''}${delta.absolute.toLocaleString(undefined, {
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits,
+    })}`;
+    if (delta.percentage === undefined) {
+      return absolute;
+    }
+    return `${absolute} (${delta.percentage > 0 ? '+' : ''}${delta.percentage.toFixed(2)}%)`;
+  }
+}
@@ -0,0 +1,191 @@
+export namespace ChartVariables {
+  /** 式で使用できる組み込みの変数 */
+  export const BUILTIN_NAMES = ['seed', 'absScore', 'relScore', 'sec', 'msec', 'tl'] as const;
+
+  export interface CaseData {
+    seed: number;
+    score: number;
+    /** 相対スコア（基準実行にない seed など比較できない場合は undefined） */
+    relativeScore?: number;
+    /** 実行時間（秒） */
+    executionTime: number;
+  }
+
+  export interface InputParams {
+    seed: number;
+    /** 入力ファイルの 1 行目の特徴量の名前 */
+    features: string[];
+    /** 入力ファイルの 1 行目 */
+    inputLine: string;
+    /** 抽出ルール・スクリプトで入力ファイルから抽出した特徴量 */
+    inputFeatures?: Record<string, number>;
+  }
+
+  export interface BuildParams {
+    caseData: CaseData;
+    features: string[];
+    inputLine: string;
+    /** 抽出ルール・スクリプトで入力ファイルから抽出した特徴量 */
+    inputFeatures?: Record<string, number>;
+    stderrVars: Record<string, number>;
+    /** 実行時間制限（ミリ秒、未設定の場合は undefined） */
+    timeLimitMs?: number;
+    /** 実行時のパラメータ（パラメータスイープなど） */
+    params?: Record<string, number>;
+  }
+
+  export interface BuildGroupParams {
+    group: Array<{
+      seed: number;
+      caseData: CaseData;
+      inputLine: string;
+      inputFeatures?: Record<string, number>;
+    }>;
+    features: string[];
+    getStderrVars: (seed: number) => Record<string, number>;
+    /** 実行時間制限（ミリ秒、未設定の場合は undefined） */
+    timeLimitMs?: number;
+    /** 実行時のパラメータ（パラメータスイープなど） */
+    params?: Record<string, number>;
+  }
+
+  /**
+   * Features 文字列を配列にパースする
+   */
+  export function parseFeatures(featuresStr: string): string[] {
+    return featuresStr
+      .trim()
+      .split(/\s+/)
+      .filter((f) => f.length > 0);
+  }
+
+  /**
+   * 入力ファイルだけから求まる変数（seed と入力の特徴量）を作成する
+   * 1 行目に値がない特徴量は 0 とし、抽出した特徴量は同名の 1 行目の特徴量より優先する
+   */
+  export function buildInput({
+    seed,
+    features,
+    inputLine,
+    inputFeatures,
+  }: InputParams): Record<string, number[]> {
+    const variables: Record<string, number[]> = {};
+    variables.seed = [seed];
+
+    const featureValues = parseFeatures(inputLine);
+    features.forEach((feature, i) => {
+      variables[feature] = [Number(featureValues[i]) || 0];
+    });
+    for (const [name, value] of Object.entries(inputFeatures ?? {})) {
+      variables[name] = [value];
+    }
+
+    return variables;
+  }
+
+  /**
+   * 1 つのテストケースの変数を作成する
+   * 実行時間は `sec`（秒）と `msec`（ミリ秒）、実行時間制限は設定されている場合のみ `tl`（ミリ秒）
+   * 相対スコアを計算できない seed（基準実行にない seed など）の `relScore` は NaN
+   * 実行時のパラメータは名前で参照できる（名前が重なる場合は組み込みの変数・入力の特徴量を優先する）
+   */
+  export function build({
+    caseData,
+    features,
+    inputLine,
+    inputFeatures,
+    stderrVars,
+    timeLimitMs,
+    params,
+  }: BuildParams): Record<string, number[]> {
+    const variables: Record<string, number[]> = {};
+    for (const [name, value] of Object.entries(params ?? {})) {
+      variables[name] = [value];
+    }
+
+    variables.seed = [caseData.seed];
+    variables.absScore = [caseData.score];
+    variables.relScore = [caseData.relativeScore ?? Number.NaN];
+    variables.sec = [caseData.executionTime];
+    variables.msec = [caseData.executionTime * 1000];
+    if (timeLimitMs !== undefined) {
+      variables.tl = [timeLimitMs];
+    }
+
+    Object.assign(
+      variables,
+      buildInput({ seed: caseData.seed, features, inputLine, inputFeatures }),
+    );
+
+    for (const [varName, value] of Object.entries(stderrVars)) {
+      variables[`$${varName}`] = [value];
+    }
+
+    return variables;
+  }
+
+  /**
+   * テストケースのグループの変数を作成する（各変数はグループ内のテストケースの値の配列）
+   */
+  export function buildGroup({
+    group,
+    features,
+    getStderrVars,
+    timeLimitMs,
+    params,
+  }: BuildGroupParams): Record<string, number[]> {
+    const variables: Record<string, number[]> = {};
+    // 組み込みの変数・入力の特徴量と名前が重なる場合はそちらを優先する
+    for (const [name, value] of Object.entries(params ?? {})) {
+      variables[name] = group.map(() => value);
+    }
+
+    variables.seed = group.map((d) => d.seed);
+    variables.absScore = group.map((d) => d.caseData.score);
+    variables.relScore = group.map((d) => d.caseData.relativeScore ?? Number.NaN);
+    variables.sec = group.map((d) => d.caseData.executionTime);
+    variables.msec = group.map((d) => d.caseData.executionTime * 1000);
+    if (timeLimitMs !== undefined) {
+      variables.tl = group.map(() => timeLimitMs);
+    }
+
+    for (const featureName of features) {
+      const featureIndex = features.indexOf(featureName);
+      variables[featureName] = group.map((d) => {
+        const featureValues = parseFeatures(d.inputLine);
+        return Number(featureValues[featureIndex]) || 0;
+      });
+    }
+
+    const allInputFeatureNames = new Set(group.flatMap((d) => Object.keys(d.inputFeatures ?? {})));
+    for (const name of allInputFeatureNames) {
+      variables[name] = group.map((d) => d.inputFeatures?.[name] ?? 0);
+    }
+
+    const allStderrVarNames = new Set<string>();
+    for (const d of group) {
+      for (const varName of Object.keys(getStderrVars(d.seed))) {
+        allStderrVarNames.add(varName);
+      }
+    }
+
+    for (const varName of allStderrVarNames) {
+      variables[`$${varName}`] = group.map((d) => getStderrVars(d.seed)[varName] || 0);
+    }
+
+    return variables;
+  }
+
+  /**
+   * 要素数 1 の変数をスカラーに変換する（ツールチップの表示などに使用）
+   */
+  export function toScalars(variables: Record<string, number[]>): Record<string, number> {
+    const result: Record<string, number> = {};
+    for (const [key, values] of Object.entries(variables)) {
+      if (values.length === 1) {
+        result[key] = values[0];
+      }
+    }
+    return result;
+  }
+}
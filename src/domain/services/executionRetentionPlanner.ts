@@ -0,0 +1,119 @@
+import type { Execution } from '../models/execution';
+import { BestScoreCalculator } from './bestScoreCalculator';
+
+export namespace ExecutionRetentionPlanner {
+  export type CaseLike = {
+    id: { executionId: string; seed: number };
+    score: number;
+  };
+
+  /**
+   * 実行結果の保持ルール
+   */
+  export interface Policy {
+    /** 新しい順に保持する実行数 */
+    keepLatest: number;
+    /** コメント付きの実行を保持するか */
+    keepCommented: boolean;
+    /** いずれかの Seed でベストスコアを持つ実行を保持するか */
+    keepBestHolders: boolean;
+  }
+
+  /**
+   * 実行を保持する理由
+   * - latest: 最新 N 件に含まれる
+   * - commented: コメントが付いている
+   * - bestHolder: いずれかの Seed でベストスコアを持つ
+   * - baseline: 基準実行である
+   */
+  export type KeepReason = 'latest' | 'commented' | 'bestHolder' | 'baseline';
+
+  /**
+   * 整理計画（ドライラン結果）
+   */
+  export interface Plan {
+    /** 削除対象の実行（新しい順） */
+    toDelete: Execution[];
+    /** 保持する実行と保持理由（新しい順） */
+    toKeep: Array<{ execution: Execution; reasons: KeepReason[] }>;
+  }
+
+  /**
+   * 保持ルールに従って削除対象の実行を決定する
+   * 基準実行は保持ルールに関わらず常に保持する
+   *
+   * @param executions 実行結果（新しい順）
+   * @param testCases すべての実行のテストケース
+   * @param objective 最適化の方向（'max'=最大化, 'min'=最小化）
+   * @param policy 保持ルール
+   * @param baselineExecutionId 基準実行の ID
+   */
+  export function plan(
+    executions: Execution[],
+    testCases: CaseLike[],
+    objective: 'max' | 'min',
+    policy: Policy,
+    baselineExecutionId: string | undefined,
+  ): Plan {
+    const bestHolderIds = policy.keepBestHolders
+      ? findBestHolders(testCases, objective)
+      : new Set<string>();
+
+    const toDelete: Execution[] = [];
+    const toKeep: Plan['toKeep'] = [];
+
+    executions.forEach((execution, index) => {
+      const reasons: KeepReason[] = [];
+      if (execution.id === baselineExecutionId) {
+        reasons.push('baseline');
+      }
+      if (index < policy.keepLatest) {
+        reasons.push('latest');
+      }
+      if (policy.keepCommented && execution.comment.trim() !== '') {
+        reasons.push('commented');
+      }
+      if (bestHolderIds.has(execution.id)) {
+        reasons.push('bestHolder');
+      }
+
+      if (reasons.length > 0) {
+        toKeep.push({ execution, reasons });
+      } else {
+        toDelete.push(execution);
+      }
+    });
+
+    return { toDelete, toKeep };
+  }
+
+  /**
+   * 保持理由の表示名
+   */
+  export function reasonLabel(reason: KeepReason): string {
+    switch (reason) {
+      case 'latest':
+        return '最新';
+      case 'commented':
+        return 'コメント付き';
+      case 'bestHolder':
+        return 'ベストスコア保持';
+      case 'baseline':
+        return '基準実行';
+    }
+  }
+
+  /**
+   * いずれかの Seed でベストスコアを持つ実行の ID を求める
+   */
+  function findBestHolders(testCases: CaseLike[], objective: 'max' | 'min'): Set<string> {
+    const bestScores = BestScoreCalculator.calculate(testCases, objective);
+    const holders = new Set<string>();
+    for (const tc of testCases) {
+      if (tc.score > 0 && bestScores.get(tc.id.seed) === tc.score) {
+        holders.add(tc.id.executionId);
+      }
+    }
+    return holders;
+  }
+}
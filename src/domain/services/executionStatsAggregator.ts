@@ -1,4 +1,6 @@
 import type { Execution } from '../models/execution';
+import { RelativeScoreCalculator } from './relativeScoreCalculator';
+import { TimeLimitClassifier } from './timeLimitClassifier';
 
 export namespace ExecutionStatsCalculator {
   export type CaseLike = {
@@ -21,6 +23,10 @@ export namespace ExecutionStatsCalculator {
       public acCount: number,
       public averageScore: number,
       public averageRelativeScore: number,
+      /** 実行時間制限を超過した seed */
+      public tleSeeds: number[] = [],
+      /** 実行時間制限の警告ラインを超えた seed（超過したものを除く） */
+      public nearTleSeeds: number[] = [],
     ) {}
   }
   /**
@@ -28,15 +34,15 @@ export namespace ExecutionStatsCalculator {
    *
    * @param executions 実行のメタデータ配列
    * @param testCases すべてのテストケース
-   * @param bestScores seed => ベストスコア のマップ
-   * @param objective 最適化の方向（'max'=最大化, 'min'=最小化）
+   * @param relativeScoreContext 相対スコア計算用のコンテキスト
+   * @param timeLimit 実行時間制限（未設定の場合は undefined）
    * @returns 実行ごとの集計情報
    */
   export function calculate(
     executions: Execution[],
     testCases: CaseLike[],
-    bestScores: Map<number, number>,
-    objective: 'max' | 'min',
+    relativeScoreContext: RelativeScoreCalculator.Context,
+    timeLimit?: TimeLimitClassifier.TimeLimit,
   ): ExecutionStats<CaseLike>[] {
     return executions.map((execution) => {
       // この実行に属するテストケースを取得
@@ -46,26 +52,37 @@ export namespace ExecutionStatsCalculator {
       let totalScore = 0;
       let maxExecutionTime = 0;
       let totalRelativeScore = 0;
+      let relativeScoreCount = 0;
       const waSeeds: number[] = [];
+      const tleSeeds: number[] = [];
+      const nearTleSeeds: number[] = [];
 
       for (const tc of executionTestCases) {
         totalScore += tc.score;
         maxExecutionTime = Math.max(maxExecutionTime, tc.executionTime);
 
+        switch (TimeLimitClassifier.classify(tc.executionTime, timeLimit)) {
+          case 'exceeded':
+            tleSeeds.push(tc.id.seed);
+            break;
+          case 'nearLimit':
+            nearTleSeeds.push(tc.id.seed);
+            break;
+        }
+
         if (tc.score <= 0) {
           waSeeds.push(tc.id.seed);
-        } else {
-          // 相対スコアを計算
-          const bestScore = bestScores.get(tc.id.seed);
-          if (bestScore !== undefined) {
-            if (objective === 'max') {
-              totalRelativeScore += (tc.score / bestScore) * 100;
-            } else {
-              totalRelativeScore += (bestScore / tc.score) * 100;
-            }
-          } else {
-            totalRelativeScore += 100;
-          }
+        }
+
+        // 相対スコアを計算（基準実行にない seed など比較できないものは平均から除く）
+        const relativeScore = RelativeScoreCalculator.calculateWith(
+          relativeScoreContext,
+          tc.id.seed,
+          tc.score,
+        );
+        if (relativeScore !== undefined) {
+          totalRelativeScore += relativeScore;
+          relativeScoreCount++;
         }
       }
 
@@ -81,7 +98,9 @@ export namespace ExecutionStatsCalculator {
         waSeeds,
         acCount,
         caseCount > 0 ? totalScore / caseCount : 0,
-        caseCount > 0 ? totalRelativeScore / caseCount : 0,
+        relativeScoreCount > 0 ? totalRelativeScore / relativeScoreCount : 0,
+        tleSeeds,
+        nearTleSeeds,
       );
     });
   }
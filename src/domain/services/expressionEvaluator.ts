@@ -1,44 +1,46 @@
-/**
- * 式の構文を検証（評価なし）
- * 式が有効な場合、または空の場合は true を返す。それ以外は false を返す
- * 注：variableNames パラメータは後方互換性のため保持されていますが使用されません
- */
-export function isValidExpression(expr: string, _variableNames?: string[]): boolean {
-  if (!expr || expr.trim() === '') {
-    return true;
-  }
+export namespace ExpressionEvaluator {
+  /**
+   * 式の構文を検証（評価なし）
+   * 式が有効な場合、または空の場合は true を返す。それ以外は false を返す
+   * 注：variableNames パラメータは後方互換性のため保持されていますが使用されません
+   */
+  export function isValid(expr: string, _variableNames?: string[]): boolean {
+    if (!expr || expr.trim() === '') {
+      return true;
+    }
 
-  try {
-    // 構文のみをチェック（評価なし）
-    parseExpression(expr);
-    return true;
-  } catch (e) {
-    console.warn(`式 '${expr}' の検証エラー:`, e);
-    return false;
+    try {
+      // 構文のみをチェック（評価なし）
+      parseExpression(expr);
+      return true;
+    } catch (e) {
+      console.warn(`式 '${expr}' の検証エラー:`, e);
+      return false;
+    }
   }
-}
 
-/**
- * AST ベースのパーサーを使用して算術式を評価
- * サポート：+, -, *, /, ^, 比較演算子、括弧、変数
- * 比較演算子：<, <=, >, >=, ==, != （true で 1、false で 0 を返す）
- * 関数：
- *   - 要素ごと：log()、ceil()、floor()
- *   - 集約：avg()、max()、min() （配列 -> スカラー）
- *   - 特殊：random() （引数なし）
- * すべての値は内部的に配列です（要素ごと操作、長さ1の配列はブロードキャスト可能）
- * 式が無効な場合はエラーをスロー
- */
-export function evaluateExpression(expr: string, variables: Record<string, number[]>): number[] {
-  const ast = parseExpression(expr);
-  return evaluateAst(ast, variables);
+  /**
+   * AST ベースのパーサーを使用して算術式を評価
+   * サポート：+, -, *, /, ^, 比較演算子、括弧、変数
+   * 比較演算子：<, <=, >, >=, ==, != （true で 1、false で 0 を返す）
+   * 関数：
+   *   - 要素ごと：log()、ceil()、floor()
+   *   - 集約：avg()、max()、min() （配列 -> スカラー）
+   *   - 特殊：random() （引数なし）
+   * すべての値は内部的に配列です（要素ごと操作、長さ1の配列はブロードキャスト可能）
+   * 式が無効な場合はエラーをスロー
+   */
+  export function evaluate(expr: string, variables: Record<string, number[]>): number[] {
+    const ast = parseExpression(expr);
+    return evaluateAst(ast, variables);
+  }
 }
 
 /**
  * 式を AST（抽象構文木）にパース
  * 変数の存在をチェックしません。構文のみ検証します
  */
-export function parseExpression(expr: string): AstNode {
+function parseExpression(expr: string): AstNode {
   const parser = new ExpressionParser(expr.trim());
   const result = parser.parse();
   if (parser.pos < parser.tokens.length && parser.tokens[parser.pos].type !== 'eof') {
@@ -51,7 +53,7 @@ export function parseExpression(expr: string): AstNode {
  * 与えられた変数で AST を評価
  * 変数が見つからない、または評価に失敗した場合はエラーをスロー
  */
-export function evaluateAst(node: AstNode, variables: Record<string, number[]>): number[] {
+function evaluateAst(node: AstNode, variables: Record<string, number[]>): number[] {
   switch (node.type) {
     case 'number':
       return [node.value];
@@ -0,0 +1,101 @@
+import type { InputFeatureRule } from '../models/uiConfig';
+
+export namespace InputFeatureExtractor {
+  /**
+   * 特徴量の名前として使用できるか（式の変数名として使用できる識別子か）
+   */
+  export function isValidName(name: string): boolean {
+    return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name);
+  }
+
+  /**
+   * 抽出の設定を表すキー（TestCase にキャッシュした特徴量が現在の設定で抽出したものか判定するため）
+   */
+  export function cacheKey(rules: readonly InputFeatureRule[], script: string): string {
+    return JSON.stringify({ rules, script });
+  }
+
+  /**
+   * ルールに従って入力ファイルの内容から特徴量を抽出する
+   * 該当するトークン・一致がない場合や数値でない場合、その特徴量は含めない
+   */
+  export function extract(
+    content: string,
+    rules: readonly InputFeatureRule[],
+  ): Record<string, number> {
+    const features: Record<string, number> = {};
+    let lines: string[] | undefined;
+
+    for (const rule of rules) {
+      if (!isValidName(rule.name)) {
+        continue;
+      }
+
+      let value: number | undefined;
+      if (rule.type === 'token') {
+        lines ??= content.split(/\r?\n/);
+        const tokens = (lines[rule.line] ?? '').trim().split(/\s+/);
+        value = toNumber(tokens[rule.column]);
+      } else {
+        value = extractByRegex(content, rule.pattern, rule.group ?? 1, rule.aggregate ?? 'first');
+      }
+
+      if (value !== undefined) {
+        features[rule.name] = value;
+      }
+    }
+
+    return features;
+  }
+
+  /**
+   * `key=value` 形式の行（スクリプトの出力）から特徴量を読み取る
+   * 値が数値でない行、名前が識別子でない行は無視する
+   */
+  export function parseKeyValues(output: string): Record<string, number> {
+    const features: Record<string, number> = {};
+    for (const line of output.split(/\r?\n/)) {
+      const match = line.match(/^\s*([^=\s]+)\s*=\s*(\S+)\s*$/);
+      if (!match || !isValidName(match[1])) {
+        continue;
+      }
+      const value = toNumber(match[2]);
+      if (value !== undefined) {
+        features[match[1]] = value;
+      }
+    }
+    return features;
+  }
+
+  function extractByRegex(
+    content: string,
+    pattern: string,
+    group: number,
+    aggregate: 'first' | 'count' | 'sum',
+  ): number | undefined {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern, 'gm');
+    } catch {
+      return undefined;
+    }
+
+    const matches = [...content.matchAll(regex)];
+    switch (aggregate) {
+      case 'count':
+        return matches.length;
+      case 'sum':
+        return matches.reduce((sum, match) => sum + (toNumber(match[group] ?? match[0]) ?? 0), 0);
+      case 'first':
+        return matches.length > 0 ? toNumber(matches[0][group] ?? matches[0][0]) : undefined;
+    }
+  }
+
+  function toNumber(text: string | undefined): number | undefined {
+    if (text === undefined || text.trim() === '') {
+      return undefined;
+    }
+    const value = Number(text);
+    return Number.isFinite(value) ? value : undefined;
+  }
+}
@@ -0,0 +1,96 @@
+import type { SeedProgress } from '../models/runProgress';
+
+export namespace PahcerProgressParser {
+  /**
+   * pahcer run の進捗行を解析した結果
+   */
+  export interface ParsedLine {
+    /** 完了したケース数（JSON 出力では不明） */
+    completedCount?: number;
+    /** 全ケース数（JSON 出力では不明） */
+    total?: number;
+    result: SeedProgress;
+  }
+
+  /** 色付き出力の ANSI エスケープシーケンス */
+  // biome-ignore lint/suspicious/noControlCharactersInRegex: ESC 文字を意図的に照合する
+  const ANSI_ESCAPE = /\x1b\[[0-9;]*m/g;
+
+  /**
+   * pahcer run の出力 1 行を解析する
+   *
+   * pahcer はケースが完了するたびに次のような表の行を出力する:
+   * `|    1/100 | 0000 |      1,234 |      1,234.00 |     100.000% |     123 ms |`
+   * （列: Progress, Seed, Case Score, Average Score, Average Relative Score, Exec. Time）
+   *
+   * `--json` を指定した場合はケースごとの結果が JSON で 1 行ずつ出力されるため、そちらも解析する
+   * （seed, score, execution_time を持つオブジェクトのみ対象）
+   *
+   * @returns 進捗行でない場合（ヘッダーやサマリーなど）は undefined
+   */
+  export function parseLine(line: string): ParsedLine | undefined {
+    const text = line.replace(ANSI_ESCAPE, '').trim();
+    if (text.startsWith('{')) {
+      return parseJsonLine(text);
+    }
+
+    const cells = text.split('|').map((cell) => cell.trim());
+    // 先頭と末尾の '|' で空セルができる
+    if (cells.length < 8 || cells[0] !== '' || cells[cells.length - 1] !== '') {
+      return undefined;
+    }
+
+    const progressMatch = cells[1].match(/^(\d+)\s*\/\s*(\d+)$/);
+    const seedMatch = cells[2].match(/^\d+$/);
+    const score = parseNumber(cells[3]);
+    const timeMatch = cells[cells.length - 2].match(/^([\d,.]+)\s*ms$/);
+    if (!progressMatch || !seedMatch || score === undefined || !timeMatch) {
+      return undefined;
+    }
+
+    const executionTimeMs = parseNumber(timeMatch[1]);
+    if (executionTimeMs === undefined) {
+      return undefined;
+    }
+
+    return {
+      completedCount: Number(progressMatch[1]),
+      total: Number(progressMatch[2]),
+      result: {
+        seed: Number(cells[2]),
+        score,
+        executionTime: executionTimeMs / 1000,
+      },
+    };
+  }
+
+  function parseJsonLine(text: string): ParsedLine | undefined {
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch {
+      return undefined;
+    }
+    if (typeof value !== 'object' || value === null) {
+      return undefined;
+    }
+
+    const { seed, score, execution_time: executionTime } = value as Record<string, unknown>;
+    if (
+      typeof seed !== 'number' ||
+      typeof score !== 'number' ||
+      typeof executionTime !== 'number'
+    ) {
+      return undefined;
+    }
+
+    return { result: { seed, score, executionTime } };
+  }
+
+  function parseNumber(text: string): number | undefined {
+    if (!/^-?[\d,]+(\.\d+)?$/.test(text)) {
+      return undefined;
+    }
+    return Number(text.replace(/,/g, ''));
+  }
+}
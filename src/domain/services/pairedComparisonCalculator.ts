@@ -0,0 +1,265 @@
+/**
+ * 2つの実行を共通 Seed 上で対にして比較する統計検定のドメインサービス
+ *
+ * 差分はすべて「正の値 = 比較対象の方が良い」という向きで渡す前提
+ */
+export namespace PairedComparisonCalculator {
+  /**
+   * 符号検定の結果
+   */
+  export interface SignTestResult {
+    wins: number;
+    losses: number;
+    ties: number;
+    /** 両側 p 値（勝敗が 0 件の場合は 1） */
+    pValue: number;
+  }
+
+  /**
+   * Wilcoxon 符号付き順位検定の結果
+   */
+  export interface WilcoxonResult {
+    /** 差が 0 でないペア数 */
+    n: number;
+    /** 正の差の順位和 */
+    wPlus: number;
+    /** 負の差の順位和 */
+    wMinus: number;
+    /** 両側 p 値（n が 0 の場合は 1） */
+    pValue: number;
+    /** 厳密分布で計算したか（false の場合は正規近似） */
+    exact: boolean;
+  }
+
+  /**
+   * ブートストラップ信頼区間
+   */
+  export interface BootstrapResult {
+    mean: number;
+    lower: number;
+    upper: number;
+    confidence: number;
+    iterations: number;
+  }
+
+  /** 厳密分布を使う最大ペア数（これを超える場合は正規近似） */
+  const WILCOXON_EXACT_MAX_N = 50;
+
+  /**
+   * 符号検定（二項検定、p = 0.5）
+   *
+   * @param diffs 差分配列（0 は引き分けとして除外）
+   */
+  export function signTest(diffs: number[]): SignTestResult {
+    let wins = 0;
+    let losses = 0;
+    let ties = 0;
+    for (const d of diffs) {
+      if (d > 0) {
+        wins++;
+      } else if (d < 0) {
+        losses++;
+      } else {
+        ties++;
+      }
+    }
+
+    const n = wins + losses;
+    if (n === 0) {
+      return { wins, losses, ties, pValue: 1 };
+    }
+
+    // P(X <= k) を対数空間で累積（大きな n でもアンダーフローしない）
+    const k = Math.min(wins, losses);
+    let logChoose = 0;
+    let tail = 0;
+    for (let i = 0; i <= k; i++) {
+      if (i > 0) {
+        logChoose += Math.log(n - i + 1) - Math.log(i);
+      }
+      tail += Math.exp(logChoose - n * Math.LN2);
+    }
+
+    return { wins, losses, ties, pValue: Math.min(1, 2 * tail) };
+  }
+
+  /**
+   * Wilcoxon 符号付き順位検定（両側）
+   * 同順位は平均順位を使用し、n が小さい場合は厳密分布、大きい場合はタイ補正付き正規近似で p 値を求める
+   *
+   * @param diffs 差分配列（0 は除外）
+   */
+  export function wilcoxonSignedRank(diffs: number[]): WilcoxonResult {
+    const nonZero = diffs.filter((d) => d !== 0);
+    const n = nonZero.length;
+    if (n === 0) {
+      return { n: 0, wPlus: 0, wMinus: 0, pValue: 1, exact: true };
+    }
+
+    // 絶対値で順位付け（同順位は平均順位）
+    const sorted = nonZero
+      .map((d) => ({ abs: Math.abs(d), positive: d > 0 }))
+      .sort((a, b) => a.abs - b.abs);
+    const ranks = new Array<number>(n);
+    const tieSizes: number[] = [];
+    let i = 0;
+    while (i < n) {
+      let j = i;
+      while (j + 1 < n && sorted[j + 1].abs === sorted[i].abs) {
+        j++;
+      }
+      const averageRank = (i + j + 2) / 2;
+      for (let k = i; k <= j; k++) {
+        ranks[k] = averageRank;
+      }
+      tieSizes.push(j - i + 1);
+      i = j + 1;
+    }
+
+    let wPlus = 0;
+    for (let k = 0; k < n; k++) {
+      if (sorted[k].positive) {
+        wPlus += ranks[k];
+      }
+    }
+    const total = (n * (n + 1)) / 2;
+    const wMinus = total - wPlus;
+
+    if (n <= WILCOXON_EXACT_MAX_N) {
+      return { n, wPlus, wMinus, pValue: exactWilcoxonPValue(ranks, wPlus), exact: true };
+    }
+
+    const mean = total / 2;
+    const tieCorrection = tieSizes.reduce((sum, t) => sum + (t * t * t - t), 0) / 48;
+    const variance = (n * (n + 1) * (2 * n + 1)) / 24 - tieCorrection;
+    if (variance <= 0) {
+      return { n, wPlus, wMinus, pValue: 1, exact: false };
+    }
+
+    // 連続性補正
+    const deviation = Math.max(0, Math.abs(wPlus - mean) - 0.5);
+    const z = deviation / Math.sqrt(variance);
+    return { n, wPlus, wMinus, pValue: Math.min(1, 2 * normalUpperTail(z)), exact: false };
+  }
+
+  /**
+   * 平均差のパーセンタイル・ブートストラップ信頼区間
+   * 表示が再描画のたびに揺れないよう、乱数は固定シードで生成する
+   *
+   * @param diffs 差分配列
+   * @param iterations リサンプリング回数
+   * @param confidence 信頼水準（e.g., 0.95）
+   */
+  export function bootstrapMeanInterval(
+    diffs: number[],
+    iterations = 2000,
+    confidence = 0.95,
+  ): BootstrapResult | undefined {
+    const n = diffs.length;
+    if (n === 0) {
+      return undefined;
+    }
+
+    const mean = diffs.reduce((a, b) => a + b, 0) / n;
+    const random = createRandom(0x5eed);
+    const means = new Array<number>(iterations);
+    for (let it = 0; it < iterations; it++) {
+      let sum = 0;
+      for (let k = 0; k < n; k++) {
+        sum += diffs[Math.floor(random() * n)];
+      }
+      means[it] = sum / n;
+    }
+    means.sort((a, b) => a - b);
+
+    const alpha = (1 - confidence) / 2;
+    const lowerIndex = Math.max(0, Math.floor(alpha * iterations));
+    const upperIndex = Math.min(iterations - 1, Math.ceil((1 - alpha) * iterations) - 1);
+
+    return {
+      mean,
+      lower: means[lowerIndex],
+      upper: means[upperIndex],
+      confidence,
+      iterations,
+    };
+  }
+
+  /**
+   * 順位（平均順位を含む）の並べ替え分布から厳密な両側 p 値を求める
+   * 平均順位は 0.5 刻みなので、2 倍して整数の部分和 DP で数える
+   */
+  function exactWilcoxonPValue(ranks: number[], wPlus: number): number {
+    const doubled = ranks.map((r) => Math.round(r * 2));
+    const maxSum = doubled.reduce((a, b) => a + b, 0);
+
+    // counts[s] = 正の符号を付けた順位の和（2倍）が s となる符号の付け方の数 / 2^n
+    let counts = new Array<number>(maxSum + 1).fill(0);
+    counts[0] = 1;
+    for (const r of doubled) {
+      const next = new Array<number>(maxSum + 1).fill(0);
+      for (let s = 0; s <= maxSum; s++) {
+        if (counts[s] === 0) {
+          continue;
+        }
+        next[s] += counts[s] / 2;
+        next[s + r] += counts[s] / 2;
+      }
+      counts = next;
+    }
+
+    // 平均からの距離が観測値以上になる確率
+    const observed = Math.abs(Math.round(wPlus * 2) - maxSum / 2);
+    let p = 0;
+    for (let s = 0; s <= maxSum; s++) {
+      if (Math.abs(s - maxSum / 2) >= observed - 1e-9) {
+        p += counts[s];
+      }
+    }
+    return Math.min(1, p);
+  }
+
+  /**
+   * 標準正規分布の上側確率 P(Z >= z)
+   * erfc の Chebyshev 近似（相対誤差 1.2e-7 未満）を使用
+   */
+  function normalUpperTail(z: number): number {
+    const x = z / Math.SQRT2;
+    const t = 1 / (1 + 0.5 * Math.abs(x));
+    const erfc =
+      t *
+      Math.exp(
+        -x * x -
+          1.26551223 +
+          t *
+            (1.00002368 +
+              t *
+                (0.37409196 +
+                  t *
+                    (0.09678418 +
+                      t *
+                        (-0.18628806 +
+                          t *
+                            (0.27886807 +
+                              t *
+                                (-1.13520398 +
+                                  t * (1.48851587 + t * (-0.82215223 + t * 0.17087277)))))))),
+      );
+    const value = x >= 0 ? erfc : 2 - erfc;
+    return value / 2;
+  }
+
+  /**
+   * 固定シードの擬似乱数生成器（mulberry32）
+   */
+  function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+}
@@ -0,0 +1,234 @@
+import { ChartVariables } from './chartVariables';
+
+export namespace ParameterSweep {
+  /**
+   * パラメータ名 => 値
+   */
+  export type Params = Record<string, number>;
+
+  /**
+   * グリッドサーチのパラメータ（値の候補を列挙）
+   */
+  export interface GridParameter {
+    name: string;
+    values: number[];
+  }
+
+  /**
+   * ランダムサーチのパラメータ（範囲から一様に選ぶ）
+   */
+  export interface RangeParameter {
+    name: string;
+    min: number;
+    max: number;
+    /** 両端が整数の場合は整数だけを選ぶ */
+    integer: boolean;
+  }
+
+  /**
+   * スイープの定義
+   * - grid: すべての組み合わせを実行
+   * - random: count 回、各パラメータを範囲から選んで実行
+   */
+  export type Spec =
+    | { mode: 'grid'; parameters: GridParameter[] }
+    | { mode: 'random'; parameters: RangeParameter[]; count: number };
+
+  /**
+   * ビルド・実行に影響するため、パラメータ名として使用できない環境変数
+   */
+  const RESERVED_ENV_NAMES = [
+    'PATH',
+    'HOME',
+    'USERPROFILE',
+    'SHELL',
+    'PWD',
+    'TMP',
+    'TEMP',
+    'TMPDIR',
+    'LANG',
+    'CC',
+    'CXX',
+    'CFLAGS',
+    'CXXFLAGS',
+    'CPPFLAGS',
+    'LDFLAGS',
+    'RUSTFLAGS',
+    'RUSTC',
+    'RUSTUP_HOME',
+    'GOPATH',
+    'GOROOT',
+    'GOFLAGS',
+    'GOOS',
+    'GOARCH',
+    'GOCACHE',
+    'GOMAXPROCS',
+  ];
+
+  /**
+   * ビルド・実行に影響するため、パラメータ名として使用できない環境変数の接頭辞
+   */
+  const RESERVED_ENV_PREFIXES = ['CARGO_', 'RUST_', 'LD_', 'DYLD_', 'LC_', 'PYTHON', 'NODE_'];
+
+  /**
+   * パラメータ名として使用できるか（環境変数名・比較ビューの変数名として使えるもの）
+   */
+  export function isValidName(name: string): boolean {
+    return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name);
+  }
+
+  /**
+   * パラメータ名を検証する
+   * パラメータは環境変数として渡すため、既存の環境変数やビルド・実行に影響する環境変数の名前は使用できない
+   * また比較ビューの組み込みの変数（seed など）と同じ名前も使用できない
+   *
+   * @param existingEnvNames 実行時に設定されている環境変数の名前
+   * @returns 使用できない場合はその理由
+   */
+  export function validateName(
+    name: string,
+    existingEnvNames: readonly string[] = [],
+  ): string | undefined {
+    if (!isValidName(name)) {
+      return `パラメータ名が不正です: ${name}`;
+    }
+    if ((ChartVariables.BUILTIN_NAMES as readonly string[]).includes(name)) {
+      return `${name} は比較ビューの変数名として使われているため、パラメータ名に使用できません`;
+    }
+    // Windows の環境変数は大文字・小文字を区別しないため、大文字にそろえて比較する
+    const upperName = name.toUpperCase();
+    if (
+      RESERVED_ENV_NAMES.includes(upperName) ||
+      RESERVED_ENV_PREFIXES.some((prefix) => upperName.startsWith(prefix)) ||
+      existingEnvNames.some((envName) => envName.toUpperCase() === upperName)
+    ) {
+      return `${name} は環境変数として使われているため、パラメータ名に使用できません`;
+    }
+    return undefined;
+  }
+
+  /**
+   * グリッドサーチの定義をパースする
+   *
+   * @example parseGrid('T0=100,200,500 T1=1,10') => T0 が 3 通り、T1 が 2 通り
+   * @param existingEnvNames 実行時に設定されている環境変数の名前（パラメータ名に使用できない）
+   * @returns パラメータ一覧、解釈できない部分がある場合はその理由を error に含める
+   */
+  export function parseGrid(
+    text: string,
+    existingEnvNames: readonly string[] = [],
+  ): { parameters: GridParameter[]; error?: string } {
+    const parameters: GridParameter[] = [];
+    for (const [name, valueText] of splitAssignments(text)) {
+      const nameError = validateName(name, existingEnvNames);
+      if (nameError) {
+        return { parameters, error: nameError };
+      }
+      const values = valueText.split(',').map((value) => value.trim());
+      if (values.some((value) => value === '' || !Number.isFinite(Number(value)))) {
+        return { parameters, error: `${name} の値が不正です: ${valueText}` };
+      }
+      parameters.push({ name, values: [...new Set(values.map(Number))] });
+    }
+    return validateNames(parameters);
+  }
+
+  /**
+   * ランダムサーチの定義をパースする
+   *
+   * @example parseRandom('T0=100..1000 T1=0.1..10') => T0 は 100〜1000 の整数、T1 は 0.1〜10 の実数
+   * @param existingEnvNames 実行時に設定されている環境変数の名前（パラメータ名に使用できない）
+   * @returns パラメータ一覧、解釈できない部分がある場合はその理由を error に含める
+   */
+  export function parseRandom(
+    text: string,
+    existingEnvNames: readonly string[] = [],
+  ): { parameters: RangeParameter[]; error?: string } {
+    const parameters: RangeParameter[] = [];
+    for (const [name, valueText] of splitAssignments(text)) {
+      const nameError = validateName(name, existingEnvNames);
+      if (nameError) {
+        return { parameters, error: nameError };
+      }
+      const match = valueText.match(/^(\S+)\s*\.\.\s*(\S+)$/);
+      const min = Number(match?.[1]);
+      const max = Number(match?.[2]);
+      if (!match || !Number.isFinite(min) || !Number.isFinite(max) || min > max) {
+        return {
+          parameters,
+          error: `${name} の範囲が不正です（例: ${name}=100..1000）: ${valueText}`,
+        };
+      }
+      parameters.push({ name, min, max, integer: Number.isInteger(min) && Number.isInteger(max) });
+    }
+    return validateNames(parameters);
+  }
+
+  /**
+   * スイープで実行するパラメータの組み合わせを列挙する
+   *
+   * @param random 乱数生成器（[0, 1) を返す）
+   */
+  export function combinations(spec: Spec, random: () => number = Math.random): Params[] {
+    if (spec.mode === 'grid') {
+      let result: Params[] = [{}];
+      for (const parameter of spec.parameters) {
+        result = result.flatMap((params) =>
+          parameter.values.map((value) => ({ ...params, [parameter.name]: value })),
+        );
+      }
+      return spec.parameters.length > 0 ? result : [];
+    }
+
+    const result: Params[] = [];
+    for (let i = 0; i < spec.count; i++) {
+      const params: Params = {};
+      for (const parameter of spec.parameters) {
+        params[parameter.name] = parameter.integer
+          ? parameter.min + Math.floor(random() * (parameter.max - parameter.min + 1))
+          : Number((parameter.min + random() * (parameter.max - parameter.min)).toPrecision(6));
+      }
+      result.push(params);
+    }
+    return spec.parameters.length > 0 ? result : [];
+  }
+
+  /**
+   * パラメータを表示用の文字列にする
+   *
+   * @example format({ T0: 100, T1: 1 }) => "T0=100, T1=1"
+   */
+  export function format(params: Params): string {
+    return Object.entries(params)
+      .map(([name, value]) => `${name}=${value}`)
+      .join(', ');
+  }
+
+  /**
+   * `name=value` の並びを分割する（空白または `;` 区切り、値の中のカンマ・`..` 前後の空白は許容）
+   */
+  function splitAssignments(text: string): Array<[string, string]> {
+    return text
+      .split(/\s*;\s*|\s+(?=[^\s=,.]+\s*=)/)
+      .map((part) => part.trim())
+      .filter((part) => part !== '')
+      .map((part) => {
+        const index = part.indexOf('=');
+        return index < 0 ? [part, ''] : [part.slice(0, index).trim(), part.slice(index + 1).trim()];
+      });
+  }
+
+  function validateNames<T extends { name: string }>(
+    parameters: T[],
+  ): { parameters: T[]; error?: string } {
+    if (parameters.length === 0) {
+      return { parameters, error: 'パラメータを 1 つ以上指定してください' };
+    }
+    const names = parameters.map((parameter) => parameter.name);
+    const duplicated = names.find((name, index) => names.indexOf(name) !== index);
+    if (duplicated) {
+      return { parameters, error: `パラメータ名が重複しています: ${duplicated}` };
+    }
+    return { parameters };
+  }
+}
@@ -0,0 +1,165 @@
+export namespace RegressionAnalyzer {
+  export type CaseLike = {
+    id: { seed: number };
+    score: number;
+    executionTime: number;
+    errorMessage: string;
+  };
+
+  /**
+   * 回帰判定の閾値
+   */
+  export interface Thresholds {
+    /** スコア変化として報告する最小の変化率（%） */
+    scoreChangePercent: number;
+    /** 実行時間の増加として報告する最小の増加率（%） */
+    runtimeIncreasePercent: number;
+    /** 実行時間の増加として報告する最小の増加量（秒）。短いケースの揺らぎを除外する */
+    runtimeIncreaseMinSeconds: number;
+    /** 各項目に表示する最大件数 */
+    maxItems: number;
+  }
+
+  /**
+   * Seed ごとのスコア変化
+   */
+  export interface ScoreChange {
+    seed: number;
+    referenceScore: number;
+    targetScore: number;
+    /** 基準スコアに対する変化率（%）。正の値が改善（objective を考慮済み） */
+    changePercent: number;
+  }
+
+  /**
+   * Seed ごとの実行時間変化
+   */
+  export interface RuntimeChange {
+    seed: number;
+    referenceTime: number;
+    targetTime: number;
+    /** 基準時間に対する増加率（%） */
+    increasePercent: number;
+  }
+
+  /**
+   * 新たに失敗した Seed
+   */
+  export interface NewFailure {
+    seed: number;
+    referenceScore: number;
+    errorMessage: string;
+  }
+
+  /**
+   * 回帰レポート
+   */
+  export interface Report {
+    /** 比較した共通 Seed 数 */
+    commonCount: number;
+    newFailures: NewFailure[];
+    /** 悪化が大きい順 */
+    scoreDrops: ScoreChange[];
+    /** 改善が大きい順 */
+    scoreImprovements: ScoreChange[];
+    /** 増加率が大きい順 */
+    runtimeIncreases: RuntimeChange[];
+  }
+
+  /**
+   * 2つの実行を Seed ごとに比較して回帰レポートを作成する
+   *
+   * @param targetCases 対象（新しい実行）のテストケース
+   * @param referenceCases 比較元の実行のテストケース
+   * @param objective 最適化の方向（'max'=最大化, 'min'=最小化）
+   * @param thresholds 回帰判定の閾値
+   */
+  export function analyze(
+    targetCases: CaseLike[],
+    referenceCases: CaseLike[],
+    objective: 'max' | 'min',
+    thresholds: Thresholds,
+  ): Report {
+    const referenceBySeed = new Map(referenceCases.map((tc) => [tc.id.seed, tc]));
+
+    let commonCount = 0;
+    const newFailures: NewFailure[] = [];
+    const scoreChanges: ScoreChange[] = [];
+    const runtimeIncreases: RuntimeChange[] = [];
+
+    for (const target of targetCases) {
+      const reference = referenceBySeed.get(target.id.seed);
+      if (!reference) {
+        continue;
+      }
+      commonCount++;
+
+      const targetFailed = isFailed(target);
+      const referenceFailed = isFailed(reference);
+      if (targetFailed && !referenceFailed) {
+        newFailures.push({
+          seed: target.id.seed,
+          referenceScore: reference.score,
+          errorMessage: target.errorMessage,
+        });
+      } else if (!targetFailed && !referenceFailed) {
+        const ratio =
+          objective === 'max' ? target.score / reference.score : reference.score / target.score;
+        const changePercent = (ratio - 1) * 100;
+        if (Math.abs(changePercent) >= thresholds.scoreChangePercent && changePercent !== 0) {
+          scoreChanges.push({
+            seed: target.id.seed,
+            referenceScore: reference.score,
+            targetScore: target.score,
+            changePercent,
+          });
+        }
+      }
+
+      const timeIncrease = target.executionTime - reference.executionTime;
+      if (timeIncrease >= thresholds.runtimeIncreaseMinSeconds && reference.executionTime > 0) {
+        const increasePercent = (timeIncrease / reference.executionTime) * 100;
+        if (increasePercent >= thresholds.runtimeIncreasePercent) {
+          runtimeIncreases.push({
+            seed: target.id.seed,
+            referenceTime: reference.executionTime,
+            targetTime: target.executionTime,
+            increasePercent,
+          });
+        }
+      }
+    }
+
+    const scoreDrops = scoreChanges
+      .filter((c) => c.changePercent < 0)
+      .sort((a, b) => a.changePercent - b.changePercent);
+    const scoreImprovements = scoreChanges
+      .filter((c) => c.changePercent > 0)
+      .sort((a, b) => b.changePercent - a.changePercent);
+
+    return {
+      commonCount,
+      newFailures: newFailures.sort((a, b) => a.seed - b.seed),
+      scoreDrops: scoreDrops.slice(0, thresholds.maxItems),
+      scoreImprovements: scoreImprovements.slice(0, thresholds.maxItems),
+      runtimeIncreases: runtimeIncreases
+        .sort((a, b) => b.increasePercent - a.increasePercent)
+        .slice(0, thresholds.maxItems),
+    };
+  }
+
+  /**
+   * レポートに報告すべき回帰（失敗・悪化・実行時間増加）が含まれるか
+   */
+  export function hasRegression(report: Report): boolean {
+    return (
+      report.newFailures.length > 0 ||
+      report.scoreDrops.length > 0 ||
+      report.runtimeIncreases.length > 0
+    );
+  }
+
+  function isFailed(tc: CaseLike): boolean {
+    return tc.score <= 0 || tc.errorMessage !== '';
+  }
+}
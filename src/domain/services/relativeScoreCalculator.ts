@@ -1,4 +1,99 @@
+import { BestScoreCalculator } from './bestScoreCalculator';
+
 export namespace RelativeScoreCalculator {
+  /**
+   * 相対スコアの計算方式
+   *
+   * - bestRatio: ベストスコアとの比（従来の方式）
+   * - rank: 全実行中の順位に基づくスコア
+   * - logRatio: ベストスコアとの比の対数
+   * - baselineRatio: 基準実行のスコアとの比
+   */
+  export type Method = 'bestRatio' | 'rank' | 'logRatio' | 'baselineRatio';
+
+  export type CaseLike = {
+    id: { executionId: string; seed: number };
+    score: number;
+  };
+
+  /**
+   * 相対スコアの計算に必要な Seed ごとの参照データ
+   */
+  export interface Context {
+    method: Method;
+    objective: 'max' | 'min';
+    /** seed => ベストスコア */
+    bestScores: Map<number, number>;
+    /** seed => 全実行の有効スコア（rank 方式で使用） */
+    seedScores: Map<number, number[]>;
+    /** seed => 基準実行のスコア（baselineRatio 方式で使用） */
+    baselineScores: Map<number, number>;
+  }
+
+  /**
+   * 全実行のテストケースから相対スコア計算用のコンテキストを作成する
+   *
+   * @param testCases 全実行のテストケース
+   * @param objective 最適化の方向（'max'=最大化, 'min'=最小化）
+   * @param method 計算方式
+   * @param baselineExecutionId 基準実行 ID（baselineRatio 方式で使用）
+   */
+  export function createContext(
+    testCases: CaseLike[],
+    objective: 'max' | 'min',
+    method: Method,
+    baselineExecutionId?: string,
+  ): Context {
+    const seedScores = new Map<number, number[]>();
+    const baselineScores = new Map<number, number>();
+    for (const tc of testCases) {
+      if (tc.score > 0) {
+        const scores = seedScores.get(tc.id.seed) ?? [];
+        scores.push(tc.score);
+        seedScores.set(tc.id.seed, scores);
+      }
+      if (tc.id.executionId === baselineExecutionId) {
+        baselineScores.set(tc.id.seed, tc.score);
+      }
+    }
+
+    return {
+      method,
+      objective,
+      bestScores: BestScoreCalculator.calculate(testCases, objective),
+      seedScores,
+      baselineScores,
+    };
+  }
+
+  /**
+   * コンテキストの計算方式で相対スコアを計算する
+   *
+   * @param context 相対スコア計算用のコンテキスト
+   * @param seed Seed
+   * @param score 実スコア
+   * @returns 相対スコア（パーセンテージ、0-100+）、無効な場合は 0
+   *   （baselineRatio 方式で基準実行が実行していない seed は比較できないため undefined）
+   */
+  export function calculateWith(context: Context, seed: number, score: number): number | undefined {
+    const { objective } = context;
+    switch (context.method) {
+      case 'bestRatio':
+        return calculate(score, context.bestScores.get(seed), objective);
+      case 'rank':
+        return calculateRank(score, context.seedScores.get(seed) ?? [], objective);
+      case 'logRatio':
+        return calculateLogRatio(score, context.bestScores.get(seed), objective);
+      case 'baselineRatio': {
+        const baselineScore = context.baselineScores.get(seed);
+        if (baselineScore === undefined) {
+          return undefined;
+        }
+        return calculate(score, baselineScore, objective);
+      }
+    }
+  }
+
   /**
    * 実スコアとベストスコアから相対スコアを計算する
    *
@@ -42,4 +137,51 @@ export namespace RelativeScoreCalculator {
     }
     return result;
   }
+
+  /**
+   * 計算方式の表示名を取得する
+   */
+  export function methodLabel(method: Method): string {
+    switch (method) {
+      case 'bestRatio':
+        return 'ベスト比';
+      case 'rank':
+        return '順位';
+      case 'logRatio':
+        return '対数比';
+      case 'baselineRatio':
+        return '基準実行比';
+    }
+  }
+
+  /**
+   * 全実行中の順位から相対スコアを計算する
+   * 1位が 100、最下位が 100/n となる（同スコアは同順位）
+   */
+  function calculateRank(score: number, seedScores: number[], objective: 'max' | 'min'): number {
+    if (score <= 0 || seedScores.length === 0) {
+      return 0;
+    }
+
+    const betterCount = seedScores.filter((s) =>
+      objective === 'max' ? s > score : s < score,
+    ).length;
+    return ((seedScores.length - betterCount) / seedScores.length) * 100;
+  }
+
+  /**
+   * ベストスコアとの比の対数から相対スコアを計算する
+   * ベストで 100、ベストの 1/10 で 0 となる（0 未満は 0 に切り上げ）
+   */
+  function calculateLogRatio(
+    score: number,
+    bestScore: number | undefined,
+    objective: 'max' | 'min',
+  ): number {
+    const ratio = calculate(score, bestScore, objective) / 100;
+    if (ratio <= 0) {
+      return 0;
+    }
+    return Math.max(0, (1 + Math.log10(ratio)) * 100);
+  }
 }
@@ -0,0 +1,87 @@
+export namespace SeedList {
+  /**
+   * 連続した Seed 範囲（pahcer の設定と同じく endSeed は含まない）
+   */
+  export interface Range {
+    startSeed: number;
+    endSeed: number;
+  }
+
+  /**
+   * Seed 一覧を重複のない昇順に正規化する
+   */
+  export function normalize(seeds: readonly number[]): number[] {
+    return [...new Set(seeds)]
+      .filter((seed) => Number.isInteger(seed) && seed >= 0)
+      .sort((a, b) => a - b);
+  }
+
+  /**
+   * Seed 一覧を連続した範囲に分割する
+   * pahcer は連続した範囲しか実行できないため、範囲ごとに pahcer run を実行する
+   *
+   * @example toRanges([3, 1, 2, 7, 9, 8]) => [{ startSeed: 1, endSeed: 4 }, { startSeed: 7, endSeed: 10 }]
+   */
+  export function toRanges(seeds: readonly number[]): Range[] {
+    const ranges: Range[] = [];
+    for (const seed of normalize(seeds)) {
+      const last = ranges[ranges.length - 1];
+      if (last && last.endSeed === seed) {
+        last.endSeed = seed + 1;
+      } else {
+        ranges.push({ startSeed: seed, endSeed: seed + 1 });
+      }
+    }
+    return ranges;
+  }
+
+  /**
+   * テキストから Seed 一覧を読み取る
+   * 空白・カンマ・改行区切りの整数と `a-b`（両端を含む）形式の範囲を受け付け、`#` 以降は無視する
+   *
+   * @returns Seed 一覧、解釈できない部分がある場合はその部分を error に含める
+   */
+  export function parse(text: string): { seeds: number[]; error?: string } {
+    const seeds: number[] = [];
+    const tokens = text
+      .split(/\r?\n/)
+      .map((line) => line.replace(/#.*$/, ''))
+      .flatMap((line) => line.split(/[\s,]+/))
+      .filter((token) => token !== '');
+
+    for (const token of tokens) {
+      const range = token.match(/^(\d+)-(\d+)$/);
+      if (range) {
+        const start = Number(range[1]);
+        const end = Number(range[2]);
+        if (start > end) {
+          return { seeds, error: token };
+        }
+        for (let seed = start; seed <= end; seed++) {
+          seeds.push(seed);
+        }
+      } else if (/^\d+$/.test(token)) {
+        seeds.push(Number(token));
+      } else {
+        return { seeds, error: token };
+      }
+    }
+
+    return { seeds: normalize(seeds) };
+  }
+
+  /**
+   * Seed 一覧を範囲表記で短く表示する
+   *
+   * @example format([0, 1, 2, 5]) => "0-2, 5"
+   */
+  export function format(seeds: readonly number[]): string {
+    return toRanges(seeds)
+      .map((range) =>
+        range.endSeed - range.startSeed === 1
+          ? `${range.startSeed}`
+          : `${range.startSeed}-${range.endSeed - 1}`,
+      )
+      .join(', ');
+  }
+}
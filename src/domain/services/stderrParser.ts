@@ -1,26 +1,215 @@
+import type { StderrSeries } from '../models/testCase';
+import type { StderrPattern } from '../models/uiConfig';
+
 export namespace StderrParser {
+  /** 推移の x 座標として使用する変数（先にあるものを優先） */
+  const SERIES_X_KEYS = ['iter', 'time'];
+
+  /** 既定の形式（`$name = value`） */
+  export const DEFAULT_PATTERNS: readonly StderrPattern[] = [{ type: 'dollar' }];
+
+  /**
+   * stderr の解析結果
+   */
+  export interface Analysis {
+    /** 数値の変数（同名の変数は最後の値） */
+    variables: Record<string, number>;
+    /** 文字列の値（カテゴリとして扱うタグ、同名のタグは最後の値） */
+    tags: Record<string, string>;
+    /** 数値の変数の推移（出力されたすべての値） */
+    series: Record<string, StderrSeries>;
+  }
+
+  type Entry = { name: string; value: number | string };
+
   /**
-   * stderrから変数を抽出する（$varname = value の形式）
+   * stderr を解析して変数・タグ・推移を抽出する
    *
    * @param content stderr のコンテンツ
-   * @returns 変数名と値のマップ
+   * @param patterns 有効な形式（1 行に複数の形式が一致した場合はすべて採用する）
    */
-  export function parseVariables(content: string): Record<string, number> {
+  export function analyze(
+    content: string,
+    patterns: readonly StderrPattern[] = DEFAULT_PATTERNS,
+  ): Analysis {
+    const regexes = compileRegexPatterns(patterns);
+    const entriesByLine = content
+      .split('\n')
+      .map((line) => parseLine(line, patterns, regexes))
+      .filter((entries) => entries.length > 0);
+
     const variables: Record<string, number> = {};
-    const lines = content.split('\n');
-    const pattern = /\$([a-zA-Z_][a-zA-Z_0-9]*)\s*=\s*(-?\d+(?:\.\d+)?)/;
-
-    for (const line of lines) {
-      const match = line.match(pattern);
-      if (match) {
-        const varName = match[1];
-        const value = parseFloat(match[2]);
-        if (!Number.isNaN(value)) {
-          variables[varName] = value;
+    const tags: Record<string, string> = {};
+    for (const entries of entriesByLine) {
+      for (const { name, value } of entries) {
+        if (typeof value === 'number') {
+          variables[name] = value;
+          delete tags[name];
+        } else {
+          tags[name] = value;
+          delete variables[name];
+        }
+      }
+    }
+
+    return { variables, tags, series: buildSeries(entriesByLine) };
+  }
+
+  /**
+   * 独自の正規表現の形式が正しいか検証する
+   * @returns エラーメッセージ（問題がなければ undefined）
+   */
+  export function validateRegexPattern(pattern: string): string | undefined {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern);
+    } catch (e) {
+      return `正規表現が不正です: ${e instanceof Error ? e.message : String(e)}`;
+    }
+    if (!/\(\?<[A-Za-z_][A-Za-z0-9_]*>/.test(regex.source)) {
+      return '名前付きグループ (?<name>...) が必要です';
+    }
+    return undefined;
+  }
+
+  /**
+   * 独自の正規表現の形式をコンパイルする（不正なものは無視する）
+   */
+  function compileRegexPatterns(patterns: readonly StderrPattern[]): Map<StderrPattern, RegExp> {
+    const regexes = new Map<StderrPattern, RegExp>();
+    for (const pattern of patterns) {
+      if (pattern.type === 'regex' && validateRegexPattern(pattern.pattern) === undefined) {
+        regexes.set(pattern, new RegExp(pattern.pattern, 'g'));
+      }
+    }
+    return regexes;
+  }
+
+  /**
+   * 1 行から有効な形式の値を抽出する
+   */
+  function parseLine(
+    line: string,
+    patterns: readonly StderrPattern[],
+    regexes: Map<StderrPattern, RegExp>,
+  ): Entry[] {
+    const entries: Entry[] = [];
+    for (const pattern of patterns) {
+      switch (pattern.type) {
+        case 'dollar':
+          // $name = value（1 行に複数可）
+          for (const match of line.matchAll(
+            /\$([A-Za-z_][A-Za-z0-9_]*)\s*=\s*("[^"]*"|[^\s,;]+)/g,
+          )) {
+            entries.push({ name: match[1], value: toValue(match[2]) });
+          }
+          break;
+        case 'json':
+          entries.push(...parseJsonLine(line));
+          break;
+        case 'keyValue': {
+          // name: value（1 行に 1 つ）
+          const match = line.match(/^\s*([A-Za-z_][A-Za-z0-9_]*)\s*:\s*(.*?)\s*$/);
+          if (match && match[2] !== '') {
+            entries.push({ name: match[1], value: toValue(match[2]) });
+          }
+          break;
+        }
+        case 'regex': {
+          // 名前付きグループをそれぞれ変数とする
+          const regex = regexes.get(pattern);
+          for (const match of regex ? line.matchAll(regex) : []) {
+            for (const [name, value] of Object.entries(match.groups ?? {})) {
+              if (value !== undefined && value !== '') {
+                entries.push({ name, value: toValue(value) });
+              }
+            }
+          }
+          break;
         }
       }
     }
 
-    return variables;
+    return entries;
+  }
+
+  /**
+   * JSON オブジェクトの行から値を抽出する（入れ子のオブジェクト・配列は無視する）
+   */
+  function parseJsonLine(line: string): Entry[] {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('{') || !trimmed.endsWith('}')) {
+      return [];
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      return [];
+    }
+    if (typeof parsed !== 'object' || parsed === null) {
+      return [];
+    }
+
+    const entries: Entry[] = [];
+    for (const [name, value] of Object.entries(parsed)) {
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+        continue;
+      }
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        entries.push({ name, value });
+      } else if (typeof value === 'string' || typeof value === 'boolean') {
+        entries.push({ name, value: String(value) });
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * 数値として解釈できれば数値、そうでなければ文字列（前後の引用符は取り除く）にする
+   */
+  function toValue(raw: string): number | string {
+    const text = raw.trim();
+    if (/^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/.test(text)) {
+      return parseFloat(text);
+    }
+    return text.replace(/^"(.*)"$/, '$1');
+  }
+
+  /**
+   * 数値の値の出現順から推移を作る
+   */
+  function buildSeries(entriesByLine: Entry[][]): Record<string, StderrSeries> {
+    const xKey = SERIES_X_KEYS.find((key) =>
+      entriesByLine.some((entries) =>
+        entries.some(({ name, value }) => name === key && typeof value === 'number'),
+      ),
+    );
+
+    const pointsByName = new Map<string, [number, number][]>();
+    let currentX: number | undefined;
+    for (const entries of entriesByLine) {
+      // 同じ行の x 座標を先に反映する
+      for (const { name, value } of entries) {
+        if (name === xKey && typeof value === 'number') {
+          currentX = value;
+        }
+      }
+      for (const { name, value } of entries) {
+        if (name === xKey || typeof value !== 'number') {
+          continue;
+        }
+        const points = pointsByName.get(name) ?? [];
+        points.push([xKey ? (currentX ?? 0) : points.length, value]);
+        pointsByName.set(name, points);
+      }
+    }
+
+    const series: Record<string, StderrSeries> = {};
+    for (const [name, points] of pointsByName) {
+      series[name] = { xKey, points };
+    }
+    return series;
   }
 }
@@ -0,0 +1,63 @@
+import type { UIConfig } from '../models/uiConfig';
+
+export namespace TimeLimitClassifier {
+  /**
+   * 実行時間制限に対する状態
+   * - withinLimit: 警告ライン未満
+   * - nearLimit: 警告ライン以上、制限以下
+   * - exceeded: 制限超過（TLE）
+   */
+  export type Status = 'withinLimit' | 'nearLimit' | 'exceeded';
+
+  /**
+   * 実行時間制限
+   */
+  export interface TimeLimit {
+    /** 制限時間（ミリ秒） */
+    limitMs: number;
+    /** 警告ライン（制限時間に対する比率、e.g., 0.9） */
+    warningRatio: number;
+  }
+
+  /**
+   * 設定から実行時間制限を取得する
+   *
+   * @returns 実行時間制限、未設定の場合は undefined
+   */
+  export function fromConfig(config: UIConfig): TimeLimit | undefined {
+    if (config.timeLimitMs === undefined) {
+      return undefined;
+    }
+    return { limitMs: config.timeLimitMs, warningRatio: config.timeLimitWarningRatio };
+  }
+
+  /**
+   * 実行時間を実行時間制限に照らして分類する
+   *
+   * @param executionTime 実行時間（秒）
+   * @param timeLimit 実行時間制限（未設定の場合は常に withinLimit）
+   */
+  export function classify(executionTime: number, timeLimit: TimeLimit | undefined): Status {
+    if (!timeLimit) {
+      return 'withinLimit';
+    }
+
+    const executionTimeMs = executionTime * 1000;
+    if (executionTimeMs > timeLimit.limitMs) {
+      return 'exceeded';
+    }
+    if (executionTimeMs >= timeLimit.limitMs * timeLimit.warningRatio) {
+      return 'nearLimit';
+    }
+    return 'withinLimit';
+  }
+
+  /**
+   * 実行時間と制限時間を表示用の文字列にする（e.g., "1890ms / 2000ms (94.5%)"）
+   */
+  export function formatUsage(executionTime: number, timeLimit: TimeLimit): string {
+    const executionTimeMs = executionTime * 1000;
+    const ratio = (executionTimeMs / timeLimit.limitMs) * 100;
+    return `${executionTimeMs.toFixed(0)}ms / ${timeLimit.limitMs}ms (${ratio.toFixed(1)}%)`;
+  }
+}
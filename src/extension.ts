@@ -1,20 +1,40 @@
 import * as vscode from 'vscode';
+import { AnalyzeExecutionsUseCase } from './application/analyzeExecutionsUseCase';
 import { CommitResultsUseCase } from './application/commitResultsUseCase';
+import { CreateRegressionReportUseCase } from './application/createRegressionReportUseCase';
+import { DeleteExecutionsUseCase } from './application/deleteExecutionsUseCase';
+import { ExtractInputFeaturesUseCase } from './application/extractInputFeaturesUseCase';
+import { GenerateInputsUseCase } from './application/generateInputsUseCase';
 import { InitializeUseCase } from './application/initializeUseCase';
+import { LoadInputFeaturesUseCase } from './application/loadInputFeaturesUseCase';
 import { LoadPahcerTreeDataUseCase } from './application/loadPahcerTreeDataUseCase';
+import { PlanExecutionPruneUseCase } from './application/planExecutionPruneUseCase';
 import { RunPahcerUseCase } from './application/runPahcerUseCase';
+import { RunParameterSweepUseCase } from './application/runParameterSweepUseCase';
+import { RunQueueUseCase } from './application/runQueueUseCase';
+import type { IBaselineRepository } from './domain/interfaces/IBaselineRepository';
 import type { IExecutionRepository } from './domain/interfaces/IExecutionRepository';
+import type { IInputFeatureAnalyzer } from './domain/interfaces/IInputFeatureAnalyzer';
+import type { IInputGenerator } from './domain/interfaces/IInputGenerator';
 import type { IPahcerConfigRepository } from './domain/interfaces/IPahcerConfigRepository';
+import type { IRunProfileRepository } from './domain/interfaces/IRunProfileRepository';
+import type { ISeedSetRepository } from './domain/interfaces/ISeedSetRepository';
 import type { ITestCaseRepository } from './domain/interfaces/ITestCaseRepository';
 import type { ITestCaseSummaryQueryService } from './domain/interfaces/ITestCaseSummaryQueryService';
 import type { IUIConfigRepository } from './domain/interfaces/IUIConfigRepository';
+import { BaselineRepository } from './infrastructure/baselineRepository';
 import { ExecutionRepository } from './infrastructure/executionRepository';
 import { FileAnalyzer } from './infrastructure/fileAnalyzer';
 import { GitAdapter } from './infrastructure/gitAdapter';
 import { GitignoreAdapter } from './infrastructure/gitignoreAdapter';
 import { InOutFilesAdapter } from './infrastructure/inOutFilesAdapter';
+import { InputFeatureAnalyzer } from './infrastructure/inputFeatureAnalyzer';
+import { InputGenerator } from './infrastructure/inputGenerator';
+import { LocalVisualizerAdapter } from './infrastructure/localVisualizerAdapter';
 import { PahcerAdapter } from './infrastructure/pahcerAdapter';
 import { PahcerConfigRepository } from './infrastructure/pahcerConfigRepository';
+import { RunProfileRepository } from './infrastructure/runProfileRepository';
+import { SeedSetRepository } from './infrastructure/seedSetRepository';
 import { TestCaseRepository } from './infrastructure/testCaseRepository';
 import { TestCaseSummaryQueryService } from './infrastructure/testCaseSummaryQueryService';
 import { TesterDownloader } from './infrastructure/testerDownloader';
@@ -22,8 +42,19 @@ import { UIConfigRepository } from './infrastructure/uiConfigRepository';
 import { VisualizerAdapter } from './infrastructure/visualizerAdapter';
 import { AppUIConfig } from './presentation/appUIConfig';
 import { addCommentCommand } from './presentation/controller/commands/addCommentCommand';
+import {
+  clearBaselineCommand,
+  setBaselineCommand,
+} from './presentation/controller/commands/baselineCommand';
 import { changeSortOrderCommand } from './presentation/controller/commands/changeSortOrderCommand';
+import { compareVisualizationsCommand } from './presentation/controller/commands/compareVisualizationsCommand';
 import { copySourceCommand } from './presentation/controller/commands/copySourceCommand';
+import {
+  deleteExecutionsCommand,
+  pruneExecutionsCommand,
+} from './presentation/controller/commands/deleteExecutionsCommand';
+import { generateInputsCommand } from './presentation/controller/commands/generateInputsCommand';
+import { importVisualizerCommand } from './presentation/controller/commands/importVisualizerCommand';
 import { initializeCommand } from './presentation/controller/commands/initializeCommand';
 import {
   openErrorFileCommand,
@@ -31,20 +62,64 @@ import {
   openOutputFileCommand,
 } from './presentation/controller/commands/openFileCommand';
 import { openGitHubCommand } from './presentation/controller/commands/openGitHubCommand';
+import { openPahcerSettingsCommand } from './presentation/controller/commands/pahcerSettingsCommand';
+import { runParameterSweepCommand } from './presentation/controller/commands/parameterSweepCommand';
+import { reanalyzeExecutionsCommand } from './presentation/controller/commands/reanalyzeExecutionsCommand';
 import { refreshCommand } from './presentation/controller/commands/refreshCommand';
 import { runCommand } from './presentation/controller/commands/runCommand';
+import {
+  createRunProfileCommand,
+  deleteRunProfileCommand,
+  runProfileCommand,
+} from './presentation/controller/commands/runProfileCommand';
+import {
+  clearRunQueueCommand,
+  enqueueRunCommand,
+  moveRunQueueItemCommand,
+  removeFromRunQueueCommand,
+  startRunQueueCommand,
+} from './presentation/controller/commands/runQueueCommand';
+import {
+  rerunFailedSeedsCommand,
+  runSeedsFromFileCommand,
+  runSelectedSeedsCommand,
+} from './presentation/controller/commands/runSeedsCommand';
 import { runWithOptionsCommand } from './presentation/controller/commands/runWithOptionsCommand';
+import {
+  clearSeedSetFilterCommand,
+  createSeedSetCommand,
+  createSeedSetFromSelectionCommand,
+  deleteSeedSetCommand,
+  filterBySeedSetCommand,
+  runSeedSetCommand,
+} from './presentation/controller/commands/seedSetCommand';
+import { setTimeLimitCommand } from './presentation/controller/commands/setTimeLimitCommand';
 import { showDiffCommand } from './presentation/controller/commands/showDiffCommand';
+import { showRegressionReportCommand } from './presentation/controller/commands/showRegressionReportCommand';
 import { showResultsNotFoundErrorCommand } from './presentation/controller/commands/showResultsNotFoundErrorCommand';
+import { showStderrTimelineCommand } from './presentation/controller/commands/showStderrTimelineCommand';
 import { showVisualizerCommand } from './presentation/controller/commands/showVisualizerCommand';
+import { configureStderrPatternsCommand } from './presentation/controller/commands/stderrPatternsCommand';
+import { stopRunCommand } from './presentation/controller/commands/stopRunCommand';
 import {
   switchToExecutionCommand,
   switchToSeedCommand,
 } from './presentation/controller/commands/switchModeCommand';
+import {
+  deleteVisualizersCommand,
+  listVisualizersCommand,
+  redownloadVisualizerCommand,
+  selectVisualizerCommand,
+} from './presentation/controller/commands/visualizerCacheCommand';
 import { ComparisonViewController } from './presentation/controller/comparisonViewController';
 import { InitializationWebViewController } from './presentation/controller/initializationWebViewController';
+import { PahcerSettingsWebViewController } from './presentation/controller/pahcerSettingsWebViewController';
 import { PahcerTreeViewController } from './presentation/controller/pahcerTreeViewController';
+import { RegressionReportViewController } from './presentation/controller/regressionReportViewController';
 import { RunOptionsWebViewController } from './presentation/controller/runOptionsWebViewController';
+import { RunProgressController } from './presentation/controller/runProgressController';
+import { RunQueueTreeViewController } from './presentation/controller/runQueueTreeViewController';
+import { StderrTimelineViewController } from './presentation/controller/stderrTimelineViewController';
 import { VisualizerViewController } from './presentation/controller/visualizerViewController';
 import { TreeItemBuilder } from './presentation/view/treeView/treeItemBuilder';
 import { VSCodeUIContext } from './presentation/vscodeUIContext';
@@ -54,10 +129,15 @@ import { VSCodeUIContext } from './presentation/vscodeUIContext';
  */
 interface Adapters {
   pahcerAdapter: PahcerAdapter;
+  baselineRepository: IBaselineRepository;
   executionRepository: IExecutionRepository;
   fileAnalyzer: FileAnalyzer;
   inOutFilesAdapter: InOutFilesAdapter;
+  inputFeatureAnalyzer: IInputFeatureAnalyzer;
+  inputGenerator: IInputGenerator;
   pahcerConfigRepository: IPahcerConfigRepository;
+  runProfileRepository: IRunProfileRepository;
+  seedSetRepository: ISeedSetRepository;
   gitignoreAdapter: GitignoreAdapter;
   gitAdapter: GitAdapter;
   testCaseRepository: ITestCaseRepository;
@@ -65,6 +145,7 @@ interface Adapters {
   testerDownloader: TesterDownloader;
   uiConfigRepository: IUIConfigRepository;
   visualizerAdapter: VisualizerAdapter;
+  localVisualizerAdapter: LocalVisualizerAdapter;
 }
 
 /**
@@ -74,6 +155,10 @@ interface Controllers {
   treeViewController: PahcerTreeViewController;
   visualizerViewController: VisualizerViewController;
   comparisonViewController: ComparisonViewController;
+  regressionReportViewController: RegressionReportViewController;
+  stderrTimelineViewController: StderrTimelineViewController;
+  runProgressController: RunProgressController;
+  runQueueTreeViewController: RunQueueTreeViewController;
 }
 
 /**
@@ -81,8 +166,17 @@ interface Controllers {
  */
 interface UseCases {
   commitResultsUseCase: CommitResultsUseCase;
+  generateInputsUseCase: GenerateInputsUseCase;
+  analyzeExecutionsUseCase: AnalyzeExecutionsUseCase;
   runPahcerUseCase: RunPahcerUseCase;
+  runParameterSweepUseCase: RunParameterSweepUseCase;
+  runQueueUseCase: RunQueueUseCase;
   loadPahcerTreeDataUseCase: LoadPahcerTreeDataUseCase;
+  createRegressionReportUseCase: CreateRegressionReportUseCase;
+  deleteExecutionsUseCase: DeleteExecutionsUseCase;
+  extractInputFeaturesUseCase: ExtractInputFeaturesUseCase;
+  planExecutionPruneUseCase: PlanExecutionPruneUseCase;
+  loadInputFeaturesUseCase: LoadInputFeaturesUseCase;
   initializeUseCase: InitializeUseCase;
 }
 
@@ -90,25 +184,36 @@ interface UseCases {
  * すべてのアダプターを初期化
  */
 async function initializeAdapters(workspaceRoot: string): Promise<Adapters> {
+  const baselineRepository = new BaselineRepository(workspaceRoot);
   const executionRepository = new ExecutionRepository(workspaceRoot);
   const fileAnalyzer = new FileAnalyzer();
   const inOutFilesAdapter = new InOutFilesAdapter(workspaceRoot);
+  const inputFeatureAnalyzer = new InputFeatureAnalyzer(inOutFilesAdapter, workspaceRoot);
+  const inputGenerator = new InputGenerator(workspaceRoot);
   const pahcerConfigRepository = new PahcerConfigRepository(workspaceRoot);
+  const runProfileRepository = new RunProfileRepository(workspaceRoot);
+  const seedSetRepository = new SeedSetRepository(workspaceRoot);
   const gitignoreAdapter = new GitignoreAdapter(workspaceRoot);
   const gitAdapter = new GitAdapter(workspaceRoot);
   const testCaseRepository = new TestCaseRepository(inOutFilesAdapter, workspaceRoot);
   const testCaseSummaryQueryService = new TestCaseSummaryQueryService(workspaceRoot);
   const uiConfigRepository = new UIConfigRepository(workspaceRoot);
   const visualizerAdapter = new VisualizerAdapter(workspaceRoot);
+  const localVisualizerAdapter = new LocalVisualizerAdapter(workspaceRoot);
   const testerDownloader = new TesterDownloader(workspaceRoot);
   const pahcerAdapter = new PahcerAdapter(pahcerConfigRepository, workspaceRoot);
 
   return {
     pahcerAdapter,
+    baselineRepository,
     executionRepository,
     fileAnalyzer,
     inOutFilesAdapter,
+    inputFeatureAnalyzer,
+    inputGenerator,
     pahcerConfigRepository,
+    runProfileRepository,
+    seedSetRepository,
     gitignoreAdapter,
     gitAdapter,
     testCaseRepository,
@@ -116,6 +221,7 @@ async function initializeAdapters(workspaceRoot: string): Promise<Adapters> {
     testerDownloader,
     uiConfigRepository,
     visualizerAdapter,
+    localVisualizerAdapter,
   };
 }
 
@@ -129,21 +235,77 @@ function initializeUseCases(
 ): UseCases {
   const commitResultsUseCase = new CommitResultsUseCase(adapters.gitAdapter, appUIConfig);
 
+  const generateInputsUseCase = new GenerateInputsUseCase(
+    adapters.inOutFilesAdapter,
+    adapters.inputGenerator,
+    appUIConfig,
+  );
+
+  const analyzeExecutionsUseCase = new AnalyzeExecutionsUseCase(
+    adapters.testCaseRepository,
+    adapters.inOutFilesAdapter,
+    adapters.fileAnalyzer,
+    adapters.uiConfigRepository,
+  );
+
   const runPahcerUseCase = new RunPahcerUseCase(
     adapters.pahcerAdapter,
     commitResultsUseCase,
     adapters.inOutFilesAdapter,
-    adapters.fileAnalyzer,
+    analyzeExecutionsUseCase,
     adapters.executionRepository,
     adapters.testCaseRepository,
     adapters.pahcerConfigRepository,
+    generateInputsUseCase,
   );
 
+  const runParameterSweepUseCase = new RunParameterSweepUseCase(runPahcerUseCase);
+
+  const runQueueUseCase = new RunQueueUseCase(runPahcerUseCase, adapters.seedSetRepository);
+
   const loadPahcerTreeDataUseCase = new LoadPahcerTreeDataUseCase(
     adapters.executionRepository,
     adapters.testCaseRepository,
     adapters.testCaseSummaryQueryService,
     adapters.pahcerConfigRepository,
+    adapters.baselineRepository,
+    adapters.uiConfigRepository,
+    adapters.seedSetRepository,
+  );
+
+  const createRegressionReportUseCase = new CreateRegressionReportUseCase(
+    adapters.executionRepository,
+    adapters.testCaseSummaryQueryService,
+    adapters.pahcerConfigRepository,
+    adapters.baselineRepository,
+  );
+
+  const deleteExecutionsUseCase = new DeleteExecutionsUseCase(
+    adapters.executionRepository,
+    adapters.baselineRepository,
+  );
+
+  const planExecutionPruneUseCase = new PlanExecutionPruneUseCase(
+    adapters.executionRepository,
+    adapters.testCaseSummaryQueryService,
+    adapters.pahcerConfigRepository,
+    adapters.baselineRepository,
+  );
+
+  const loadInputFeaturesUseCase = new LoadInputFeaturesUseCase(
+    adapters.pahcerConfigRepository,
+    adapters.uiConfigRepository,
+    adapters.executionRepository,
+    adapters.testCaseRepository,
+    adapters.inOutFilesAdapter,
+    adapters.fileAnalyzer,
+    adapters.inputFeatureAnalyzer,
+  );
+
+  const extractInputFeaturesUseCase = new ExtractInputFeaturesUseCase(
+    adapters.uiConfigRepository,
+    adapters.testCaseRepository,
+    adapters.inputFeatureAnalyzer,
   );
 
   const initializeUseCase = new InitializeUseCase(
@@ -156,8 +318,17 @@ function initializeUseCases(
 
   return {
     commitResultsUseCase,
+    generateInputsUseCase,
+    analyzeExecutionsUseCase,
     runPahcerUseCase,
+    runParameterSweepUseCase,
+    runQueueUseCase,
     loadPahcerTreeDataUseCase,
+    createRegressionReportUseCase,
+    deleteExecutionsUseCase,
+    extractInputFeaturesUseCase,
+    planExecutionPruneUseCase,
+    loadInputFeaturesUseCase,
     initializeUseCase,
   };
 }
@@ -168,6 +339,7 @@ function initializeUseCases(
 function initializeControllers(
   context: vscode.ExtensionContext,
   appUIConfig: AppUIConfig,
+  vscodeUIContext: VSCodeUIContext,
   adapters: Adapters,
   useCases: UseCases,
 ): Controllers {
@@ -182,21 +354,45 @@ function initializeControllers(
     context,
     adapters.inOutFilesAdapter,
     adapters.executionRepository,
+    adapters.testCaseRepository,
     adapters.visualizerAdapter,
+    adapters.localVisualizerAdapter,
+    appUIConfig,
+    adapters.uiConfigRepository,
   );
   const comparisonViewController = new ComparisonViewController(
     context,
+    appUIConfig,
     adapters.executionRepository,
     adapters.testCaseRepository,
     adapters.testCaseSummaryQueryService,
     adapters.uiConfigRepository,
     adapters.pahcerConfigRepository,
+    adapters.baselineRepository,
+    adapters.seedSetRepository,
+    useCases.extractInputFeaturesUseCase,
   );
 
+  const regressionReportViewController = new RegressionReportViewController(context);
+
+  const stderrTimelineViewController = new StderrTimelineViewController(
+    context,
+    adapters.executionRepository,
+    adapters.testCaseRepository,
+  );
+
+  const runProgressController = new RunProgressController(treeViewController, vscodeUIContext);
+
+  const runQueueTreeViewController = new RunQueueTreeViewController(new TreeItemBuilder());
+
   return {
     treeViewController,
     visualizerViewController,
     comparisonViewController,
+    regressionReportViewController,
+    stderrTimelineViewController,
+    runProgressController,
+    runQueueTreeViewController,
   };
 }
 
@@ -228,7 +424,7 @@ async function registerTreeView(
   const treeView = vscode.window.createTreeView('pahcerResults', {
     treeDataProvider: controllers.treeViewController,
     showCollapseAll: true,
-    canSelectMany: false,
+    canSelectMany: true,
   });
 
   // グループモードを初期化する
@@ -256,18 +452,35 @@ async function registerTreeView(
   return treeView;
 }
 
+/**
+ * 実行キューの TreeView を登録
+ */
+function registerRunQueueView(controllers: Controllers): vscode.TreeView<unknown> {
+  return vscode.window.createTreeView('pahcerRunQueue', {
+    treeDataProvider: controllers.runQueueTreeViewController,
+    canSelectMany: true,
+  });
+}
+
 /**
  * 実行オプションビューを登録
  */
 function registerRunOptionsView(
   context: vscode.ExtensionContext,
   vscodeUIContext: VSCodeUIContext,
+  adapters: Adapters,
   useCases: UseCases,
+  controllers: Controllers,
 ): vscode.Disposable {
   const runOptionsWebViewProvider = new RunOptionsWebViewController(
     context,
     vscodeUIContext,
     useCases.runPahcerUseCase,
+    controllers.runProgressController,
+    adapters.seedSetRepository,
+    controllers.runQueueTreeViewController,
+    adapters.uiConfigRepository,
+    adapters.pahcerConfigRepository,
   );
 
   // Initialize context (show TreeView by default)
@@ -276,6 +489,25 @@ function registerRunOptionsView(
   return vscode.window.registerWebviewViewProvider('pahcerRunOptions', runOptionsWebViewProvider);
 }
 
+/**
+ * pahcer 設定ビューを登録
+ */
+function registerPahcerSettingsView(
+  context: vscode.ExtensionContext,
+  vscodeUIContext: VSCodeUIContext,
+  adapters: Adapters,
+): vscode.Disposable {
+  const pahcerSettingsWebViewProvider = new PahcerSettingsWebViewController(
+    context,
+    vscodeUIContext,
+    adapters.pahcerConfigRepository,
+  );
+
+  vscodeUIContext.setShowPahcerSettings(false);
+
+  return vscode.window.registerWebviewViewProvider('pahcerSettings', pahcerSettingsWebViewProvider);
+}
+
 /**
  * すべてのコマンドを登録
  */
@@ -301,7 +533,133 @@ function registerCommands(
     ),
     vscode.commands.registerCommand(
       'pahcer-ui.run',
-      runCommand(useCases.runPahcerUseCase, controllers.treeViewController),
+      runCommand(
+        useCases.runPahcerUseCase,
+        controllers.treeViewController,
+        controllers.runProgressController,
+      ),
+    ),
+    vscode.commands.registerCommand('pahcer-ui.stopRun', stopRunCommand(adapters.pahcerAdapter)),
+    vscode.commands.registerCommand(
+      'pahcer-ui.rerunFailedSeeds',
+      rerunFailedSeedsCommand(
+        adapters.testCaseRepository,
+        useCases.runPahcerUseCase,
+        controllers.treeViewController,
+        controllers.runProgressController,
+      ),
+    ),
+    vscode.commands.registerCommand(
+      'pahcer-ui.runSelectedSeeds',
+      runSelectedSeedsCommand(
+        useCases.runPahcerUseCase,
+        controllers.treeViewController,
+        controllers.runProgressController,
+      ),
+    ),
+    vscode.commands.registerCommand(
+      'pahcer-ui.runSeedSet',
+      runSeedSetCommand(
+        adapters.seedSetRepository,
+        useCases.runPahcerUseCase,
+        controllers.treeViewController,
+        controllers.runProgressController,
+      ),
+    ),
+    vscode.commands.registerCommand(
+      'pahcer-ui.generateInputs',
+      generateInputsCommand(useCases.generateInputsUseCase),
+    ),
+    vscode.commands.registerCommand(
+      'pahcer-ui.runProfile',
+      runProfileCommand(
+        adapters.runProfileRepository,
+        adapters.seedSetRepository,
+        useCases.runPahcerUseCase,
+        controllers.treeViewController,
+        controllers.runProgressController,
+      ),
+    ),
+    vscode.commands.registerCommand(
+      'pahcer-ui.createRunProfile',
+      createRunProfileCommand(adapters.runProfileRepository, adapters.seedSetRepository),
+    ),
+    vscode.commands.registerCommand(
+      'pahcer-ui.deleteRunProfile',
+      deleteRunProfileCommand(adapters.runProfileRepository),
+    ),
+    vscode.commands.registerCommand(
+      'pahcer-ui.createSeedSet',
+      createSeedSetCommand(adapters.seedSetRepository, useCases.loadInputFeaturesUseCase),
+    ),
+    vscode.commands.registerCommand(
+      'pahcer-ui.createSeedSetFromSelection',
+      createSeedSetFromSelectionCommand(adapters.seedSetRepository),
+    ),
+    vscode.commands.registerCommand(
+      'pahcer-ui.deleteSeedSet',
+      deleteSeedSetCommand(adapters.seedSetRepository, controllers.treeViewController),
+    ),
+    vscode.commands.registerCommand(
+      'pahcer-ui.filterBySeedSet',
+      filterBySeedSetCommand(
+        adapters.seedSetRepository,
+        adapters.uiConfigRepository,
+        controllers.treeViewController,
+      ),
+    ),
+    vscode.commands.registerCommand(
+      'pahcer-ui.clearSeedSetFilter',
+      clearSeedSetFilterCommand(adapters.uiConfigRepository, controllers.treeViewController),
+    ),
+    vscode.commands.registerCommand(
+      'pahcer-ui.runSeedsFromFile',
+      runSeedsFromFileCommand(
+        useCases.runPahcerUseCase,
+        controllers.treeViewController,
+        controllers.runProgressController,
+      ),
+    ),
+    vscode.commands.registerCommand(
+      'pahcer-ui.runParameterSweep',
+      runParameterSweepCommand(
+        useCases.runParameterSweepUseCase,
+        controllers.treeViewController,
+        controllers.runProgressController,
+      ),
+    ),
+    vscode.commands.registerCommand(
+      'pahcer-ui.enqueueRun',
+      enqueueRunCommand(controllers.runQueueTreeViewController),
+    ),
+    vscode.commands.registerCommand(
+      'pahcer-ui.startRunQueue',
+      startRunQueueCommand(
+        useCases.runQueueUseCase,
+        controllers.runQueueTreeViewController,
+        controllers.treeViewController,
+        controllers.runProgressController,
+      ),
+    ),
+    vscode.commands.registerCommand(
+      'pahcer-ui.removeFromRunQueue',
+      removeFromRunQueueCommand(controllers.runQueueTreeViewController),
+    ),
+    vscode.commands.registerCommand(
+      'pahcer-ui.moveRunQueueItemUp',
+      moveRunQueueItemCommand(controllers.runQueueTreeViewController, -1),
+    ),
+    vscode.commands.registerCommand(
+      'pahcer-ui.moveRunQueueItemDown',
+      moveRunQueueItemCommand(controllers.runQueueTreeViewController, 1),
+    ),
+    vscode.commands.registerCommand(
+      'pahcer-ui.clearRunQueue',
+      clearRunQueueCommand(controllers.runQueueTreeViewController),
+    ),
+    vscode.commands.registerCommand(
+      'pahcer-ui.openPahcerSettings',
+      openPahcerSettingsCommand(vscodeUIContext),
     ),
     vscode.commands.registerCommand(
       'pahcer-ui.runWithOptions',
@@ -331,6 +689,118 @@ function registerCommands(
       'pahcer-ui.addComment',
       addCommentCommand(adapters.executionRepository, controllers.treeViewController),
     ),
+    vscode.commands.registerCommand(
+      'pahcer-ui.showRegressionReport',
+      showRegressionReportCommand(
+        appUIConfig,
+        useCases.createRegressionReportUseCase,
+        controllers.regressionReportViewController,
+      ),
+    ),
+    vscode.commands.registerCommand(
+      'pahcer-ui.configureStderrPatterns',
+      configureStderrPatternsCommand(adapters.uiConfigRepository),
+    ),
+    vscode.commands.registerCommand(
+      'pahcer-ui.showStderrTimeline',
+      showStderrTimelineCommand(controllers.stderrTimelineViewController),
+    ),
+    vscode.commands.registerCommand(
+      'pahcer-ui.compareVisualizations',
+      compareVisualizationsCommand(
+        adapters.executionRepository,
+        adapters.testCaseRepository,
+        controllers.visualizerViewController,
+      ),
+    ),
+    vscode.commands.registerCommand(
+      'pahcer-ui.importVisualizer',
+      importVisualizerCommand(adapters.visualizerAdapter, controllers.visualizerViewController),
+    ),
+    vscode.commands.registerCommand(
+      'pahcer-ui.listVisualizers',
+      listVisualizersCommand(
+        adapters.visualizerAdapter,
+        adapters.uiConfigRepository,
+        controllers.visualizerViewController,
+      ),
+    ),
+    vscode.commands.registerCommand(
+      'pahcer-ui.selectVisualizer',
+      selectVisualizerCommand(
+        adapters.visualizerAdapter,
+        adapters.uiConfigRepository,
+        controllers.visualizerViewController,
+      ),
+    ),
+    vscode.commands.registerCommand(
+      'pahcer-ui.redownloadVisualizer',
+      redownloadVisualizerCommand(
+        adapters.visualizerAdapter,
+        adapters.uiConfigRepository,
+        controllers.visualizerViewController,
+      ),
+    ),
+    vscode.commands.registerCommand(
+      'pahcer-ui.deleteVisualizers',
+      deleteVisualizersCommand(
+        adapters.visualizerAdapter,
+        adapters.uiConfigRepository,
+        controllers.visualizerViewController,
+      ),
+    ),
+    vscode.commands.registerCommand(
+      'pahcer-ui.setBaseline',
+      setBaselineCommand(
+        adapters.baselineRepository,
+        controllers.treeViewController,
+        controllers.comparisonViewController,
+      ),
+    ),
+    vscode.commands.registerCommand(
+      'pahcer-ui.clearBaseline',
+      clearBaselineCommand(
+        adapters.baselineRepository,
+        controllers.treeViewController,
+        controllers.comparisonViewController,
+      ),
+    ),
+    vscode.commands.registerCommand(
+      'pahcer-ui.setTimeLimit',
+      setTimeLimitCommand(
+        adapters.uiConfigRepository,
+        controllers.treeViewController,
+        controllers.comparisonViewController,
+      ),
+    ),
+    vscode.commands.registerCommand(
+      'pahcer-ui.deleteExecutions',
+      deleteExecutionsCommand(
+        adapters.executionRepository,
+        useCases.deleteExecutionsUseCase,
+        controllers.treeViewController,
+        controllers.comparisonViewController,
+      ),
+    ),
+    vscode.commands.registerCommand(
+      'pahcer-ui.pruneExecutions',
+      pruneExecutionsCommand(
+        appUIConfig,
+        useCases.planExecutionPruneUseCase,
+        useCases.deleteExecutionsUseCase,
+        controllers.treeViewController,
+        controllers.comparisonViewController,
+      ),
+    ),
+    vscode.commands.registerCommand(
+      'pahcer-ui.reanalyzeExecutions',
+      reanalyzeExecutionsCommand(
+        adapters.executionRepository,
+        useCases.analyzeExecutionsUseCase,
+        controllers.treeViewController,
+        controllers.comparisonViewController,
+      ),
+    ),
     vscode.commands.registerCommand(
       'pahcer-ui.openInputFile',
       openInputFileCommand(adapters.inOutFilesAdapter),
@@ -376,18 +846,52 @@ export async function activate(context: vscode.ExtensionContext) {
   const useCases = initializeUseCases(adapters, workspaceName, appUIConfig);
 
   // Initialize all controllers
-  const controllers = initializeControllers(context, appUIConfig, adapters, useCases);
+  const controllers = initializeControllers(
+    context,
+    appUIConfig,
+    vscodeUIContext,
+    adapters,
+    useCases,
+  );
 
   // Register all views
   const initializationView = registerInitializationView(context, vscodeUIContext, useCases);
   const treeView = await registerTreeView(appUIConfig, vscodeUIContext, controllers);
-  const runOptionsView = registerRunOptionsView(context, vscodeUIContext, useCases);
+  const runQueueView = registerRunQueueView(controllers);
+  const runOptionsView = registerRunOptionsView(
+    context,
+    vscodeUIContext,
+    adapters,
+    useCases,
+    controllers,
+  );
+  const pahcerSettingsView = registerPahcerSettingsView(context, vscodeUIContext, adapters);
 
   // Register all commands
   const commands = registerCommands(appUIConfig, vscodeUIContext, adapters, controllers, useCases);
 
+  // 相対スコアの設定が変わったら再計算する
+  const configurationWatcher = vscode.workspace.onDidChangeConfiguration(async (e) => {
+    if (e.affectsConfiguration('pahcer-ui.relativeScoreMethod')) {
+      controllers.treeViewController.refresh();
+      const checkedResults = controllers.treeViewController.getCheckedResults();
+      if (checkedResults.length > 0) {
+        await controllers.comparisonViewController.showComparison(checkedResults);
+      }
+    }
+  });
+
   // Add all disposables to context
-  context.subscriptions.push(initializationView, treeView, runOptionsView, ...commands);
+  context.subscriptions.push(
+    initializationView,
+    treeView,
+    runQueueView,
+    runOptionsView,
+    pahcerSettingsView,
+    configurationWatcher,
+    controllers.runProgressController,
+    ...commands,
+  );
 }
 
 export function deactivate() {}
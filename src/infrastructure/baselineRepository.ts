@@ -0,0 +1,43 @@
+import { promises as fs } from 'node:fs';
+import * as path from 'node:path';
+import type { IBaselineRepository } from '../domain/interfaces/IBaselineRepository';
+import { ensureDir } from '../util/fs';
+import { asErrnoException } from '../util/lang';
+import { BaselineSchema } from './schemas';
+
+/**
+ * 基準実行のリポジトリ
+ * .pahcer-ui/baseline.json に保存する
+ */
+export class BaselineRepository implements IBaselineRepository {
+  private configDirPath: string;
+  private baselinePath: string;
+
+  constructor(workspaceRoot: string) {
+    this.configDirPath = path.join(workspaceRoot, '.pahcer-ui');
+    this.baselinePath = path.join(this.configDirPath, 'baseline.json');
+  }
+
+  async find(): Promise<string | undefined> {
+    try {
+      const content = await fs.readFile(this.baselinePath, { encoding: 'utf-8' });
+      return BaselineSchema.parse(JSON.parse(content)).executionId;
+    } catch (error) {
+      if (!(error instanceof Error) || asErrnoException(error).code !== 'ENOENT') {
+        throw new Error(
+          `基準実行の読み込みに失敗しました (${this.baselinePath}): ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+      return undefined;
+    }
+  }
+
+  async upsert(executionId: string): Promise<void> {
+    await ensureDir(this.configDirPath);
+    await fs.writeFile(this.baselinePath, JSON.stringify({ executionId }, null, 2));
+  }
+
+  async delete(): Promise<void> {
+    await fs.rm(this.baselinePath, { force: true });
+  }
+}
@@ -26,12 +26,18 @@ export class ExecutionRepository implements IExecutionRepository {
 
     const result = ResultJsonSchema.parse(JSON.parse(content));
     let commitHash: string | undefined;
+    let partial = false;
+    let params: Record<string, number> = {};
+    let profileName: string | undefined;
 
     // メタデータから commitHash を読み込む
     try {
       const metadataContent = await fs.readFile(this.metadataPath(executionId), 'utf-8');
       const metadata = ExecutionMetadataSchema.parse(JSON.parse(metadataContent));
       commitHash = metadata.commitHash;
+      partial = metadata.partial ?? false;
+      params = metadata.params ?? {};
+      profileName = metadata.profile;
     } catch (e) {
       if (!(e instanceof Error) || asErrnoException(e).code !== 'ENOENT') {
         throw e;
@@ -63,6 +69,9 @@ export class ExecutionRepository implements IExecutionRepository {
       result.comment,
       result.tag_name ?? null,
       commitHash,
+      partial,
+      params,
+      profileName,
     );
 
     return execution;
@@ -99,23 +108,71 @@ export class ExecutionRepository implements IExecutionRepository {
     const metadataPath = this.metadataPath(execution.id);
     const metadata = {
       commitHash: execution.commitHash,
+      partial: execution.partial || undefined,
+      params: Object.keys(execution.params).length > 0 ? execution.params : undefined,
+      profile: execution.profileName,
     };
     await ensureDirForFile(metadataPath);
     await fs.writeFile(metadataPath, JSON.stringify(metadata, null, 2), 'utf-8');
   }
 
+  async delete(executionId: string): Promise<void> {
+    // 保存済みの出力ファイルとメタデータを先に削除し、途中で失敗しても一覧に残るようにする
+    await fs.rm(this.resultDirPath(executionId), { recursive: true, force: true });
+    await fs.rm(this.resultPath(executionId), { force: true });
+  }
+
+  async merge(targetId: string, sourceIds: string[]): Promise<void> {
+    const targetPath = this.resultPath(targetId);
+    const target = JSON.parse(await fs.readFile(targetPath, 'utf-8'));
+    const casesBySeed = new Map(
+      (ResultJsonSchema.parse(target).cases ?? []).map((c) => [c.seed, c] as const),
+    );
+
+    for (const sourceId of sourceIds) {
+      const source = ResultJsonSchema.parse(
+        JSON.parse(await fs.readFile(this.resultPath(sourceId), 'utf-8')),
+      );
+      for (const c of source.cases ?? []) {
+        casesBySeed.set(c.seed, c);
+      }
+    }
+
+    const cases = [...casesBySeed.values()].sort((a, b) => a.seed - b.seed);
+    target.cases = cases;
+
+    // pahcer が出力する集計値があれば、まとめたケースから計算し直す
+    const aggregates: Record<string, unknown> = {
+      case_count: cases.length,
+      total_score: cases.reduce((sum, c) => sum + c.score, 0),
+      total_score_log10: cases.reduce((sum, c) => sum + (c.score > 0 ? Math.log10(c.score) : 0), 0),
+      total_relative_score: cases.reduce((sum, c) => sum + c.relative_score, 0),
+      max_execution_time: cases.reduce((max, c) => Math.max(max, c.execution_time), 0),
+      wa_seeds: cases.filter((c) => c.score <= 0 || c.error_message !== '').map((c) => c.seed),
+    };
+    for (const [key, value] of Object.entries(aggregates)) {
+      if (key in target) {
+        target[key] = value;
+      }
+    }
+
+    await fs.writeFile(targetPath, JSON.stringify(target, null, 2), 'utf-8');
+
+    // まとめ終わったら元の実行結果を削除する
+    for (const sourceId of sourceIds) {
+      await this.delete(sourceId);
+    }
+  }
+
   private resultPath(executionId: string): string {
     return path.join(this.workspaceRoot, 'pahcer', 'json', `result_${executionId}.json`);
   }
 
+  private resultDirPath(executionId: string): string {
+    return path.join(this.workspaceRoot, '.pahcer-ui', 'results', `result_${executionId}`);
+  }
+
   private metadataPath(executionId: string): string {
-    return path.join(
-      this.workspaceRoot,
-      '.pahcer-ui',
-      'results',
-      `result_${executionId}`,
-      'meta',
-      'execution.json',
-    );
+    return path.join(this.resultDirPath(executionId), 'meta', 'execution.json');
   }
 }
@@ -1,5 +1,6 @@
 import { promises as fs } from 'node:fs';
 import type { IFileAnalyzer } from '../domain/interfaces/IFileAnalyzer';
+import type { StderrPattern } from '../domain/models/uiConfig';
 import { StderrParser } from '../domain/services/stderrParser';
 
 /**
@@ -82,47 +83,18 @@ export class FileAnalyzer implements IFileAnalyzer {
   }
 
   /**
-   * stderrファイルから変数を抽出（$varname = value）
-   * 先頭100行と末尾100行のみをストリーミングで読み込んでパース
+   * stderrファイル全体から変数・タグ・推移を抽出（メモリ読み込み）
    */
-  async parseStderrVariables(
+  async analyzeStderr(
     filePath: string,
-    headLines = 100,
-    tailLines = 100,
-  ): Promise<Record<string, number>> {
-    const { head, tail } = await this.readHeadAndTail(filePath, headLines, tailLines);
-
-    // Parse head first
-    const variables = StderrParser.parseVariables(head);
-
-    // Parse tail (these override earlier values)
-    const tailVars = StderrParser.parseVariables(tail);
-    for (const [key, value] of Object.entries(tailVars)) {
-      variables[key] = value;
-    }
-
-    return variables;
-  }
-
-  /**
-   * 複数のstderrファイルから変数を並列抽出
-   */
-  async parseStderrVariablesParallel(
-    filePaths: string[],
-    headLines = 100,
-    tailLines = 100,
-  ): Promise<Map<string, Record<string, number>>> {
-    const results = await Promise.all(
-      filePaths.map(async (path) => ({
-        path,
-        variables: await this.parseStderrVariables(path, headLines, tailLines),
-      })),
-    );
-
-    const map = new Map<string, Record<string, number>>();
-    for (const { path, variables } of results) {
-      map.set(path, variables);
+    patterns: readonly StderrPattern[],
+  ): Promise<StderrParser.Analysis> {
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      return StderrParser.analyze(content, patterns);
+    } catch (error) {
+      console.warn(`Failed to analyze stderr ${filePath}:`, error);
+      return { variables: {}, tags: {}, series: {} };
     }
-    return map;
   }
 }
@@ -80,6 +80,26 @@ export class InOutFilesAdapter implements IInOutFilesAdapter {
     }
   }
 
+  /**
+   * 入力ファイルが存在しない Seed を求める
+   */
+  async findMissingInputs(seeds: number[]): Promise<number[]> {
+    const missing = await Promise.all(
+      seeds.map(async (seed) => {
+        try {
+          await fs.access(this.getNonArchivedPath('in', seed));
+          return undefined;
+        } catch (e) {
+          if (!(e instanceof Error) || asErrnoException(e).code !== 'ENOENT') {
+            throw e;
+          }
+          return seed;
+        }
+      }),
+    );
+    return missing.filter((seed): seed is number => seed !== undefined).sort((a, b) => a - b);
+  }
+
   /**
    * tools/out と tools/err ディレクトリを削除
    * 実行前に古い出力をクリーンアップ、実行後にアーカイブ済みの出力を削除するために使用
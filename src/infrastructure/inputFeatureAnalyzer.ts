@@ -0,0 +1,62 @@
+import { exec } from 'node:child_process';
+import { promisify } from 'node:util';
+import type { IInOutFilesAdapter } from '../domain/interfaces/IInOutFilesAdapter';
+import type { IInputFeatureAnalyzer } from '../domain/interfaces/IInputFeatureAnalyzer';
+import type { InputFeatureRule } from '../domain/models/uiConfig';
+import { InputFeatureExtractor } from '../domain/services/inputFeatureExtractor';
+import { quoteShellArgument } from '../util/shell';
+import { CommandExecutionError } from './exceptions';
+
+const execAsync = promisify(exec);
+
+/** 特徴量スクリプト 1 回あたりの制限時間 */
+const SCRIPT_TIMEOUT_MS = 10_000;
+
+/**
+ * 入力ファイルから特徴量を抽出するアダプター
+ *
+ * スクリプトはワークスペースルートで実行し、コマンド中の `{input}` を入力ファイルのパスに置き換える
+ * （`{input}` がない場合は末尾に入力ファイルのパスを付け加える）
+ */
+export class InputFeatureAnalyzer implements IInputFeatureAnalyzer {
+  constructor(
+    private inOutFilesAdapter: IInOutFilesAdapter,
+    private workspaceRoot: string,
+  ) {}
+
+  async analyze(
+    seed: number,
+    rules: readonly InputFeatureRule[],
+    script: string,
+  ): Promise<Record<string, number>> {
+    const features =
+      rules.length > 0
+        ? InputFeatureExtractor.extract(await this.inOutFilesAdapter.loadIn(seed), rules)
+        : {};
+
+    if (script.trim() !== '') {
+      Object.assign(features, await this.runScript(script, seed));
+    }
+
+    return features;
+  }
+
+  private async runScript(script: string, seed: number): Promise<Record<string, number>> {
+    const inputPath = quoteShellArgument(this.inOutFilesAdapter.getNonArchivedPath('in', seed));
+    const command = script.includes('{input}')
+      ? script.replaceAll('{input}', inputPath)
+      : `${script} ${inputPath}`;
+
+    try {
+      const { stdout } = await execAsync(command, {
+        cwd: this.workspaceRoot,
+        timeout: SCRIPT_TIMEOUT_MS,
+      });
+      return InputFeatureExtractor.parseKeyValues(stdout);
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim();
+      const message = error instanceof Error ? error.message : String(error);
+      throw new CommandExecutionError(command, stderr || message);
+    }
+  }
+}
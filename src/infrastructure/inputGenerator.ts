@@ -0,0 +1,73 @@
+import { exec } from 'node:child_process';
+import { promises as fs } from 'node:fs';
+import * as path from 'node:path';
+import { promisify } from 'node:util';
+import type { IInputGenerator } from '../domain/interfaces/IInputGenerator';
+import { asErrnoException } from '../util/lang';
+import { CommandExecutionError } from './exceptions';
+
+const execAsync = promisify(exec);
+
+/**
+ * 公式ツールの入力生成プログラムで入力ファイルを生成するアダプター
+ *
+ * 公式ツールの gen は seeds.txt の i 行目の値から tools/in/{i:04}.txt を生成する
+ */
+export class InputGenerator implements IInputGenerator {
+  private toolsDir: string;
+
+  constructor(workspaceRoot: string) {
+    this.toolsDir = path.join(workspaceRoot, 'tools');
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      return (await fs.stat(this.toolsDir)).isDirectory();
+    } catch (e) {
+      if (!(e instanceof Error) || asErrnoException(e).code !== 'ENOENT') {
+        throw e;
+      }
+      return false;
+    }
+  }
+
+  async generate(maxSeed: number, command: string): Promise<void> {
+    await this.writeSeedsFile(maxSeed);
+
+    try {
+      // cargo のビルドログなどで出力が大きくなることがあるため、バッファを大きめに取る
+      await execAsync(command, { cwd: this.toolsDir, maxBuffer: 64 * 1024 * 1024 });
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim();
+      const message = error instanceof Error ? error.message : String(error);
+      throw new CommandExecutionError(command, stderr || message);
+    }
+  }
+
+  /**
+   * seeds.txt を maxSeed の行まで書き込む
+   * 既存の行（配布された Seed）はそのまま残し、足りない行には行番号を Seed として追加する
+   */
+  private async writeSeedsFile(maxSeed: number): Promise<void> {
+    const seedsPath = path.join(this.toolsDir, 'seeds.txt');
+    let lines: string[] = [];
+    try {
+      lines = (await fs.readFile(seedsPath, 'utf-8'))
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter((line) => line !== '');
+    } catch (e) {
+      if (!(e instanceof Error) || asErrnoException(e).code !== 'ENOENT') {
+        throw e;
+      }
+    }
+
+    if (lines.length > maxSeed) {
+      return;
+    }
+    for (let i = lines.length; i <= maxSeed; i++) {
+      lines.push(String(i));
+    }
+    await fs.writeFile(seedsPath, `${lines.join('\n')}\n`, 'utf-8');
+  }
+}
@@ -0,0 +1,98 @@
+import { exec } from 'node:child_process';
+import { promises as fs } from 'node:fs';
+import * as path from 'node:path';
+import { promisify } from 'node:util';
+import type {
+  ILocalVisualizerAdapter,
+  LocalVisualizerResult,
+} from '../domain/interfaces/ILocalVisualizerAdapter';
+import { exists } from '../util/fs';
+import { asErrnoException } from '../util/lang';
+import { quoteShellArgument } from '../util/shell';
+import { CommandExecutionError, FileNotFoundError } from './exceptions';
+
+const execAsync = promisify(exec);
+
+/**
+ * 公式ツールのローカルのビジュアライザ（vis）を実行するアダプター
+ *
+ * 公式ツールの vis は入力・出力ファイルを受け取り、tools/vis.html などに結果を書き込んで `Score = 1234` を標準出力に出力する
+ */
+export class LocalVisualizerAdapter implements ILocalVisualizerAdapter {
+  private toolsDir: string;
+
+  constructor(workspaceRoot: string) {
+    this.toolsDir = path.join(workspaceRoot, 'tools');
+  }
+
+  async run(
+    inputPath: string,
+    outputPath: string,
+    command: string,
+    resultFile: string,
+  ): Promise<LocalVisualizerResult> {
+    for (const filePath of [inputPath, outputPath]) {
+      if (!(await exists(filePath))) {
+        throw new FileNotFoundError(filePath);
+      }
+    }
+
+    const resultPath = path.resolve(this.toolsDir, resultFile);
+    const previousMtimeMs = await this.getMtimeMs(resultPath);
+    // 置換後の文字列に $ などが含まれても置換パターンとして解釈されないよう、関数で置換する
+    const resolvedCommand = command
+      .replace(/\{input\}/g, () => quoteShellArgument(inputPath))
+      .replace(/\{output\}/g, () => quoteShellArgument(outputPath));
+
+    let stdout: string;
+    try {
+      // cargo のビルドログなどで出力が大きくなることがあるため、バッファを大きめに取る
+      ({ stdout } = await execAsync(resolvedCommand, {
+        cwd: this.toolsDir,
+        maxBuffer: 64 * 1024 * 1024,
+      }));
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim();
+      const message = error instanceof Error ? error.message : String(error);
+      throw new CommandExecutionError(resolvedCommand, stderr || message);
+    }
+
+    // 前回の結果ファイルを表示しないよう、更新されたことを確認する
+    const mtimeMs = await this.getMtimeMs(resultPath);
+    if (mtimeMs === undefined || mtimeMs === previousMtimeMs) {
+      throw new CommandExecutionError(
+        resolvedCommand,
+        `結果ファイル（${resultFile}）が作成されませんでした`,
+      );
+    }
+
+    const lines = stdout.split(/\r?\n/);
+    const scoreLineIndex = lines.findIndex((line) => /^\s*score\s*[=:]\s*-?\d+/i.test(line));
+    const score =
+      scoreLineIndex >= 0 ? parseInt(lines[scoreLineIndex].replace(/^[^=:]*[=:]/, ''), 10) : NaN;
+
+    return {
+      contentType: path.extname(resultPath).toLowerCase() === '.svg' ? 'svg' : 'html',
+      content: await fs.readFile(resultPath, 'utf-8'),
+      score: Number.isNaN(score) ? undefined : score,
+      message: lines
+        .filter((_, i) => i !== scoreLineIndex)
+        .join('\n')
+        .trim(),
+    };
+  }
+
+  /**
+   * ファイルの更新日時を取得（存在しない場合は undefined）
+   */
+  private async getMtimeMs(filePath: string): Promise<number | undefined> {
+    try {
+      return (await fs.stat(filePath)).mtimeMs;
+    } catch (e) {
+      if (!(e instanceof Error) || asErrnoException(e).code !== 'ENOENT') {
+        throw e;
+      }
+      return undefined;
+    }
+  }
+}
@@ -1,9 +1,15 @@
-import { execSync } from 'node:child_process';
+import { type ChildProcess, execSync, spawn } from 'node:child_process';
+import { StringDecoder } from 'node:string_decoder';
 import * as vscode from 'vscode';
 import type { IPahcerAdapter } from '../domain/interfaces/IPahcerAdapter';
 import type { IPahcerConfigRepository } from '../domain/interfaces/IPahcerConfigRepository';
 import type { PahcerConfig } from '../domain/models/configFile';
-import { type PahcerRunOptions, PahcerStatus } from '../domain/models/pahcerStatus';
+import {
+  type PahcerRunOptions,
+  type PahcerRunResult,
+  PahcerStatus,
+} from '../domain/models/pahcerStatus';
+import { quoteShellArgument } from '../util/shell';
 import { FileOperationError } from './exceptions';
 
 // Re-export for backward compatibility
@@ -20,6 +26,9 @@ export { PahcerStatus, type PahcerRunOptions };
  * 注：ビジネスロジック（Git統合、ファイルコピー、解析）はRunPahcerUseCaseに委譲
  */
 export class PahcerAdapter implements IPahcerAdapter {
+  /** 実行中の pahcer run を中断する関数（実行中でなければ undefined） */
+  private stopCurrentRun: (() => void) | undefined;
+
   constructor(
     private pahcerConfigRepository: IPahcerConfigRepository,
     private workspaceRoot: string,
@@ -46,9 +55,14 @@ export class PahcerAdapter implements IPahcerAdapter {
    * pahcer run コマンドを実行（コマンド実行のみ）
    * @param options 実行オプション
    * @param configFile テンポラリ設定ファイル（あれば使用）
-   * @returns 終了コード
+   * @param onOutput 出力 1 行ごとに呼ばれるコールバック
+   * @returns 終了コードと中断されたかどうか
    */
-  async run(options?: PahcerRunOptions, configFile?: PahcerConfig): Promise<number | undefined> {
+  async run(
+    options?: PahcerRunOptions,
+    configFile?: PahcerConfig,
+    onOutput?: (line: string) => void,
+  ): Promise<PahcerRunResult> {
     // コマンドラインを組み立てる
     let command = 'pahcer run';
     if (configFile) {
@@ -57,9 +71,29 @@ export class PahcerAdapter implements IPahcerAdapter {
     if (options?.freezeBestScores) {
       command += ' --freeze-best-scores';
     }
+    if (options?.shuffle) {
+      command += ' --shuffle';
+    }
+    if (options?.json) {
+      command += ' --json';
+    }
+    if (options?.comment) {
+      command += ` --comment ${quoteShellArgument(options.comment)}`;
+    }
 
-    // タスクを作成して実行
-    return this.executeTask('Pahcer Run', command);
+    // 出力を逐次読み取れるようにタスクを作成して実行
+    return this.executeStreamingTask('Pahcer Run', command, onOutput, options?.env);
+  }
+
+  /**
+   * 実行中の pahcer run を中断する
+   */
+  stop(): boolean {
+    if (!this.stopCurrentRun) {
+      return false;
+    }
+    this.stopCurrentRun();
+    return true;
   }
 
   /**
@@ -124,6 +158,117 @@ export class PahcerAdapter implements IPahcerAdapter {
     });
   }
 
+  /**
+   * 擬似ターミナルでコマンドを実行するタスクを作成して実行し、完了を待つ
+   * 出力はターミナルに表示しつつ、1 行ごとに onOutput に渡す
+   * 実行中は stop() またはターミナルの Ctrl+C・タスクの終了で中断できる
+   * env を指定した場合は VS Code の環境変数に追加して渡す
+   */
+  private async executeStreamingTask(
+    name: string,
+    command: string,
+    onOutput?: (line: string) => void,
+    env?: Record<string, string>,
+  ): Promise<PahcerRunResult> {
+    if (!this.workspaceRoot) {
+      throw new FileOperationError(
+        'executeStreamingTask',
+        '<workspace-root>',
+        'workspaceRoot is required',
+      );
+    }
+    const cwd = this.workspaceRoot;
+
+    return new Promise<PahcerRunResult>((resolve, reject) => {
+      const taskExecution = new vscode.CustomExecution(async () => {
+        const writeEmitter = new vscode.EventEmitter<string>();
+        const closeEmitter = new vscode.EventEmitter<number>();
+        let cancelled = false;
+        let kill: (() => void) | undefined;
+        const cancel = () => {
+          if (!cancelled) {
+            cancelled = true;
+            writeEmitter.fire('\r\n実行を中断しています...\r\n');
+          }
+          kill?.();
+        };
+
+        const pty: vscode.Pseudoterminal = {
+          onDidWrite: writeEmitter.event,
+          onDidClose: closeEmitter.event,
+          open: () => {
+            const envText = Object.entries(env ?? {})
+              .map(([key, value]) => `${key}=${value} `)
+              .join('');
+            writeEmitter.fire(`> ${envText}${command}\r\n\r\n`);
+
+            // プロセスグループごと終了できるよう、Windows 以外では新しいプロセスグループで起動する
+            const child = spawn(command, {
+              cwd,
+              env: { ...process.env, ...env },
+              shell: true,
+              detached: process.platform !== 'win32',
+            });
+            kill = () => killProcessTree(child);
+            this.stopCurrentRun = cancel;
+
+            // 行が混ざらないよう、標準出力と標準エラー出力は別々に行へ分割する
+            const readers = [child.stdout, child.stderr].map((stream) => {
+              const reader = new LineReader((text) => {
+                writeEmitter.fire(text.replace(/\r?\n/g, '\r\n'));
+              }, onOutput);
+              stream.on('data', (data: Buffer) => reader.write(data));
+              return reader;
+            });
+
+            child.on('error', (error) => {
+              writeEmitter.fire(`\r\n${error.message}\r\n`);
+            });
+            child.on('close', (code) => {
+              this.stopCurrentRun = undefined;
+              for (const reader of readers) {
+                reader.end();
+              }
+              writeEmitter.fire(
+                cancelled
+                  ? '\r\n実行を中断しました\r\n'
+                  : `\r\n終了コード: ${code ?? '(シグナルで終了)'}\r\n`,
+              );
+              closeEmitter.fire(code ?? 1);
+              resolve({ exitCode: code ?? undefined, cancelled });
+            });
+          },
+          // タスクの終了（ゴミ箱アイコンなど）も中断として扱う
+          close: cancel,
+          handleInput: (data) => {
+            // Ctrl+C で中断
+            if (data === '\x03') {
+              cancel();
+            }
+          },
+        };
+        return pty;
+      });
+
+      const task = new vscode.Task(
+        { type: 'pahcer', task: name },
+        vscode.TaskScope.Workspace,
+        name,
+        'pahcer',
+        taskExecution,
+      );
+      task.presentationOptions = {
+        reveal: vscode.TaskRevealKind.Always,
+        focus: false,
+        panel: vscode.TaskPanelKind.Shared,
+        showReuseMessage: false,
+        clear: false,
+      };
+
+      vscode.tasks.executeTask(task).then(undefined, reject);
+    });
+  }
+
   /**
    * pahcerコマンドがインストールされているかチェック
    */
@@ -149,3 +294,67 @@ export class PahcerAdapter implements IPahcerAdapter {
     }
   }
 }
+
+/**
+ * 子プロセスをその子孫ごと終了する
+ * shell: true で起動したため、シェルだけを終了すると pahcer が残ってしまう
+ */
+function killProcessTree(child: ChildProcess): void {
+  if (child.pid === undefined || child.exitCode !== null) {
+    return;
+  }
+
+  try {
+    if (process.platform === 'win32') {
+      spawn('taskkill', ['/pid', String(child.pid), '/T', '/F']);
+    } else {
+      process.kill(-child.pid, 'SIGTERM');
+    }
+  } catch {
+    // 既に終了している場合は無視
+    child.kill();
+  }
+}
+
+/**
+ * ストリームの出力を UTF-8 として読み取り、1 行ごとにコールバックに渡す
+ * チャンクの境界で分割されたマルチバイト文字や行は次のチャンクとつなげる
+ */
+class LineReader {
+  private decoder = new StringDecoder('utf8');
+  private buffer = '';
+
+  constructor(
+    private onText: (text: string) => void,
+    private onLine?: (line: string) => void,
+  ) {}
+
+  write(data: Buffer): void {
+    this.push(this.decoder.write(data));
+  }
+
+  /**
+   * 残っている出力（改行で終わらない最後の行）を渡す
+   */
+  end(): void {
+    this.push(this.decoder.end());
+    if (this.buffer !== '') {
+      this.onLine?.(this.buffer);
+      this.buffer = '';
+    }
+  }
+
+  private push(text: string): void {
+    if (text === '') {
+      return;
+    }
+    this.onText(text);
+
+    this.buffer += text;
+    const lines = this.buffer.split(/\r?\n/);
+    this.buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      this.onLine?.(line);
+    }
+  }
+}
@@ -1,16 +1,19 @@
 import { promises as fs } from 'node:fs';
 import * as path from 'node:path';
+import { parse, patch } from '@decimalturn/toml-patch';
 import type { IPahcerConfigRepository } from '../domain/interfaces/IPahcerConfigRepository';
-import { type ConfigId, PahcerConfig } from '../domain/models/configFile';
+import { type ConfigId, PahcerConfig, type PahcerStep } from '../domain/models/configFile';
 import { ensureDirForFile } from '../util/fs';
 import { asErrnoException } from '../util/lang';
+import { PahcerConfigFileSchema, type PahcerStepToml } from './schemas';
+
+type TomlTable = Record<string, unknown>;
 
 /**
  * pahcer 設定ファイル（pahcer_config.toml）リポジトリ
  *
  * 責務:
- * - TOML ファイルの読み込み/書き込み
- * - TOML コンテンツから start_seed, end_seed, objective をパース
+ * - TOML ファイルの読み込み/書き込み（書き込み時はコメント・書式を保持して変更箇所だけを反映）
  * - PahcerConfig ドメインモデルへの変換
  */
 export class PahcerConfigRepository implements IPahcerConfigRepository {
@@ -36,23 +39,7 @@ export class PahcerConfigRepository implements IPahcerConfigRepository {
       }
 
       const content = await fs.readFile(configPath, 'utf-8');
-
-      // TOML コンテンツから start_seed/end_seed/objective をパース
-      const problemName = this.extractProblemName(content);
-      const startSeed = this.extractStartSeed(content);
-      const endSeed = this.extractEndSeed(content);
-      const objective = this.extractObjective(content);
-
-      if (
-        problemName === undefined ||
-        startSeed === undefined ||
-        endSeed === undefined ||
-        objective === undefined
-      ) {
-        throw new Error(`Invalid pahcer config file: missing required fields in ${configPath}`);
-      }
-
-      return new PahcerConfig(id, configPath, problemName, startSeed, endSeed, objective);
+      return this.toDomain(id, configPath, content);
     } catch (error) {
       // ファイルが見つからない場合のみ undefined を返す
       if (!(error instanceof Error) || asErrnoException(error).code !== 'ENOENT') {
@@ -65,14 +52,13 @@ export class PahcerConfigRepository implements IPahcerConfigRepository {
   /**
    * PahcerConfig をファイルに保存
    * config.path に指定されているパスに保存
+   * 現在のファイルとの差分だけを反映し、コメント・書式・未知のキーは保持する
    */
   async upsert(config: PahcerConfig): Promise<void> {
     const currentContent = await fs.readFile(config.path, 'utf-8');
 
-    // 現在のコンテンツに start_seed/end_seed を反映させる
-    let newContent = currentContent;
-    newContent = this.replaceStartSeed(newContent, config.startSeed);
-    newContent = this.replaceEndSeed(newContent, config.endSeed);
+    const current: TomlTable = parse(currentContent, { integersAsBigInt: false });
+    const newContent = patch(currentContent, this.applyToToml(current, config));
 
     // 必要なディレクトリを作成
     await ensureDirForFile(config.path);
@@ -103,57 +89,57 @@ export class PahcerConfigRepository implements IPahcerConfigRepository {
     }
   }
 
-  private extractProblemName(content: string): string | undefined {
-    const match = content.match(/^problem_name\s*=\s*['"](.+)['"]/m);
-    return match ? match[1] : undefined;
-  }
-
   /**
-   * TOML コンテンツから start_seed の値をパース
+   * TOML コンテンツを PahcerConfig に変換
    */
-  private extractStartSeed(content: string): number | undefined {
-    const match = content.match(/^start_seed\s*=\s*(\d+)/m);
-    return match ? parseInt(match[1], 10) : undefined;
-  }
+  private toDomain(id: ConfigId, configPath: string, content: string): PahcerConfig {
+    const result = PahcerConfigFileSchema.safeParse(parse(content, { integersAsBigInt: false }));
+    if (!result.success) {
+      throw new Error(`Invalid pahcer config file: ${configPath}: ${result.error.message}`);
+    }
 
-  /**
-   * TOML コンテンツから end_seed の値をパース
-   */
-  private extractEndSeed(content: string): number | undefined {
-    const match = content.match(/^end_seed\s*=\s*(\d+)/m);
-    return match ? parseInt(match[1], 10) : undefined;
+    const { general, problem, test } = result.data;
+    return new PahcerConfig(
+      id,
+      configPath,
+      problem.problem_name,
+      test.start_seed,
+      test.end_seed,
+      problem.objective.toLowerCase() as 'max' | 'min',
+      {
+        version: general?.version ?? '',
+        scoreRegex: problem.score_regex,
+        threads: test.threads,
+        outDir: test.out_dir,
+        compileSteps: test.compile_steps.map(toDomainStep),
+        testSteps: test.test_steps.map(toDomainStep),
+      },
+    );
   }
 
   /**
-   * TOML コンテンツから objective の値をパース
+   * パース済みの TOML オブジェクトに PahcerConfig の値を反映する
+   * 未知のキーはそのまま残す
    */
-  private extractObjective(content: string): 'max' | 'min' | undefined {
-    const match = content.match(/objective\s*=\s*['"](max|min)['"]/i);
-
-    if (match && (match[1].toLowerCase() === 'max' || match[1].toLowerCase() === 'min')) {
-      return match[1].toLowerCase() as 'max' | 'min';
+  private applyToToml(toml: TomlTable, config: PahcerConfig): TomlTable {
+    const problem = asTable(toml.problem);
+    const test = asTable(toml.test);
+
+    problem.problem_name = config.problemName;
+    // 大文字・小文字の表記は元のファイルに合わせる（pahcer init は "Max" / "Min" を出力する）
+    if (String(problem.objective).toLowerCase() !== config.objective) {
+      problem.objective = config.objective === 'max' ? 'Max' : 'Min';
     }
+    problem.score_regex = config.scoreRegex;
 
-    // objective が見つからない場合はデフォルト値を返す
-    return undefined;
-  }
-
-  /**
-   * TOML コンテンツの start_seed を置換
-   * start_seed は必ず存在する前提
-   */
-  private replaceStartSeed(content: string, value: number): string {
-    const regex = /^(start_seed\s*=\s*)\d+/m;
-    return content.replace(regex, `$1${value}`);
-  }
+    test.start_seed = config.startSeed;
+    test.end_seed = config.endSeed;
+    test.threads = config.threads;
+    test.out_dir = config.outDir;
+    test.compile_steps = toTomlSteps(test.compile_steps, config.compileSteps);
+    test.test_steps = toTomlSteps(test.test_steps, config.testSteps);
 
-  /**
-   * TOML コンテンツの end_seed を置換
-   * end_seed は必ず存在する前提
-   */
-  private replaceEndSeed(content: string, value: number): string {
-    const regex = /^(end_seed\s*=\s*)\d+/m;
-    return content.replace(regex, `$1${value}`);
+    return { ...toml, problem, test };
   }
 
   /**
@@ -175,3 +161,49 @@ export class PahcerConfigRepository implements IPahcerConfigRepository {
     }
   }
 }
+
+function asTable(value: unknown): TomlTable {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? { ...(value as TomlTable) }
+    : {};
+}
+
+function toDomainStep(step: PahcerStepToml): PahcerStep {
+  return {
+    program: step.program,
+    args: step.args,
+    currentDir: step.current_dir,
+    stdin: step.stdin,
+    stdout: step.stdout,
+    stderr: step.stderr,
+    measureTime: step.measure_time,
+  };
+}
+
+/**
+ * ステップを TOML の配列に変換する
+ * 同じ位置の既存ステップの未知のキーは残し、省略されたオプションのキーは削除する
+ * args と measure_time は既定値（空配列・false）で元のファイルにもない場合は書き込まない
+ */
+function toTomlSteps(currentSteps: unknown, steps: PahcerStep[]): TomlTable[] {
+  const current = Array.isArray(currentSteps) ? currentSteps : [];
+  return steps.map((step, i) => {
+    const existing = asTable(current[i]);
+    const table: TomlTable = {
+      ...existing,
+      program: step.program,
+      args: step.args.length > 0 || 'args' in existing ? step.args : undefined,
+      current_dir: step.currentDir,
+      stdin: step.stdin,
+      stdout: step.stdout,
+      stderr: step.stderr,
+      measure_time: step.measureTime || 'measure_time' in existing ? step.measureTime : undefined,
+    };
+    for (const key of Object.keys(table)) {
+      if (table[key] === undefined) {
+        delete table[key];
+      }
+    }
+    return table;
+  });
+}
@@ -0,0 +1,86 @@
+import { promises as fs } from 'node:fs';
+import * as path from 'node:path';
+import type { IRunProfileRepository } from '../domain/interfaces/IRunProfileRepository';
+import { RunProfile } from '../domain/models/runProfile';
+import { ensureDirForFile } from '../util/fs';
+import { asErrnoException } from '../util/lang';
+import { type RunProfilesJson, RunProfilesSchema } from './schemas';
+
+/**
+ * 実行プロファイルのリポジトリ
+ * .pahcer-ui/run_profiles.json にすべてのプロファイルを保存順に保存する（手で編集してもよい）
+ */
+export class RunProfileRepository implements IRunProfileRepository {
+  private runProfilesPath: string;
+
+  constructor(workspaceRoot: string) {
+    this.runProfilesPath = path.join(workspaceRoot, '.pahcer-ui', 'run_profiles.json');
+  }
+
+  async findAll(): Promise<RunProfile[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.runProfilesPath, 'utf-8');
+    } catch (e) {
+      if (!(e instanceof Error) || asErrnoException(e).code !== 'ENOENT') {
+        throw e;
+      }
+      return [];
+    }
+
+    const { profiles } = RunProfilesSchema.parse(JSON.parse(content));
+    return profiles.map(
+      (profile) =>
+        new RunProfile(
+          profile.name,
+          profile.startSeed,
+          profile.endSeed,
+          profile.seedSet,
+          profile.freezeBestScores,
+          profile.threads,
+          profile.env,
+          profile.comment,
+        ),
+    );
+  }
+
+  async findByName(name: string): Promise<RunProfile | undefined> {
+    return (await this.findAll()).find((profile) => profile.name === name);
+  }
+
+  async upsert(profile: RunProfile): Promise<void> {
+    const profiles = await this.findAll();
+    const index = profiles.findIndex((p) => p.name === profile.name);
+    if (index >= 0) {
+      profiles[index] = profile;
+    } else {
+      profiles.push(profile);
+    }
+    await this.save(profiles);
+  }
+
+  async delete(name: string): Promise<void> {
+    const profiles = await this.findAll();
+    const remaining = profiles.filter((profile) => profile.name !== name);
+    if (remaining.length !== profiles.length) {
+      await this.save(remaining);
+    }
+  }
+
+  private async save(profiles: RunProfile[]): Promise<void> {
+    const json: RunProfilesJson = {
+      profiles: profiles.map((profile) => ({
+        name: profile.name,
+        startSeed: profile.startSeed,
+        endSeed: profile.endSeed,
+        seedSet: profile.seedSetName,
+        freezeBestScores: profile.freezeBestScores || undefined,
+        threads: profile.threads,
+        env: Object.keys(profile.env).length > 0 ? profile.env : undefined,
+        comment: profile.comment || undefined,
+      })),
+    };
+    await ensureDirForFile(this.runProfilesPath);
+    await fs.writeFile(this.runProfilesPath, JSON.stringify(json, null, 2), 'utf-8');
+  }
+}
@@ -30,16 +30,33 @@ export type ResultJson = z.infer<typeof ResultJsonSchema>;
  */
 export const ExecutionMetadataSchema = z.object({
   commitHash: z.string().optional(),
+  partial: z.boolean().optional(),
+  params: z.record(z.string(), z.number()).optional(),
+  profile: z.string().optional(),
 });
 
 export type ExecutionMetadata = z.infer<typeof ExecutionMetadataSchema>;
 
+/**
+ * stderr の変数の推移（meta/stderr_series_{seed}.json）のスキーマ
+ */
+export const StderrSeriesFileSchema = z.record(
+  z.string(),
+  z.object({
+    xKey: z.string().optional(),
+    points: z.array(z.tuple([z.number(), z.number()])),
+  }),
+);
+
 /**
  * TestCase のメタデータ（meta/testcase_{seed}.json）のスキーマ
  */
 export const TestCaseMetadataSchema = z.object({
   firstInputLine: z.string().optional(),
   stderrVars: z.record(z.string(), z.number()).optional(),
+  stderrTags: z.record(z.string(), z.string()).optional(),
+  inputFeatures: z.record(z.string(), z.number()).optional(),
+  inputFeaturesKey: z.string().optional(),
 });
 
 export type TestCaseMetadata = z.infer<typeof TestCaseMetadataSchema>;
@@ -55,4 +72,130 @@ export const UIConfigSchema = z.object({
   filter: z.string().optional(),
   bestRankingInclude: z.string().optional(),
   bestRankingExclude: z.string().optional(),
+  timeLimitMs: z.number().positive().optional(),
+  timeLimitWarningRatio: z.number().positive().optional(),
+  seedSetFilter: z.string().optional(),
+  treeSeedSetFilter: z.string().optional(),
+  lastRunOptions: z
+    .object({
+      startSeed: z.number().int(),
+      endSeed: z.number().int(),
+      freezeBestScores: z.boolean(),
+      seedSetName: z.string().optional(),
+      shuffle: z.boolean().optional(),
+      threads: z.number().int().optional(),
+      json: z.boolean().optional(),
+      comment: z.string().optional(),
+      env: z.record(z.string(), z.string()).optional(),
+    })
+    .optional(),
+  inputFeatureRules: z
+    .array(
+      z.discriminatedUnion('type', [
+        z.object({
+          name: z.string(),
+          type: z.literal('token'),
+          line: z.number().int().nonnegative(),
+          column: z.number().int().nonnegative(),
+        }),
+        z.object({
+          name: z.string(),
+          type: z.literal('regex'),
+          pattern: z.string(),
+          group: z.number().int().nonnegative().optional(),
+          aggregate: z.enum(['first', 'count', 'sum']).optional(),
+        }),
+      ]),
+    )
+    .optional(),
+  inputFeatureScript: z.string().optional(),
+  stderrPatterns: z
+    .array(
+      z.discriminatedUnion('type', [
+        z.object({ type: z.literal('dollar') }),
+        z.object({ type: z.literal('json') }),
+        z.object({ type: z.literal('keyValue') }),
+        z.object({ type: z.literal('regex'), pattern: z.string() }),
+      ]),
+    )
+    .optional(),
+  tagFilter: z.string().optional(),
+  groupByTag: z.string().optional(),
+  activeVisualizer: z.string().optional(),
+});
+
+/**
+ * 基準実行（.pahcer-ui/baseline.json）のスキーマ
+ */
+export const BaselineSchema = z.object({
+  executionId: z.string(),
+});
+
+/**
+ * pahcer_config.toml の [[test.compile_steps]] / [[test.test_steps]] のスキーマ
+ */
+export const PahcerStepSchema = z.object({
+  program: z.string(),
+  args: z.array(z.string()).default([]),
+  current_dir: z.string().optional(),
+  stdin: z.string().optional(),
+  stdout: z.string().optional(),
+  stderr: z.string().optional(),
+  measure_time: z.boolean().default(false),
+});
+
+export type PahcerStepToml = z.infer<typeof PahcerStepSchema>;
+
+/**
+ * pahcer 設定ファイル（pahcer_config.toml）のスキーマ
+ * 未知のキーは検証せず、書き込み時もそのまま残す
+ */
+export const PahcerConfigFileSchema = z.object({
+  general: z.object({ version: z.string() }).optional(),
+  problem: z.object({
+    problem_name: z.string(),
+    objective: z.string().regex(/^(max|min)$/i),
+    score_regex: z.string(),
+  }),
+  test: z.object({
+    start_seed: z.number().int(),
+    end_seed: z.number().int(),
+    threads: z.number().int().default(0),
+    out_dir: z.string(),
+    compile_steps: z.array(PahcerStepSchema).default([]),
+    test_steps: z.array(PahcerStepSchema).default([]),
+  }),
+});
+
+/**
+ * 実行プロファイル（.pahcer-ui/run_profiles.json）のスキーマ
+ */
+export const RunProfilesSchema = z.object({
+  profiles: z.array(
+    z.object({
+      name: z.string(),
+      startSeed: z.number().int().optional(),
+      endSeed: z.number().int().optional(),
+      seedSet: z.string().optional(),
+      freezeBestScores: z.boolean().optional(),
+      threads: z.number().int().optional(),
+      env: z.record(z.string(), z.string()).optional(),
+      comment: z.string().optional(),
+    }),
+  ),
 });
+
+export type RunProfilesJson = z.infer<typeof RunProfilesSchema>;
+
+/**
+ * キャッシュされたビジュアライザのメタデータ（.pahcer-ui/visualizer/{id}/meta.json）のスキーマ
+ */
+export const VisualizerMetadataSchema = z.object({
+  htmlFileName: z.string(),
+  sourceType: z.enum(['url', 'local']),
+  source: z.string(),
+  downloadedAt: z.string(),
+  files: z.array(z.string()),
+});
+
+export type VisualizerMetadata = z.infer<typeof VisualizerMetadataSchema>;
@@ -0,0 +1,100 @@
+import { promises as fs } from 'node:fs';
+import * as path from 'node:path';
+import type { ISeedSetRepository } from '../domain/interfaces/ISeedSetRepository';
+import { SeedSet } from '../domain/models/seedSet';
+import { SeedList } from '../domain/services/seedList';
+import { ensureDir } from '../util/fs';
+import { asErrnoException } from '../util/lang';
+
+/** Seed セットファイルの拡張子 */
+const SEED_SET_EXTENSION = '.txt';
+
+/**
+ * 名前付き Seed セットのリポジトリ
+ * .pahcer-ui/seed_sets/{name}.txt に 1 セット 1 ファイルで保存する
+ *
+ * ファイル形式は手で編集しやすいテキスト（SeedList.parse で読める形式）:
+ * - 先頭の `#` 行は説明
+ * - 空白・カンマ・改行区切りの Seed と `a-b`（両端を含む）形式の範囲
+ */
+export class SeedSetRepository implements ISeedSetRepository {
+  private seedSetDirPath: string;
+
+  constructor(workspaceRoot: string) {
+    this.seedSetDirPath = path.join(workspaceRoot, '.pahcer-ui', 'seed_sets');
+  }
+
+  async findAll(): Promise<SeedSet[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.seedSetDirPath);
+    } catch (e) {
+      if (!(e instanceof Error) || asErrnoException(e).code !== 'ENOENT') {
+        throw e;
+      }
+      return [];
+    }
+
+    const names = files
+      .filter((file) => file.endsWith(SEED_SET_EXTENSION))
+      .map((file) => file.slice(0, -SEED_SET_EXTENSION.length))
+      .filter((name) => SeedSet.validateName(name) === undefined)
+      .sort((a, b) => a.localeCompare(b));
+
+    const seedSets = await Promise.all(names.map((name) => this.findByName(name)));
+    return seedSets.filter((seedSet): seedSet is SeedSet => seedSet !== undefined);
+  }
+
+  async findByName(name: string): Promise<SeedSet | undefined> {
+    if (SeedSet.validateName(name) !== undefined) {
+      return undefined;
+    }
+
+    const seedSetPath = this.seedSetPath(name);
+    let content: string;
+    try {
+      content = await fs.readFile(seedSetPath, 'utf-8');
+    } catch (e) {
+      if (!(e instanceof Error) || asErrnoException(e).code !== 'ENOENT') {
+        throw e;
+      }
+      return undefined;
+    }
+
+    const { seeds, error } = SeedList.parse(content);
+    if (error !== undefined) {
+      throw new Error(
+        `Seed セットの読み込みに失敗しました (${seedSetPath}): Seed として解釈できない値があります: ${error}`,
+      );
+    }
+
+    // 先頭のコメント行を説明として扱う
+    const descriptionLines: string[] = [];
+    for (const line of content.split(/\r?\n/)) {
+      if (!line.startsWith('#')) {
+        break;
+      }
+      descriptionLines.push(line.replace(/^#\s?/, ''));
+    }
+
+    return new SeedSet(name, seeds, descriptionLines.join('\n'));
+  }
+
+  async upsert(seedSet: SeedSet): Promise<void> {
+    const lines = seedSet.description
+      ? seedSet.description.split('\n').map((line) => `# ${line}`)
+      : [];
+    lines.push(SeedList.format(seedSet.seeds));
+
+    await ensureDir(this.seedSetDirPath);
+    await fs.writeFile(this.seedSetPath(seedSet.name), `${lines.join('\n')}\n`, 'utf-8');
+  }
+
+  async delete(name: string): Promise<void> {
+    await fs.rm(this.seedSetPath(name), { force: true });
+  }
+
+  private seedSetPath(name: string): string {
+    return path.join(this.seedSetDirPath, `${name}${SEED_SET_EXTENSION}`);
+  }
+}
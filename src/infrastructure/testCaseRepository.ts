@@ -1,13 +1,14 @@
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
 import type { ITestCaseRepository } from '../domain/interfaces/ITestCaseRepository';
-import { TestCase, TestCaseId } from '../domain/models/testCase';
+import { type StderrSeries, TestCase, TestCaseId } from '../domain/models/testCase';
 import { ensureDirForFile, exists } from '../util/fs';
 import { asErrnoException } from '../util/lang';
 import type { InOutFilesAdapter } from './inOutFilesAdapter';
 import {
   type ResultJsonCase,
   ResultJsonSchema,
+  StderrSeriesFileSchema,
   type TestCaseMetadata,
   TestCaseMetadataSchema,
 } from './schemas';
@@ -19,6 +20,7 @@ import {
  * データソース:
  * - pahcer/json/result_${executionId}.json (実行結果の元データ)
  * - .pahcer-ui/results/result_${executionId}/meta/testcase_{seed}.json (解析データ)
+ * - .pahcer-ui/results/result_${executionId}/meta/stderr_series_{seed}.json (stderr の変数の推移)
  *
  * 識別方法:
  * - executionId と seed の複合キーで TestCase を一意に識別
@@ -78,6 +80,22 @@ export class TestCaseRepository implements ITestCaseRepository {
     }
   }
 
+  /**
+   * 指定された TestCase の stderr の変数の推移を取得
+   * @returns 変数名 → 推移（解析されていない場合は undefined）
+   */
+  async findStderrSeries(id: TestCaseId): Promise<Record<string, StderrSeries> | undefined> {
+    try {
+      const content = await fs.readFile(this.getStderrSeriesPath(id), 'utf-8');
+      return StderrSeriesFileSchema.parse(JSON.parse(content));
+    } catch (e) {
+      if (!(e instanceof Error) || asErrnoException(e).code !== 'ENOENT') {
+        throw e;
+      }
+      return undefined;
+    }
+  }
+
   /**
    * TestCase のメタデータを保存
    */
@@ -85,6 +103,9 @@ export class TestCaseRepository implements ITestCaseRepository {
     // execution.json 部分は readonly なので変更されることはないと信じ、書き込まない
     // (書き込むと Pahcer 本体をを壊してしまう可能性もあるので)
     await this.upsertMetadata(testCase);
+    if (testCase.stderrSeries) {
+      await this.upsertStderrSeries(testCase.id, testCase.stderrSeries);
+    }
   }
 
   private async upsertMetadata(testCase: TestCase): Promise<void> {
@@ -93,10 +114,25 @@ export class TestCaseRepository implements ITestCaseRepository {
     const metadata: TestCaseMetadata = {
       firstInputLine: testCase.firstInputLine,
       stderrVars: testCase.stderrVars,
+      stderrTags: testCase.stderrTags,
+      inputFeatures: testCase.inputFeatures,
+      inputFeaturesKey: testCase.inputFeaturesKey,
     };
     await fs.writeFile(metaPath, JSON.stringify(metadata, null, 2));
   }
 
+  /**
+   * stderr の変数の推移を保存（すべての点を保存するため大きくなることがあり、メタデータとは別のファイルにする）
+   */
+  private async upsertStderrSeries(
+    id: TestCaseId,
+    series: Record<string, StderrSeries>,
+  ): Promise<void> {
+    const seriesPath = this.getStderrSeriesPath(id);
+    await ensureDirForFile(seriesPath);
+    await fs.writeFile(seriesPath, JSON.stringify(series));
+  }
+
   /**
    * TestCase オブジェクトを構築
    */
@@ -118,6 +154,9 @@ export class TestCaseRepository implements ITestCaseRepository {
       const metadata = TestCaseMetadataSchema.parse(JSON.parse(metaContent));
       testCase.firstInputLine = metadata.firstInputLine;
       testCase.stderrVars = metadata.stderrVars;
+      testCase.stderrTags = metadata.stderrTags;
+      testCase.inputFeatures = metadata.inputFeatures;
+      testCase.inputFeaturesKey = metadata.inputFeaturesKey;
     } catch (e) {
       if (!(e instanceof Error) || asErrnoException(e).code !== 'ENOENT') {
         throw e;
@@ -165,4 +204,14 @@ export class TestCaseRepository implements ITestCaseRepository {
       `testcase_${seedStr}.json`,
     );
   }
+
+  /**
+   * stderr の変数の推移のファイルのパスを取得
+   */
+  private getStderrSeriesPath(testCaseId: TestCaseId): string {
+    return path.join(
+      path.dirname(this.getMetaPath(testCaseId)),
+      `stderr_series_${String(testCaseId.seed).padStart(4, '0')}.json`,
+    );
+  }
 }
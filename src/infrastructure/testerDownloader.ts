@@ -1,17 +1,14 @@
-import { exec } from 'node:child_process';
 import { createWriteStream } from 'node:fs';
 import { access, unlink } from 'node:fs/promises';
 import * as http from 'node:http';
 import * as https from 'node:https';
 import * as path from 'node:path';
-import { promisify } from 'node:util';
 import type { DownloadedTester, ITesterDownloader } from '../domain/interfaces/ITesterDownloader';
+import { extractZip } from '../util/zip';
 
 // Re-export for backward compatibility
 export type { DownloadedTester };
 
-const execAsync = promisify(exec);
-
 async function fileExists(filePath: string): Promise<boolean> {
   try {
     await access(filePath);
@@ -38,7 +35,7 @@ export class TesterDownloader implements ITesterDownloader {
       await this.downloadFile(url, zipPath);
 
       // Extract ZIP file to workspace root
-      await this.extractZip(zipPath, this.workspaceRoot);
+      await extractZip(zipPath, this.workspaceRoot);
 
       return {
         seemsInteractive: await this.estimateIsInteractive(),
@@ -93,24 +90,6 @@ export class TesterDownloader implements ITesterDownloader {
     });
   }
 
-  /**
-   * ZIPファイルを展開
-   */
-  private async extractZip(zipPath: string, destPath: string): Promise<void> {
-    // Use unzip command on macOS/Linux, or expand-archive on Windows
-    const platform = process.platform;
-
-    if (platform === 'win32') {
-      // Windows: Use PowerShell Expand-Archive
-      const command = `powershell -Command "Expand-Archive -Path '${zipPath}' -DestinationPath '${destPath}' -Force"`;
-      await execAsync(command);
-    } else {
-      // macOS/Linux: Use unzip
-      const command = `unzip -o "${zipPath}" -d "${destPath}"`;
-      await execAsync(command);
-    }
-  }
-
   /**
    * インタラクティブなダウンローダーかどうかを推測する
    */
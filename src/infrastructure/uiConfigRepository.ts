@@ -7,7 +7,7 @@ import { asErrnoException } from '../util/lang';
 import { UIConfigSchema } from './schemas';
 
 /**
- * 比較設定のリポジトリ
+ * 比較設定・問題固有設定のリポジトリ
  */
 export class UIConfigRepository implements IUIConfigRepository {
   private configDirPath: string;
@@ -35,6 +35,17 @@ export class UIConfigRepository implements IUIConfigRepository {
         loaded.filter,
         loaded.bestRankingInclude,
         loaded.bestRankingExclude,
+        loaded.timeLimitMs,
+        loaded.timeLimitWarningRatio,
+        loaded.seedSetFilter,
+        loaded.treeSeedSetFilter,
+        loaded.lastRunOptions,
+        loaded.inputFeatureRules,
+        loaded.inputFeatureScript,
+        loaded.stderrPatterns,
+        loaded.tagFilter,
+        loaded.groupByTag,
+        loaded.activeVisualizer,
       );
     } catch (error) {
       // ファイルが見つからない場合のみデフォルト設定を返す
@@ -1,14 +1,27 @@
 import * as fs from 'node:fs/promises';
 import * as https from 'node:https';
+import * as os from 'node:os';
 import * as path from 'node:path';
+import dayjs, { type Dayjs } from 'dayjs';
 import type { IVisualizerAdapter } from '../domain/interfaces/IVisualizerAdapter';
-import { ensureDir, exists } from '../util/fs';
+import { CachedVisualizer } from '../domain/models/cachedVisualizer';
+import { ensureDir, ensureDirForFile, exists } from '../util/fs';
+import { asErrnoException } from '../util/lang';
+import { extractZip } from '../util/zip';
+import { FileNotFoundError, FileOperationError } from './exceptions';
+import { VisualizerMetadataSchema } from './schemas';
 
 /**
  * ビジュアライザのキャッシュ管理とダウンロードを行うアダプター
  *
+ * ビジュアライザは 1 つずつ `.pahcer-ui/visualizer/{id}/` に保存する
+ * - meta.json: 取得元・取得日時・ファイル一覧
+ * - files/: ビジュアライザのファイル
+ *
  * 責務:
  * - ビジュアライザファイルのダウンロード（HTML、JS、CSS、WASM などの依存ファイル含む）
+ * - ローカルの HTML ファイル・フォルダ・ZIP ファイルからの取り込み
+ * - キャッシュされたビジュアライザの一覧・削除
  * - キャッシュされたファイルの読み込み・存在確認
  * - リソースパスの管理
  */
@@ -20,90 +33,331 @@ export class VisualizerAdapter implements IVisualizerAdapter {
     this.visualizerDir = path.join(workspaceRoot, '.pahcer-ui', 'visualizer');
   }
 
-  /**
-   * キャッシュされたHTMLファイル名を取得
-   */
-  async getCachedHtmlFileName(): Promise<string | null> {
+  async list(): Promise<CachedVisualizer[]> {
     if (!(await exists(this.visualizerDir))) {
       console.log(`[VisualizerAdapter] Cache directory does not exist: ${this.visualizerDir}`);
-      return null;
+      return [];
     }
 
-    const files = await fs.readdir(this.visualizerDir);
-    console.log(`[VisualizerAdapter] Files in cache directory:`, files);
+    await this.migrateLegacyCache();
 
-    const htmlFile = files.find((f) => f.endsWith('.html'));
-    if (htmlFile) {
-      console.log(`[VisualizerAdapter] Found cached HTML file: ${htmlFile}`);
-    } else {
-      console.log(`[VisualizerAdapter] No HTML file found in cache`);
+    const entries = await fs.readdir(this.visualizerDir, { withFileTypes: true });
+    const visualizers: CachedVisualizer[] = [];
+    for (const entry of entries) {
+      // 取得中の一時ディレクトリは除く
+      if (!entry.isDirectory() || entry.name.startsWith('.')) {
+        continue;
+      }
+      const visualizer = await this.readMetadata(entry.name);
+      if (visualizer) {
+        visualizers.push(visualizer);
+      }
     }
-    return htmlFile || null;
-  }
 
-  /**
-   * ビジュアライザをダウンロード
-   */
-  async download(url: string): Promise<string> {
-    // Ensure visualizer directory exists
-    await ensureDir(this.visualizerDir);
-    console.log(`[VisualizerAdapter] Created directory: ${this.visualizerDir}`);
+    return visualizers.sort((a, b) => b.downloadedAt.valueOf() - a.downloadedAt.valueOf());
+  }
 
+  async download(url: string): Promise<CachedVisualizer> {
     // Remove query parameters for file operations
     const urlObj = new URL(url);
     const cleanUrl = `${urlObj.origin}${urlObj.pathname}`;
+    const htmlFileName = path.basename(urlObj.pathname);
 
-    console.log(`[VisualizerAdapter] Starting download from: ${cleanUrl}`);
+    const existing = (await this.list()).find(
+      (visualizer) => visualizer.sourceType === 'url' && visualizer.source === cleanUrl,
+    );
+    const id = existing?.id ?? (await this.createId(urlObj.pathname.replace(/\.html$/, '')));
 
-    // Download main HTML with recursion
-    const htmlFileName = path.basename(urlObj.pathname);
-    await this.downloadResourceRecursive(cleanUrl, 0);
+    return this.store(id, 'url', cleanUrl, async (filesDir) => {
+      console.log(`[VisualizerAdapter] Starting download from: ${cleanUrl}`);
+
+      // Download main HTML with recursion
+      await this.downloadResourceRecursive(cleanUrl, 0, filesDir);
+
+      console.log(`[VisualizerAdapter] Download completed`);
+      return htmlFileName;
+    });
+  }
+
+  async importFromLocal(sourcePath: string): Promise<CachedVisualizer> {
+    const resolvedPath = path.resolve(sourcePath);
+    // キャッシュ内のファイルは置き換え・削除で失われるため、取り込み元にできない
+    const relativePath = path.relative(this.visualizerDir, resolvedPath);
+    if (relativePath === '' || (!relativePath.startsWith('..') && !path.isAbsolute(relativePath))) {
+      throw new FileOperationError(
+        'ビジュアライザの取り込み',
+        resolvedPath,
+        'キャッシュしたビジュアライザのファイルは取り込めません',
+      );
+    }
+    const existing = (await this.list()).find(
+      (visualizer) => visualizer.sourceType === 'local' && visualizer.source === resolvedPath,
+    );
+    const id =
+      existing?.id ??
+      (await this.createId(path.basename(resolvedPath, path.extname(resolvedPath))));
+
+    return this.store(id, 'local', resolvedPath, (filesDir) =>
+      this.copyFromLocal(resolvedPath, filesDir),
+    );
+  }
+
+  async redownload(id: string): Promise<CachedVisualizer> {
+    const visualizer = await this.readMetadata(id);
+    if (!visualizer) {
+      throw new FileNotFoundError(this.getMetadataPath(id));
+    }
+    if (!visualizer.canRedownload()) {
+      throw new Error(`ビジュアライザ ${id} の取得元が不明なため取得し直せません`);
+    }
+
+    return visualizer.sourceType === 'url'
+      ? this.download(visualizer.source)
+      : this.importFromLocal(visualizer.source);
+  }
+
+  async delete(id: string): Promise<void> {
+    await fs.rm(path.join(this.visualizerDir, id), { recursive: true, force: true });
+  }
+
+  async readHtml(visualizer: CachedVisualizer): Promise<string> {
+    return fs.readFile(this.getResourcePath(visualizer, visualizer.htmlFileName), 'utf-8');
+  }
+
+  getResourcePath(visualizer: CachedVisualizer, fileName: string): string {
+    return path.join(this.getFilesDir(visualizer.id), fileName);
+  }
+
+  async resourceExists(visualizer: CachedVisualizer, fileName: string): Promise<boolean> {
+    return exists(this.getResourcePath(visualizer, fileName));
+  }
+
+  getVisualizerDir(): string {
+    return this.visualizerDir;
+  }
+
+  private getFilesDir(id: string): string {
+    return path.join(this.visualizerDir, id, 'files');
+  }
 
-    console.log(`[VisualizerAdapter] Download completed`);
-    return htmlFileName;
+  private getMetadataPath(id: string): string {
+    return path.join(this.visualizerDir, id, 'meta.json');
   }
 
   /**
-   * HTMLファイルのパスを取得
+   * メタデータを読み込む（メタデータがない・壊れている場合は undefined）
    */
-  getHtmlPath(fileName: string): string {
-    return path.join(this.visualizerDir, fileName);
+  private async readMetadata(id: string): Promise<CachedVisualizer | undefined> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.getMetadataPath(id), 'utf-8');
+    } catch (e) {
+      if (!(e instanceof Error) || asErrnoException(e).code !== 'ENOENT') {
+        throw e;
+      }
+      return undefined;
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(content);
+    } catch (e) {
+      console.warn(`[VisualizerAdapter] Invalid metadata: ${id}`, e);
+      return undefined;
+    }
+    const parsed = VisualizerMetadataSchema.safeParse(json);
+    if (!parsed.success) {
+      console.warn(`[VisualizerAdapter] Invalid metadata: ${id}`, parsed.error.message);
+      return undefined;
+    }
+    const metadata = parsed.data;
+    return new CachedVisualizer(
+      id,
+      metadata.htmlFileName,
+      metadata.sourceType,
+      metadata.source,
+      dayjs(metadata.downloadedAt),
+      metadata.files,
+    );
   }
 
   /**
-   * HTMLファイルを読み込む
+   * 一時ディレクトリにファイルを取得してから、キャッシュを置き換える
+   * 取得に失敗した場合は元のキャッシュを残す
+   * @param fill ファイルを files ディレクトリに書き込み、HTMLファイル名を返す関数
+   * @param downloadedAt 取得日時（省略時は現在日時）
    */
-  async readHtml(fileName: string): Promise<string> {
-    return fs.readFile(this.getHtmlPath(fileName), 'utf-8');
+  private async store(
+    id: string,
+    sourceType: 'url' | 'local',
+    source: string,
+    fill: (filesDir: string) => Promise<string>,
+    downloadedAt: Dayjs = dayjs(),
+  ): Promise<CachedVisualizer> {
+    const stagingDir = path.join(this.visualizerDir, `.staging-${id}`);
+    const stagingFilesDir = path.join(stagingDir, 'files');
+    await fs.rm(stagingDir, { recursive: true, force: true });
+    await ensureDir(stagingFilesDir);
+
+    try {
+      const htmlFileName = await fill(stagingFilesDir);
+      const visualizer = new CachedVisualizer(
+        id,
+        htmlFileName,
+        sourceType,
+        source,
+        downloadedAt,
+        await this.listFiles(stagingFilesDir),
+      );
+      await fs.writeFile(
+        path.join(stagingDir, 'meta.json'),
+        JSON.stringify(
+          {
+            htmlFileName: visualizer.htmlFileName,
+            sourceType: visualizer.sourceType,
+            source: visualizer.source,
+            downloadedAt: visualizer.downloadedAt.toISOString(),
+            files: visualizer.files,
+          },
+          null,
+          2,
+        ),
+        'utf-8',
+      );
+
+      const targetDir = path.join(this.visualizerDir, id);
+      await fs.rm(targetDir, { recursive: true, force: true });
+      await fs.rename(stagingDir, targetDir);
+      console.log(`[VisualizerAdapter] Stored visualizer: ${id}`);
+      return visualizer;
+    } finally {
+      await fs.rm(stagingDir, { recursive: true, force: true });
+    }
   }
 
   /**
-   * リソースファイルのパスを取得
+   * 重複しない ID を作成する（URL のパスやファイル名から作成し、重複する場合は連番を付ける）
    */
-  getResourcePath(fileName: string): string {
-    return path.join(this.visualizerDir, fileName);
+  private async createId(base: string): Promise<string> {
+    const slug =
+      base
+        .replace(/[^A-Za-z0-9_-]+/g, '_')
+        .replace(/^_+|_+$/g, '')
+        .slice(0, 64) || 'visualizer';
+
+    let id = slug;
+    for (let i = 2; await exists(path.join(this.visualizerDir, id)); i++) {
+      id = `${slug}_${i}`;
+    }
+    return id;
   }
 
   /**
-   * リソースファイルが存在するかチェック
+   * ディレクトリ内のファイルを再帰的に列挙する
+   * @returns ディレクトリからの相対パス（区切り文字は `/`、昇順）
    */
-  async resourceExists(fileName: string): Promise<boolean> {
-    return exists(this.getResourcePath(fileName));
+  private async listFiles(dir: string): Promise<string[]> {
+    const entries = await fs.readdir(dir, { recursive: true, withFileTypes: true });
+    return entries
+      .filter((entry) => entry.isFile())
+      .map((entry) =>
+        path.relative(dir, path.join(entry.parentPath, entry.name)).split(path.sep).join('/'),
+      )
+      .sort();
   }
 
   /**
-   * ビジュアライザディレクトリのパスを取得
+   * 以前の形式（`.pahcer-ui/visualizer/` の直下にファイルを保存）のキャッシュを 1 つのビジュアライザとして移行する
+   * 取得元の URL は記録されていないため不明とする
    */
-  getVisualizerDir(): string {
-    return this.visualizerDir;
+  private async migrateLegacyCache(): Promise<void> {
+    const entries = await fs.readdir(this.visualizerDir, { withFileTypes: true });
+    const htmlFileName = entries.find(
+      (entry) => entry.isFile() && entry.name.endsWith('.html'),
+    )?.name;
+    if (!htmlFileName) {
+      return;
+    }
+
+    // 相対パスを保って取り込んだ依存ファイルのディレクトリも含めて移行する
+    // （meta.json のあるディレクトリは現在の形式のビジュアライザ、. で始まるものは取得中の一時ディレクトリ）
+    const legacyEntries: string[] = [];
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) {
+        continue;
+      }
+      if (entry.isDirectory() && (await exists(this.getMetadataPath(entry.name)))) {
+        continue;
+      }
+      legacyEntries.push(entry.name);
+    }
+
+    console.log(`[VisualizerAdapter] Migrating legacy cache: ${htmlFileName}`);
+    // 取得日時は移行前のファイルの日時にする
+    const downloadedAt = dayjs((await fs.stat(path.join(this.visualizerDir, htmlFileName))).mtime);
+    const id = await this.createId(path.basename(htmlFileName, '.html'));
+    // 移行に失敗しても元のファイルが残るよう、コピーして保存できてから削除する
+    await this.store(
+      id,
+      'url',
+      '',
+      async (filesDir) => {
+        for (const name of legacyEntries) {
+          await fs.cp(path.join(this.visualizerDir, name), path.join(filesDir, name), {
+            recursive: true,
+          });
+        }
+        return htmlFileName;
+      },
+      downloadedAt,
+    );
+    for (const name of legacyEntries) {
+      await fs.rm(path.join(this.visualizerDir, name), { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * ローカルの HTML ファイル・フォルダ・ZIP ファイルから files ディレクトリにコピーする
+   * @returns HTMLファイル名
+   */
+  private async copyFromLocal(sourcePath: string, filesDir: string): Promise<string> {
+    const stat = await fs.stat(sourcePath);
+
+    if (stat.isFile() && sourcePath.toLowerCase().endsWith('.zip')) {
+      const extractDir = await fs.mkdtemp(path.join(os.tmpdir(), 'pahcer-ui-visualizer-'));
+      try {
+        await extractZip(sourcePath, extractDir);
+        return await this.copyFromLocal(extractDir, filesDir);
+      } finally {
+        await fs.rm(extractDir, { recursive: true, force: true });
+      }
+    }
+
+    const htmlPath = stat.isDirectory() ? await this.findHtmlFile(sourcePath, 0) : sourcePath;
+    if (!htmlPath || !htmlPath.toLowerCase().endsWith('.html')) {
+      throw new FileNotFoundError(
+        stat.isDirectory() ? path.join(sourcePath, '*.html') : sourcePath,
+      );
+    }
+
+    console.log(`[VisualizerAdapter] Starting import from: ${htmlPath}`);
+    await this.copyResourceRecursive(htmlPath, path.dirname(htmlPath), filesDir, 0);
+    console.log(`[VisualizerAdapter] Import completed`);
+
+    return path.basename(htmlPath);
   }
 
   /**
    * リソース（HTML/JS）を再帰的にダウンロード
    * @param url ダウンロードするリソースのURL
    * @param depth 再帰の深さ（循環参照防止）
+   * @param destDir 保存先のディレクトリ
    */
-  private async downloadResourceRecursive(url: string, depth: number): Promise<void> {
+  private async downloadResourceRecursive(
+    url: string,
+    depth: number,
+    destDir: string,
+  ): Promise<void> {
     // 深さチェック
     if (depth > this.MAX_DEPTH) {
       console.log(
@@ -115,7 +369,7 @@ export class VisualizerAdapter implements IVisualizerAdapter {
     const baseUrlObj = new URL(url);
     const baseDir = baseUrlObj.pathname.substring(0, baseUrlObj.pathname.lastIndexOf('/'));
     const fileName = path.basename(url);
-    const filePath = path.join(this.visualizerDir, fileName);
+    const filePath = path.join(destDir, fileName);
 
     // すでにダウンロード済みならスキップ
     if (await exists(filePath)) {
@@ -131,13 +385,13 @@ export class VisualizerAdapter implements IVisualizerAdapter {
 
     if (fileName.endsWith('.html')) {
       // HTMLファイルの場合：依存ファイルを抽出して再帰ダウンロード
-      await this.downloadDependenciesFromHtml(content, baseUrlObj, baseDir, depth);
+      await this.downloadDependenciesFromHtml(content, baseUrlObj, baseDir, depth, destDir);
     } else if (fileName.endsWith('.js')) {
       // JavaScriptファイルの場合：import文を抽出して再帰ダウンロード
-      await this.downloadDependenciesFromJs(content, baseUrlObj, baseDir, depth);
+      await this.downloadDependenciesFromJs(content, baseUrlObj, baseDir, depth, destDir);
 
       // JSファイルに対応するWASMファイルを試行的にダウンロード
-      await this.maybeDownloadWasmFromJs(fileName, baseUrlObj, baseDir);
+      await this.maybeDownloadWasmFromJs(fileName, baseUrlObj, baseDir, destDir);
     }
   }
 
@@ -149,35 +403,9 @@ export class VisualizerAdapter implements IVisualizerAdapter {
     baseUrlObj: URL,
     baseDir: string,
     depth: number,
+    destDir: string,
   ): Promise<void> {
-    const scriptRegex = /<script[^>]+src=["']([^"']+)["']/g;
-    const linkRegex = /<link[^>]+href=["']([^"']+)["']/g;
-    const imgRegex = /<img[^>]+src=["']([^"']+)["']/g;
-    const importRegex = /from\s+["']([^"']+\.js)["']/g;
-
-    const dependencies = new Set<string>();
-
-    let match: RegExpExecArray | null;
-    match = scriptRegex.exec(htmlContent);
-    while (match !== null) {
-      dependencies.add(match[1]);
-      match = scriptRegex.exec(htmlContent);
-    }
-    match = linkRegex.exec(htmlContent);
-    while (match !== null) {
-      dependencies.add(match[1]);
-      match = linkRegex.exec(htmlContent);
-    }
-    match = imgRegex.exec(htmlContent);
-    while (match !== null) {
-      dependencies.add(match[1]);
-      match = imgRegex.exec(htmlContent);
-    }
-    match = importRegex.exec(htmlContent);
-    while (match !== null) {
-      dependencies.add(match[1]);
-      match = importRegex.exec(htmlContent);
-    }
+    const dependencies = this.extractHtmlDependencies(htmlContent);
 
     if (dependencies.size === 0) {
       console.log(`[VisualizerAdapter] No dependencies found in HTML`);
@@ -194,7 +422,7 @@ export class VisualizerAdapter implements IVisualizerAdapter {
       try {
         const depUrl = this.resolveUrl(dep, baseUrlObj, baseDir);
         if (depUrl) {
-          await this.downloadResourceRecursive(depUrl, depth + 1);
+          await this.downloadResourceRecursive(depUrl, depth + 1, destDir);
         }
       } catch (e) {
         console.error(
@@ -213,17 +441,9 @@ export class VisualizerAdapter implements IVisualizerAdapter {
     baseUrlObj: URL,
     baseDir: string,
     depth: number,
+    destDir: string,
   ): Promise<void> {
-    const importRegex = /from\s+["']([^"']+\.js)["']/g;
-
-    const dependencies = new Set<string>();
-
-    let match: RegExpExecArray | null;
-    match = importRegex.exec(jsContent);
-    while (match !== null) {
-      dependencies.add(match[1]);
-      match = importRegex.exec(jsContent);
-    }
+    const dependencies = this.extractJsImports(jsContent);
 
     if (dependencies.size === 0) {
       console.log(`[VisualizerAdapter] No imports found in JS file`);
@@ -240,7 +460,7 @@ export class VisualizerAdapter implements IVisualizerAdapter {
       try {
         const depUrl = this.resolveUrl(dep, baseUrlObj, baseDir);
         if (depUrl) {
-          await this.downloadResourceRecursive(depUrl, depth + 1);
+          await this.downloadResourceRecursive(depUrl, depth + 1, destDir);
         }
       } catch (e) {
         console.error(
@@ -255,13 +475,14 @@ export class VisualizerAdapter implements IVisualizerAdapter {
     fileName: string,
     baseUrlObj: URL,
     baseDir: string,
+    destDir: string,
   ): Promise<void> {
     const wasmFileName = fileName.replace('.js', '_bg.wasm');
     const wasmUrl = `${baseUrlObj.origin}${baseDir}/${wasmFileName}`;
     console.log(`[VisualizerAdapter] Checking for WASM file: ${wasmFileName}`);
 
     try {
-      const wasmPath = path.join(this.visualizerDir, wasmFileName);
+      const wasmPath = path.join(destDir, wasmFileName);
       const wasmContent = await this.fetchUrlBinary(wasmUrl);
       await fs.writeFile(wasmPath, wasmContent);
       console.log(
@@ -275,6 +496,148 @@ export class VisualizerAdapter implements IVisualizerAdapter {
     }
   }
 
+  /**
+   * HTMLファイルから依存ファイル（script、link、img、import）の参照を抽出
+   */
+  private extractHtmlDependencies(htmlContent: string): Set<string> {
+    const scriptRegex = /<script[^>]+src=["']([^"']+)["']/g;
+    const linkRegex = /<link[^>]+href=["']([^"']+)["']/g;
+    const imgRegex = /<img[^>]+src=["']([^"']+)["']/g;
+
+    const dependencies = this.extractJsImports(htmlContent);
+    for (const regex of [scriptRegex, linkRegex, imgRegex]) {
+      for (const match of htmlContent.matchAll(regex)) {
+        dependencies.add(match[1]);
+      }
+    }
+    return dependencies;
+  }
+
+  /**
+   * JavaScript（またはHTML内のモジュール）から import 文の参照を抽出
+   */
+  private extractJsImports(jsContent: string): Set<string> {
+    const importRegex = /from\s+["']([^"']+\.js)["']/g;
+    return new Set(Array.from(jsContent.matchAll(importRegex), (match) => match[1]));
+  }
+
+  /**
+   * フォルダから取り込む HTML ファイルを探す（浅い階層を優先し、同じ階層では index.html を優先）
+   */
+  private async findHtmlFile(dir: string, depth: number): Promise<string | null> {
+    if (depth > this.MAX_DEPTH) {
+      return null;
+    }
+
+    const entries = (await fs.readdir(dir, { withFileTypes: true })).sort((a, b) =>
+      a.name.localeCompare(b.name),
+    );
+    const htmlFiles = entries
+      .filter((entry) => entry.isFile() && entry.name.toLowerCase().endsWith('.html'))
+      .map((entry) => entry.name);
+    if (htmlFiles.length > 0) {
+      return path.join(dir, htmlFiles.includes('index.html') ? 'index.html' : htmlFiles[0]);
+    }
+
+    for (const entry of entries) {
+      // macOS の ZIP に含まれるメタデータは無視する
+      if (entry.isDirectory() && entry.name !== '__MACOSX') {
+        const found = await this.findHtmlFile(path.join(dir, entry.name), depth + 1);
+        if (found) {
+          return found;
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * ローカルのリソース（HTML/JS）を依存ファイルごと再帰的にコピー
+   * 相対パスの import がそのまま解決できるよう、HTML ファイルのフォルダからの相対パスを保って配置する
+   * （フォルダの外のファイルは保存先のディレクトリの直下に配置する）
+   * @param filePath コピーするファイルのパス
+   * @param rootDir HTML ファイルのフォルダ
+   * @param destDir 保存先のディレクトリ
+   * @param depth 再帰の深さ（循環参照防止）
+   */
+  private async copyResourceRecursive(
+    filePath: string,
+    rootDir: string,
+    destDir: string,
+    depth: number,
+  ): Promise<void> {
+    if (depth > this.MAX_DEPTH) {
+      console.log(
+        `[VisualizerAdapter] Max recursion depth (${this.MAX_DEPTH}) reached, stopping recursion`,
+      );
+      return;
+    }
+
+    const fileName = path.basename(filePath);
+    const relativePath = path.relative(rootDir, filePath);
+    const destPath = path.join(
+      destDir,
+      relativePath.startsWith('..') || path.isAbsolute(relativePath) ? fileName : relativePath,
+    );
+    if (await exists(destPath)) {
+      console.log(`[VisualizerAdapter] File already exists, skipping: ${fileName}`);
+      return;
+    }
+
+    const content = await fs.readFile(filePath);
+    await ensureDirForFile(destPath);
+    await fs.writeFile(destPath, content);
+    console.log(`[VisualizerAdapter] Copied: ${fileName} (size: ${content.length} bytes)`);
+
+    const baseDir = path.dirname(filePath);
+    let dependencies = new Set<string>();
+    if (fileName.endsWith('.html')) {
+      dependencies = this.extractHtmlDependencies(content.toString('utf-8'));
+    } else if (fileName.endsWith('.js')) {
+      dependencies = this.extractJsImports(content.toString('utf-8'));
+
+      // JSファイルに対応するWASMファイルがあればコピー
+      const wasmPath = path.join(baseDir, fileName.replace('.js', '_bg.wasm'));
+      const wasmDestPath = path.join(path.dirname(destPath), path.basename(wasmPath));
+      if ((await exists(wasmPath)) && !(await exists(wasmDestPath))) {
+        await fs.copyFile(wasmPath, wasmDestPath);
+        console.log(`[VisualizerAdapter] WASM file copied: ${path.basename(wasmPath)}`);
+      }
+    }
+
+    for (const dep of dependencies) {
+      const depPath = this.resolveLocalPath(dep, baseDir);
+      if (!depPath) {
+        continue;
+      }
+      if (!(await exists(depPath))) {
+        console.warn(`[VisualizerAdapter] Dependency not found: ${dep} (${depPath})`);
+        continue;
+      }
+      await this.copyResourceRecursive(depPath, rootDir, destDir, depth + 1);
+    }
+  }
+
+  /**
+   * 依存ファイルの参照を取り込み元のパスに変換
+   * AtCoder のプロトコル相対URLは、保存したページと同様に同じフォルダにあるものとみなす
+   */
+  private resolveLocalPath(dep: string, baseDir: string): string | null {
+    const ref = dep.split(/[?#]/)[0];
+
+    if (ref.startsWith('//img.atcoder.jp/')) {
+      return path.join(baseDir, path.basename(ref));
+    }
+
+    // 外部URL・データURLはスキップ
+    if (/^(\/\/|[a-z]+:)/i.test(ref)) {
+      console.log(`[VisualizerAdapter] Skipping external URL: ${dep}`);
+      return null;
+    }
+
+    return path.resolve(baseDir, ref.replace(/^\//, ''));
+  }
+
   /**
    * 相対パスまたはプロトコル相対URLを完全なURLに変換
    */
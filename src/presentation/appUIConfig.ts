@@ -1,4 +1,8 @@
 import { ConfigurationTarget, workspace } from 'vscode';
+import type { RegressionReferenceMode } from '../application/createRegressionReportUseCase';
+import type { ExecutionRetentionPlanner } from '../domain/services/executionRetentionPlanner';
+import type { RegressionAnalyzer } from '../domain/services/regressionAnalyzer';
+import type { RelativeScoreCalculator } from '../domain/services/relativeScoreCalculator';
 import type { SeedSortOrder } from '../domain/services/seedExecutionSorter';
 import type { ExecutionSortOrder, GroupingMode } from '../domain/services/testCaseSorter';
 
@@ -44,6 +48,76 @@ export class AppUIConfig {
     await this.config().update('seedSortOrder', order, ConfigurationTarget.Global);
   }
 
+  public async relativeScoreMethod(): Promise<RelativeScoreCalculator.Method> {
+    return this.config().get<RelativeScoreCalculator.Method>('relativeScoreMethod', 'bestRatio');
+  }
+
+  public async regressionReportAutoShow(): Promise<boolean> {
+    return this.config().get<boolean>('regressionReport.autoShow', true);
+  }
+
+  public async regressionReportReferenceMode(): Promise<RegressionReferenceMode> {
+    return this.config().get<RegressionReferenceMode>('regressionReport.compareWith', 'baseline');
+  }
+
+  /**
+   * 回帰レポートの閾値を取得
+   */
+  public async regressionReportThresholds(): Promise<RegressionAnalyzer.Thresholds> {
+    const config = this.config();
+    return {
+      scoreChangePercent: config.get<number>('regressionReport.scoreChangePercent', 1),
+      runtimeIncreasePercent: config.get<number>('regressionReport.runtimeIncreasePercent', 50),
+      runtimeIncreaseMinSeconds:
+        config.get<number>('regressionReport.runtimeIncreaseMinMs', 100) / 1000,
+      maxItems: config.get<number>('regressionReport.maxItems', 10),
+    };
+  }
+
+  /**
+   * 実行結果整理の保持ルールを取得
+   */
+  public async pruneRetentionPolicy(): Promise<ExecutionRetentionPlanner.Policy> {
+    const config = this.config();
+    return {
+      keepLatest: config.get<number>('prune.keepLatest', 20),
+      keepCommented: config.get<boolean>('prune.keepCommented', true),
+      keepBestHolders: config.get<boolean>('prune.keepBestHolders', true),
+    };
+  }
+
+  /**
+   * 入力生成コマンドを取得（tools ディレクトリで実行する）
+   */
+  public async inputGeneratorCommand(): Promise<string> {
+    return this.config().get<string>('inputGeneratorCommand', 'cargo run -r --bin gen seeds.txt');
+  }
+
+  /**
+   * ビジュアライザの表示方法を取得
+   * @returns web: AtCoder 公式の Web 版ビジュアライザ, local: 公式ツールのローカルのビジュアライザ（vis）
+   */
+  public async visualizerMode(): Promise<'web' | 'local'> {
+    return this.config().get<'web' | 'local'>('visualizerMode', 'web');
+  }
+
+  /**
+   * ローカルのビジュアライザのコマンドを取得（tools ディレクトリで実行する）
+   */
+  public async localVisualizerCommand(): Promise<string> {
+    return this.config().get<string>(
+      'localVisualizerCommand',
+      'cargo run -r --bin vis {input} {output}',
+    );
+  }
+
+  /**
+   * ローカルのビジュアライザの結果ファイルを取得（tools ディレクトリからの相対パス）
+   */
+  public async localVisualizerResultFile(): Promise<string> {
+    return this.config().get<string>('localVisualizerResultFile', 'vis.html');
+  }
+
   private config() {
     return workspace.getConfiguration(PREFERENCES_SECTION);
   }
@@ -0,0 +1,55 @@
+import * as vscode from 'vscode';
+import type { IBaselineRepository } from '../../../domain/interfaces/IBaselineRepository';
+import type { ComparisonViewController } from '../comparisonViewController';
+import type { PahcerTreeItem, PahcerTreeViewController } from '../pahcerTreeViewController';
+
+/**
+ * 基準実行設定コマンドハンドラ
+ */
+export function setBaselineCommand(
+  baselineRepository: IBaselineRepository,
+  treeViewController: PahcerTreeViewController,
+  comparisonViewController: ComparisonViewController,
+): (item: PahcerTreeItem) => Promise<void> {
+  return async (item: PahcerTreeItem) => {
+    if (!item.executionId) {
+      return;
+    }
+
+    try {
+      await baselineRepository.upsert(item.executionId);
+      await refreshViews(treeViewController, comparisonViewController);
+    } catch (error) {
+      vscode.window.showErrorMessage(`基準実行の設定に失敗しました: ${error}`);
+    }
+  };
+}
+
+/**
+ * 基準実行解除コマンドハンドラ
+ */
+export function clearBaselineCommand(
+  baselineRepository: IBaselineRepository,
+  treeViewController: PahcerTreeViewController,
+  comparisonViewController: ComparisonViewController,
+): () => Promise<void> {
+  return async () => {
+    try {
+      await baselineRepository.delete();
+      await refreshViews(treeViewController, comparisonViewController);
+    } catch (error) {
+      vscode.window.showErrorMessage(`基準実行の解除に失敗しました: ${error}`);
+    }
+  };
+}
+
+async function refreshViews(
+  treeViewController: PahcerTreeViewController,
+  comparisonViewController: ComparisonViewController,
+): Promise<void> {
+  treeViewController.refresh();
+  const checkedResults = treeViewController.getCheckedResults();
+  if (checkedResults.length > 0) {
+    await comparisonViewController.showComparison(checkedResults);
+  }
+}
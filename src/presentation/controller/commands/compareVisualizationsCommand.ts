@@ -0,0 +1,114 @@
+import * as vscode from 'vscode';
+import type { IExecutionRepository } from '../../../domain/interfaces/IExecutionRepository';
+import type { ITestCaseRepository } from '../../../domain/interfaces/ITestCaseRepository';
+import { TestCaseId } from '../../../domain/models/testCase';
+import type { PahcerTreeItem } from '../pahcerTreeViewController';
+import type { VisualizerViewController } from '../visualizerViewController';
+
+/**
+ * ビジュアライザ比較コマンドハンドラ
+ *
+ * 同じ Seed の 2 つの実行結果のビジュアライザを左右に並べて表示する。
+ * - 実行ノード 2 つを選択した場合は Seed を入力させる
+ * - ケースノード 2 つを選択した場合はその Seed（同じ Seed の場合のみ）
+ * - Seed ノード（Seed ごとモード）の場合は比較する実行を 2 つ選択させる
+ */
+export function compareVisualizationsCommand(
+  executionRepository: IExecutionRepository,
+  testCaseRepository: ITestCaseRepository,
+  visualizerViewController: VisualizerViewController,
+): (item?: PahcerTreeItem, selectedItems?: PahcerTreeItem[]) => Promise<void> {
+  return async (item?: PahcerTreeItem, selectedItems?: PahcerTreeItem[]) => {
+    const targets = selectedItems && selectedItems.length > 0 ? selectedItems : item ? [item] : [];
+    const executionIds = [
+      ...new Set(
+        targets.map((target) => target.executionId).filter((id): id is string => id !== undefined),
+      ),
+    ];
+    const seeds = [
+      ...new Set(
+        targets.map((target) => target.seed).filter((seed): seed is number => seed !== undefined),
+      ),
+    ];
+    if (executionIds.length > 2) {
+      vscode.window.showWarningMessage('比較する実行結果を 2 つ選択してください');
+      return;
+    }
+    if (seeds.length > 1) {
+      vscode.window.showWarningMessage('同じ Seed のケースを 2 つ選択してください');
+      return;
+    }
+
+    try {
+      let seed = seeds[0];
+      if (seed === undefined) {
+        const input = await vscode.window.showInputBox({
+          prompt: 'ビジュアライザを比較する Seed を入力してください',
+          placeHolder: '0',
+          validateInput: (value) =>
+            /^\d+$/.test(value.trim()) ? undefined : 'Seed は非負整数で入力してください',
+        });
+        if (input === undefined) {
+          return;
+        }
+        seed = Number(input.trim());
+      }
+
+      const comparedIds =
+        executionIds.length === 2
+          ? executionIds
+          : await pickExecutions(executionRepository, testCaseRepository, seed);
+      if (!comparedIds) {
+        return;
+      }
+      if (comparedIds.length !== 2) {
+        vscode.window.showWarningMessage('比較する実行結果を 2 つ選択してください');
+        return;
+      }
+
+      await visualizerViewController.showComparison(seed, [comparedIds[0], comparedIds[1]]);
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `ビジュアライザの比較に失敗しました: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  };
+}
+
+/**
+ * Seed の出力が保存されている実行から比較する 2 つを選択させる（新しい 2 つを選択済みにする）
+ * @returns 選択された実行の ID（キャンセルされた場合は undefined）
+ */
+async function pickExecutions(
+  executionRepository: IExecutionRepository,
+  testCaseRepository: ITestCaseRepository,
+  seed: number,
+): Promise<string[] | undefined> {
+  const executions = await executionRepository.findAll();
+  const testCases = await Promise.all(
+    executions.map((execution) => testCaseRepository.findById(new TestCaseId(execution.id, seed))),
+  );
+
+  const items = executions
+    .map((execution, i) => ({ execution, testCase: testCases[i] }))
+    .filter(({ testCase }) => testCase?.foundOutput)
+    .map(({ execution, testCase }, i) => ({
+      label: execution.getLongTitle(),
+      description: `スコア: ${testCase?.score.toLocaleString()}`,
+      detail: execution.comment || undefined,
+      picked: i < 2,
+      executionId: execution.id,
+    }));
+  if (items.length < 2) {
+    vscode.window.showWarningMessage(
+      `Seed ${String(seed).padStart(4, '0')} の出力が保存されている実行結果が 2 つ以上ありません`,
+    );
+    return undefined;
+  }
+
+  const selected = await vscode.window.showQuickPick(items, {
+    canPickMany: true,
+    placeHolder: '比較する実行結果を 2 つ選択してください',
+  });
+  return selected?.map((item) => item.executionId);
+}
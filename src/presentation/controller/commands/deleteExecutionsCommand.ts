@@ -0,0 +1,179 @@
+import * as vscode from 'vscode';
+import type { DeleteExecutionsUseCase } from '../../../application/deleteExecutionsUseCase';
+import type { PlanExecutionPruneUseCase } from '../../../application/planExecutionPruneUseCase';
+import type { IExecutionRepository } from '../../../domain/interfaces/IExecutionRepository';
+import type { Execution } from '../../../domain/models/execution';
+import { ExecutionRetentionPlanner } from '../../../domain/services/executionRetentionPlanner';
+import type { AppUIConfig } from '../../appUIConfig';
+import type { ComparisonViewController } from '../comparisonViewController';
+import type { PahcerTreeItem, PahcerTreeViewController } from '../pahcerTreeViewController';
+
+/** 確認ダイアログに列挙する実行結果の最大件数 */
+const MAX_LISTED_EXECUTIONS = 20;
+
+/**
+ * 実行結果削除コマンドハンドラ
+ *
+ * 右クリックメニューからは選択中の実行ノード（複数可）、コマンドパレットからはチェック済みの実行を削除する。
+ */
+export function deleteExecutionsCommand(
+  executionRepository: IExecutionRepository,
+  deleteExecutionsUseCase: DeleteExecutionsUseCase,
+  treeViewController: PahcerTreeViewController,
+  comparisonViewController: ComparisonViewController,
+): (item?: PahcerTreeItem, selectedItems?: PahcerTreeItem[]) => Promise<void> {
+  return async (item?: PahcerTreeItem, selectedItems?: PahcerTreeItem[]) => {
+    const executionIds = item
+      ? [
+          ...new Set(
+            (selectedItems && selectedItems.length > 0 ? selectedItems : [item])
+              .map((target) => target.executionId)
+              .filter((id): id is string => id !== undefined),
+          ),
+        ]
+      : treeViewController.getCheckedResults();
+
+    if (executionIds.length === 0) {
+      vscode.window.showWarningMessage('削除する実行結果を選択してください');
+      return;
+    }
+
+    try {
+      const executions = (
+        await Promise.all(executionIds.map((id) => executionRepository.findById(id)))
+      ).filter((execution): execution is Execution => execution !== undefined);
+      if (executions.length === 0) {
+        vscode.window.showWarningMessage(
+          '選択した実行結果が見つかりません（既に削除されている可能性があります）',
+        );
+        return;
+      }
+
+      const answer = await vscode.window.showWarningMessage(
+        `${executions.length} 件の実行結果を削除しますか？`,
+        {
+          modal: true,
+          detail: `保存済みの出力ファイルも削除されます。この操作は元に戻せません。\n\n${formatExecutionList(executions)}`,
+        },
+        '削除',
+      );
+      if (answer !== '削除') {
+        return;
+      }
+
+      await deleteExecutions(
+        executions.map((execution) => execution.id),
+        deleteExecutionsUseCase,
+        treeViewController,
+        comparisonViewController,
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(`実行結果の削除に失敗しました: ${error}`);
+    }
+  };
+}
+
+/**
+ * 実行結果整理コマンドハンドラ
+ *
+ * 保持ルールに従って削除対象を決定し、ドライランの結果を確認してから削除する。
+ */
+export function pruneExecutionsCommand(
+  appConfig: AppUIConfig,
+  planExecutionPruneUseCase: PlanExecutionPruneUseCase,
+  deleteExecutionsUseCase: DeleteExecutionsUseCase,
+  treeViewController: PahcerTreeViewController,
+  comparisonViewController: ComparisonViewController,
+): () => Promise<void> {
+  return async () => {
+    try {
+      const policy = await appConfig.pruneRetentionPolicy();
+      const plan = await planExecutionPruneUseCase.handle(policy);
+
+      if (plan.toDelete.length === 0) {
+        vscode.window.showInformationMessage(
+          `削除対象の実行結果はありません（${plan.toKeep.length} 件すべて保持されます）`,
+        );
+        return;
+      }
+
+      const answer = await vscode.window.showWarningMessage(
+        `${plan.toDelete.length} 件の実行結果を削除し、${plan.toKeep.length} 件を保持します。削除しますか？`,
+        {
+          modal: true,
+          detail: `${formatKeepSummary(plan, policy)}\n\n削除対象:\n${formatExecutionList(plan.toDelete)}`,
+        },
+        '削除',
+      );
+      if (answer !== '削除') {
+        return;
+      }
+
+      await deleteExecutions(
+        plan.toDelete.map((execution) => execution.id),
+        deleteExecutionsUseCase,
+        treeViewController,
+        comparisonViewController,
+      );
+      vscode.window.showInformationMessage(`${plan.toDelete.length} 件の実行結果を削除しました`);
+    } catch (error) {
+      vscode.window.showErrorMessage(`実行結果の整理に失敗しました: ${error}`);
+    }
+  };
+}
+
+async function deleteExecutions(
+  executionIds: string[],
+  deleteExecutionsUseCase: DeleteExecutionsUseCase,
+  treeViewController: PahcerTreeViewController,
+  comparisonViewController: ComparisonViewController,
+): Promise<void> {
+  await deleteExecutionsUseCase.handle(executionIds);
+
+  treeViewController.uncheckResults(executionIds);
+  treeViewController.refresh();
+  const checkedResults = treeViewController.getCheckedResults();
+  if (checkedResults.length > 0) {
+    await comparisonViewController.showComparison(checkedResults);
+  }
+}
+
+/**
+ * 保持理由ごとの件数を表示用の文字列にする
+ */
+function formatKeepSummary(
+  plan: ExecutionRetentionPlanner.Plan,
+  policy: ExecutionRetentionPlanner.Policy,
+): string {
+  const reasons: ExecutionRetentionPlanner.KeepReason[] = ['latest'];
+  if (policy.keepCommented) {
+    reasons.push('commented');
+  }
+  if (policy.keepBestHolders) {
+    reasons.push('bestHolder');
+  }
+  reasons.push('baseline');
+
+  const lines = reasons.map((reason) => {
+    const count = plan.toKeep.filter((k) => k.reasons.includes(reason)).length;
+    const label =
+      reason === 'latest'
+        ? `最新 ${policy.keepLatest} 件`
+        : ExecutionRetentionPlanner.reasonLabel(reason);
+    return `・${label}: ${count} 件`;
+  });
+  return `保持（重複あり）:\n${lines.join('\n')}`;
+}
+
+function formatExecutionList(executions: Execution[]): string {
+  const lines = executions
+    .slice(0, MAX_LISTED_EXECUTIONS)
+    .map(
+      (execution) =>
+        `・${execution.getLongTitle()}${execution.comment ? ` - ${execution.comment}` : ''}`,
+    );
+  if (executions.length > MAX_LISTED_EXECUTIONS) {
+    lines.push(`ほか ${executions.length - MAX_LISTED_EXECUTIONS} 件`);
+  }
+  return lines.join('\n');
+}
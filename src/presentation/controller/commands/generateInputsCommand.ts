@@ -0,0 +1,52 @@
+import * as vscode from 'vscode';
+import type { GenerateInputsUseCase } from '../../../application/generateInputsUseCase';
+import { SeedList } from '../../../domain/services/seedList';
+
+/**
+ * 入力生成コマンドハンドラ
+ *
+ * 指定した Seed のうち入力ファイルがないものを、公式ツールの入力生成プログラムで生成する。
+ */
+export function generateInputsCommand(
+  generateInputsUseCase: GenerateInputsUseCase,
+): () => Promise<void> {
+  return async () => {
+    const input = await vscode.window.showInputBox({
+      prompt: '入力を生成する Seed の範囲・一覧を入力してください（範囲は両端を含む）',
+      placeHolder: '100-199',
+      validateInput: (value) => {
+        const { seeds, error } = SeedList.parse(value);
+        if (error !== undefined) {
+          return `Seed として解釈できない値があります: ${error}`;
+        }
+        return seeds.length > 0 ? undefined : 'Seed を 1 つ以上入力してください';
+      },
+    });
+    if (input === undefined) {
+      return;
+    }
+
+    try {
+      const { generatedSeeds } = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: '入力ファイルを生成中...',
+          cancellable: false,
+        },
+        () => generateInputsUseCase.handle(SeedList.parse(input).seeds),
+      );
+
+      if (generatedSeeds.length === 0) {
+        vscode.window.showInformationMessage('指定した Seed の入力ファイルはすべて存在します');
+        return;
+      }
+      vscode.window.showInformationMessage(
+        `${generatedSeeds.length} Seeds（${SeedList.format(generatedSeeds)}）の入力を生成しました`,
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `入力ファイルの生成に失敗しました: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  };
+}
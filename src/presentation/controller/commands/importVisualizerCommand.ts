@@ -0,0 +1,72 @@
+import * as vscode from 'vscode';
+import type { IVisualizerAdapter } from '../../../domain/interfaces/IVisualizerAdapter';
+import type { VisualizerViewController } from '../visualizerViewController';
+
+type SourceItem = vscode.QuickPickItem & { options: vscode.OpenDialogOptions };
+
+/**
+ * ビジュアライザ取り込みコマンドハンドラ
+ *
+ * ローカルの HTML ファイル・フォルダ・ZIP ファイルから `.pahcer-ui/visualizer` にビジュアライザを取り込み、使用するビジュアライザにする。
+ * オフラインの環境やチームで作った独自のビジュアライザを使う場合に利用する。
+ */
+export function importVisualizerCommand(
+  visualizerAdapter: IVisualizerAdapter,
+  visualizerViewController: VisualizerViewController,
+): () => Promise<void> {
+  return async () => {
+    // Windows と Linux ではファイルとフォルダを同時に選択できないため、先に種類を選ばせる
+    const items: SourceItem[] = [
+      {
+        label: 'HTML ファイル',
+        description: '同じフォルダにある JS・CSS・WASM も取り込みます',
+        options: { canSelectFiles: true, filters: { HTML: ['html'] } },
+      },
+      {
+        label: 'フォルダ',
+        description: 'フォルダ内の HTML ファイル（index.html を優先）を取り込みます',
+        options: { canSelectFolders: true, canSelectFiles: false },
+      },
+      {
+        label: 'ZIP ファイル',
+        description: '展開して HTML ファイルを取り込みます',
+        options: { canSelectFiles: true, filters: { ZIP: ['zip'] } },
+      },
+    ];
+    const source = await vscode.window.showQuickPick(items, {
+      placeHolder: 'ビジュアライザの取り込み元を選択してください',
+    });
+    if (!source) {
+      return;
+    }
+
+    const uris = await vscode.window.showOpenDialog({
+      ...source.options,
+      canSelectMany: false,
+      openLabel: 'このビジュアライザを取り込む',
+    });
+    if (!uris || uris.length === 0) {
+      return;
+    }
+
+    try {
+      const visualizer = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: 'ビジュアライザを取り込み中...',
+          cancellable: false,
+        },
+        () => visualizerAdapter.importFromLocal(uris[0].fsPath),
+      );
+
+      // 取り込んだビジュアライザを使用する（開いているパネルは閉じる）
+      await visualizerViewController.activateVisualizer(visualizer.id);
+
+      vscode.window.showInformationMessage(`ビジュアライザを取り込みました: ${visualizer.id}`);
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `ビジュアライザの取り込みに失敗しました: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  };
+}
@@ -0,0 +1,17 @@
+import * as vscode from 'vscode';
+import type { VSCodeUIContext } from '../../vscodeUIContext';
+
+/**
+ * pahcer 設定（pahcer_config.toml）編集コマンドハンドラ
+ */
+export function openPahcerSettingsCommand(vscodeUIContext: VSCodeUIContext): () => Promise<void> {
+  return async () => {
+    try {
+      await vscodeUIContext.setShowRunOptions(false);
+      await vscodeUIContext.setShowPahcerSettings(true);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      vscode.window.showErrorMessage(`pahcer 設定画面の表示に失敗しました: ${errorMessage}`);
+    }
+  };
+}
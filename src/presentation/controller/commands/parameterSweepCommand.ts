@@ -0,0 +1,131 @@
+import * as vscode from 'vscode';
+import type { RunParameterSweepUseCase } from '../../../application/runParameterSweepUseCase';
+import { ParameterSweep } from '../../../domain/services/parameterSweep';
+import type { PahcerTreeViewController } from '../pahcerTreeViewController';
+import type { RunProgressController } from '../runProgressController';
+import { confirmGitIntegration } from './runCommand';
+
+/**
+ * パラメータスイープ実行コマンドハンドラ
+ *
+ * パラメータのグリッド・ランダムサーチを定義し、組み合わせごとに pahcer run を実行する。
+ * パラメータの値は環境変数として解答プログラムに渡され、各実行結果に記録される。
+ */
+export function runParameterSweepCommand(
+  runParameterSweepUseCase: RunParameterSweepUseCase,
+  treeViewController: PahcerTreeViewController,
+  runProgressController: RunProgressController,
+): () => Promise<void> {
+  return async () => {
+    const spec = await promptSpec();
+    if (!spec) {
+      return;
+    }
+
+    const combinations = ParameterSweep.combinations(spec);
+    const answer = await vscode.window.showInformationMessage(
+      `${combinations.length} 回 pahcer run を実行します。よろしいですか？`,
+      {
+        modal: true,
+        detail: combinations
+          .slice(0, 10)
+          .map((params) => ParameterSweep.format(params))
+          .concat(combinations.length > 10 ? [`...（他 ${combinations.length - 10} 件）`] : [])
+          .join('\n'),
+      },
+      '実行',
+    );
+    if (answer !== '実行') {
+      return;
+    }
+
+    try {
+      const { runs, stopped } = await runParameterSweepUseCase
+        .handle({
+          combinations,
+          options: {},
+          confirmGitIntegration,
+          onRunStart: () => treeViewController.refresh(),
+          onProgress: (progress) => runProgressController.update(progress),
+        })
+        .finally(() => runProgressController.finish());
+      treeViewController.refresh();
+
+      const succeeded = runs.filter(({ result }) => result.status === 'succeeded').length;
+      const summary = `パラメータスイープ: ${runs.length}/${combinations.length} 回実行しました（正常終了 ${succeeded} 回）`;
+      if (stopped || succeeded < runs.length) {
+        const last = runs[runs.length - 1];
+        vscode.window.showWarningMessage([summary, ...(last?.result.messages ?? [])].join('\n'));
+      } else {
+        vscode.window.showInformationMessage(summary);
+      }
+    } catch (error) {
+      console.error(error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      vscode.window.showErrorMessage(`パラメータスイープに失敗しました: ${errorMessage}`);
+    }
+  };
+}
+
+/**
+ * スイープの方法とパラメータを入力させる
+ */
+async function promptSpec(): Promise<ParameterSweep.Spec | undefined> {
+  // パラメータは環境変数として渡すため、既存の環境変数を上書きしないようにする
+  const envNames = Object.keys(process.env);
+  const mode = await vscode.window.showQuickPick(
+    [
+      {
+        label: 'グリッドサーチ',
+        description: '例: T0=100,200,500 T1=1,10',
+        value: 'grid' as const,
+      },
+      {
+        label: 'ランダムサーチ',
+        description: '例: T0=100..1000 T1=0.1..10',
+        value: 'random' as const,
+      },
+    ],
+    { placeHolder: 'パラメータスイープの方法を選択してください' },
+  );
+  if (!mode) {
+    return undefined;
+  }
+
+  if (mode.value === 'grid') {
+    const input = await vscode.window.showInputBox({
+      prompt: 'パラメータと値の候補を入力してください（すべての組み合わせを実行します）',
+      placeHolder: 'T0=100,200,500 T1=1,10',
+      validateInput: (value) => ParameterSweep.parseGrid(value, envNames).error,
+    });
+    if (input === undefined) {
+      return undefined;
+    }
+    return { mode: 'grid', parameters: ParameterSweep.parseGrid(input, envNames).parameters };
+  }
+
+  const input = await vscode.window.showInputBox({
+    prompt: 'パラメータと範囲を入力してください（両端が整数の場合は整数から選びます）',
+    placeHolder: 'T0=100..1000 T1=0.1..10',
+    validateInput: (value) => ParameterSweep.parseRandom(value, envNames).error,
+  });
+  if (input === undefined) {
+    return undefined;
+  }
+  const count = await vscode.window.showInputBox({
+    prompt: '実行回数を入力してください',
+    value: '10',
+    validateInput: (value) =>
+      /^\d+$/.test(value.trim()) && Number(value) > 0
+        ? undefined
+        : '1 以上の整数を入力してください',
+  });
+  if (count === undefined) {
+    return undefined;
+  }
+  return {
+    mode: 'random',
+    parameters: ParameterSweep.parseRandom(input, envNames).parameters,
+    count: Number(count),
+  };
+}
@@ -0,0 +1,105 @@
+import * as vscode from 'vscode';
+import type { AnalyzeExecutionsUseCase } from '../../../application/analyzeExecutionsUseCase';
+import type { IExecutionRepository } from '../../../domain/interfaces/IExecutionRepository';
+import type { ComparisonViewController } from '../comparisonViewController';
+import type { PahcerTreeItem, PahcerTreeViewController } from '../pahcerTreeViewController';
+
+/**
+ * 実行結果再解析コマンドハンドラ
+ *
+ * アーカイブ済みの stderr と入力ファイルから、テストケースのメタデータ（入力の1行目・stderr の変数）を作り直す。
+ * 右クリックメニューからは選択中の実行ノード（複数可）、コマンドパレットからはチェック済みの実行またはすべての実行が対象。
+ */
+export function reanalyzeExecutionsCommand(
+  executionRepository: IExecutionRepository,
+  analyzeExecutionsUseCase: AnalyzeExecutionsUseCase,
+  treeViewController: PahcerTreeViewController,
+  comparisonViewController: ComparisonViewController,
+): (item?: PahcerTreeItem, selectedItems?: PahcerTreeItem[]) => Promise<void> {
+  return async (item?: PahcerTreeItem, selectedItems?: PahcerTreeItem[]) => {
+    try {
+      const executionIds = item
+        ? [
+            ...new Set(
+              (selectedItems && selectedItems.length > 0 ? selectedItems : [item])
+                .map((target) => target.executionId)
+                .filter((id): id is string => id !== undefined),
+            ),
+          ]
+        : await pickTargetExecutions(executionRepository, treeViewController);
+      if (!executionIds) {
+        return;
+      }
+      if (executionIds.length === 0) {
+        vscode.window.showWarningMessage('再解析する実行結果がありません');
+        return;
+      }
+
+      const result = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: '実行結果を再解析中',
+          cancellable: true,
+        },
+        (progress, token) =>
+          analyzeExecutionsUseCase.handle(executionIds, {
+            onProgress: (analyzedCount, total) => {
+              progress.report({
+                message: `${analyzedCount}/${total}`,
+                increment: 100 / total,
+              });
+            },
+            isCancelled: () => token.isCancellationRequested,
+          }),
+      );
+
+      treeViewController.refresh();
+      const checkedResults = treeViewController.getCheckedResults();
+      if (checkedResults.some((executionId) => result.analyzedExecutionIds.includes(executionId))) {
+        await comparisonViewController.showComparison(checkedResults);
+      }
+
+      const summary = `${result.analyzedExecutionIds.length} 件の実行結果（${result.testCaseCount} ケース）を再解析しました`;
+      vscode.window.showInformationMessage(
+        result.cancelled
+          ? `再解析を中断しました。${summary}（残り ${executionIds.length - result.analyzedExecutionIds.length} 件）`
+          : summary,
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `実行結果の再解析に失敗しました: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  };
+}
+
+/**
+ * チェック済みの実行とすべての実行のどちらを再解析するか選択させる
+ * @returns 再解析する実行の ID（キャンセルされた場合は undefined）
+ */
+async function pickTargetExecutions(
+  executionRepository: IExecutionRepository,
+  treeViewController: PahcerTreeViewController,
+): Promise<string[] | undefined> {
+  const checkedResults = treeViewController.getCheckedResults();
+  const executions = await executionRepository.findAll();
+
+  const items: (vscode.QuickPickItem & { executionIds: string[] })[] = [];
+  if (checkedResults.length > 0) {
+    items.push({
+      label: 'チェックした実行結果',
+      description: `${checkedResults.length} 件`,
+      executionIds: checkedResults,
+    });
+  }
+  items.push({
+    label: 'すべての実行結果',
+    description: `${executions.length} 件`,
+    executionIds: executions.map((execution) => execution.id),
+  });
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: '再解析する実行結果を選択してください',
+  });
+  return selected?.executionIds;
+}
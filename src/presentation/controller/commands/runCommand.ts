@@ -1,11 +1,13 @@
 import * as vscode from 'vscode';
 import type { RunPahcerUseCase } from '../../../application/runPahcerUseCase';
+import type { PahcerRunOptions } from '../../../domain/models/pahcerStatus';
 import type { PahcerTreeViewController } from '../pahcerTreeViewController';
+import type { RunProgressController } from '../runProgressController';
 
 /**
  * Git統合を有効にするか確認するダイアログを表示
  */
-async function confirmGitIntegration(): Promise<boolean> {
+export async function confirmGitIntegration(): Promise<boolean> {
   const result = await vscode.window.showWarningMessage(
     'Pahcer UIでGit統合を有効にしますか？',
     {
@@ -28,23 +30,53 @@ async function confirmGitIntegration(): Promise<boolean> {
 export function runCommand(
   runPahcerUseCase: RunPahcerUseCase,
   treeViewController: PahcerTreeViewController,
+  runProgressController: RunProgressController,
 ): () => Promise<void> {
   return async () => {
-    try {
-      const result = await runPahcerUseCase.handle({
-        options: {},
+    await runPahcer(runPahcerUseCase, treeViewController, runProgressController, {});
+  };
+}
+
+/**
+ * 進捗表示・結果メッセージ・回帰レポートを含めて pahcer run を実行する
+ * Seed 一覧を指定して実行するコマンドからも使用する
+ */
+export async function runPahcer(
+  runPahcerUseCase: RunPahcerUseCase,
+  treeViewController: PahcerTreeViewController,
+  runProgressController: RunProgressController,
+  options: PahcerRunOptions,
+): Promise<void> {
+  try {
+    const result = await runPahcerUseCase
+      .handle({
+        options,
         confirmGitIntegration,
-      });
-      treeViewController.refresh();
+        onProgress: (progress) => runProgressController.update(progress),
+      })
+      .finally(() => runProgressController.finish());
+    treeViewController.refresh();
 
-      // ユースケースからのメッセージを表示
-      for (const message of result.messages) {
+    // ユースケースからのメッセージを表示（中断・異常終了時は警告として表示）
+    for (const message of result.messages) {
+      if (result.status === 'succeeded') {
         vscode.window.showInformationMessage(message);
+      } else {
+        vscode.window.showWarningMessage(message);
       }
-    } catch (error) {
-      console.error(error);
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      vscode.window.showErrorMessage(`実行に失敗しました: ${errorMessage}`);
     }
-  };
+
+    // 正常終了した場合のみ回帰レポートを表示（設定で無効化されている場合は何もしない）
+    if (result.status === 'succeeded' && result.executionId) {
+      await vscode.commands.executeCommand(
+        'pahcer-ui.showRegressionReport',
+        result.executionId,
+        true,
+      );
+    }
+  } catch (error) {
+    console.error(error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`実行に失敗しました: ${errorMessage}`);
+  }
 }
@@ -0,0 +1,288 @@
+import * as vscode from 'vscode';
+import type { RunPahcerUseCase } from '../../../application/runPahcerUseCase';
+import type { IRunProfileRepository } from '../../../domain/interfaces/IRunProfileRepository';
+import type { ISeedSetRepository } from '../../../domain/interfaces/ISeedSetRepository';
+import { RunProfile } from '../../../domain/models/runProfile';
+import type { PahcerTreeViewController } from '../pahcerTreeViewController';
+import type { RunProgressController } from '../runProgressController';
+import { runPahcer } from './runCommand';
+
+/**
+ * 実行プロファイル実行コマンドハンドラ
+ *
+ * プロファイル名を引数に指定した場合（キーバインドの args など）は選択せずに実行する。
+ */
+export function runProfileCommand(
+  runProfileRepository: IRunProfileRepository,
+  seedSetRepository: ISeedSetRepository,
+  runPahcerUseCase: RunPahcerUseCase,
+  treeViewController: PahcerTreeViewController,
+  runProgressController: RunProgressController,
+): (name?: string) => Promise<void> {
+  return async (name?: string) => {
+    let profile: RunProfile | undefined;
+    let seeds: number[] | undefined;
+    try {
+      profile =
+        typeof name === 'string'
+          ? await runProfileRepository.findByName(name)
+          : await pickRunProfile(runProfileRepository, '実行するプロファイルを選択してください');
+      if (!profile) {
+        if (typeof name === 'string') {
+          vscode.window.showErrorMessage(`実行プロファイル「${name}」が見つかりません`);
+        }
+        return;
+      }
+
+      // Seed セットは実行時点の内容で実行する
+      if (profile.seedSetName !== undefined) {
+        const seedSet = await seedSetRepository.findByName(profile.seedSetName);
+        if (!seedSet) {
+          vscode.window.showErrorMessage(`Seed セット「${profile.seedSetName}」が見つかりません`);
+          return;
+        }
+        seeds = seedSet.seeds;
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`実行プロファイルの読み込みに失敗しました: ${error}`);
+      return;
+    }
+
+    await runPahcer(
+      runPahcerUseCase,
+      treeViewController,
+      runProgressController,
+      profile.toRunOptions(seeds),
+    );
+  };
+}
+
+/**
+ * 実行プロファイル作成コマンドハンドラ
+ *
+ * 名前、Seed 範囲または Seed セット、並列実行数、ベストスコアの固定、環境変数、既定のコメントを順に入力させる。
+ */
+export function createRunProfileCommand(
+  runProfileRepository: IRunProfileRepository,
+  seedSetRepository: ISeedSetRepository,
+): () => Promise<void> {
+  return async () => {
+    try {
+      const name = await vscode.window.showInputBox({
+        prompt: '実行プロファイルの名前を入力してください',
+        placeHolder: 'quick',
+        validateInput: (value) => RunProfile.validateName(value),
+      });
+      if (name === undefined) {
+        return;
+      }
+
+      const seeds = await promptSeeds(seedSetRepository);
+      if (!seeds) {
+        return;
+      }
+
+      const threads = await vscode.window.showInputBox({
+        prompt: '並列実行数を入力してください（空欄の場合は pahcer 設定の threads）',
+        placeHolder: '0 の場合は CPU の論理コア数',
+        validateInput: (value) =>
+          value.trim() === '' || /^\d+$/.test(value.trim())
+            ? undefined
+            : '非負整数を入力してください',
+      });
+      if (threads === undefined) {
+        return;
+      }
+
+      const freeze = await vscode.window.showQuickPick(
+        [
+          { label: 'ベストスコアを更新する', value: false },
+          { label: 'ベストスコアを更新しない (--freeze-best-scores)', value: true },
+        ],
+        { placeHolder: 'ベストスコアの扱いを選択してください' },
+      );
+      if (!freeze) {
+        return;
+      }
+
+      const envText = await vscode.window.showInputBox({
+        prompt: 'pahcer run に渡す環境変数を空白区切りで入力してください（空欄の場合はなし）',
+        placeHolder: 'TIME_LIMIT_MS=10000 DEBUG=1',
+        validateInput: (value) => parseEnv(value).error,
+      });
+      if (envText === undefined) {
+        return;
+      }
+
+      const comment = await vscode.window.showInputBox({
+        prompt: '実行結果に設定するコメントを入力してください（空欄の場合はなし）',
+        value: name,
+      });
+      if (comment === undefined) {
+        return;
+      }
+
+      if (await runProfileRepository.findByName(name)) {
+        const answer = await vscode.window.showWarningMessage(
+          `実行プロファイル「${name}」は既に存在します。上書きしますか？`,
+          { modal: true },
+          '上書き',
+        );
+        if (answer !== '上書き') {
+          return;
+        }
+      }
+
+      const profile = new RunProfile(
+        name,
+        seeds.startSeed,
+        seeds.endSeed,
+        seeds.seedSetName,
+        freeze.value,
+        threads.trim() === '' ? undefined : Number(threads),
+        parseEnv(envText).env,
+        comment.trim(),
+      );
+      await runProfileRepository.upsert(profile);
+      vscode.window.showInformationMessage(
+        `実行プロファイル「${name}」を保存しました（${profile.getSummary()}）`,
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `実行プロファイルの作成に失敗しました: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  };
+}
+
+/**
+ * 実行プロファイル削除コマンドハンドラ
+ */
+export function deleteRunProfileCommand(
+  runProfileRepository: IRunProfileRepository,
+): () => Promise<void> {
+  return async () => {
+    try {
+      const profile = await pickRunProfile(
+        runProfileRepository,
+        '削除するプロファイルを選択してください',
+      );
+      if (!profile) {
+        return;
+      }
+
+      const answer = await vscode.window.showWarningMessage(
+        `実行プロファイル「${profile.name}」を削除しますか？`,
+        { modal: true },
+        '削除',
+      );
+      if (answer !== '削除') {
+        return;
+      }
+
+      await runProfileRepository.delete(profile.name);
+    } catch (error) {
+      vscode.window.showErrorMessage(`実行プロファイルの削除に失敗しました: ${error}`);
+    }
+  };
+}
+
+/**
+ * 実行プロファイルを選択させる
+ */
+async function pickRunProfile(
+  runProfileRepository: IRunProfileRepository,
+  placeHolder: string,
+): Promise<RunProfile | undefined> {
+  const profiles = await runProfileRepository.findAll();
+  if (profiles.length === 0) {
+    vscode.window.showInformationMessage(
+      '実行プロファイルがありません。「実行プロファイルを作成...」から作成してください',
+    );
+    return undefined;
+  }
+
+  const selected = await vscode.window.showQuickPick(
+    profiles.map((profile) => ({
+      label: profile.name,
+      description: profile.comment,
+      detail: profile.getSummary(),
+      profile,
+    })),
+    { placeHolder },
+  );
+  return selected?.profile;
+}
+
+/**
+ * 実行する Seed（pahcer 設定の範囲・範囲指定・Seed セット）を選択させる
+ */
+async function promptSeeds(
+  seedSetRepository: ISeedSetRepository,
+): Promise<{ startSeed?: number; endSeed?: number; seedSetName?: string } | undefined> {
+  const source = await vscode.window.showQuickPick(
+    [
+      { label: 'pahcer 設定の Seed 範囲', value: 'config' as const },
+      { label: 'Seed 範囲を指定', description: '例: 0-49', value: 'range' as const },
+      { label: 'Seed セット', value: 'seedSet' as const },
+    ],
+    { placeHolder: '実行する Seed を選択してください' },
+  );
+  if (!source) {
+    return undefined;
+  }
+
+  switch (source.value) {
+    case 'config':
+      return {};
+    case 'range': {
+      const input = await vscode.window.showInputBox({
+        prompt: 'Seed 範囲を入力してください（両端を含む）',
+        placeHolder: '0-49',
+        validateInput: (value) => {
+          const match = value.trim().match(/^(\d+)-(\d+)$/);
+          return match && Number(match[1]) <= Number(match[2])
+            ? undefined
+            : '開始-終了 の形式で入力してください（例: 0-49）';
+        },
+      });
+      if (input === undefined) {
+        return undefined;
+      }
+      const [start, end] = input.trim().split('-').map(Number);
+      return { startSeed: start, endSeed: end + 1 };
+    }
+    case 'seedSet': {
+      const seedSets = await seedSetRepository.findAll();
+      if (seedSets.length === 0) {
+        vscode.window.showInformationMessage(
+          'Seed セットがありません。「Seed セットを作成...」から作成してください',
+        );
+        return undefined;
+      }
+      const selected = await vscode.window.showQuickPick(
+        seedSets.map((seedSet) => ({
+          label: seedSet.name,
+          description: `${seedSet.seeds.length} Seeds`,
+        })),
+        { placeHolder: 'Seed セットを選択してください' },
+      );
+      return selected ? { seedSetName: selected.label } : undefined;
+    }
+  }
+}
+
+/**
+ * 空白区切りの `KEY=VALUE` を読み取る
+ */
+function parseEnv(text: string): { env: Record<string, string>; error?: string } {
+  const env: Record<string, string> = {};
+  for (const token of text.split(/\s+/).filter((token) => token !== '')) {
+    const match = token.match(/^([A-Za-z_][A-Za-z0-9_]*)=(.*)$/);
+    if (!match) {
+      return { env, error: `KEY=VALUE の形式で入力してください: ${token}` };
+    }
+    env[match[1]] = match[2];
+  }
+  return { env };
+}
@@ -0,0 +1,133 @@
+import * as vscode from 'vscode';
+import type { RunQueueUseCase } from '../../../application/runQueueUseCase';
+import type { PahcerTreeViewController } from '../pahcerTreeViewController';
+import type { RunProgressController } from '../runProgressController';
+import type { RunQueueTreeItem, RunQueueTreeViewController } from '../runQueueTreeViewController';
+import { confirmGitIntegration } from './runCommand';
+
+/**
+ * テスト実行をキューに追加するコマンドハンドラ
+ *
+ * pahcer 設定の Seed 範囲で実行する。オプションを指定する場合は詳細実行オプションから追加する。
+ */
+export function enqueueRunCommand(
+  runQueueTreeViewController: RunQueueTreeViewController,
+): () => Promise<void> {
+  return async () => {
+    runQueueTreeViewController.enqueue({});
+    vscode.window.showInformationMessage(
+      `実行キューに追加しました（実行待ち ${runQueueTreeViewController.queue.length} 件）`,
+    );
+  };
+}
+
+/**
+ * 実行キュー開始コマンドハンドラ
+ *
+ * キューの先頭から 1 つずつ pahcer run を実行する。
+ * 中断した場合・実行結果が作成されないまま異常終了した場合は、残りをキューに残して停止する。
+ */
+export function startRunQueueCommand(
+  runQueueUseCase: RunQueueUseCase,
+  runQueueTreeViewController: RunQueueTreeViewController,
+  treeViewController: PahcerTreeViewController,
+  runProgressController: RunProgressController,
+): () => Promise<void> {
+  return async () => {
+    if (runQueueTreeViewController.queue.length === 0) {
+      vscode.window.showInformationMessage('実行キューに実行待ちがありません');
+      return;
+    }
+
+    try {
+      const { runs, stopped } = await runQueueUseCase.handle({
+        queue: runQueueTreeViewController.queue,
+        confirmGitIntegration,
+        onRunStart: (run) => runQueueTreeViewController.setCurrentRun(run),
+        onRunFinish: (_run, result) => {
+          // キューの実行中は実行ボタンを無効のままにするため、実行中状態は最後に解除する
+          runProgressController.clear();
+          runQueueTreeViewController.setCurrentRun(undefined);
+          treeViewController.refresh();
+
+          // 中断・異常終了時のみユースケースからのメッセージを表示
+          if (result.status !== 'succeeded') {
+            for (const message of result.messages) {
+              vscode.window.showWarningMessage(message);
+            }
+          }
+        },
+        onProgress: (progress) => runProgressController.update(progress),
+      });
+
+      const succeeded = runs.filter(({ result }) => result.status === 'succeeded').length;
+      const summary = `実行キュー: ${runs.length} 件実行しました（正常終了 ${succeeded} 件）`;
+      if (stopped) {
+        vscode.window.showWarningMessage(
+          `${summary}。残り ${runQueueTreeViewController.queue.length} 件はキューに残っています`,
+        );
+      } else {
+        vscode.window.showInformationMessage(summary);
+      }
+    } catch (error) {
+      console.error(error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      vscode.window.showErrorMessage(`実行キューの実行に失敗しました: ${errorMessage}`);
+    } finally {
+      runProgressController.finish();
+      runQueueTreeViewController.setCurrentRun(undefined);
+      treeViewController.refresh();
+    }
+  };
+}
+
+/**
+ * 実行キューから取り除くコマンドハンドラ
+ */
+export function removeFromRunQueueCommand(
+  runQueueTreeViewController: RunQueueTreeViewController,
+): (item?: RunQueueTreeItem, selectedItems?: RunQueueTreeItem[]) => Promise<void> {
+  return async (item?: RunQueueTreeItem, selectedItems?: RunQueueTreeItem[]) => {
+    const targets = selectedItems && selectedItems.length > 0 ? selectedItems : item ? [item] : [];
+    for (const target of targets) {
+      runQueueTreeViewController.remove(target.run);
+    }
+  };
+}
+
+/**
+ * 実行キュー内の順番を変更するコマンドハンドラ
+ * @param offset 移動量（負の値で先頭方向）
+ */
+export function moveRunQueueItemCommand(
+  runQueueTreeViewController: RunQueueTreeViewController,
+  offset: number,
+): (item?: RunQueueTreeItem) => Promise<void> {
+  return async (item?: RunQueueTreeItem) => {
+    if (item) {
+      runQueueTreeViewController.move(item.run, offset);
+    }
+  };
+}
+
+/**
+ * 実行キューを空にするコマンドハンドラ
+ */
+export function clearRunQueueCommand(
+  runQueueTreeViewController: RunQueueTreeViewController,
+): () => Promise<void> {
+  return async () => {
+    if (runQueueTreeViewController.queue.length === 0) {
+      return;
+    }
+
+    const answer = await vscode.window.showWarningMessage(
+      `実行待ちの ${runQueueTreeViewController.queue.length} 件をキューから取り除きますか？`,
+      { modal: true },
+      '取り除く',
+    );
+    if (answer === '取り除く') {
+      runQueueTreeViewController.clear();
+    }
+  };
+}
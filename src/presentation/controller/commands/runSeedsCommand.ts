@@ -0,0 +1,109 @@
+import * as vscode from 'vscode';
+import type { RunPahcerUseCase } from '../../../application/runPahcerUseCase';
+import type { ITestCaseRepository } from '../../../domain/interfaces/ITestCaseRepository';
+import { SeedList } from '../../../domain/services/seedList';
+import type { PahcerTreeItem, PahcerTreeViewController } from '../pahcerTreeViewController';
+import type { RunProgressController } from '../runProgressController';
+import { runPahcer } from './runCommand';
+
+/**
+ * 失敗した Seed の再実行コマンドハンドラ
+ *
+ * 右クリックした実行結果のうち、WA（スコアが 0 以下またはエラーあり）のケースだけを実行する。
+ */
+export function rerunFailedSeedsCommand(
+  testCaseRepository: ITestCaseRepository,
+  runPahcerUseCase: RunPahcerUseCase,
+  treeViewController: PahcerTreeViewController,
+  runProgressController: RunProgressController,
+): (item?: PahcerTreeItem) => Promise<void> {
+  return async (item?: PahcerTreeItem) => {
+    if (!item?.executionId) {
+      vscode.window.showWarningMessage('再実行する実行結果を選択してください');
+      return;
+    }
+
+    const testCases = await testCaseRepository.findByExecutionId(item.executionId);
+    const failedSeeds = testCases
+      .filter((testCase) => testCase.score <= 0 || testCase.errorMessage !== '')
+      .map((testCase) => testCase.id.seed);
+    if (failedSeeds.length === 0) {
+      vscode.window.showInformationMessage('この実行結果に失敗した Seed はありません');
+      return;
+    }
+
+    await runPahcer(runPahcerUseCase, treeViewController, runProgressController, {
+      seeds: failedSeeds,
+    });
+  };
+}
+
+/**
+ * 選択した Seed の実行コマンドハンドラ
+ *
+ * 右クリックメニューから、選択中のケース・Seed ノード（複数可）の Seed を実行する。
+ */
+export function runSelectedSeedsCommand(
+  runPahcerUseCase: RunPahcerUseCase,
+  treeViewController: PahcerTreeViewController,
+  runProgressController: RunProgressController,
+): (item?: PahcerTreeItem, selectedItems?: PahcerTreeItem[]) => Promise<void> {
+  return async (item?: PahcerTreeItem, selectedItems?: PahcerTreeItem[]) => {
+    const targets = selectedItems && selectedItems.length > 0 ? selectedItems : item ? [item] : [];
+    const seeds = targets
+      .map((target) => target.seed)
+      .filter((seed): seed is number => seed !== undefined);
+    if (seeds.length === 0) {
+      vscode.window.showWarningMessage('実行する Seed を選択してください');
+      return;
+    }
+
+    await runPahcer(runPahcerUseCase, treeViewController, runProgressController, {
+      seeds,
+    });
+  };
+}
+
+/**
+ * 保存済み Seed セットの実行コマンドハンドラ
+ *
+ * Seed 一覧を書いたテキストファイル（空白・カンマ・改行区切り、`a-b` 形式の範囲、`#` 以降はコメント）を選択して実行する。
+ */
+export function runSeedsFromFileCommand(
+  runPahcerUseCase: RunPahcerUseCase,
+  treeViewController: PahcerTreeViewController,
+  runProgressController: RunProgressController,
+): () => Promise<void> {
+  return async () => {
+    const uris = await vscode.window.showOpenDialog({
+      canSelectMany: false,
+      openLabel: 'この Seed セットを実行',
+      filters: { 'Seed セット': ['txt', 'csv'], すべてのファイル: ['*'] },
+    });
+    if (!uris || uris.length === 0) {
+      return;
+    }
+
+    let content: string;
+    try {
+      content = new TextDecoder().decode(await vscode.workspace.fs.readFile(uris[0]));
+    } catch (error) {
+      vscode.window.showErrorMessage(`Seed セットの読み込みに失敗しました: ${error}`);
+      return;
+    }
+
+    const { seeds, error } = SeedList.parse(content);
+    if (error !== undefined) {
+      vscode.window.showErrorMessage(`Seed として解釈できない値があります: ${error}`);
+      return;
+    }
+    if (seeds.length === 0) {
+      vscode.window.showWarningMessage('Seed セットに Seed が含まれていません');
+      return;
+    }
+
+    await runPahcer(runPahcerUseCase, treeViewController, runProgressController, {
+      seeds,
+    });
+  };
+}
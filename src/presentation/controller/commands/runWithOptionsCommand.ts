@@ -7,6 +7,7 @@ import type { VSCodeUIContext } from '../../vscodeUIContext';
 export function runWithOptionsCommand(vscodeUIContext: VSCodeUIContext): () => Promise<void> {
   return async () => {
     try {
+      await vscodeUIContext.setShowPahcerSettings(false);
       await vscodeUIContext.setShowRunOptions(true);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
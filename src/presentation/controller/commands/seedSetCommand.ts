@@ -0,0 +1,358 @@
+import * as vscode from 'vscode';
+import type { LoadInputFeaturesUseCase } from '../../../application/loadInputFeaturesUseCase';
+import type { RunPahcerUseCase } from '../../../application/runPahcerUseCase';
+import type { ISeedSetRepository } from '../../../domain/interfaces/ISeedSetRepository';
+import type { IUIConfigRepository } from '../../../domain/interfaces/IUIConfigRepository';
+import { SeedSet } from '../../../domain/models/seedSet';
+import { ChartVariables } from '../../../domain/services/chartVariables';
+import { ExpressionEvaluator } from '../../../domain/services/expressionEvaluator';
+import { SeedList } from '../../../domain/services/seedList';
+import type { PahcerTreeItem, PahcerTreeViewController } from '../pahcerTreeViewController';
+import type { RunProgressController } from '../runProgressController';
+import { runPahcer } from './runCommand';
+
+/**
+ * Seed セット作成コマンドハンドラ
+ *
+ * Seed の範囲・一覧、または入力ファイルの特徴量に対する条件式から Seed セットを作成する。
+ */
+export function createSeedSetCommand(
+  seedSetRepository: ISeedSetRepository,
+  loadInputFeaturesUseCase: LoadInputFeaturesUseCase,
+): () => Promise<void> {
+  return async () => {
+    const source = await vscode.window.showQuickPick(
+      [
+        {
+          label: 'Seed の範囲・一覧から',
+          description: '例: 0-49, 60, 70-79',
+          value: 'range' as const,
+        },
+        {
+          label: '入力の特徴量の条件式から',
+          description: '例: N <= 50',
+          value: 'expression' as const,
+        },
+      ],
+      { placeHolder: 'Seed セットの作成方法を選択してください' },
+    );
+    if (!source) {
+      return;
+    }
+
+    try {
+      const created =
+        source.value === 'range'
+          ? await promptSeedsFromRange()
+          : await promptSeedsFromExpression(loadInputFeaturesUseCase);
+      if (!created) {
+        return;
+      }
+      await saveSeedSet(seedSetRepository, created.seeds, created.description);
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Seed セットの作成に失敗しました: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  };
+}
+
+/**
+ * 選択した Seed から Seed セットを作成するコマンドハンドラ
+ *
+ * 右クリックメニューから、選択中のケース・Seed ノード（複数可）の Seed を Seed セットとして保存する。
+ */
+export function createSeedSetFromSelectionCommand(
+  seedSetRepository: ISeedSetRepository,
+): (item?: PahcerTreeItem, selectedItems?: PahcerTreeItem[]) => Promise<void> {
+  return async (item?: PahcerTreeItem, selectedItems?: PahcerTreeItem[]) => {
+    const targets = selectedItems && selectedItems.length > 0 ? selectedItems : item ? [item] : [];
+    const seeds = targets
+      .map((target) => target.seed)
+      .filter((seed): seed is number => seed !== undefined);
+    if (seeds.length === 0) {
+      vscode.window.showWarningMessage('Seed セットに含める Seed を選択してください');
+      return;
+    }
+
+    try {
+      await saveSeedSet(seedSetRepository, seeds, '');
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Seed セットの作成に失敗しました: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  };
+}
+
+/**
+ * Seed セット削除コマンドハンドラ
+ */
+export function deleteSeedSetCommand(
+  seedSetRepository: ISeedSetRepository,
+  treeViewController: PahcerTreeViewController,
+): () => Promise<void> {
+  return async () => {
+    try {
+      const seedSet = await pickSeedSet(
+        seedSetRepository,
+        '削除する Seed セットを選択してください',
+      );
+      if (!seedSet) {
+        return;
+      }
+
+      const answer = await vscode.window.showWarningMessage(
+        `Seed セット「${seedSet.name}」を削除しますか？`,
+        { modal: true },
+        '削除',
+      );
+      if (answer !== '削除') {
+        return;
+      }
+
+      await seedSetRepository.delete(seedSet.name);
+      // 絞り込み中の Seed セットだった場合に表示を戻す
+      treeViewController.refresh();
+    } catch (error) {
+      vscode.window.showErrorMessage(`Seed セットの削除に失敗しました: ${error}`);
+    }
+  };
+}
+
+/**
+ * Seed セット実行コマンドハンドラ
+ */
+export function runSeedSetCommand(
+  seedSetRepository: ISeedSetRepository,
+  runPahcerUseCase: RunPahcerUseCase,
+  treeViewController: PahcerTreeViewController,
+  runProgressController: RunProgressController,
+): () => Promise<void> {
+  return async () => {
+    let seedSet: SeedSet | undefined;
+    try {
+      seedSet = await pickSeedSet(seedSetRepository, '実行する Seed セットを選択してください');
+    } catch (error) {
+      vscode.window.showErrorMessage(`Seed セットの読み込みに失敗しました: ${error}`);
+      return;
+    }
+    if (!seedSet) {
+      return;
+    }
+    if (seedSet.seeds.length === 0) {
+      vscode.window.showWarningMessage(`Seed セット「${seedSet.name}」に Seed が含まれていません`);
+      return;
+    }
+
+    await runPahcer(runPahcerUseCase, treeViewController, runProgressController, {
+      seeds: seedSet.seeds,
+    });
+  };
+}
+
+/**
+ * Seed セットによる TreeView の絞り込みコマンドハンドラ
+ */
+export function filterBySeedSetCommand(
+  seedSetRepository: ISeedSetRepository,
+  uiConfigRepository: IUIConfigRepository,
+  treeViewController: PahcerTreeViewController,
+): () => Promise<void> {
+  return async () => {
+    try {
+      const seedSets = await seedSetRepository.findAll();
+      if (seedSets.length === 0) {
+        vscode.window.showInformationMessage(
+          'Seed セットがありません。「Seed セットを作成...」から作成してください',
+        );
+        return;
+      }
+
+      const config = await uiConfigRepository.find();
+      const selected = await vscode.window.showQuickPick(
+        [
+          {
+            label: 'すべての Seed',
+            description: config.treeSeedSetFilter === '' ? '（現在）' : '',
+            name: '',
+          },
+          ...seedSets.map((seedSet) => ({
+            ...toQuickPickItem(seedSet),
+            description:
+              config.treeSeedSetFilter === seedSet.name
+                ? `${seedSet.seeds.length} Seeds（現在）`
+                : `${seedSet.seeds.length} Seeds`,
+            name: seedSet.name,
+          })),
+        ],
+        { placeHolder: 'TreeView に表示する Seed セットを選択してください' },
+      );
+      if (!selected) {
+        return;
+      }
+
+      config.treeSeedSetFilter = selected.name;
+      await uiConfigRepository.upsert(config);
+      treeViewController.refresh();
+    } catch (error) {
+      vscode.window.showErrorMessage(`Seed セットによる絞り込みに失敗しました: ${error}`);
+    }
+  };
+}
+
+/**
+ * Seed セットによる TreeView の絞り込み解除コマンドハンドラ
+ */
+export function clearSeedSetFilterCommand(
+  uiConfigRepository: IUIConfigRepository,
+  treeViewController: PahcerTreeViewController,
+): () => Promise<void> {
+  return async () => {
+    try {
+      const config = await uiConfigRepository.find();
+      config.treeSeedSetFilter = '';
+      await uiConfigRepository.upsert(config);
+      treeViewController.refresh();
+    } catch (error) {
+      vscode.window.showErrorMessage(`Seed セットによる絞り込みの解除に失敗しました: ${error}`);
+    }
+  };
+}
+
+/**
+ * Seed の範囲・一覧を入力させる
+ */
+async function promptSeedsFromRange(): Promise<
+  { seeds: number[]; description: string } | undefined
+> {
+  const input = await vscode.window.showInputBox({
+    prompt: 'Seed の範囲・一覧を入力してください（範囲は両端を含む）',
+    placeHolder: '0-49, 60, 70-79',
+    validateInput: (value) => {
+      const { seeds, error } = SeedList.parse(value);
+      if (error !== undefined) {
+        return `Seed として解釈できない値があります: ${error}`;
+      }
+      return seeds.length > 0 ? undefined : 'Seed を 1 つ以上入力してください';
+    },
+  });
+  if (input === undefined) {
+    return undefined;
+  }
+
+  return { seeds: SeedList.parse(input).seeds, description: '' };
+}
+
+/**
+ * 入力ファイルの特徴量に対する条件式を入力させ、条件を満たす Seed を求める
+ * 条件式は比較ビューの Filter と同じ言語で、変数として seed と Features で定義した特徴量、
+ * 抽出ルール・スクリプトで抽出した特徴量を使用できる
+ */
+async function promptSeedsFromExpression(
+  loadInputFeaturesUseCase: LoadInputFeaturesUseCase,
+): Promise<{ seeds: number[]; description: string } | undefined> {
+  const { featureString, inputs } = await loadInputFeaturesUseCase.handle();
+  const features = ChartVariables.parseFeatures(featureString);
+  const extractedFeatures = [
+    ...new Set(inputs.flatMap(({ inputFeatures }) => Object.keys(inputFeatures))),
+  ];
+
+  const expression = await vscode.window.showInputBox({
+    prompt: `入力の特徴量に対する条件式を入力してください（使用できる変数: seed ${[...features, ...extractedFeatures].join(' ')}）`,
+    placeHolder: 'N <= 50',
+    validateInput: (value) =>
+      value.trim() !== '' && ExpressionEvaluator.isValid(value) ? undefined : '式が不正です',
+  });
+  if (expression === undefined) {
+    return undefined;
+  }
+
+  const seeds = inputs
+    .filter(({ seed, firstInputLine, inputFeatures }) => {
+      const variables = ChartVariables.buildInput({
+        seed,
+        features,
+        inputLine: firstInputLine,
+        // 抽出できなかった特徴量は 0 とする
+        inputFeatures: {
+          ...Object.fromEntries(extractedFeatures.map((feature) => [feature, 0])),
+          ...inputFeatures,
+        },
+      });
+      return ExpressionEvaluator.evaluate(expression, variables).every((value) => value !== 0);
+    })
+    .map(({ seed }) => seed);
+
+  if (seeds.length === 0) {
+    vscode.window.showWarningMessage(`条件式「${expression}」を満たす Seed はありませんでした`);
+    return undefined;
+  }
+
+  return { seeds, description: expression };
+}
+
+/**
+ * 名前を入力させて Seed セットを保存する
+ * 同名の Seed セットがある場合は上書きを確認する
+ */
+async function saveSeedSet(
+  seedSetRepository: ISeedSetRepository,
+  seeds: number[],
+  description: string,
+): Promise<void> {
+  const name = await vscode.window.showInputBox({
+    prompt: `Seed セットの名前を入力してください（${seeds.length} Seeds: ${SeedList.format(seeds)}）`,
+    placeHolder: 'hard seeds',
+    validateInput: (value) => SeedSet.validateName(value),
+  });
+  if (name === undefined) {
+    return;
+  }
+
+  if (await seedSetRepository.findByName(name)) {
+    const answer = await vscode.window.showWarningMessage(
+      `Seed セット「${name}」は既に存在します。上書きしますか？`,
+      { modal: true },
+      '上書き',
+    );
+    if (answer !== '上書き') {
+      return;
+    }
+  }
+
+  await seedSetRepository.upsert(new SeedSet(name, seeds, description));
+  vscode.window.showInformationMessage(
+    `Seed セット「${name}」（${seeds.length} Seeds）を保存しました`,
+  );
+}
+
+/**
+ * Seed セットを選択させる
+ */
+async function pickSeedSet(
+  seedSetRepository: ISeedSetRepository,
+  placeHolder: string,
+): Promise<SeedSet | undefined> {
+  const seedSets = await seedSetRepository.findAll();
+  if (seedSets.length === 0) {
+    vscode.window.showInformationMessage(
+      'Seed セットがありません。「Seed セットを作成...」から作成してください',
+    );
+    return undefined;
+  }
+
+  const selected = await vscode.window.showQuickPick(
+    seedSets.map((seedSet) => ({ ...toQuickPickItem(seedSet), seedSet })),
+    { placeHolder },
+  );
+  return selected?.seedSet;
+}
+
+function toQuickPickItem(seedSet: SeedSet): vscode.QuickPickItem {
+  return {
+    label: seedSet.name,
+    description: `${seedSet.seeds.length} Seeds`,
+    detail: seedSet.description || SeedList.format(seedSet.seeds),
+  };
+}
@@ -0,0 +1,61 @@
+import * as vscode from 'vscode';
+import type { IUIConfigRepository } from '../../../domain/interfaces/IUIConfigRepository';
+import type { ComparisonViewController } from '../comparisonViewController';
+import type { PahcerTreeViewController } from '../pahcerTreeViewController';
+
+/**
+ * 実行時間制限設定コマンドハンドラ
+ * 空欄で確定した場合は実行時間制限を解除する
+ */
+export function setTimeLimitCommand(
+  uiConfigRepository: IUIConfigRepository,
+  treeViewController: PahcerTreeViewController,
+  comparisonViewController: ComparisonViewController,
+): () => Promise<void> {
+  return async () => {
+    try {
+      const config = await uiConfigRepository.find();
+
+      const timeLimitInput = await vscode.window.showInputBox({
+        prompt: '実行時間制限（ミリ秒）を入力してください（空欄で解除）',
+        placeHolder: '2000',
+        value: config.timeLimitMs !== undefined ? String(config.timeLimitMs) : '',
+        validateInput: (value) =>
+          value.trim() === '' || Number(value) > 0 ? undefined : '正の数を入力してください',
+      });
+      if (timeLimitInput === undefined) {
+        return;
+      }
+
+      if (timeLimitInput.trim() === '') {
+        config.timeLimitMs = undefined;
+      } else {
+        const warningInput = await vscode.window.showInputBox({
+          prompt: '警告ライン（実行時間制限に対する割合、%）を入力してください',
+          placeHolder: '90',
+          value: String(Math.round(config.timeLimitWarningRatio * 100)),
+          validateInput: (value) => {
+            const percent = Number(value);
+            return percent >= 1 && percent <= 100 ? undefined : '1〜100 の数を入力してください';
+          },
+        });
+        if (warningInput === undefined) {
+          return;
+        }
+
+        config.timeLimitMs = Number(timeLimitInput);
+        config.timeLimitWarningRatio = Number(warningInput) / 100;
+      }
+
+      await uiConfigRepository.upsert(config);
+
+      treeViewController.refresh();
+      const checkedResults = treeViewController.getCheckedResults();
+      if (checkedResults.length > 0) {
+        await comparisonViewController.showComparison(checkedResults);
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`実行時間制限の設定に失敗しました: ${error}`);
+    }
+  };
+}
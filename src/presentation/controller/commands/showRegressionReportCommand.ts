@@ -0,0 +1,50 @@
+import * as vscode from 'vscode';
+import type { CreateRegressionReportUseCase } from '../../../application/createRegressionReportUseCase';
+import type { AppUIConfig } from '../../appUIConfig';
+import type { PahcerTreeItem } from '../pahcerTreeViewController';
+import type { RegressionReportViewController } from '../regressionReportViewController';
+
+/**
+ * 回帰レポート表示コマンドハンドラ
+ *
+ * 実行ノードの右クリックメニューからは PahcerTreeItem、実行完了後の自動表示からは実行 ID を受け取る。
+ * 自動表示（afterRun）の場合は設定で無効化されていれば何もしない。
+ */
+export function showRegressionReportCommand(
+  appConfig: AppUIConfig,
+  createRegressionReportUseCase: CreateRegressionReportUseCase,
+  regressionReportViewController: RegressionReportViewController,
+): (target: PahcerTreeItem | string, afterRun?: boolean) => Promise<void> {
+  return async (target: PahcerTreeItem | string, afterRun = false) => {
+    const executionId = typeof target === 'string' ? target : target.executionId;
+    if (!executionId) {
+      return;
+    }
+
+    if (afterRun && !(await appConfig.regressionReportAutoShow())) {
+      return;
+    }
+
+    try {
+      const referenceMode = await appConfig.regressionReportReferenceMode();
+      const thresholds = await appConfig.regressionReportThresholds();
+      const result = await createRegressionReportUseCase.handle({
+        executionId,
+        referenceMode,
+        thresholds,
+      });
+
+      if (!result) {
+        // 初回実行など比較元がない場合、自動表示では何も表示しない
+        if (!afterRun) {
+          vscode.window.showInformationMessage('比較元となる実行結果が見つかりませんでした');
+        }
+        return;
+      }
+
+      regressionReportViewController.show(result, thresholds);
+    } catch (error) {
+      vscode.window.showErrorMessage(`回帰レポートの作成に失敗しました: ${error}`);
+    }
+  };
+}
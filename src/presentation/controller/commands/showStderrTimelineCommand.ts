@@ -0,0 +1,37 @@
+import * as vscode from 'vscode';
+import type { PahcerTreeItem } from '../pahcerTreeViewController';
+import type { StderrTimelineViewController } from '../stderrTimelineViewController';
+
+/**
+ * stderr の推移表示コマンドハンドラ
+ *
+ * ケース・Seed ノードの右クリックメニューからはその Seed（ケースの場合はその実行を選択した状態）、
+ * コマンドパレットからは入力した Seed の推移を表示する。
+ */
+export function showStderrTimelineCommand(
+  stderrTimelineViewController: StderrTimelineViewController,
+): (item?: PahcerTreeItem) => Promise<void> {
+  return async (item?: PahcerTreeItem) => {
+    let seed = item?.seed;
+    if (seed === undefined) {
+      const input = await vscode.window.showInputBox({
+        prompt: 'stderr の推移を表示する Seed を入力してください',
+        placeHolder: '0',
+        validateInput: (value) =>
+          /^\d+$/.test(value.trim()) ? undefined : 'Seed は非負整数で入力してください',
+      });
+      if (input === undefined) {
+        return;
+      }
+      seed = Number(input.trim());
+    }
+
+    try {
+      await stderrTimelineViewController.show(seed, item?.executionId);
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `stderr の推移の表示に失敗しました: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  };
+}
@@ -0,0 +1,101 @@
+import * as vscode from 'vscode';
+import type { IUIConfigRepository } from '../../../domain/interfaces/IUIConfigRepository';
+import type { StderrPattern } from '../../../domain/models/uiConfig';
+import { StderrParser } from '../../../domain/services/stderrParser';
+
+type PatternItem = vscode.QuickPickItem & { pattern?: StderrPattern };
+
+/**
+ * 標準エラー出力の形式設定コマンドハンドラ
+ *
+ * 有効にする形式を選択させて `.pahcer-ui/config.json` に保存し、既存の実行結果を再解析するか確認する。
+ */
+export function configureStderrPatternsCommand(
+  uiConfigRepository: IUIConfigRepository,
+): () => Promise<void> {
+  return async () => {
+    try {
+      const config = await uiConfigRepository.find();
+      const isActive = (type: StderrPattern['type']) =>
+        config.stderrPatterns.some((pattern) => pattern.type === type);
+
+      const items: PatternItem[] = [
+        {
+          label: '$name = value',
+          description: '例: $score = 1234',
+          picked: isActive('dollar'),
+          pattern: { type: 'dollar' },
+        },
+        {
+          label: 'JSON Lines',
+          description: '例: {"iter": 100, "score": 1234, "mode": "greedy"}',
+          picked: isActive('json'),
+          pattern: { type: 'json' },
+        },
+        {
+          label: 'name: value',
+          description: '例: score: 1234',
+          picked: isActive('keyValue'),
+          pattern: { type: 'keyValue' },
+        },
+        ...config.stderrPatterns
+          .filter((pattern) => pattern.type === 'regex')
+          .map((pattern) => ({
+            label: pattern.pattern,
+            description: '独自の正規表現',
+            picked: true,
+            pattern,
+          })),
+        {
+          label: '独自の正規表現を追加...',
+          description: '名前付きグループの名前を変数名にする',
+        },
+      ];
+
+      const selected = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        placeHolder: '標準エラー出力から値を抽出する形式を選択してください',
+      });
+      if (!selected) {
+        return;
+      }
+
+      const patterns = selected
+        .map((item) => item.pattern)
+        .filter((pattern): pattern is StderrPattern => pattern !== undefined);
+
+      if (selected.some((item) => item.pattern === undefined)) {
+        const regex = await vscode.window.showInputBox({
+          prompt:
+            '名前付きグループを含む正規表現を入力してください（グループ名が変数名になります）',
+          placeHolder: 'turn (?<turn>\\d+) score (?<score>\\d+)',
+          validateInput: (value) => StderrParser.validateRegexPattern(value),
+        });
+        if (regex === undefined) {
+          return;
+        }
+        patterns.push({ type: 'regex', pattern: regex });
+      }
+
+      if (patterns.length === 0) {
+        vscode.window.showWarningMessage('形式を 1 つ以上選択してください');
+        return;
+      }
+
+      config.stderrPatterns = patterns;
+      await uiConfigRepository.upsert(config);
+
+      const answer = await vscode.window.showInformationMessage(
+        '標準エラー出力の形式を保存しました。既存の実行結果を再解析しますか？',
+        '再解析',
+      );
+      if (answer === '再解析') {
+        await vscode.commands.executeCommand('pahcer-ui.reanalyzeExecutions');
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `標準エラー出力の形式の設定に失敗しました: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  };
+}
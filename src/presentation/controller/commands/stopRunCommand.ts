@@ -0,0 +1,14 @@
+import * as vscode from 'vscode';
+import type { IPahcerAdapter } from '../../../domain/interfaces/IPahcerAdapter';
+
+/**
+ * pahcer run 中断コマンドハンドラ
+ * 中断後の後処理（アーカイブ・コミットの省略と通知）は実行コマンド側で行う
+ */
+export function stopRunCommand(pahcerAdapter: IPahcerAdapter): () => void {
+  return () => {
+    if (!pahcerAdapter.stop()) {
+      vscode.window.showInformationMessage('実行中の pahcer run はありません');
+    }
+  };
+}
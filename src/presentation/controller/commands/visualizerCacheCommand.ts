@@ -0,0 +1,280 @@
+import * as vscode from 'vscode';
+import type { IUIConfigRepository } from '../../../domain/interfaces/IUIConfigRepository';
+import type { IVisualizerAdapter } from '../../../domain/interfaces/IVisualizerAdapter';
+import { CachedVisualizer } from '../../../domain/models/cachedVisualizer';
+import type { VisualizerViewController } from '../visualizerViewController';
+
+type VisualizerItem = vscode.QuickPickItem & { visualizer?: CachedVisualizer };
+
+/**
+ * キャッシュしたビジュアライザ一覧コマンドハンドラ
+ *
+ * 選択したビジュアライザの詳細（取得元・取得日時・ファイル一覧）を表示し、使用・再ダウンロード・削除を行う
+ */
+export function listVisualizersCommand(
+  visualizerAdapter: IVisualizerAdapter,
+  uiConfigRepository: IUIConfigRepository,
+  visualizerViewController: VisualizerViewController,
+): () => Promise<void> {
+  return async () => {
+    try {
+      const visualizer = await pickVisualizer(
+        visualizerAdapter,
+        uiConfigRepository,
+        'ビジュアライザを選択すると詳細を表示します',
+      );
+      if (!visualizer) {
+        return;
+      }
+
+      const actions = [
+        '使用する',
+        ...(visualizer.canRedownload() ? ['再ダウンロード'] : []),
+        '削除',
+      ];
+      const answer = await vscode.window.showInformationMessage(
+        visualizer.id,
+        {
+          modal: true,
+          detail: [
+            `取得元: ${visualizer.source || '（取得元不明）'}`,
+            `取得日時: ${visualizer.downloadedAt.format('YYYY/MM/DD HH:mm:ss')}`,
+            `HTML ファイル: ${visualizer.htmlFileName}`,
+            `ファイル（${visualizer.files.length} 件）:`,
+            ...visualizer.files.map((file) => `  ${file}`),
+          ].join('\n'),
+        },
+        ...actions,
+      );
+
+      if (answer === '使用する') {
+        await visualizerViewController.activateVisualizer(visualizer.id);
+        vscode.window.showInformationMessage(`ビジュアライザを切り替えました: ${visualizer.id}`);
+      } else if (answer === '再ダウンロード') {
+        await redownload(visualizerAdapter, visualizerViewController, visualizer);
+      } else if (answer === '削除') {
+        await deleteVisualizers(visualizerAdapter, uiConfigRepository, visualizerViewController, [
+          visualizer,
+        ]);
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `ビジュアライザの操作に失敗しました: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  };
+}
+
+/**
+ * 使用するビジュアライザの切り替えコマンドハンドラ
+ */
+export function selectVisualizerCommand(
+  visualizerAdapter: IVisualizerAdapter,
+  uiConfigRepository: IUIConfigRepository,
+  visualizerViewController: VisualizerViewController,
+): () => Promise<void> {
+  return async () => {
+    try {
+      const visualizers = await visualizerAdapter.list();
+      const config = await uiConfigRepository.find();
+      const active = CachedVisualizer.findActive(visualizers, config.activeVisualizer);
+
+      const downloadItem: VisualizerItem = {
+        label: '$(cloud-download) URL からダウンロード...',
+        alwaysShow: true,
+      };
+      const selected = await vscode.window.showQuickPick<VisualizerItem>(
+        [...visualizers.map((visualizer) => toItem(visualizer, active)), downloadItem],
+        { placeHolder: '使用するビジュアライザを選択してください' },
+      );
+      if (!selected) {
+        return;
+      }
+
+      if (!selected.visualizer) {
+        const downloaded = await visualizerViewController.downloadVisualizer();
+        if (downloaded) {
+          vscode.window.showInformationMessage(
+            `ビジュアライザをダウンロードしました: ${downloaded.id}`,
+          );
+        }
+        return;
+      }
+
+      await visualizerViewController.activateVisualizer(selected.visualizer.id);
+      vscode.window.showInformationMessage(
+        `ビジュアライザを切り替えました: ${selected.visualizer.id}`,
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `ビジュアライザの切り替えに失敗しました: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  };
+}
+
+/**
+ * ビジュアライザ再ダウンロードコマンドハンドラ
+ *
+ * 取得元の URL・ファイルから取得し直す（公式ビジュアライザが更新された場合などに利用する）
+ */
+export function redownloadVisualizerCommand(
+  visualizerAdapter: IVisualizerAdapter,
+  uiConfigRepository: IUIConfigRepository,
+  visualizerViewController: VisualizerViewController,
+): () => Promise<void> {
+  return async () => {
+    try {
+      const visualizer = await pickVisualizer(
+        visualizerAdapter,
+        uiConfigRepository,
+        '再ダウンロードするビジュアライザを選択してください',
+      );
+      if (!visualizer) {
+        return;
+      }
+
+      await redownload(visualizerAdapter, visualizerViewController, visualizer);
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `ビジュアライザの再ダウンロードに失敗しました: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  };
+}
+
+/**
+ * キャッシュしたビジュアライザ削除コマンドハンドラ
+ */
+export function deleteVisualizersCommand(
+  visualizerAdapter: IVisualizerAdapter,
+  uiConfigRepository: IUIConfigRepository,
+  visualizerViewController: VisualizerViewController,
+): () => Promise<void> {
+  return async () => {
+    try {
+      const visualizers = await visualizerAdapter.list();
+      if (visualizers.length === 0) {
+        vscode.window.showWarningMessage('キャッシュしたビジュアライザがありません');
+        return;
+      }
+      const config = await uiConfigRepository.find();
+      const active = CachedVisualizer.findActive(visualizers, config.activeVisualizer);
+
+      const selected = await vscode.window.showQuickPick(
+        visualizers.map((visualizer) => toItem(visualizer, active)),
+        { canPickMany: true, placeHolder: '削除するビジュアライザを選択してください' },
+      );
+      if (!selected || selected.length === 0) {
+        return;
+      }
+
+      await deleteVisualizers(
+        visualizerAdapter,
+        uiConfigRepository,
+        visualizerViewController,
+        selected.flatMap((item) => (item.visualizer ? [item.visualizer] : [])),
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `ビジュアライザの削除に失敗しました: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  };
+}
+
+/**
+ * キャッシュしたビジュアライザを 1 つ選択させる
+ * @returns 選択されたビジュアライザ（キャッシュがない・キャンセルされた場合は undefined）
+ */
+async function pickVisualizer(
+  visualizerAdapter: IVisualizerAdapter,
+  uiConfigRepository: IUIConfigRepository,
+  placeHolder: string,
+): Promise<CachedVisualizer | undefined> {
+  const visualizers = await visualizerAdapter.list();
+  if (visualizers.length === 0) {
+    vscode.window.showWarningMessage('キャッシュしたビジュアライザがありません');
+    return undefined;
+  }
+  const config = await uiConfigRepository.find();
+  const active = CachedVisualizer.findActive(visualizers, config.activeVisualizer);
+
+  const selected = await vscode.window.showQuickPick(
+    visualizers.map((visualizer) => toItem(visualizer, active)),
+    { placeHolder },
+  );
+  return selected?.visualizer;
+}
+
+/**
+ * QuickPick の項目に変換する（使用中のビジュアライザにはチェックを付ける）
+ */
+function toItem(
+  visualizer: CachedVisualizer,
+  active: CachedVisualizer | undefined,
+): VisualizerItem & { visualizer: CachedVisualizer } {
+  return {
+    label: `${visualizer.id === active?.id ? '$(check) ' : ''}${visualizer.id}`,
+    description: visualizer.source || '（取得元不明）',
+    detail: `${visualizer.downloadedAt.format('YYYY/MM/DD HH:mm')} 取得 / ${visualizer.files.length} ファイル / ${visualizer.htmlFileName}`,
+    visualizer,
+  };
+}
+
+async function redownload(
+  visualizerAdapter: IVisualizerAdapter,
+  visualizerViewController: VisualizerViewController,
+  visualizer: CachedVisualizer,
+): Promise<void> {
+  if (!visualizer.canRedownload()) {
+    vscode.window.showWarningMessage(
+      `${visualizer.id} は取得元が不明なため再ダウンロードできません`,
+    );
+    return;
+  }
+
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: 'ビジュアライザを再ダウンロード中...',
+      cancellable: false,
+    },
+    () => visualizerAdapter.redownload(visualizer.id),
+  );
+
+  // 開いているパネルは古いファイルを表示しているため閉じる
+  visualizerViewController.closePanel();
+
+  vscode.window.showInformationMessage(`ビジュアライザを再ダウンロードしました: ${visualizer.id}`);
+}
+
+async function deleteVisualizers(
+  visualizerAdapter: IVisualizerAdapter,
+  uiConfigRepository: IUIConfigRepository,
+  visualizerViewController: VisualizerViewController,
+  visualizers: readonly CachedVisualizer[],
+): Promise<void> {
+  const message =
+    visualizers.length === 1
+      ? `ビジュアライザ ${visualizers[0].id} を削除しますか？`
+      : `${visualizers.length} 件のビジュアライザを削除しますか？`;
+  const answer = await vscode.window.showWarningMessage(message, { modal: true }, '削除');
+  if (answer !== '削除') {
+    return;
+  }
+
+  for (const visualizer of visualizers) {
+    await visualizerAdapter.delete(visualizer.id);
+  }
+
+  // 使用中のビジュアライザを削除した場合は最も新しいものを使用する
+  const config = await uiConfigRepository.find();
+  if (visualizers.some((visualizer) => visualizer.id === config.activeVisualizer)) {
+    await visualizerViewController.activateVisualizer('');
+  } else {
+    visualizerViewController.closePanel();
+  }
+
+  vscode.window.showInformationMessage(`${visualizers.length} 件のビジュアライザを削除しました`);
+}
@@ -1,12 +1,15 @@
 import * as vscode from 'vscode';
+import type { ExtractInputFeaturesUseCase } from '../../application/extractInputFeaturesUseCase';
+import type { IBaselineRepository } from '../../domain/interfaces/IBaselineRepository';
 import type { IExecutionRepository } from '../../domain/interfaces/IExecutionRepository';
 import type { IPahcerConfigRepository } from '../../domain/interfaces/IPahcerConfigRepository';
+import type { ISeedSetRepository } from '../../domain/interfaces/ISeedSetRepository';
 import type { ITestCaseRepository } from '../../domain/interfaces/ITestCaseRepository';
 import type { ITestCaseSummaryQueryService } from '../../domain/interfaces/ITestCaseSummaryQueryService';
 import type { IUIConfigRepository } from '../../domain/interfaces/IUIConfigRepository';
 import type { Execution } from '../../domain/models/execution';
-import { BestScoreCalculator } from '../../domain/services/bestScoreCalculator';
 import { RelativeScoreCalculator } from '../../domain/services/relativeScoreCalculator';
+import type { AppUIConfig } from '../appUIConfig';
 
 function getNonce() {
   let text = '';
@@ -26,11 +29,15 @@ export class ComparisonViewController {
 
   constructor(
     private context: vscode.ExtensionContext,
+    private appConfig: AppUIConfig,
     private executionRepository: IExecutionRepository,
     private testCaseRepository: ITestCaseRepository,
     private testCaseSummaryQueryService: ITestCaseSummaryQueryService,
     private uiConfigRepository: IUIConfigRepository,
     private pahcerConfigRepository: IPahcerConfigRepository,
+    private baselineRepository: IBaselineRepository,
+    private seedSetRepository: ISeedSetRepository,
+    private extractInputFeaturesUseCase: ExtractInputFeaturesUseCase,
   ) {}
 
   /**
@@ -99,7 +106,9 @@ export class ComparisonViewController {
               const { resultId, seed } = message;
               await vscode.commands.executeCommand('pahcer-ui.showVisualizer', seed, resultId);
             } else if (message.command === 'saveComparisonConfig') {
-              await this.uiConfigRepository.upsert(message.config);
+              // 比較ビューが扱わない設定（実行時間制限など）を保持したまま保存する
+              const current = await this.uiConfigRepository.find();
+              await this.uiConfigRepository.upsert(Object.assign(current, message.config));
             }
           },
           undefined,
@@ -125,20 +134,40 @@ export class ComparisonViewController {
       executions.map((exec) => this.testCaseRepository.findByExecutionId(exec.id)),
     );
     const testCases = testCasesArray.flat();
+
+    // Extract input features by the configured rules / script (cached in the test case metadata)
+    const extraction = await this.extractInputFeaturesUseCase.handle(testCases);
+    if (extraction.failedSeeds.length > 0) {
+      vscode.window.showWarningMessage(
+        `${extraction.failedSeeds.length} Seeds の特徴量の抽出に失敗しました: ${extraction.error}`,
+      );
+    }
+    const inputFeatures: Record<number, Record<string, number>> = {};
+    for (const testCase of testCases) {
+      inputFeatures[testCase.id.seed] ??= testCase.inputFeatures ?? {};
+    }
+
     const pahcerConfig = await this.pahcerConfigRepository.findById('normal');
     if (!pahcerConfig) {
       throw new Error('pahcer設定が見つかりません');
     }
 
-    // Calculate best scores across ALL executions (not only selected ones)
+    // Calculate relative score references across ALL executions (not only selected ones)
     // so that relative scores remain comparable regardless of selection.
     const allExecutions = await this.executionRepository.findAll();
     const allSummaryTestCases = await Promise.all(
       allExecutions.map((exec) => this.testCaseSummaryQueryService.findByExecutionId(exec.id)),
     );
-    const bestScores = BestScoreCalculator.calculate(
+    const pinnedExecutionId = await this.baselineRepository.find();
+    const baselineExecutionId = allExecutions.some((e) => e.id === pinnedExecutionId)
+      ? pinnedExecutionId
+      : undefined;
+    const relativeScoreMethod = await this.appConfig.relativeScoreMethod();
+    const relativeScoreContext = RelativeScoreCalculator.createContext(
       allSummaryTestCases.flat(),
       pahcerConfig.objective,
+      relativeScoreMethod,
+      baselineExecutionId,
     );
 
     // Collect all seeds for selected executions
@@ -151,9 +180,11 @@ export class ComparisonViewController {
     // Build inputData and stderrData from TestCase analysis fields
     const inputDataObj: Record<number, string> = {};
     const stderrData: Record<string, Record<number, Record<string, number>>> = {};
+    const stderrTags: Record<string, Record<number, Record<string, string>>> = {};
 
     for (const execution of executions) {
       stderrData[execution.id] = {};
+      stderrTags[execution.id] = {};
 
       // Get test cases for this execution
       const executionTestCases = testCases.filter((tc) => tc.id.executionId === execution.id);
@@ -168,34 +199,40 @@ export class ComparisonViewController {
             inputDataObj[seed] = testCase.firstInputLine || '';
           }
 
-          // Use stderr variables from test case analysis
+          // Use stderr variables and tags from test case analysis
           stderrData[execution.id][seed] = testCase.stderrVars || {};
+          stderrTags[execution.id][seed] = testCase.stderrTags || {};
         } else {
           // Fallback to empty if analysis data not available
           if (!inputDataObj[seed]) {
             inputDataObj[seed] = '';
           }
           stderrData[execution.id][seed] = {};
+          stderrTags[execution.id][seed] = {};
         }
       }
     }
 
     // Load config
     const config = await this.uiConfigRepository.find();
+    const seedSets = (await this.seedSetRepository.findAll()).map((seedSet) => ({
+      name: seedSet.name,
+      seeds: seedSet.seeds,
+    }));
 
     // Prepare data for React
     const results = executions.map((execution) => ({
       id: execution.id,
       time: execution.getLongTitle(),
+      params: execution.params,
       cases: testCases
         .filter((tc) => tc.id.executionId === execution.id)
         .map((tc) => {
           // Calculate relative score using domain service
-          const bestScore = bestScores.get(tc.id.seed);
-          const relativeScore = RelativeScoreCalculator.calculate(
+          const relativeScore = RelativeScoreCalculator.calculateWith(
+            relativeScoreContext,
+            tc.id.seed,
             tc.score,
-            bestScore,
-            pahcerConfig.objective,
           );
 
           return {
@@ -220,9 +257,15 @@ export class ComparisonViewController {
       results,
       seeds,
       inputData: inputDataObj,
+      inputFeatures,
       stderrData,
+      stderrTags,
       rankingPool,
       objective: pahcerConfig.objective,
+      relativeScoreMethod,
+      baselineExecutionId,
+      timeLimitMs: config.timeLimitMs,
+      seedSets,
       config,
     };
   }
@@ -0,0 +1,164 @@
+import * as vscode from 'vscode';
+import type { IPahcerConfigRepository } from '../../domain/interfaces/IPahcerConfigRepository';
+import { PahcerConfig } from '../../domain/models/configFile';
+import type { PahcerSettingsData } from '../view/webview/pahcerSettings/types';
+import type { VSCodeUIContext } from '../vscodeUIContext';
+
+/**
+ * pahcer 設定（pahcer_config.toml）編集ビューのコントローラ
+ *
+ * 責務:
+ * - 現在の設定を WebView に送る
+ * - 入力された設定を検証して保存（コメント・書式はリポジトリが保持する）
+ */
+export class PahcerSettingsWebViewController implements vscode.WebviewViewProvider {
+  constructor(
+    private readonly context: vscode.ExtensionContext,
+    private readonly vscodeUIContext: VSCodeUIContext,
+    private readonly pahcerConfigRepository: IPahcerConfigRepository,
+  ) {}
+
+  resolveWebviewView(
+    webviewView: vscode.WebviewView,
+    _context: vscode.WebviewViewResolveContext,
+    _token: vscode.CancellationToken,
+  ): void {
+    webviewView.webview.options = {
+      enableScripts: true,
+      localResourceRoots: [this.context.extensionUri],
+    };
+
+    webviewView.webview.html = this.getHtmlContent(webviewView.webview);
+
+    webviewView.webview.onDidReceiveMessage(async (message) => {
+      switch (message.command) {
+        case 'ready':
+          await this.postSettings(webviewView.webview);
+          break;
+        case 'savePahcerSettings':
+          await this.save(webviewView.webview, message.settings);
+          break;
+        case 'cancelPahcerSettings':
+          await this.close();
+          break;
+      }
+    });
+  }
+
+  /**
+   * 現在の設定を送る
+   */
+  private async postSettings(webview: vscode.Webview): Promise<void> {
+    try {
+      const config = await this.pahcerConfigRepository.findById('normal');
+      if (!config) {
+        await webview.postMessage({
+          command: 'pahcerSettingsErrors',
+          errors: ['pahcer_config.toml が見つかりません'],
+        });
+        return;
+      }
+
+      const settings: PahcerSettingsData = {
+        path: config.path,
+        version: config.version,
+        problemName: config.problemName,
+        objective: config.objective,
+        scoreRegex: config.scoreRegex,
+        startSeed: config.startSeed,
+        endSeed: config.endSeed,
+        threads: config.threads,
+        outDir: config.outDir,
+        compileSteps: config.compileSteps,
+        testSteps: config.testSteps,
+      };
+      await webview.postMessage({ command: 'pahcerSettings', settings });
+    } catch (error) {
+      console.error(error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      await webview.postMessage({ command: 'pahcerSettingsErrors', errors: [errorMessage] });
+    }
+  }
+
+  /**
+   * 入力された設定を検証して保存する
+   * 問題がある場合は保存せずに WebView に問題点の一覧を送る
+   */
+  private async save(webview: vscode.Webview, settings: PahcerSettingsData): Promise<void> {
+    try {
+      // 保存先のパスと version は WebView から送られた値を使わず、読み込んだ設定ファイルの値を使う
+      const current = await this.pahcerConfigRepository.findById('normal');
+      if (!current) {
+        await webview.postMessage({
+          command: 'pahcerSettingsErrors',
+          errors: ['pahcer_config.toml が見つかりません'],
+        });
+        return;
+      }
+
+      const details = {
+        version: current.version,
+        scoreRegex: settings.scoreRegex,
+        threads: settings.threads,
+        outDir: settings.outDir,
+        compileSteps: settings.compileSteps,
+        testSteps: settings.testSteps,
+      };
+      const errors = PahcerConfig.validate(
+        settings.problemName,
+        settings.startSeed,
+        settings.endSeed,
+        details,
+      );
+      if (errors.length > 0) {
+        await webview.postMessage({ command: 'pahcerSettingsErrors', errors });
+        return;
+      }
+
+      await this.pahcerConfigRepository.upsert(
+        new PahcerConfig(
+          'normal',
+          current.path,
+          settings.problemName,
+          settings.startSeed,
+          settings.endSeed,
+          settings.objective,
+          details,
+        ),
+      );
+      vscode.window.showInformationMessage('pahcer_config.toml を保存しました');
+      await this.close();
+      // Seed 範囲などの変更を TreeView に反映する
+      await vscode.commands.executeCommand('pahcer-ui.refresh');
+    } catch (error) {
+      console.error(error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      await webview.postMessage({ command: 'pahcerSettingsErrors', errors: [errorMessage] });
+    }
+  }
+
+  private async close(): Promise<void> {
+    // Switch back to TreeView
+    await this.vscodeUIContext.setShowPahcerSettings(false);
+  }
+
+  private getHtmlContent(webview: vscode.Webview): string {
+    const scriptUri = webview.asWebviewUri(
+      vscode.Uri.joinPath(this.context.extensionUri, 'dist', 'pahcerSettings.js'),
+    );
+
+    return `<!DOCTYPE html>
+<html lang="ja">
+<head>
+	<meta charset="UTF-8">
+	<meta name="viewport" content="width=device-width, initial-scale=1.0">
+	<meta http-equiv="Content-Security-Policy" content="default-src 'none'; script-src ${webview.cspSource}; style-src ${webview.cspSource} 'unsafe-inline';">
+	<title>Pahcer Settings</title>
+</head>
+<body>
+	<div id="root"></div>
+	<script src="${scriptUri}"></script>
+</body>
+</html>`;
+  }
+}
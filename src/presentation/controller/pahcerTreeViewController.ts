@@ -5,8 +5,11 @@ import { PahcerStatus } from '../../domain/interfaces';
 import type { IExecutionRepository } from '../../domain/interfaces/IExecutionRepository';
 import type { IPahcerAdapter } from '../../domain/interfaces/IPahcerAdapter';
 import type { Execution } from '../../domain/models/execution';
+import type { RunProgress } from '../../domain/models/runProgress';
+import type { SeedSet } from '../../domain/models/seedSet';
 import type { TestCase } from '../../domain/models/testCase';
 import type { TreeData } from '../../domain/models/treeData';
+import { BaselineDeltaCalculator } from '../../domain/services/baselineDeltaCalculator';
 import type { ExecutionStatsCalculator } from '../../domain/services/executionStatsAggregator';
 import { RelativeScoreCalculator } from '../../domain/services/relativeScoreCalculator';
 import { SeedExecutionSorter } from '../../domain/services/seedExecutionSorter';
@@ -24,7 +27,14 @@ export class PahcerTreeItem extends vscode.TreeItem {
   constructor(
     label: string,
     collapsibleState: vscode.TreeItemCollapsibleState,
-    public readonly itemType: 'execution' | 'case' | 'seed' | 'summary' | 'info',
+    public readonly itemType:
+      | 'execution'
+      | 'case'
+      | 'seed'
+      | 'summary'
+      | 'info'
+      | 'running'
+      | 'seedSetFilter',
     description?: string,
   ) {
     super(label, collapsibleState);
@@ -49,6 +59,8 @@ export class PahcerTreeViewController implements vscode.TreeDataProvider<PahcerT
 
   // Cache for reuse across method calls
   private cachedTreeData?: TreeData;
+  private runProgress?: RunProgress;
+  private runningItem?: PahcerTreeItem;
 
   constructor(
     private readonly appConfig: AppUIConfig,
@@ -67,6 +79,25 @@ export class PahcerTreeViewController implements vscode.TreeDataProvider<PahcerT
     this._onDidChangeTreeData.fire(undefined);
   }
 
+  /**
+   * 実行中の pahcer run の進捗を設定
+   * 開始時と終了時（undefined）は全体を、実行中は実行中ノードのみを更新する
+   */
+  setRunProgress(progress: RunProgress | undefined): void {
+    const started = this.runProgress === undefined;
+    this.runProgress = progress;
+
+    if (!progress) {
+      this.runningItem = undefined;
+      this.refresh();
+    } else if (started || !this.runningItem) {
+      this._onDidChangeTreeData.fire(undefined);
+    } else {
+      this.applyRunningItem(this.runningItem, progress);
+      this._onDidChangeTreeData.fire(this.runningItem);
+    }
+  }
+
   /**
    * チェックされた結果を取得
    */
@@ -85,6 +116,15 @@ export class PahcerTreeViewController implements vscode.TreeDataProvider<PahcerT
     }
   }
 
+  /**
+   * 指定した結果のチェックを外す（削除された実行など）
+   */
+  uncheckResults(resultIds: string[]): void {
+    for (const resultId of resultIds) {
+      this.checkedResults.delete(resultId);
+    }
+  }
+
   /**
    * TreeItemを取得
    */
@@ -104,14 +144,101 @@ export class PahcerTreeViewController implements vscode.TreeDataProvider<PahcerT
       return [];
     }
 
+    // 実行中ノードはグルーピングモードに関わらず先頭に表示する
+    if (element?.itemType === 'running') {
+      return this.getRunningCases();
+    }
+
     const groupingMode = await this.appConfig.groupingMode();
 
-    switch (groupingMode) {
-      case 'byExecution':
-        return this.getChildrenByExecution(element);
-      case 'bySeed':
-        return this.getChildrenBySeed(element);
+    const items =
+      groupingMode === 'byExecution'
+        ? await this.getChildrenByExecution(element)
+        : await this.getChildrenBySeed(element);
+
+    if (element) {
+      return items;
+    }
+
+    // Seed セットで絞り込み中であることを先頭に表示する
+    const seedSet = this.cachedTreeData?.seedSet;
+    const filterItems = seedSet ? [this.getSeedSetFilterItem(seedSet)] : [];
+    if (this.runProgress) {
+      return [
+        this.getRunningItem(this.runProgress),
+        ...filterItems,
+        ...items.filter((i) => i.itemType !== 'info'),
+      ];
+    }
+    return [...filterItems, ...items];
+  }
+
+  /**
+   * 絞り込み中の Seed セットを表すノードを取得
+   */
+  private getSeedSetFilterItem(seedSet: SeedSet): PahcerTreeItem {
+    const builtItem = this.treeItemBuilder.buildSeedSetFilterItem(seedSet);
+    const item = new PahcerTreeItem(
+      builtItem.label as string,
+      vscode.TreeItemCollapsibleState.None,
+      'seedSetFilter',
+      builtItem.description as string,
+    );
+    item.iconPath = builtItem.iconPath;
+    item.tooltip = builtItem.tooltip;
+    item.command = builtItem.command;
+    return item;
+  }
+
+  /**
+   * 実行中ノードを取得（ノードを使い回して部分更新できるようにする）
+   */
+  private getRunningItem(progress: RunProgress): PahcerTreeItem {
+    if (!this.runningItem) {
+      this.runningItem = new PahcerTreeItem(
+        '',
+        vscode.TreeItemCollapsibleState.Collapsed,
+        'running',
+      );
+    }
+    this.applyRunningItem(this.runningItem, progress);
+    return this.runningItem;
+  }
+
+  private applyRunningItem(item: PahcerTreeItem, progress: RunProgress): void {
+    const builtItem = this.treeItemBuilder.buildRunningItem(progress);
+    item.label = builtItem.label;
+    item.description = builtItem.description;
+    item.iconPath = builtItem.iconPath;
+    item.tooltip = builtItem.tooltip;
+  }
+
+  /**
+   * 実行中の pahcer run で完了したケース一覧を取得
+   */
+  private getRunningCases(): PahcerTreeItem[] {
+    if (!this.runProgress) {
+      return [];
     }
+
+    const results = [...this.runProgress.results].sort((a, b) => a.seed - b.seed);
+    return results.map((result) => {
+      const builtItem = this.treeItemBuilder.buildRunningSeedItem(
+        result,
+        this.cachedTreeData?.timeLimit,
+      );
+      const item = new PahcerTreeItem(
+        builtItem.label as string,
+        builtItem.collapsibleState ?? vscode.TreeItemCollapsibleState.None,
+        'case',
+        builtItem.description as string,
+      );
+      item.contextValue = builtItem.contextValue;
+      item.seed = result.seed;
+      item.iconPath = builtItem.iconPath;
+      item.tooltip = builtItem.tooltip;
+      return item;
+    });
   }
 
   /**
@@ -149,7 +276,7 @@ export class PahcerTreeViewController implements vscode.TreeDataProvider<PahcerT
    */
   private async getExecutions(): Promise<PahcerTreeItem[]> {
     try {
-      const treeData = await this.loadTreeDataUseCase.load();
+      const treeData = await this.loadTreeData();
       // キャッシュに保存（他のメソッドから再利用）
       this.cachedTreeData = treeData;
 
@@ -165,11 +292,26 @@ export class PahcerTreeViewController implements vscode.TreeDataProvider<PahcerT
       const items: PahcerTreeItem[] = [];
 
       for (const executionStats of treeData.executionStatsList) {
+        const isBaseline = executionStats.execution.id === treeData.baselineExecutionId;
+
+        // Calculate delta against the baseline using domain service
+        const baselineDelta =
+          treeData.baselineExecutionId !== undefined && !isBaseline
+            ? BaselineDeltaCalculator.calculateExecution(
+                executionStats.testCases.map((tc) => ({ seed: tc.id.seed, score: tc.score })),
+                treeData.relativeScoreContext.baselineScores,
+              )
+            : undefined;
+
         // Build tree item
         const builtItem = this.treeItemBuilder.buildExecutionItem(
           executionStats,
           true, // Always show checkbox
           this.checkedResults.has(executionStats.execution.id),
+          treeData.relativeScoreContext.method,
+          isBaseline,
+          baselineDelta,
+          treeData.timeLimit,
         );
 
         const item = new PahcerTreeItem(
@@ -178,10 +320,12 @@ export class PahcerTreeViewController implements vscode.TreeDataProvider<PahcerT
           'execution',
           builtItem.description as string,
         );
+        item.contextValue = builtItem.contextValue;
         item.executionId = executionStats.execution.id;
         item.executionStats = executionStats;
         item.checkboxState = builtItem.checkboxState;
         item.iconPath = builtItem.iconPath;
+        item.tooltip = builtItem.tooltip;
 
         items.push(item);
       }
@@ -211,7 +355,7 @@ export class PahcerTreeViewController implements vscode.TreeDataProvider<PahcerT
     let treeData = this.cachedTreeData;
     if (!treeData) {
       try {
-        treeData = await this.loadTreeDataUseCase.load();
+        treeData = await this.loadTreeData();
         this.cachedTreeData = treeData;
       } catch (error) {
         const message =
@@ -223,8 +367,12 @@ export class PahcerTreeViewController implements vscode.TreeDataProvider<PahcerT
       }
     }
 
+    const seedSet = treeData.seedSet;
     const detailedCases = await this.loadTreeDataUseCase
       .loadExecutionTestCasesForTree(executionStats.execution.id)
+      .then((testCases) =>
+        seedSet ? testCases.filter((testCase) => seedSet.has(testCase.id.seed)) : testCases,
+      )
       .catch(() => undefined);
     if (!detailedCases) {
       const item = new PahcerTreeItem(
@@ -236,25 +384,27 @@ export class PahcerTreeViewController implements vscode.TreeDataProvider<PahcerT
     }
 
     // Summary
-    const summaryBuilt = this.treeItemBuilder.buildSummaryItem(executionStats);
+    const summaryBuilt = this.treeItemBuilder.buildSummaryItem(executionStats, treeData.timeLimit);
     const summaryItem = new PahcerTreeItem(
       summaryBuilt.label as string,
       summaryBuilt.collapsibleState ?? vscode.TreeItemCollapsibleState.None,
       'summary',
     );
     summaryItem.iconPath = summaryBuilt.iconPath;
+    summaryItem.tooltip = summaryBuilt.tooltip;
     items.push(summaryItem);
 
     // Calculate relative scores for each test case using domain service
     const relativeScores = new Map<number, number>();
     for (const testCase of detailedCases) {
-      const bestScore = treeData.bestScores.get(testCase.id.seed);
-      const relativeScore = RelativeScoreCalculator.calculate(
+      const relativeScore = RelativeScoreCalculator.calculateWith(
+        treeData.relativeScoreContext,
+        testCase.id.seed,
         testCase.score,
-        bestScore,
-        treeData.config.objective,
       );
-      relativeScores.set(testCase.id.seed, relativeScore);
+      if (relativeScore !== undefined) {
+        relativeScores.set(testCase.id.seed, relativeScore);
+      }
     }
 
     // Sort cases
@@ -262,12 +412,21 @@ export class PahcerTreeViewController implements vscode.TreeDataProvider<PahcerT
     const sortedCases = TestCaseSorter.byOrder(detailedCases, sortOrder, relativeScores);
 
     // Cases
+    const isBaseline = executionStats.execution.id === treeData.baselineExecutionId;
     for (const testCase of sortedCases) {
-      const relativeScore = relativeScores.get(testCase.id.seed) ?? 100;
+      const relativeScore = relativeScores.get(testCase.id.seed);
+      const baselineDelta = isBaseline
+        ? undefined
+        : BaselineDeltaCalculator.calculateCase(
+            testCase.score,
+            treeData.relativeScoreContext.baselineScores.get(testCase.id.seed),
+          );
       const builtItem = this.treeItemBuilder.buildTestCaseItem(
         testCase,
         relativeScore,
         executionStats.execution.id,
+        baselineDelta,
+        treeData.timeLimit,
       );
       const item = new PahcerTreeItem(
         builtItem.label as string,
@@ -295,7 +454,7 @@ export class PahcerTreeViewController implements vscode.TreeDataProvider<PahcerT
       // TreeData をユースケースから取得（キャッシュ）
       let treeData = this.cachedTreeData;
       if (!treeData) {
-        treeData = await this.loadTreeDataUseCase.load();
+        treeData = await this.loadTreeData();
         this.cachedTreeData = treeData;
       }
 
@@ -347,7 +506,7 @@ export class PahcerTreeViewController implements vscode.TreeDataProvider<PahcerT
       // TreeData をユースケースから取得（キャッシュ）
       let treeData = this.cachedTreeData;
       if (!treeData) {
-        treeData = await this.loadTreeDataUseCase.load();
+        treeData = await this.loadTreeData();
         this.cachedTreeData = treeData;
       }
 
@@ -397,13 +556,21 @@ export class PahcerTreeViewController implements vscode.TreeDataProvider<PahcerT
           (sortOrder === 'absoluteScoreAsc' || sortOrder === 'absoluteScoreDesc');
 
         // Calculate relative score using domain service
-        const bestScore = treeData.bestScores.get(seed);
-        const relativeScore = RelativeScoreCalculator.calculate(
+        const relativeScore = RelativeScoreCalculator.calculateWith(
+          treeData.relativeScoreContext,
+          seed,
           executionData.testCase.score,
-          bestScore,
-          treeData.config.objective,
         );
 
+        // Calculate delta against the baseline using domain service
+        const isBaseline = executionData.execution.id === treeData.baselineExecutionId;
+        const baselineDelta = isBaseline
+          ? undefined
+          : BaselineDeltaCalculator.calculateCase(
+              executionData.testCase.score,
+              treeData.relativeScoreContext.baselineScores.get(seed),
+            );
+
         const builtItem = this.treeItemBuilder.buildSeedExecutionItem(
           time,
           executionData.testCase,
@@ -413,6 +580,9 @@ export class PahcerTreeViewController implements vscode.TreeDataProvider<PahcerT
           isLatest,
           true, // Show checkbox
           this.checkedResults.has(executionData.execution.id),
+          isBaseline,
+          baselineDelta,
+          treeData.timeLimit,
         );
 
         const item = new PahcerTreeItem(
@@ -421,6 +591,7 @@ export class PahcerTreeViewController implements vscode.TreeDataProvider<PahcerT
           'execution',
           builtItem.description as string,
         );
+        item.contextValue = builtItem.contextValue;
         item.seed = seed;
         item.executionId = executionData.execution.id;
         item.command = builtItem.command;
@@ -442,6 +613,14 @@ export class PahcerTreeViewController implements vscode.TreeDataProvider<PahcerT
     }
   }
 
+  /**
+   * 設定された相対スコアの計算方式で TreeData を読み込む
+   */
+  private async loadTreeData(): Promise<TreeData> {
+    const method = await this.appConfig.relativeScoreMethod();
+    return this.loadTreeDataUseCase.load(method);
+  }
+
   /**
    * コミットハッシュを持つチェック済み結果を取得
    */
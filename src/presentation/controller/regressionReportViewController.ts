@@ -0,0 +1,119 @@
+import * as vscode from 'vscode';
+import type { RegressionReportResult } from '../../application/createRegressionReportUseCase';
+import type { RegressionAnalyzer } from '../../domain/services/regressionAnalyzer';
+import type { RegressionReportData } from '../view/webview/regressionReport/types';
+
+function getNonce() {
+  let text = '';
+  const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  for (let i = 0; i < 32; i++) {
+    text += possible.charAt(Math.floor(Math.random() * possible.length));
+  }
+  return text;
+}
+
+/**
+ * 回帰レポートビューのコントローラ
+ */
+export class RegressionReportViewController {
+  private panel: vscode.WebviewPanel | undefined;
+  private messageDisposable: vscode.Disposable | undefined;
+
+  constructor(private context: vscode.ExtensionContext) {}
+
+  /**
+   * 回帰レポートを表示
+   *
+   * @param result 回帰レポートユースケースの結果
+   * @param thresholds レポート作成に使用した閾値
+   */
+  show(result: RegressionReportResult, thresholds: RegressionAnalyzer.Thresholds): void {
+    const data: RegressionReportData = {
+      targetId: result.target.id,
+      targetTitle: result.target.getLongTitle(),
+      referenceId: result.reference.id,
+      referenceTitle: result.reference.getLongTitle(),
+      referenceIsBaseline: result.isBaselineReference,
+      thresholds,
+      report: result.report,
+    };
+
+    if (this.panel) {
+      // Panel already exists - just update data without reloading
+      this.panel.reveal(vscode.ViewColumn.One, true);
+      this.panel.webview.postMessage({ command: 'updateData', data });
+      return;
+    }
+
+    const extensionUri = this.context.extensionUri;
+    this.panel = vscode.window.createWebviewPanel(
+      'pahcerRegressionReport',
+      '回帰レポート',
+      { viewColumn: vscode.ViewColumn.One, preserveFocus: true },
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true,
+        localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'dist')],
+      },
+    );
+
+    this.panel.onDidDispose(() => {
+      this.panel = undefined;
+      if (this.messageDisposable) {
+        this.messageDisposable.dispose();
+        this.messageDisposable = undefined;
+      }
+    });
+
+    // Handle messages from webview
+    this.messageDisposable = this.panel.webview.onDidReceiveMessage(
+      async (message) => {
+        if (message.command === 'showVisualizer') {
+          const { resultId, seed } = message;
+          await vscode.commands.executeCommand('pahcer-ui.showVisualizer', seed, resultId);
+        }
+      },
+      undefined,
+      this.context.subscriptions,
+    );
+
+    this.panel.webview.html = this.getWebviewContent(data, this.panel.webview);
+  }
+
+  /**
+   * WebViewのHTMLを生成
+   */
+  private getWebviewContent(data: RegressionReportData, webview: vscode.Webview): string {
+    const scriptUri = webview.asWebviewUri(
+      vscode.Uri.joinPath(this.context.extensionUri, 'dist', 'regressionReport.js'),
+    );
+
+    const nonce = getNonce();
+
+    return `<!DOCTYPE html>
+<html lang="ja">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+    <title>回帰レポート</title>
+    <style nonce="${nonce}">
+        body {
+            font-family: var(--vscode-font-family);
+            padding: 20px;
+            margin: 0;
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+        }
+    </style>
+</head>
+<body>
+    <div id="root"></div>
+    <script nonce="${nonce}">
+        window.regressionReportData = ${JSON.stringify(data)};
+    </script>
+    <script nonce="${nonce}" src="${scriptUri}"></script>
+</body>
+</html>`;
+  }
+}
@@ -1,12 +1,18 @@
 import * as vscode from 'vscode';
 import type { RunPahcerUseCase } from '../../application/runPahcerUseCase';
+import type { IPahcerConfigRepository } from '../../domain/interfaces/IPahcerConfigRepository';
+import type { ISeedSetRepository } from '../../domain/interfaces/ISeedSetRepository';
+import type { IUIConfigRepository } from '../../domain/interfaces/IUIConfigRepository';
+import type { PahcerRunOptions } from '../../domain/models/pahcerStatus';
+import type { LastRunOptions } from '../../domain/models/uiConfig';
 import type { VSCodeUIContext } from '../vscodeUIContext';
+import type { RunProgressController } from './runProgressController';
+import type { RunQueueTreeViewController } from './runQueueTreeViewController';
 
-interface RunOptions {
-  startSeed: number;
-  endSeed: number;
-  freezeBestScores: boolean;
-}
+/**
+ * WebView で入力された実行オプション（最後に使用した値としてそのまま保存する）
+ */
+type RunOptions = LastRunOptions;
 
 /**
  * Git統合を有効にするか確認するダイアログを表示
@@ -33,6 +39,11 @@ export class RunOptionsWebViewController implements vscode.WebviewViewProvider {
     private readonly context: vscode.ExtensionContext,
     private readonly vscodeUIContext: VSCodeUIContext,
     private readonly runPahcerUseCase: RunPahcerUseCase,
+    private readonly runProgressController: RunProgressController,
+    private readonly seedSetRepository: ISeedSetRepository,
+    private readonly runQueueTreeViewController: RunQueueTreeViewController,
+    private readonly uiConfigRepository: IUIConfigRepository,
+    private readonly pahcerConfigRepository: IPahcerConfigRepository,
   ) {}
 
   resolveWebviewView(
@@ -49,11 +60,20 @@ export class RunOptionsWebViewController implements vscode.WebviewViewProvider {
 
     webviewView.webview.onDidReceiveMessage(async (message) => {
       switch (message.command) {
+        case 'ready':
+          await this.postSeedSets(webviewView.webview);
+          await this.postRunOptions(webviewView.webview);
+          break;
         case 'runWithOptions':
+          await this.saveLastRunOptions(message.options);
           await this.runWithOptions(message.options);
           // Refresh tree view after run completes
           await vscode.commands.executeCommand('pahcer-ui.refresh');
           break;
+        case 'enqueueRun':
+          await this.saveLastRunOptions(message.options);
+          await this.enqueue(message.options);
+          break;
         case 'cancelRunOptions':
           await this.cancel();
           break;
@@ -61,24 +81,100 @@ export class RunOptionsWebViewController implements vscode.WebviewViewProvider {
     });
   }
 
+  /**
+   * 選択肢として表示する Seed セットの一覧を送る
+   */
+  private async postSeedSets(webview: vscode.Webview): Promise<void> {
+    try {
+      const seedSets = await this.seedSetRepository.findAll();
+      await webview.postMessage({
+        command: 'seedSets',
+        seedSets: seedSets.map((seedSet) => ({
+          name: seedSet.name,
+          seedCount: seedSet.seeds.length,
+        })),
+      });
+    } catch (error) {
+      console.error(error);
+    }
+  }
+
+  /**
+   * フォームの初期値を送る
+   * 最後に使用した値があればそれを、なければ pahcer 設定の Seed 範囲を使う
+   */
+  private async postRunOptions(webview: vscode.Webview): Promise<void> {
+    try {
+      const { lastRunOptions } = await this.uiConfigRepository.find();
+      let options = lastRunOptions;
+      if (!options) {
+        const config = await this.pahcerConfigRepository.findById('normal');
+        options = {
+          startSeed: config?.startSeed ?? 0,
+          endSeed: config?.endSeed ?? 100,
+          freezeBestScores: false,
+        };
+      }
+      await webview.postMessage({ command: 'runOptions', options });
+    } catch (error) {
+      console.error(error);
+    }
+  }
+
+  /**
+   * 入力された値を次に開いたときの初期値として保存する
+   */
+  private async saveLastRunOptions(options: RunOptions): Promise<void> {
+    try {
+      const config = await this.uiConfigRepository.find();
+      config.lastRunOptions = options;
+      await this.uiConfigRepository.upsert(config);
+    } catch (error) {
+      console.error(error);
+    }
+  }
+
   private async runWithOptions(options: RunOptions): Promise<void> {
     try {
       // Switch back to TreeView
       await this.vscodeUIContext.setShowRunOptions(false);
 
+      // Seed セットが指定された場合は実行時点の内容を読み込む
+      let seeds: number[] | undefined;
+      if (options.seedSetName) {
+        const seedSet = await this.seedSetRepository.findByName(options.seedSetName);
+        if (!seedSet) {
+          vscode.window.showErrorMessage(`Seed セット「${options.seedSetName}」が見つかりません`);
+          return;
+        }
+        seeds = seedSet.seeds;
+      }
+
       // Execute pahcer run with options
-      const result = await this.runPahcerUseCase.handle({
-        options: {
-          startSeed: options.startSeed,
-          endSeed: options.endSeed,
-          freezeBestScores: options.freezeBestScores,
-        },
-        confirmGitIntegration,
-      });
+      const result = await this.runPahcerUseCase
+        .handle({
+          options: { ...toPahcerRunOptions(options), seeds },
+          confirmGitIntegration,
+          onProgress: (progress) => this.runProgressController.update(progress),
+        })
+        .finally(() => this.runProgressController.finish());
 
-      // ユースケースからのメッセージを表示
+      // ユースケースからのメッセージを表示（中断・異常終了時は警告として表示）
       for (const message of result.messages) {
-        vscode.window.showInformationMessage(message);
+        if (result.status === 'succeeded') {
+          vscode.window.showInformationMessage(message);
+        } else {
+          vscode.window.showWarningMessage(message);
+        }
+      }
+
+      // 正常終了した場合のみ回帰レポートを表示（設定で無効化されている場合は何もしない）
+      if (result.status === 'succeeded' && result.executionId) {
+        await vscode.commands.executeCommand(
+          'pahcer-ui.showRegressionReport',
+          result.executionId,
+          true,
+        );
       }
     } catch (error) {
       console.error(error);
@@ -87,6 +183,19 @@ export class RunOptionsWebViewController implements vscode.WebviewViewProvider {
     }
   }
 
+  /**
+   * 実行キューに追加する（Seed セットは実行開始時点の内容で実行する）
+   */
+  private async enqueue(options: RunOptions): Promise<void> {
+    // Switch back to TreeView
+    await this.vscodeUIContext.setShowRunOptions(false);
+
+    this.runQueueTreeViewController.enqueue(toPahcerRunOptions(options), options.seedSetName);
+    vscode.window.showInformationMessage(
+      `実行キューに追加しました（実行待ち ${this.runQueueTreeViewController.queue.length} 件）`,
+    );
+  }
+
   async cancel(): Promise<void> {
     // Switch back to TreeView
     await this.vscodeUIContext.setShowRunOptions(false);
@@ -112,3 +221,16 @@ export class RunOptionsWebViewController implements vscode.WebviewViewProvider {
 </html>`;
   }
 }
+
+function toPahcerRunOptions(options: RunOptions): PahcerRunOptions {
+  return {
+    startSeed: options.startSeed,
+    endSeed: options.endSeed,
+    freezeBestScores: options.freezeBestScores,
+    shuffle: options.shuffle,
+    threads: options.threads,
+    json: options.json,
+    env: options.env && Object.keys(options.env).length > 0 ? options.env : undefined,
+    comment: options.comment || undefined,
+  };
+}
@@ -0,0 +1,108 @@
+import * as vscode from 'vscode';
+import type { RunProgress } from '../../domain/models/runProgress';
+import type { VSCodeUIContext } from '../vscodeUIContext';
+import type { PahcerTreeViewController } from './pahcerTreeViewController';
+
+/** 表示を更新する最短間隔（ミリ秒）。ケースが高速に完了する場合に更新が集中しないようにする */
+const UPDATE_INTERVAL_MS = 250;
+
+/**
+ * 実行中の pahcer run の進捗表示コントローラ
+ *
+ * 責務:
+ * - ステータスバーに進捗率と残り時間の目安を表示
+ * - TreeView の実行中ノードを更新
+ * - 実行中状態（停止ボタンの表示切り替え用）を設定
+ */
+export class RunProgressController implements vscode.Disposable {
+  private readonly statusBarItem: vscode.StatusBarItem;
+  private progress: RunProgress | undefined;
+  private updateTimer: NodeJS.Timeout | undefined;
+
+  constructor(
+    private readonly treeViewController: PahcerTreeViewController,
+    private readonly vscodeUIContext: VSCodeUIContext,
+  ) {
+    this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
+    this.statusBarItem.command = 'pahcerResults.focus';
+  }
+
+  /**
+   * 進捗を更新（開始時は即座に、それ以降は一定間隔で表示に反映する）
+   */
+  update(progress: RunProgress): void {
+    const started = this.progress === undefined;
+    this.progress = progress;
+
+    if (started) {
+      this.vscodeUIContext.setRunning(true);
+      this.render();
+    } else if (!this.updateTimer) {
+      this.updateTimer = setTimeout(() => {
+        this.updateTimer = undefined;
+        this.render();
+      }, UPDATE_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * 実行終了時に進捗表示を消す
+   */
+  finish(): void {
+    this.clear();
+    this.vscodeUIContext.setRunning(false);
+  }
+
+  /**
+   * 進捗表示を消す（実行中状態は変えない）
+   * 実行キューのように続けて実行する場合の、1 つの実行の終了時に使用する
+   */
+  clear(): void {
+    if (this.updateTimer) {
+      clearTimeout(this.updateTimer);
+      this.updateTimer = undefined;
+    }
+    this.progress = undefined;
+    this.statusBarItem.hide();
+    this.treeViewController.setRunProgress(undefined);
+  }
+
+  dispose(): void {
+    if (this.updateTimer) {
+      clearTimeout(this.updateTimer);
+    }
+    this.statusBarItem.dispose();
+  }
+
+  private render(): void {
+    const progress = this.progress;
+    if (!progress) {
+      return;
+    }
+
+    this.treeViewController.setRunProgress(progress);
+
+    const remainingMs = progress.estimateRemainingMs();
+    const eta = remainingMs !== undefined ? ` 残り ${formatDuration(remainingMs)}` : '';
+    this.statusBarItem.text = `$(sync~spin) Pahcer ${progress.completedCount}/${progress.total} (${progress.percentage.toFixed(0)}%)${eta}`;
+    this.statusBarItem.tooltip = [
+      `経過時間: ${formatDuration(Date.now() - progress.startedAt)}`,
+      `AC: ${progress.acCount}/${progress.completedCount}`,
+      `平均スコア: ${progress.averageScore.toFixed(1)}`,
+    ].join('\n');
+    this.statusBarItem.show();
+  }
+}
+
+/**
+ * ミリ秒を "m:ss" または "h:mm:ss" 形式にする
+ */
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
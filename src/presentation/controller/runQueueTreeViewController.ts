@@ -0,0 +1,111 @@
+import * as vscode from 'vscode';
+import type { PahcerRunOptions } from '../../domain/models/pahcerStatus';
+import { type QueuedRun, RunQueue } from '../../domain/models/runQueue';
+import type { TreeItemBuilder } from '../view/treeView/treeItemBuilder';
+
+/**
+ * 実行キューの TreeItem
+ */
+export class RunQueueTreeItem extends vscode.TreeItem {
+  constructor(
+    public readonly run: QueuedRun,
+    builtItem: vscode.TreeItem,
+  ) {
+    super(builtItem.label ?? '', vscode.TreeItemCollapsibleState.None);
+    this.id = run.id;
+    this.contextValue = builtItem.contextValue;
+    this.description = builtItem.description;
+    this.iconPath = builtItem.iconPath;
+    this.tooltip = builtItem.tooltip;
+  }
+}
+
+/**
+ * 実行キューの TreeView コントローラ
+ *
+ * 責務:
+ * - 実行待ちの pahcer run の保持（追加・並べ替え・削除）
+ * - 実行中・実行待ちの表示
+ */
+export class RunQueueTreeViewController implements vscode.TreeDataProvider<RunQueueTreeItem> {
+  private _onDidChangeTreeData = new vscode.EventEmitter<RunQueueTreeItem | undefined | null>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  readonly queue = new RunQueue();
+  private currentRun?: QueuedRun;
+
+  constructor(private readonly treeItemBuilder: TreeItemBuilder) {}
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
+  /**
+   * キューの末尾に追加
+   */
+  enqueue(options: PahcerRunOptions, seedSetName?: string): QueuedRun {
+    const run = this.queue.enqueue(options, seedSetName);
+    this.refresh();
+    return run;
+  }
+
+  /**
+   * キューから取り除く
+   */
+  remove(run: QueuedRun): void {
+    if (this.queue.remove(run.id)) {
+      this.refresh();
+    }
+  }
+
+  /**
+   * キュー内の位置を移動（負の値で先頭方向）
+   */
+  move(run: QueuedRun, offset: number): void {
+    if (this.queue.move(run.id, offset)) {
+      this.refresh();
+    }
+  }
+
+  /**
+   * 実行待ちをすべて取り除く（実行中のものは対象外）
+   */
+  clear(): void {
+    this.queue.clear();
+    this.refresh();
+  }
+
+  /**
+   * 実行中の項目を設定（終了時は undefined）
+   */
+  setCurrentRun(run: QueuedRun | undefined): void {
+    this.currentRun = run;
+    this.refresh();
+  }
+
+  getTreeItem(element: RunQueueTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: RunQueueTreeItem): RunQueueTreeItem[] {
+    if (element) {
+      return [];
+    }
+
+    const items = this.queue
+      .getAll()
+      .map(
+        (run, index) =>
+          new RunQueueTreeItem(run, this.treeItemBuilder.buildQueuedRunItem(run, index + 1)),
+      );
+    if (this.currentRun) {
+      items.unshift(
+        new RunQueueTreeItem(
+          this.currentRun,
+          this.treeItemBuilder.buildQueuedRunItem(this.currentRun, undefined),
+        ),
+      );
+    }
+    return items;
+  }
+}
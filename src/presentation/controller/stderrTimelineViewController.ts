@@ -0,0 +1,162 @@
+import * as vscode from 'vscode';
+import type { IExecutionRepository } from '../../domain/interfaces/IExecutionRepository';
+import type { ITestCaseRepository } from '../../domain/interfaces/ITestCaseRepository';
+import { TestCaseId } from '../../domain/models/testCase';
+import type {
+  StderrTimelineData,
+  StderrTimelineExecution,
+} from '../view/webview/stderrTimeline/types';
+
+function getNonce() {
+  let text = '';
+  const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  for (let i = 0; i < 32; i++) {
+    text += possible.charAt(Math.floor(Math.random() * possible.length));
+  }
+  return text;
+}
+
+/** 実行を指定せずに開いたときに重ねて表示する実行の数（新しい順） */
+const DEFAULT_SELECTED_EXECUTIONS = 3;
+
+/**
+ * stderr の推移ビューのコントローラ
+ */
+export class StderrTimelineViewController {
+  private panel: vscode.WebviewPanel | undefined;
+  private messageDisposable: vscode.Disposable | undefined;
+
+  constructor(
+    private context: vscode.ExtensionContext,
+    private executionRepository: IExecutionRepository,
+    private testCaseRepository: ITestCaseRepository,
+  ) {}
+
+  /**
+   * Seed の stderr の推移を表示
+   *
+   * @param seed 表示する Seed
+   * @param executionId 最初に表示する実行（省略時は新しい実行から順に複数表示）
+   */
+  async show(seed: number, executionId?: string): Promise<void> {
+    const data = await this.loadData(seed, executionId);
+
+    if (this.panel) {
+      // Panel already exists - just update data without reloading
+      this.panel.title = this.getTitle(seed);
+      this.panel.reveal(vscode.ViewColumn.One, true);
+      this.panel.webview.postMessage({ command: 'updateData', data });
+      return;
+    }
+
+    const extensionUri = this.context.extensionUri;
+    this.panel = vscode.window.createWebviewPanel(
+      'pahcerStderrTimeline',
+      this.getTitle(seed),
+      { viewColumn: vscode.ViewColumn.One, preserveFocus: true },
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true,
+        localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'dist')],
+      },
+    );
+
+    this.panel.onDidDispose(() => {
+      this.panel = undefined;
+      if (this.messageDisposable) {
+        this.messageDisposable.dispose();
+        this.messageDisposable = undefined;
+      }
+    });
+
+    // Handle messages from webview
+    this.messageDisposable = this.panel.webview.onDidReceiveMessage(
+      async (message) => {
+        if (message.command === 'showVisualizer') {
+          const { resultId, seed } = message;
+          await vscode.commands.executeCommand('pahcer-ui.showVisualizer', seed, resultId);
+        }
+      },
+      undefined,
+      this.context.subscriptions,
+    );
+
+    this.panel.webview.html = this.getWebviewContent(data, this.panel.webview);
+  }
+
+  /**
+   * Seed を含む実行結果のうち、stderr の推移があるものを新しい順に読み込む
+   */
+  private async loadData(seed: number, executionId?: string): Promise<StderrTimelineData> {
+    const executions = await this.executionRepository.findAll();
+
+    const timelineExecutions = (
+      await Promise.all(
+        executions.map(async (execution): Promise<StderrTimelineExecution | undefined> => {
+          const testCase = await this.testCaseRepository.findById(
+            new TestCaseId(execution.id, seed),
+          );
+          const series = testCase && (await this.testCaseRepository.findStderrSeries(testCase.id));
+          if (!testCase || !series || Object.keys(series).length === 0) {
+            return undefined;
+          }
+          return {
+            id: execution.id,
+            title: execution.getLongTitle(),
+            comment: execution.comment,
+            score: testCase.score,
+            series,
+          };
+        }),
+      )
+    ).filter((execution): execution is StderrTimelineExecution => execution !== undefined);
+
+    const selectedExecutionIds =
+      executionId && timelineExecutions.some((execution) => execution.id === executionId)
+        ? [executionId]
+        : timelineExecutions.slice(0, DEFAULT_SELECTED_EXECUTIONS).map((execution) => execution.id);
+
+    return { seed, executions: timelineExecutions, selectedExecutionIds };
+  }
+
+  private getTitle(seed: number): string {
+    return `stderr の推移 (Seed ${String(seed).padStart(4, '0')})`;
+  }
+
+  /**
+   * WebViewのHTMLを生成
+   */
+  private getWebviewContent(data: StderrTimelineData, webview: vscode.Webview): string {
+    const scriptUri = webview.asWebviewUri(
+      vscode.Uri.joinPath(this.context.extensionUri, 'dist', 'stderrTimeline.js'),
+    );
+
+    const nonce = getNonce();
+
+    return `<!DOCTYPE html>
+<html lang="ja">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+    <title>stderr の推移</title>
+    <style nonce="${nonce}">
+        body {
+            font-family: var(--vscode-font-family);
+            padding: 20px;
+            margin: 0;
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+        }
+    </style>
+</head>
+<body>
+    <div id="root"></div>
+    <script nonce="${nonce}">
+        window.stderrTimelineData = ${JSON.stringify(data)};
+    </script>
+    <script nonce="${nonce}" src="${scriptUri}"></script>
+</body>
+</html>`;
+  }
+}
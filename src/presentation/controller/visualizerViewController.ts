@@ -1,7 +1,43 @@
 import * as vscode from 'vscode';
 import type { IExecutionRepository } from '../../domain/interfaces/IExecutionRepository';
 import type { IInOutFilesAdapter } from '../../domain/interfaces/IInOutFilesAdapter';
+import type {
+  ILocalVisualizerAdapter,
+  LocalVisualizerResult,
+} from '../../domain/interfaces/ILocalVisualizerAdapter';
+import type { ITestCaseRepository } from '../../domain/interfaces/ITestCaseRepository';
+import type { IUIConfigRepository } from '../../domain/interfaces/IUIConfigRepository';
 import type { IVisualizerAdapter } from '../../domain/interfaces/IVisualizerAdapter';
+import { CachedVisualizer } from '../../domain/models/cachedVisualizer';
+import { TestCaseId } from '../../domain/models/testCase';
+import type { AppUIConfig } from '../appUIConfig';
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * <script> 内に埋め込む JSON に変換する（文字列中の `</script>` でスクリプトが終わらないよう `<` をエスケープする）
+ */
+function toScriptJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
+
+/**
+ * パネル内のナビゲーションバーに渡すデータ
+ */
+interface VisualizerNavigation {
+  seed: number;
+  executionId: string;
+  /** 現在の実行で出力が保存されている Seed（昇順） */
+  seeds: number[];
+  /** 現在の Seed の出力が保存されている実行（新しい順） */
+  executions: { id: string; label: string }[];
+}
 
 /**
  * ビジュアライザのWebViewコントローラ
@@ -9,13 +45,22 @@ import type { IVisualizerAdapter } from '../../domain/interfaces/IVisualizerAdap
 export class VisualizerViewController {
   private static currentPanel: vscode.WebviewPanel | undefined;
   private static panelDisposables: vscode.Disposable[] = [];
+  /** パネルに表示中のビジュアライザの種類（Web 版のみ IPC で入力・出力を更新できる） */
+  private static currentPanelMode: 'web' | 'local' | undefined;
+  /** 2 つの実行結果を並べて表示する比較のパネル（左が古い実行） */
+  private static comparisonPanels: vscode.WebviewPanel[] = [];
+  private static comparisonDisposables: vscode.Disposable[] = [];
   private readonly CONFIG_SECTION = 'pahcer-ui';
 
   constructor(
     _context: vscode.ExtensionContext,
     private inOutFilesAdapter: IInOutFilesAdapter,
     private executionRepository: IExecutionRepository,
+    private testCaseRepository: ITestCaseRepository,
     private visualizerAdapter: IVisualizerAdapter,
+    private localVisualizerAdapter: ILocalVisualizerAdapter,
+    private appUIConfig: AppUIConfig,
+    private uiConfigRepository: IUIConfigRepository,
   ) {}
 
   /**
@@ -26,73 +71,200 @@ export class VisualizerViewController {
       `[VisualizerViewController] Showing visualizer for seed: ${seed}, resultId: ${resultId}`,
     );
 
-    // Check if visualizer is already downloaded
-    let htmlFileName = await this.visualizerAdapter.getCachedHtmlFileName();
+    if ((await this.appUIConfig.visualizerMode()) === 'local') {
+      await this.showLocalVisualizer(seed, resultId);
+      return;
+    }
 
-    // Get visualizer URL if HTML file not found
-    if (!htmlFileName) {
-      console.log(
-        `[VisualizerViewController] No cached visualizer found, requesting URL from user`,
-      );
+    const visualizer = await this.ensureWebVisualizer();
+    if (!visualizer) {
+      return;
+    }
 
-      const url = await vscode.window.showInputBox({
-        prompt: 'AtCoder公式ビジュアライザのURLを入力してください',
-        placeHolder: 'https://img.atcoder.jp/ahc054/YDAxDRZr_v2.html?lang=ja',
-        validateInput: (value) => {
-          if (!value) {
-            return 'URLを入力してください';
-          }
-          if (!value.startsWith('https://img.atcoder.jp/')) {
-            return 'AtCoderの公式URLを入力してください';
-          }
-          const urlWithoutQuery = value.split('?')[0];
-          if (!urlWithoutQuery.endsWith('.html')) {
-            return 'HTMLファイルのURLを入力してください';
-          }
-          return null;
-        },
-      });
+    // Show visualizer with test case data
+    await this.showVisualizer(seed, resultId, visualizer);
+  }
 
-      if (!url) {
-        console.log(`[VisualizerViewController] User cancelled URL input`);
+  /**
+   * 同じ Seed の 2 つの実行結果のビジュアライザを左右に並べて表示
+   * 左に古い実行、右に新しい実行を表示し、ターン（スライダー）の位置を同期する
+   */
+  async showComparison(seed: number, executionIds: [string, string]): Promise<void> {
+    console.log(
+      `[VisualizerViewController] Showing comparison for seed: ${seed}, resultIds: ${executionIds.join(', ')}`,
+    );
+
+    const executions = await Promise.all(
+      executionIds.map(async (id) => ({
+        id,
+        execution: await this.executionRepository.findById(id),
+      })),
+    );
+    executions.sort(
+      (a, b) => (a.execution?.startTime.valueOf() ?? 0) - (b.execution?.startTime.valueOf() ?? 0),
+    );
+
+    const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
+    const savedZoomLevel = config.get<number>('visualizerZoomLevel') || 1.0;
+
+    // Prepare contents before opening panels so that a failure leaves no empty panels
+    let buildHtmls: ((webview: vscode.Webview) => Promise<string>)[];
+    if ((await this.appUIConfig.visualizerMode()) === 'local') {
+      const results: LocalVisualizerResult[] = [];
+      for (const { id } of executions) {
+        // Both runs write the same result file, so run them one by one
+        const result = await this.runLocalVisualizer(seed, id);
+        if (!result) {
+          return;
+        }
+        results.push(result);
+      }
+      buildHtmls = results.map(
+        (result) => async () => this.buildLocalVisualizerHtml(seed, result, savedZoomLevel),
+      );
+    } else {
+      const visualizer = await this.ensureWebVisualizer();
+      if (!visualizer) {
         return;
       }
+      const input = await this.inOutFilesAdapter.loadIn(seed);
+      const outputs = await Promise.all(
+        executions.map(({ id }) =>
+          this.inOutFilesAdapter.loadArchived('out', { executionId: id, seed }),
+        ),
+      );
+      buildHtmls = outputs.map(
+        (output) => (webview: vscode.Webview) =>
+          this.buildWebVisualizerHtml(webview, visualizer, seed, input, output, savedZoomLevel),
+      );
+    }
 
-      console.log(`[VisualizerViewController] User provided URL: ${url}`);
+    this.closeComparison();
 
-      // Download visualizer files
-      await vscode.window.withProgress(
+    const panels = executions.map(({ execution }, i) =>
+      vscode.window.createWebviewPanel(
+        'pahcerVisualizerComparison',
+        `${i === 0 ? '比較(旧)' : '比較(新)'}: Seed ${seed}${execution ? ` (${execution.startTime.toDate().toLocaleString()})` : ''}`,
+        i === 0 ? vscode.ViewColumn.Active : vscode.ViewColumn.Beside,
         {
-          location: vscode.ProgressLocation.Notification,
-          title: 'ビジュアライザをダウンロード中...',
-          cancellable: false,
+          enableScripts: true,
+          retainContextWhenHidden: true,
+          localResourceRoots: [vscode.Uri.file(this.visualizerAdapter.getVisualizerDir())],
         },
-        async () => {
-          try {
-            console.log(`[VisualizerViewController] Starting download`);
-            htmlFileName = await this.visualizerAdapter.download(url);
-            console.log(`[VisualizerViewController] Download completed: ${htmlFileName}`);
-          } catch (e) {
-            console.error(
-              `[VisualizerViewController] Download failed:`,
-              e instanceof Error ? e.message : String(e),
-            );
-            throw e;
+      ),
+    );
+    VisualizerViewController.comparisonPanels = panels;
+
+    panels.forEach((panel, i) => {
+      const otherPanel = panels[1 - i];
+      VisualizerViewController.comparisonDisposables.push(
+        panel.webview.onDidReceiveMessage(async (message) => {
+          if (message.type === 'saveZoomLevel') {
+            await this.saveZoomLevel(message.zoomLevel);
+          } else if (message.type === 'turnChanged') {
+            otherPanel.webview.postMessage({ type: 'setTurn', turn: message.turn });
           }
-        },
+        }),
+        // Closing either side closes the whole comparison
+        panel.onDidDispose(() => this.closeComparison()),
       );
-    } else {
-      console.log(`[VisualizerViewController] Using cached visualizer: ${htmlFileName}`);
+    });
+
+    await Promise.all(
+      panels.map(async (panel, i) => {
+        panel.webview.html = this.injectScript(
+          await buildHtmls[i](panel.webview),
+          this.getTurnSyncScript(),
+        );
+      }),
+    );
+  }
+
+  /**
+   * Web 版のビジュアライザを取得（選択中のものがなければ最も新しいもの、キャッシュがなければ URL を入力させてダウンロードする）
+   * @returns ビジュアライザ（キャンセルされた場合は undefined）
+   */
+  private async ensureWebVisualizer(): Promise<CachedVisualizer | undefined> {
+    const config = await this.uiConfigRepository.find();
+    const visualizer = CachedVisualizer.findActive(
+      await this.visualizerAdapter.list(),
+      config.activeVisualizer,
+    );
+    if (visualizer) {
+      console.log(`[VisualizerViewController] Using cached visualizer: ${visualizer.id}`);
+      return visualizer;
     }
 
-    if (!htmlFileName) {
-      console.error(`[VisualizerViewController] HTML file name is empty`);
-      vscode.window.showErrorMessage('ビジュアライザファイルが見つかりません');
-      return;
+    console.log(`[VisualizerViewController] No cached visualizer found, requesting URL from user`);
+    return this.downloadVisualizer();
+  }
+
+  /**
+   * URL を入力させてビジュアライザをダウンロードし、使用するビジュアライザにする
+   * @returns ダウンロードしたビジュアライザ（キャンセルされた場合は undefined）
+   */
+  async downloadVisualizer(): Promise<CachedVisualizer | undefined> {
+    const url = await vscode.window.showInputBox({
+      prompt: 'AtCoder公式ビジュアライザのURLを入力してください',
+      placeHolder: 'https://img.atcoder.jp/ahc054/YDAxDRZr_v2.html?lang=ja',
+      validateInput: (value) => {
+        if (!value) {
+          return 'URLを入力してください';
+        }
+        if (!value.startsWith('https://img.atcoder.jp/')) {
+          return 'AtCoderの公式URLを入力してください（ローカルのファイルは「ビジュアライザを取り込む」コマンドで取り込めます）';
+        }
+        const urlWithoutQuery = value.split('?')[0];
+        if (!urlWithoutQuery.endsWith('.html')) {
+          return 'HTMLファイルのURLを入力してください';
+        }
+        return null;
+      },
+    });
+
+    if (!url) {
+      console.log(`[VisualizerViewController] User cancelled URL input`);
+      return undefined;
     }
 
-    // Show visualizer with test case data
-    await this.showVisualizer(seed, resultId, htmlFileName);
+    console.log(`[VisualizerViewController] User provided URL: ${url}`);
+
+    // Download visualizer files
+    const visualizer = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: 'ビジュアライザをダウンロード中...',
+        cancellable: false,
+      },
+      async () => {
+        try {
+          console.log(`[VisualizerViewController] Starting download`);
+          const downloaded = await this.visualizerAdapter.download(url);
+          console.log(`[VisualizerViewController] Download completed: ${downloaded.id}`);
+          return downloaded;
+        } catch (e) {
+          console.error(
+            `[VisualizerViewController] Download failed:`,
+            e instanceof Error ? e.message : String(e),
+          );
+          throw e;
+        }
+      },
+    );
+
+    await this.activateVisualizer(visualizer.id);
+    return visualizer;
+  }
+
+  /**
+   * 使用するビジュアライザを設定に保存し、古いビジュアライザを表示しているパネルを閉じる
+   * @param id ビジュアライザの ID（空の場合は最も新しいものを使用する）
+   */
+  async activateVisualizer(id: string): Promise<void> {
+    const config = await this.uiConfigRepository.find();
+    config.activeVisualizer = id;
+    await this.uiConfigRepository.upsert(config);
+    this.closePanel();
   }
 
   /**
@@ -101,18 +273,9 @@ export class VisualizerViewController {
   private async showVisualizer(
     seed: number,
     resultId: string | undefined,
-    htmlFileName: string,
+    visualizer: CachedVisualizer,
   ): Promise<void> {
-    // Get execution time from result file if resultId is provided
-    let executionTime = '';
-    if (resultId) {
-      const result = await this.executionRepository.findById(resultId);
-      if (result) {
-        executionTime = ` (${result.startTime.toDate().toLocaleString()})`;
-      } else {
-        console.warn(`Execution ${resultId} not found`);
-      }
-    }
+    const executionTime = await this.getExecutionTimeLabel(resultId);
 
     // Read test case input and output from archived files
     // resultId should always be provided as execution results are archived immediately after running
@@ -127,13 +290,17 @@ export class VisualizerViewController {
       executionId: resultId,
       seed,
     });
+    const navigation = await this.loadNavigation(seed, resultId);
 
     // Get current zoom level from settings
     const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
     const savedZoomLevel = config.get<number>('visualizerZoomLevel') || 1.0;
 
     // Reuse existing panel if available, otherwise create new one
-    if (VisualizerViewController.currentPanel) {
+    if (
+      VisualizerViewController.currentPanel &&
+      VisualizerViewController.currentPanelMode === 'web'
+    ) {
       // Update title
       VisualizerViewController.currentPanel.title = `Seed ${seed}${executionTime}`;
 
@@ -146,96 +313,316 @@ export class VisualizerViewController {
         seed,
         input,
         output,
+        navigation,
       });
     } else {
-      // Create a new webview panel
-      const panel = vscode.window.createWebviewPanel(
-        'pahcerVisualizer',
-        `Seed ${seed}${executionTime}`,
-        vscode.ViewColumn.Active,
+      const panel = this.revealPanel(`Seed ${seed}${executionTime}`);
+      VisualizerViewController.currentPanelMode = 'web';
+      panel.webview.html = this.injectScript(
+        await this.buildWebVisualizerHtml(
+          panel.webview,
+          visualizer,
+          seed,
+          input,
+          output,
+          savedZoomLevel,
+        ),
+        this.getNavigationScript(navigation),
+      );
+    }
+  }
+
+  /**
+   * Web 版のビジュアライザの HTML に入力・出力とズーム UI を注入して生成
+   */
+  private async buildWebVisualizerHtml(
+    webview: vscode.Webview,
+    visualizer: CachedVisualizer,
+    seed: number,
+    input: string,
+    output: string,
+    initialZoomLevel: number,
+  ): Promise<string> {
+    // Read HTML content
+    let htmlContent = await this.visualizerAdapter.readHtml(visualizer);
+
+    // Convert local paths to webview URIs
+    htmlContent = await this.convertResourcePaths(htmlContent, webview, visualizer);
+
+    // Inject input/output data and message listener
+    return this.injectTestCaseData(htmlContent, seed, input, output, initialZoomLevel);
+  }
+
+  /**
+   * 公式ツールのローカルのビジュアライザ（vis）を実行し、結果とスコアを表示
+   */
+  private async showLocalVisualizer(seed: number, resultId: string | undefined): Promise<void> {
+    if (!resultId) {
+      console.error('[VisualizerViewController] resultId is required but not provided');
+      vscode.window.showErrorMessage('実行IDが指定されていません');
+      return;
+    }
+
+    const result = await this.runLocalVisualizer(seed, resultId);
+    if (!result) {
+      return;
+    }
+
+    const executionTime = await this.getExecutionTimeLabel(resultId);
+    const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
+    const savedZoomLevel = config.get<number>('visualizerZoomLevel') || 1.0;
+
+    // The result file changes for every seed, so always reload the whole WebView
+    const panel = this.revealPanel(`Seed ${seed}${executionTime}`);
+    VisualizerViewController.currentPanelMode = 'local';
+    panel.webview.html = this.injectScript(
+      this.buildLocalVisualizerHtml(seed, result, savedZoomLevel),
+      this.getNavigationScript(await this.loadNavigation(seed, resultId)),
+    );
+  }
+
+  /**
+   * ローカルのビジュアライザを実行
+   * @returns 実行結果（失敗した場合はエラーを表示して undefined）
+   */
+  private async runLocalVisualizer(
+    seed: number,
+    resultId: string,
+  ): Promise<LocalVisualizerResult | undefined> {
+    const command = await this.appUIConfig.localVisualizerCommand();
+    const resultFile = await this.appUIConfig.localVisualizerResultFile();
+
+    try {
+      return await vscode.window.withProgress(
         {
-          enableScripts: true,
-          retainContextWhenHidden: true,
-          localResourceRoots: [vscode.Uri.file(this.visualizerAdapter.getVisualizerDir())],
+          location: vscode.ProgressLocation.Notification,
+          title: 'ローカルのビジュアライザを実行中...',
+          cancellable: false,
         },
+        () =>
+          this.localVisualizerAdapter.run(
+            this.inOutFilesAdapter.getNonArchivedPath('in', seed),
+            this.inOutFilesAdapter.getArchivedPath('out', new TestCaseId(resultId, seed)),
+            command,
+            resultFile,
+          ),
+      );
+    } catch (e) {
+      console.error(
+        `[VisualizerViewController] Local visualizer failed:`,
+        e instanceof Error ? e.message : String(e),
       );
+      vscode.window.showErrorMessage(
+        `ローカルのビジュアライザの実行に失敗しました: ${e instanceof Error ? e.message : String(e)}`,
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * 実行の開始時刻のラベルを取得（タイトル用）
+   */
+  private async getExecutionTimeLabel(resultId: string | undefined): Promise<string> {
+    if (!resultId) {
+      return '';
+    }
+    const result = await this.executionRepository.findById(resultId);
+    if (!result) {
+      console.warn(`Execution ${resultId} not found`);
+      return '';
+    }
+    return ` (${result.startTime.toDate().toLocaleString()})`;
+  }
 
-      VisualizerViewController.currentPanel = panel;
+  /**
+   * ナビゲーションバーの Seed・実行の一覧を読み込む
+   */
+  private async loadNavigation(seed: number, executionId: string): Promise<VisualizerNavigation> {
+    const [testCases, executions] = await Promise.all([
+      this.testCaseRepository.findByExecutionId(executionId),
+      this.executionRepository.findAll(),
+    ]);
+    const seeds = testCases
+      .filter((testCase) => testCase.foundOutput)
+      .map((testCase) => testCase.id.seed)
+      .sort((a, b) => a - b);
 
-      // Listen for messages from the webview
-      const messageDisposable = panel.webview.onDidReceiveMessage(async (message) => {
-        if (message.type === 'saveZoomLevel') {
-          const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
-          await config.update(
-            'visualizerZoomLevel',
-            message.zoomLevel,
-            vscode.ConfigurationTarget.Global,
+    const seedTestCases = await Promise.all(
+      executions.map((execution) =>
+        this.testCaseRepository.findById(new TestCaseId(execution.id, seed)),
+      ),
+    );
+    const navigationExecutions = executions
+      .filter((execution, i) => execution.id === executionId || seedTestCases[i]?.foundOutput)
+      .map((execution) => ({
+        id: execution.id,
+        label: execution.comment
+          ? `${execution.getLongTitle()} - ${execution.comment}`
+          : execution.getLongTitle(),
+      }));
+
+    return { seed, executionId, seeds, executions: navigationExecutions };
+  }
+
+  /**
+   * ズームレベルを設定に保存
+   */
+  private async saveZoomLevel(zoomLevel: number): Promise<void> {
+    const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
+    await config.update('visualizerZoomLevel', zoomLevel, vscode.ConfigurationTarget.Global);
+  }
+
+  /**
+   * 比較のパネルを閉じる
+   */
+  private closeComparison(): void {
+    const panels = VisualizerViewController.comparisonPanels;
+    VisualizerViewController.comparisonPanels = [];
+    for (const disposable of VisualizerViewController.comparisonDisposables) {
+      disposable.dispose();
+    }
+    VisualizerViewController.comparisonDisposables = [];
+    for (const panel of panels) {
+      panel.dispose();
+    }
+  }
+
+  /**
+   * 既存のパネルを表示する（なければ作成する）
+   */
+  private revealPanel(title: string): vscode.WebviewPanel {
+    if (VisualizerViewController.currentPanel) {
+      VisualizerViewController.currentPanel.title = title;
+      VisualizerViewController.currentPanel.reveal(vscode.ViewColumn.Active);
+      return VisualizerViewController.currentPanel;
+    }
+
+    // Create a new webview panel
+    const panel = vscode.window.createWebviewPanel(
+      'pahcerVisualizer',
+      title,
+      vscode.ViewColumn.Active,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true,
+        localResourceRoots: [vscode.Uri.file(this.visualizerAdapter.getVisualizerDir())],
+      },
+    );
+
+    VisualizerViewController.currentPanel = panel;
+
+    // Listen for messages from the webview
+    const messageDisposable = panel.webview.onDidReceiveMessage(async (message) => {
+      if (message.type === 'saveZoomLevel') {
+        await this.saveZoomLevel(message.zoomLevel);
+      } else if (message.type === 'navigate') {
+        try {
+          await this.showVisualizerForCase(message.seed, message.executionId);
+        } catch (e) {
+          vscode.window.showErrorMessage(
+            `ビジュアライザの切り替えに失敗しました: ${e instanceof Error ? e.message : String(e)}`,
           );
         }
-      });
-      VisualizerViewController.panelDisposables.push(messageDisposable);
+      }
+    });
+    VisualizerViewController.panelDisposables.push(messageDisposable);
 
-      // Reset currentPanel when the panel is disposed
-      const disposeDisposable = panel.onDidDispose(() => {
-        // Dispose all panel-related disposables
-        for (const disposable of VisualizerViewController.panelDisposables) {
-          disposable.dispose();
-        }
-        VisualizerViewController.panelDisposables = [];
-        VisualizerViewController.currentPanel = undefined;
-      });
-      VisualizerViewController.panelDisposables.push(disposeDisposable);
+    // Reset currentPanel when the panel is disposed
+    const disposeDisposable = panel.onDidDispose(() => {
+      // Dispose all panel-related disposables
+      for (const disposable of VisualizerViewController.panelDisposables) {
+        disposable.dispose();
+      }
+      VisualizerViewController.panelDisposables = [];
+      VisualizerViewController.currentPanel = undefined;
+      VisualizerViewController.currentPanelMode = undefined;
+    });
+    VisualizerViewController.panelDisposables.push(disposeDisposable);
 
-      // Read HTML content
-      let htmlContent = await this.visualizerAdapter.readHtml(htmlFileName);
+    return panel;
+  }
 
-      // Convert local paths to webview URIs
-      htmlContent = await this.convertResourcePaths(htmlContent, panel.webview);
+  /**
+   * ローカルのビジュアライザの結果にスコアの表示とズーム UI を追加した HTML を生成
+   */
+  private buildLocalVisualizerHtml(
+    seed: number,
+    result: LocalVisualizerResult,
+    initialZoomLevel: number,
+  ): string {
+    let html =
+      result.contentType === 'svg'
+        ? `<!DOCTYPE html><html><head><meta charset="UTF-8"></head><body>${result.content}</body></html>`
+        : result.content;
 
-      // Inject input/output data and message listener
-      htmlContent = this.injectTestCaseData(htmlContent, seed, input, output, savedZoomLevel);
+    const score = result.score !== undefined ? result.score.toLocaleString() : '（出力なし）';
+    const header = `
+            <div id="pahcer-local-vis-header" style="font-family: sans-serif; padding: 6px 10px; margin-bottom: 8px; border-bottom: 1px solid #888;">
+                <strong>Seed ${String(seed).padStart(4, '0')}</strong>
+                <span style="margin-left: 16px;">Score = ${escapeHtml(score)}</span>
+                ${result.message ? `<pre style="margin: 6px 0 0; white-space: pre-wrap;">${escapeHtml(result.message)}</pre>` : ''}
+            </div>
+        `;
+    const bodyTag = html.match(/<body[^>]*>/i);
+    // ツールの出力の $ が置換パターンとして解釈されないよう関数で置換する
+    html = bodyTag ? html.replace(bodyTag[0], () => `${bodyTag[0]}${header}`) : header + html;
 
-      panel.webview.html = htmlContent;
-    }
+    return this.injectScript(
+      html,
+      `
+                const vscode = acquireVsCodeApi();
+
+                window.addEventListener('DOMContentLoaded', () => {
+                    createZoomUI();
+                    if (zoomLevel !== 1.0) {
+                        applyZoom();
+                    }
+                });
+${this.getZoomScript(initialZoomLevel)}`,
+    );
   }
 
   /**
    * リソースパスをWebView URIに変換
    */
-  private async convertResourcePaths(html: string, webview: vscode.Webview): Promise<string> {
+  private async convertResourcePaths(
+    html: string,
+    webview: vscode.Webview,
+    visualizer: CachedVisualizer,
+  ): Promise<string> {
     console.log(`[VisualizerViewController] Converting resource paths in HTML`);
 
     // Collect all matches first, then process asynchronously
     const replacements: Array<{ match: string; replacement: string }> = [];
 
-    // Convert relative paths to webview URIs
-    const srcRelativeRegex = /src=["']\.\/([^"']+)["']/g;
-    let match: RegExpExecArray | null;
-    match = srcRelativeRegex.exec(html);
-    while (match !== null) {
-      const fileName = match[1];
-      if (await this.visualizerAdapter.resourceExists(fileName)) {
+    // Convert relative src/href (e.g. ./main.js, js/app.js, style.css) of cached files to webview URIs
+    html = html.replace(
+      /\b(src|href)=(["'])([^"']+)\2/g,
+      (attribute, name: string, quote: string, reference: string) => {
+        const fileName = visualizer.resolveFile(reference);
+        if (fileName === undefined) {
+          return attribute;
+        }
         const resourceUri = webview.asWebviewUri(
-          vscode.Uri.file(this.visualizerAdapter.getResourcePath(fileName)),
+          vscode.Uri.file(this.visualizerAdapter.getResourcePath(visualizer, fileName)),
         );
         console.log(
-          `[VisualizerViewController] Converted relative path: ./${fileName} -> ${resourceUri}`,
+          `[VisualizerViewController] Converted relative path: ${reference} -> ${resourceUri}`,
         );
-        replacements.push({ match: match[0], replacement: `src="${resourceUri}"` });
-      } else {
-        console.warn(`[VisualizerViewController] Resource not found: ${fileName}`);
-      }
-      match = srcRelativeRegex.exec(html);
-    }
+        return `${name}=${quote}${resourceUri}${quote}`;
+      },
+    );
+
+    let match: RegExpExecArray | null;
 
     // Also handle protocol-relative URLs that we downloaded
     const srcProtocolRegex = /src=["']\/\/img\.atcoder\.jp\/[^"']*\/([^"'/]+)["']/g;
     match = srcProtocolRegex.exec(html);
     while (match !== null) {
       const fileName = match[1];
-      if (await this.visualizerAdapter.resourceExists(fileName)) {
+      if (await this.visualizerAdapter.resourceExists(visualizer, fileName)) {
         const resourceUri = webview.asWebviewUri(
-          vscode.Uri.file(this.visualizerAdapter.getResourcePath(fileName)),
+          vscode.Uri.file(this.visualizerAdapter.getResourcePath(visualizer, fileName)),
         );
         console.log(
           `[VisualizerViewController] Converted protocol-relative URL: ${fileName} -> ${resourceUri}`,
@@ -252,9 +639,9 @@ export class VisualizerViewController {
     match = importRegex.exec(html);
     while (match !== null) {
       const fileName = match[1];
-      if (await this.visualizerAdapter.resourceExists(fileName)) {
+      if (await this.visualizerAdapter.resourceExists(visualizer, fileName)) {
         const resourceUri = webview.asWebviewUri(
-          vscode.Uri.file(this.visualizerAdapter.getResourcePath(fileName)),
+          vscode.Uri.file(this.visualizerAdapter.getResourcePath(visualizer, fileName)),
         );
         console.log(
           `[VisualizerViewController] Converted module import: ./${fileName} -> ${resourceUri}`,
@@ -285,11 +672,12 @@ export class VisualizerViewController {
     output: string,
     initialZoomLevel: number,
   ): string {
-    const injection = `
-            <script>
+    return this.injectScript(
+      html,
+      `
                 window.PAHCER_SEED = ${seed};
-                window.PAHCER_INPUT = ${JSON.stringify(input)};
-                window.PAHCER_OUTPUT = ${JSON.stringify(output)};
+                window.PAHCER_INPUT = ${toScriptJson(input)};
+                window.PAHCER_OUTPUT = ${toScriptJson(output)};
 
                 const vscode = acquireVsCodeApi();
 
@@ -333,6 +721,15 @@ export class VisualizerViewController {
                     }
                 });
 
+${this.getZoomScript(initialZoomLevel)}`,
+    );
+  }
+
+  /**
+   * ズーム UI のスクリプトを生成（`vscode` の取得と createZoomUI の呼び出しは呼び出し側で行う）
+   */
+  private getZoomScript(initialZoomLevel: number): string {
+    return `
                 let zoomLevel = ${initialZoomLevel};
                 const MIN_ZOOM = 0.5;
                 const MAX_ZOOM = 3.0;
@@ -444,13 +841,200 @@ export class VisualizerViewController {
                         }
                     }
                 });
+`;
+  }
+
+  /**
+   * ズーム UI の隣に Seed・実行を切り替えるナビゲーションバーを追加するスクリプトを生成
+   * 切り替えは拡張機能に navigate を送り、Web 版では updateTestCase（updateTestCaseData）でリロードせずに反映する
+   * ショートカット: Alt+←/→ で前後の Seed、Alt+↑/↓ で前後の実行
+   */
+  private getNavigationScript(navigation: VisualizerNavigation): string {
+    return `
+                window.PAHCER_NAVIGATION = ${toScriptJson(navigation)};
+
+                function navigateTo(seed, executionId) {
+                    vscode.postMessage({ type: 'navigate', seed, executionId });
+                }
+
+                function moveSeed(offset) {
+                    const nav = window.PAHCER_NAVIGATION;
+                    const index = nav.seeds.indexOf(nav.seed);
+                    const next = nav.seeds[index + offset];
+                    if (index >= 0 && next !== undefined) {
+                        navigateTo(next, nav.executionId);
+                    }
+                }
+
+                function moveExecution(offset) {
+                    const nav = window.PAHCER_NAVIGATION;
+                    const index = nav.executions.findIndex((e) => e.id === nav.executionId);
+                    const next = nav.executions[index + offset];
+                    if (index >= 0 && next !== undefined) {
+                        navigateTo(nav.seed, next.id);
+                    }
+                }
+
+                function updateNavigation(nav) {
+                    window.PAHCER_NAVIGATION = nav;
+
+                    const prevButton = document.getElementById('pahcer-nav-prev');
+                    const seedBox = document.getElementById('pahcer-nav-seed');
+                    const nextButton = document.getElementById('pahcer-nav-next');
+                    const executionSelect = document.getElementById('pahcer-nav-execution');
+                    if (!prevButton || !seedBox || !nextButton || !executionSelect) {
+                        return;
+                    }
+
+                    const index = nav.seeds.indexOf(nav.seed);
+                    prevButton.disabled = index <= 0;
+                    nextButton.disabled = index < 0 || index >= nav.seeds.length - 1;
+                    seedBox.value = nav.seed;
+
+                    executionSelect.replaceChildren(...nav.executions.map((e) => {
+                        const option = document.createElement('option');
+                        option.value = e.id;
+                        option.textContent = e.label;
+                        return option;
+                    }));
+                    executionSelect.value = nav.executionId;
+                }
+
+                function createNavigationUI() {
+                    const container = document.getElementById('pahcer-zoom-controls');
+                    if (!container) {
+                        return;
+                    }
+
+                    const controlStyle = 'background: #444; color: white; border: none; padding: 0 8px; border-radius: 3px; font-size: 12px; box-sizing: border-box; height: 24px;';
+
+                    const prevButton = document.createElement('button');
+                    prevButton.id = 'pahcer-nav-prev';
+                    prevButton.textContent = '◀';
+                    prevButton.title = '前の Seed (Alt+←)';
+                    prevButton.style.cssText = controlStyle + ' cursor: pointer;';
+                    prevButton.onclick = () => moveSeed(-1);
+
+                    const seedBox = document.createElement('input');
+                    seedBox.id = 'pahcer-nav-seed';
+                    seedBox.type = 'number';
+                    seedBox.min = '0';
+                    seedBox.title = 'Seed';
+                    seedBox.style.cssText = controlStyle + ' width: 70px;';
+                    seedBox.onchange = () => {
+                        const nav = window.PAHCER_NAVIGATION;
+                        const seed = Number(seedBox.value);
+                        if (nav.seeds.includes(seed)) {
+                            navigateTo(seed, nav.executionId);
+                        } else {
+                            // This execution has no output for the seed
+                            seedBox.value = nav.seed;
+                        }
+                    };
+
+                    const nextButton = document.createElement('button');
+                    nextButton.id = 'pahcer-nav-next';
+                    nextButton.textContent = '▶';
+                    nextButton.title = '次の Seed (Alt+→)';
+                    nextButton.style.cssText = controlStyle + ' cursor: pointer;';
+                    nextButton.onclick = () => moveSeed(1);
+
+                    const executionSelect = document.createElement('select');
+                    executionSelect.id = 'pahcer-nav-execution';
+                    executionSelect.title = '実行 (Alt+↑/↓)';
+                    executionSelect.style.cssText = controlStyle + ' max-width: 240px;';
+                    executionSelect.onchange = () => {
+                        navigateTo(window.PAHCER_NAVIGATION.seed, executionSelect.value);
+                    };
+
+                    const separator = document.createElement('span');
+                    separator.style.cssText = 'width: 1px; height: 18px; background: #888; margin: 0 4px;';
+
+                    container.prepend(prevButton, seedBox, nextButton, executionSelect, separator);
+                    updateNavigation(window.PAHCER_NAVIGATION);
+                }
+
+                window.addEventListener('DOMContentLoaded', createNavigationUI);
+
+                window.addEventListener('message', (event) => {
+                    const message = event.data;
+                    if (message.type === 'updateTestCase' && message.navigation) {
+                        updateNavigation(message.navigation);
+                    }
+                });
+
+                window.addEventListener('keydown', (e) => {
+                    if (!e.altKey || e.ctrlKey || e.metaKey || e.shiftKey) {
+                        return;
+                    }
+                    const actions = {
+                        ArrowLeft: () => moveSeed(-1),
+                        ArrowRight: () => moveSeed(1),
+                        ArrowUp: () => moveExecution(-1),
+                        ArrowDown: () => moveExecution(1),
+                    };
+                    if (actions[e.key]) {
+                        e.preventDefault();
+                        actions[e.key]();
+                    }
+                });
+`;
+  }
+
+  /**
+   * 比較のパネル間でターン（スライダー）の位置を同期するスクリプトを生成
+   * AtCoder 公式ビジュアライザの #turn、なければ最初のスライダーを対象とし、再生中の変化も拾えるよう値を監視する
+   */
+  private getTurnSyncScript(): string {
+    return `
+                (function () {
+                    function findTurnSlider() {
+                        return document.getElementById('turn') || document.querySelector('input[type="range"]');
+                    }
+
+                    let lastTurn;
+                    setInterval(() => {
+                        const slider = findTurnSlider();
+                        if (!slider || slider.value === lastTurn) {
+                            return;
+                        }
+                        lastTurn = slider.value;
+                        vscode.postMessage({ type: 'turnChanged', turn: slider.value });
+                    }, 100);
+
+                    window.addEventListener('message', (event) => {
+                        const message = event.data;
+                        if (message.type !== 'setTurn') {
+                            return;
+                        }
+                        const slider = findTurnSlider();
+                        if (!slider || slider.value === message.turn) {
+                            return;
+                        }
+                        slider.value = message.turn;
+                        // Do not echo back the (possibly clamped) value
+                        lastTurn = slider.value;
+                        slider.dispatchEvent(new Event('input', { bubbles: true }));
+                        slider.dispatchEvent(new Event('change', { bubbles: true }));
+                    });
+                })();
+`;
+  }
+
+  /**
+   * HTML にスクリプトを注入
+   */
+  private injectScript(html: string, script: string): string {
+    const injection = `
+            <script>${script}
             </script>
         `;
 
+    // スクリプト中の $ が置換パターンとして解釈されないよう関数で置換する
     if (html.includes('</head>')) {
-      html = html.replace('</head>', `${injection}</head>`);
+      html = html.replace('</head>', () => `${injection}</head>`);
     } else if (html.includes('<body>')) {
-      html = html.replace('<body>', `<body>${injection}`);
+      html = html.replace('<body>', () => `<body>${injection}`);
     } else {
       html = injection + html;
     }
@@ -458,6 +1042,14 @@ export class VisualizerViewController {
     return html;
   }
 
+  /**
+   * 開いているパネル（比較のパネルを含む）を閉じる（ビジュアライザを入れ替えたときに使用）
+   */
+  closePanel(): void {
+    VisualizerViewController.currentPanel?.dispose();
+    this.closeComparison();
+  }
+
   /**
    * リセット（テスト用）
    */
@@ -467,5 +1059,11 @@ export class VisualizerViewController {
     }
     VisualizerViewController.panelDisposables = [];
     VisualizerViewController.currentPanel = undefined;
+    VisualizerViewController.currentPanelMode = undefined;
+    for (const disposable of VisualizerViewController.comparisonDisposables) {
+      disposable.dispose();
+    }
+    VisualizerViewController.comparisonDisposables = [];
+    VisualizerViewController.comparisonPanels = [];
   }
 }
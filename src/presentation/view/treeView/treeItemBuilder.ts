@@ -1,7 +1,14 @@
 import * as vscode from 'vscode';
+import type { RunProgress, SeedProgress } from '../../../domain/models/runProgress';
+import type { QueuedRun } from '../../../domain/models/runQueue';
+import type { SeedSet } from '../../../domain/models/seedSet';
 import type { TestCase } from '../../../domain/models/testCase';
+import { BaselineDeltaCalculator } from '../../../domain/services/baselineDeltaCalculator';
 import type { ExecutionStatsCalculator } from '../../../domain/services/executionStatsAggregator';
+import { ParameterSweep } from '../../../domain/services/parameterSweep';
+import { RelativeScoreCalculator } from '../../../domain/services/relativeScoreCalculator';
 import type { SeedStatsCalculator } from '../../../domain/services/seedStatsCalculator';
+import { TimeLimitClassifier } from '../../../domain/services/timeLimitClassifier';
 
 /**
  * TreeItem を生成するビルダー
@@ -9,25 +16,72 @@ import type { SeedStatsCalculator } from '../../../domain/services/seedStatsCalc
 export class TreeItemBuilder {
   /**
    * 実行結果のTreeItemを生成
+   * @param executionStats 実行の集計情報
+   * @param comparisonMode 比較モードかどうか
+   * @param isChecked チェック済みかどうか
+   * @param relativeScoreMethod 相対スコアの計算方式
+   * @param isBaseline 基準実行かどうか
+   * @param baselineDelta 基準実行との差分（基準実行が未設定または自身が基準の場合は undefined）
+   * @param timeLimit 実行時間制限
    */
   buildExecutionItem(
     executionStats: ExecutionStatsCalculator.ExecutionStats,
     comparisonMode: boolean,
     isChecked: boolean,
+    relativeScoreMethod: RelativeScoreCalculator.Method,
+    isBaseline: boolean,
+    baselineDelta: BaselineDeltaCalculator.ExecutionDelta | undefined,
+    timeLimit?: TimeLimitClassifier.TimeLimit,
   ): vscode.TreeItem {
     const time = executionStats.execution.getShortTitle();
     const avgScore = executionStats.averageScore.toFixed(1);
     const avgRel = executionStats.averageRelativeScore.toFixed(2);
 
-    const label = `${time} - Avg: ${avgScore} (${avgRel}%)`;
+    let label = `${time} - Avg: ${avgScore} (${avgRel}%)`;
+    if (executionStats.execution.partial) {
+      label = `[部分] ${label}`;
+    }
+    if (baselineDelta) {
+      const averageDelta = BaselineDeltaCalculator.format(
+        { absolute: baselineDelta.average, percentage: baselineDelta.total.percentage },
+        1,
+      );
+      label += ` Δ${averageDelta}`;
+    }
     const description =
       executionStats.execution.comment ||
       (executionStats.execution.tagName || '').replace('pahcer/', '');
 
     const treeItem = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.Collapsed);
-    treeItem.contextValue = 'execution';
+    treeItem.contextValue = isBaseline ? 'executionBaseline' : 'execution';
     treeItem.description = description;
 
+    const tooltipLines = [
+      `平均相対スコア（${RelativeScoreCalculator.methodLabel(relativeScoreMethod)}）: ${avgRel}%`,
+    ];
+    if (executionStats.execution.partial) {
+      tooltipLines.unshift(`部分実行（${executionStats.caseCount} ケース）`);
+    }
+    if (isBaseline) {
+      tooltipLines.unshift('基準実行');
+    } else if (baselineDelta) {
+      tooltipLines.push(
+        `基準実行との差（共通 ${baselineDelta.commonCount} ケース）: 合計 ${BaselineDeltaCalculator.format(baselineDelta.total)}`,
+      );
+    }
+    if (executionStats.execution.profileName) {
+      tooltipLines.push(`実行プロファイル: ${executionStats.execution.profileName}`);
+    }
+    if (Object.keys(executionStats.execution.params).length > 0) {
+      tooltipLines.push(`パラメータ: ${ParameterSweep.format(executionStats.execution.params)}`);
+    }
+    if (timeLimit) {
+      tooltipLines.push(
+        `TLE: ${executionStats.tleSeeds.length} ケース, TLE 寸前: ${executionStats.nearTleSeeds.length} ケース`,
+      );
+    }
+    treeItem.tooltip = tooltipLines.join('\n');
+
     // Add checkbox only in comparison mode
     if (comparisonMode) {
       treeItem.checkboxState = isChecked
@@ -35,8 +89,10 @@ export class TreeItemBuilder {
         : vscode.TreeItemCheckboxState.Unchecked;
     }
 
-    // Icon based on commit hash and AC status
-    if (executionStats.execution.commitHash) {
+    // Icon based on baseline, commit hash and AC status
+    if (isBaseline) {
+      treeItem.iconPath = new vscode.ThemeIcon('pinned', new vscode.ThemeColor('charts.purple'));
+    } else if (executionStats.execution.commitHash) {
       // Has commit hash - use git icon with appropriate color
       if (executionStats.waSeeds.length === 0) {
         treeItem.iconPath = new vscode.ThemeIcon(
@@ -79,24 +135,53 @@ export class TreeItemBuilder {
 
   /**
    * サマリーのTreeItemを生成
+   * @param executionStats 実行の集計情報
+   * @param timeLimit 実行時間制限（未設定の場合は TLE 件数を表示しない）
    */
-  buildSummaryItem(executionStats: ExecutionStatsCalculator.ExecutionStats): vscode.TreeItem {
-    const summaryLabel = `AC: ${executionStats.acCount}/${executionStats.caseCount}, Total Score: ${executionStats.totalScore.toLocaleString()}, Max Time: ${(executionStats.maxExecutionTime * 1000).toFixed(0)}ms`;
+  buildSummaryItem(
+    executionStats: ExecutionStatsCalculator.ExecutionStats,
+    timeLimit?: TimeLimitClassifier.TimeLimit,
+  ): vscode.TreeItem {
+    let summaryLabel = `AC: ${executionStats.acCount}/${executionStats.caseCount}, Total Score: ${executionStats.totalScore.toLocaleString()}, Max Time: ${(executionStats.maxExecutionTime * 1000).toFixed(0)}ms`;
+    if (timeLimit) {
+      summaryLabel += `, TLE: ${executionStats.tleSeeds.length}, Near TL: ${executionStats.nearTleSeeds.length}`;
+    }
     const summaryItem = new vscode.TreeItem(summaryLabel, vscode.TreeItemCollapsibleState.None);
     summaryItem.contextValue = 'summary';
     summaryItem.iconPath = new vscode.ThemeIcon('info');
+
+    if (timeLimit) {
+      const seedList = (seeds: number[]) =>
+        seeds.length > 0 ? seeds.map((seed) => String(seed).padStart(4, '0')).join(', ') : 'なし';
+      summaryItem.tooltip = [
+        `実行時間制限: ${timeLimit.limitMs}ms（警告ライン ${(timeLimit.warningRatio * 100).toFixed(0)}%）`,
+        `TLE: ${seedList(executionStats.tleSeeds)}`,
+        `TLE 寸前: ${seedList(executionStats.nearTleSeeds)}`,
+      ].join('\n');
+    }
     return summaryItem;
   }
 
   /**
    * テストケースのTreeItemを生成
    * @param testCase テストケース
-   * @param relativeScore 相対スコア（%）
+   * @param relativeScore 相対スコア（%、比較できない場合は undefined）
    * @param resultId 実行結果ID
+   * @param baselineDelta 基準実行との差分
+   * @param timeLimit 実行時間制限
    */
-  buildTestCaseItem(testCase: TestCase, relativeScore: number, resultId?: string): vscode.TreeItem {
+  buildTestCaseItem(
+    testCase: TestCase,
+    relativeScore: number | undefined,
+    resultId?: string,
+    baselineDelta?: BaselineDeltaCalculator.Delta,
+    timeLimit?: TimeLimitClassifier.TimeLimit,
+  ): vscode.TreeItem {
     const seedStr = String(testCase.id.seed).padStart(4, '0');
-    const label = `${seedStr}: ${testCase.score} (${relativeScore.toFixed(3)}%)`;
+    let label = `${seedStr}: ${testCase.score} (${this.formatRelativeScore(relativeScore)})`;
+    if (baselineDelta) {
+      label += ` Δ${BaselineDeltaCalculator.format(baselineDelta)}`;
+    }
     const description = `${(testCase.executionTime * 1000).toFixed(2)}ms`;
 
     const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None);
@@ -125,7 +210,7 @@ export class TreeItemBuilder {
     } else if (testCase.score === 0 || testCase.errorMessage) {
       item.iconPath = new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'));
       item.tooltip = testCase.errorMessage || 'WA';
-    } else {
+    } else if (!this.applyTimeLimitIcon(item, testCase, timeLimit)) {
       item.iconPath = new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'));
     }
 
@@ -152,28 +237,37 @@ export class TreeItemBuilder {
    * Seed別の実行結果のTreeItemを生成
    * @param time 実行時刻（短形式）
    * @param testCase テストケース
-   * @param relativeScore 相対スコア（%）
+   * @param relativeScore 相対スコア（%、比較できない場合は undefined）
    * @param seed Seed番号
    * @param resultId 実行結果ID
    * @param isLatest 最新実行かどうか
    * @param comparisonMode 比較モードかどうか
    * @param isChecked チェック済みかどうか
+   * @param isBaseline 基準実行かどうか
+   * @param baselineDelta 基準実行との差分
+   * @param timeLimit 実行時間制限
    */
   buildSeedExecutionItem(
     time: string,
     testCase: TestCase,
-    relativeScore: number,
+    relativeScore: number | undefined,
     seed: number,
     resultId: string,
     isLatest: boolean,
     comparisonMode: boolean,
     isChecked: boolean,
+    isBaseline: boolean,
+    baselineDelta: BaselineDeltaCalculator.Delta | undefined,
+    timeLimit?: TimeLimitClassifier.TimeLimit,
   ): vscode.TreeItem {
-    const label = `${time}: ${testCase.score.toLocaleString()} (${relativeScore.toFixed(3)}%)`;
+    let label = `${time}: ${testCase.score.toLocaleString()} (${this.formatRelativeScore(relativeScore)})`;
+    if (baselineDelta) {
+      label += ` Δ${BaselineDeltaCalculator.format(baselineDelta)}`;
+    }
     const description = `${(testCase.executionTime * 1000).toFixed(2)}ms`;
 
     const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None);
-    item.contextValue = 'execution';
+    item.contextValue = isBaseline ? 'executionBaseline' : 'execution';
     item.description = description;
 
     // Add checkbox for comparison mode
@@ -202,6 +296,9 @@ export class TreeItemBuilder {
     if (!testCase.foundOutput) {
       item.iconPath = new vscode.ThemeIcon('question', new vscode.ThemeColor('testing.iconQueued'));
       item.tooltip = '出力ファイルが保存されていません';
+    } else if (isBaseline) {
+      item.iconPath = new vscode.ThemeIcon('pinned', new vscode.ThemeColor('charts.purple'));
+      item.tooltip = '基準実行';
     } else if (isLatest) {
       item.iconPath = new vscode.ThemeIcon(
         'debug-stackframe-focused',
@@ -210,17 +307,154 @@ export class TreeItemBuilder {
     } else if (testCase.score === 0 || testCase.errorMessage) {
       item.iconPath = new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'));
       item.tooltip = testCase.errorMessage || 'WA';
-    } else {
+    } else if (!this.applyTimeLimitIcon(item, testCase, timeLimit)) {
       item.iconPath = new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'));
     }
 
     return item;
   }
 
+  /**
+   * 実行中の pahcer run のTreeItemを生成
+   * @param progress 実行中の進捗
+   */
+  buildRunningItem(progress: RunProgress): vscode.TreeItem {
+    const label = `実行中 - ${progress.completedCount}/${progress.total} (${progress.percentage.toFixed(1)}%)`;
+    const description =
+      progress.completedCount > 0
+        ? `AC: ${progress.acCount}/${progress.completedCount}, Avg: ${progress.averageScore.toFixed(1)}`
+        : '';
+
+    const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.Collapsed);
+    item.contextValue = 'running';
+    item.description = description;
+    item.iconPath = new vscode.ThemeIcon('sync~spin', new vscode.ThemeColor('charts.blue'));
+    item.tooltip = 'pahcer run を実行中です。完了したケースから順に表示されます';
+    return item;
+  }
+
+  /**
+   * 実行中の pahcer run で完了したケースのTreeItemを生成
+   * @param result 完了したケースの結果
+   * @param timeLimit 実行時間制限
+   */
+  buildRunningSeedItem(
+    result: SeedProgress,
+    timeLimit?: TimeLimitClassifier.TimeLimit,
+  ): vscode.TreeItem {
+    const seedStr = String(result.seed).padStart(4, '0');
+    const item = new vscode.TreeItem(
+      `${seedStr}: ${result.score.toLocaleString()}`,
+      vscode.TreeItemCollapsibleState.None,
+    );
+    item.contextValue = 'runningCase';
+    item.description = `${(result.executionTime * 1000).toFixed(0)}ms`;
+
+    const status = TimeLimitClassifier.classify(result.executionTime, timeLimit);
+    if (result.score <= 0) {
+      item.iconPath = new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'));
+      item.tooltip = 'WA';
+    } else if (timeLimit && status !== 'withinLimit') {
+      item.iconPath = new vscode.ThemeIcon(
+        'watch',
+        new vscode.ThemeColor(status === 'exceeded' ? 'testing.iconFailed' : 'testing.iconQueued'),
+      );
+      item.tooltip = `${status === 'exceeded' ? 'TLE' : 'TLE 寸前'}: ${TimeLimitClassifier.formatUsage(result.executionTime, timeLimit)}`;
+    } else {
+      item.iconPath = new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'));
+    }
+    return item;
+  }
+
   /**
    * 情報メッセージのTreeItemを生成
    */
   buildInfoItem(message: string): vscode.TreeItem {
     return new vscode.TreeItem(message, vscode.TreeItemCollapsibleState.None);
   }
+
+  /**
+   * 実行時間制限を超過・接近しているケースのアイコンとツールチップを設定
+   * @returns アイコンを設定した場合は true
+   */
+  private applyTimeLimitIcon(
+    item: vscode.TreeItem,
+    testCase: TestCase,
+    timeLimit: TimeLimitClassifier.TimeLimit | undefined,
+  ): boolean {
+    if (!timeLimit) {
+      return false;
+    }
+
+    switch (TimeLimitClassifier.classify(testCase.executionTime, timeLimit)) {
+      case 'exceeded':
+        item.iconPath = new vscode.ThemeIcon('watch', new vscode.ThemeColor('testing.iconFailed'));
+        item.tooltip = `TLE: ${TimeLimitClassifier.formatUsage(testCase.executionTime, timeLimit)}`;
+        return true;
+      case 'nearLimit':
+        item.iconPath = new vscode.ThemeIcon('watch', new vscode.ThemeColor('testing.iconQueued'));
+        item.tooltip = `TLE 寸前: ${TimeLimitClassifier.formatUsage(testCase.executionTime, timeLimit)}`;
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * 相対スコアを表示用にフォーマット（基準実行にない seed など比較できない場合は -）
+   */
+  private formatRelativeScore(relativeScore: number | undefined): string {
+    return relativeScore === undefined ? '-' : `${relativeScore.toFixed(3)}%`;
+  }
+
+  /**
+   * 絞り込み中の Seed セットのTreeItemを生成
+   * @param seedSet 絞り込み中の Seed セット
+   */
+  buildSeedSetFilterItem(seedSet: SeedSet): vscode.TreeItem {
+    const item = new vscode.TreeItem(
+      `Seed セット: ${seedSet.name}`,
+      vscode.TreeItemCollapsibleState.None,
+    );
+    item.contextValue = 'seedSetFilter';
+    item.description = `${seedSet.seeds.length} Seeds`;
+    item.iconPath = new vscode.ThemeIcon('filter-filled');
+    item.tooltip = [
+      `Seed セット「${seedSet.name}」に含まれるケースだけを表示しています`,
+      ...(seedSet.description ? [seedSet.description] : []),
+      'クリックで絞り込む Seed セットを変更',
+    ].join('\n');
+    item.command = {
+      command: 'pahcer-ui.filterBySeedSet',
+      title: 'Filter by Seed Set',
+    };
+    return item;
+  }
+
+  /**
+   * 実行キューのTreeItemを生成
+   * @param run キューに追加された実行
+   * @param position 実行待ちの順番（1 始まり）、実行中の場合は undefined
+   */
+  buildQueuedRunItem(run: QueuedRun, position: number | undefined): vscode.TreeItem {
+    const label =
+      position === undefined ? run.getSeedsText() : `${position}. ${run.getSeedsText()}`;
+    const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None);
+    item.contextValue = position === undefined ? 'queuedRunRunning' : 'queuedRun';
+    item.iconPath = new vscode.ThemeIcon(position === undefined ? 'sync~spin' : 'clock');
+
+    const env = Object.entries(run.options.env ?? {}).map(([name, value]) => `${name}=${value}`);
+    item.description = [
+      ...(position === undefined ? ['実行中'] : []),
+      ...(run.options.comment ? [run.options.comment] : []),
+      ...env,
+    ].join(' ');
+    item.tooltip = [
+      run.getSeedsText(),
+      ...(run.options.freezeBestScores ? ['ベストスコアを更新しない'] : []),
+      ...(run.options.comment ? [`コメント: ${run.options.comment}`] : []),
+      ...(env.length > 0 ? [`環境変数: ${env.join(' ')}`] : []),
+    ].join('\n');
+    return item;
+  }
 }
@@ -1,10 +1,14 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { postMessage } from '../shared/utils/vscode';
 import { ComparisonChart } from './components/ComparisonChart';
 import { ControlPanel } from './components/ControlPanel';
+import { PairedComparisonPanel } from './components/PairedComparisonPanel';
 import { StatsTable } from './components/StatsTable';
 import type { ComparisonData } from './types';
 
+/** Group label for cases that did not print the grouping tag */
+const MISSING_TAG_LABEL = '(なし)';
+
 interface Props {
   initialData: ComparisonData;
 }
@@ -22,6 +26,9 @@ export function ComparisonView({ initialData }: Props) {
   const [bestRankingExclude, setBestRankingExclude] = useState(
     initialData.config.bestRankingExclude ?? '',
   );
+  const [seedSetFilter, setSeedSetFilter] = useState(initialData.config.seedSetFilter ?? '');
+  const [tagFilter, setTagFilter] = useState(initialData.config.tagFilter ?? '');
+  const [groupByTag, setGroupByTag] = useState(initialData.config.groupByTag ?? '');
   const [skipFailed, setSkipFailed] = useState(true);
 
   // Listen for data updates from extension
@@ -38,6 +45,9 @@ export function ComparisonView({ initialData }: Props) {
         setFilter(message.data.config.filter);
         setBestRankingInclude(message.data.config.bestRankingInclude ?? '');
         setBestRankingExclude(message.data.config.bestRankingExclude ?? '');
+        setSeedSetFilter(message.data.config.seedSetFilter ?? '');
+        setTagFilter(message.data.config.tagFilter ?? '');
+        setGroupByTag(message.data.config.groupByTag ?? '');
       }
     };
 
@@ -57,29 +67,120 @@ export function ComparisonView({ initialData }: Props) {
         filter,
         bestRankingInclude,
         bestRankingExclude,
+        seedSetFilter,
+        tagFilter,
+        groupByTag,
       },
     });
-  }, [featureString, xAxis, yAxis, chartType, filter, bestRankingInclude, bestRankingExclude]);
+  }, [
+    featureString,
+    xAxis,
+    yAxis,
+    chartType,
+    filter,
+    bestRankingInclude,
+    bestRankingExclude,
+    seedSetFilter,
+    tagFilter,
+    groupByTag,
+  ]);
+
+  const inputFeatureNames = useMemo(
+    () => [
+      ...new Set(Object.values(data.inputFeatures).flatMap((features) => Object.keys(features))),
+    ],
+    [data],
+  );
+
+  // All `name=value` combinations of the stderr tags, for the tag filter
+  const tagValues = useMemo(() => {
+    const values = new Set<string>();
+    for (const tagsBySeed of Object.values(data.stderrTags)) {
+      for (const tags of Object.values(tagsBySeed)) {
+        for (const [name, value] of Object.entries(tags)) {
+          values.add(`${name}=${value}`);
+        }
+      }
+    }
+    return [...values].sort();
+  }, [data]);
+
+  // Restrict all panels to the seeds of the selected seed set and the cases with the selected tag
+  const filteredData = useMemo(() => {
+    const seedSet = data.seedSets.find((s) => s.name === seedSetFilter);
+    const tag = parseTagFilter(tagFilter);
+    if (!seedSet && !tag) {
+      return data;
+    }
+    const seeds = seedSet ? new Set(seedSet.seeds) : undefined;
+    return {
+      ...data,
+      results: data.results.map((result) => ({
+        ...result,
+        cases: result.cases.filter(
+          (c) =>
+            (!seeds || seeds.has(c.seed)) &&
+            (!tag || data.stderrTags[result.id]?.[c.seed]?.[tag.name] === tag.value),
+        ),
+      })),
+      seeds: seeds ? data.seeds.filter((seed) => seeds.has(seed)) : data.seeds,
+    };
+  }, [data, seedSetFilter, tagFilter]);
+
+  // Split each execution by the value of the grouping tag (chart and stats table only)
+  const groupedData = useMemo(() => {
+    if (groupByTag === '') {
+      return filteredData;
+    }
+    return {
+      ...filteredData,
+      results: filteredData.results.flatMap((result) => {
+        const casesByValue = new Map<string, typeof result.cases>();
+        for (const c of result.cases) {
+          const value =
+            filteredData.stderrTags[result.id]?.[c.seed]?.[groupByTag] ?? MISSING_TAG_LABEL;
+          casesByValue.set(value, [...(casesByValue.get(value) ?? []), c]);
+        }
+        return [...casesByValue.entries()]
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([value, cases]) => ({
+            ...result,
+            time: `${result.time} [${groupByTag}=${value}]`,
+            tagGroup: value,
+            cases,
+          }));
+      }),
+    };
+  }, [filteredData, groupByTag]);
 
   return (
     <div style={{ padding: '20px' }}>
       <ControlPanel
         featureString={featureString}
+        inputFeatureNames={inputFeatureNames}
         xAxis={xAxis}
         yAxis={yAxis}
         chartType={chartType}
         skipFailed={skipFailed}
         filter={filter}
+        seedSets={data.seedSets}
+        seedSetFilter={seedSetFilter}
+        tagValues={tagValues}
+        tagFilter={tagFilter}
+        groupByTag={groupByTag}
         onFeatureStringChange={setFeatureString}
         onXAxisChange={setXAxis}
         onYAxisChange={setYAxis}
         onChartTypeChange={setChartType}
         onSkipFailedChange={setSkipFailed}
         onFilterChange={setFilter}
+        onSeedSetFilterChange={setSeedSetFilter}
+        onTagFilterChange={setTagFilter}
+        onGroupByTagChange={setGroupByTag}
       />
 
       <ComparisonChart
-        data={data}
+        data={groupedData}
         featureString={featureString}
         xAxis={xAxis}
         yAxis={yAxis}
@@ -89,7 +190,7 @@ export function ComparisonView({ initialData }: Props) {
       />
 
       <StatsTable
-        data={data}
+        data={groupedData}
         featureString={featureString}
         filter={filter}
         bestRankingInclude={bestRankingInclude}
@@ -97,6 +198,21 @@ export function ComparisonView({ initialData }: Props) {
         onBestRankingIncludeChange={setBestRankingInclude}
         onBestRankingExcludeChange={setBestRankingExclude}
       />
+
+      {filteredData.results.length >= 2 && (
+        <PairedComparisonPanel data={filteredData} featureString={featureString} filter={filter} />
+      )}
     </div>
   );
 }
+
+/**
+ * Parse a tag filter of the form `name=value` (undefined if empty or malformed)
+ */
+function parseTagFilter(tagFilter: string): { name: string; value: string } | undefined {
+  const index = tagFilter.indexOf('=');
+  if (index <= 0) {
+    return undefined;
+  }
+  return { name: tagFilter.slice(0, index), value: tagFilter.slice(index + 1) };
+}
@@ -14,13 +14,9 @@ import {
 } from 'chart.js';
 import { useMemo, useState } from 'react';
 import { Line, Scatter } from 'react-chartjs-2';
-import {
-  buildChartVariables,
-  buildGroupChartVariables,
-  chartVariablesToScalars,
-} from '../../shared/utils/chartVariables';
-import { evaluateExpression } from '../../shared/utils/expression';
-import { parseFeatures } from '../../shared/utils/features';
+import { ChartVariables } from '../../../../../domain/services/chartVariables';
+import { ExpressionEvaluator } from '../../../../../domain/services/expressionEvaluator';
+import { getColorForResultId } from '../../shared/utils/colors';
 import { postMessage } from '../../shared/utils/vscode';
 import type { ChartDataPoint, ComparisonData } from '../types';
 
@@ -266,11 +262,13 @@ function prepareChartData(
   skipFailed: boolean,
   filter: string,
 ) {
-  const features = parseFeatures(featuresStr);
-  const { results, seeds, inputData, stderrData } = data;
+  const features = ChartVariables.parseFeatures(featuresStr);
+  const { results, seeds, inputData, inputFeatures, stderrData, timeLimitMs } = data;
 
   const datasets = results.map((result, _index) => {
-    const color = getColorForResultId(result.id);
+    const color = getColorForResultId(
+      result.tagGroup === undefined ? result.id : `${result.id}:${result.tagGroup}`,
+    );
     const filteredSeeds = seeds.filter((seed) => {
       if (!skipFailed) return true;
       const testCase = result.cases.find((c) => c.seed === seed);
@@ -291,7 +289,7 @@ function prepareChartData(
         if (!testCase) return null;
 
         const inputLine = inputData[seed] || '';
-        const variables = buildChartVariables({
+        const variables = ChartVariables.build({
           caseData: {
             seed,
             score: testCase.score,
@@ -300,13 +298,16 @@ function prepareChartData(
           },
           features,
           inputLine,
+          inputFeatures: inputFeatures[seed],
           stderrVars: stderrData[result.id]?.[seed] || {},
+          timeLimitMs,
+          params: result.params,
         });
 
         // Apply filter if specified
         if (filter.trim() !== '') {
           try {
-            const filterResult = evaluateExpression(filter, variables);
+            const filterResult = ExpressionEvaluator.evaluate(filter, variables);
             // Filter returns 1 for true, 0 for false
             if (filterResult[0] === 0) {
               return null; // Skip this seed
@@ -318,7 +319,7 @@ function prepareChartData(
         }
 
         try {
-          const xResult = evaluateExpression(xAxis, variables);
+          const xResult = ExpressionEvaluator.evaluate(xAxis, variables);
           const xValue = xResult[0]; // X must be scalar
           return { seed, xValue, testCase, inputLine };
         } catch {
@@ -340,7 +341,7 @@ function prepareChartData(
     // Step 3: For each group, evaluate Y axis with arrays
     const chartData: ChartDataPoint[] = [];
     for (const [xValue, group] of groupedByX.entries()) {
-      const variables = buildGroupChartVariables({
+      const variables = ChartVariables.buildGroup({
         group: group.map((d) => ({
           seed: d.seed,
           caseData: {
@@ -350,13 +351,16 @@ function prepareChartData(
             executionTime: d.testCase.executionTime,
           },
           inputLine: d.inputLine,
+          inputFeatures: inputFeatures[d.seed],
         })),
         features,
         getStderrVars: (seed) => stderrData[result.id]?.[seed] || {},
+        timeLimitMs,
+        params: result.params,
       });
 
       try {
-        const yResult = evaluateExpression(yAxis, variables);
+        const yResult = ExpressionEvaluator.evaluate(yAxis, variables);
 
         // If yResult length matches group length, create one point per seed (not aggregated)
         if (yResult.length === group.length) {
@@ -366,8 +370,8 @@ function prepareChartData(
               y: yResult[i],
               resultId: result.id,
               seed: group[i].seed,
-              variables: chartVariablesToScalars(
-                buildChartVariables({
+              variables: ChartVariables.toScalars(
+                ChartVariables.build({
                   caseData: {
                     seed: group[i].seed,
                     score: group[i].testCase.score,
@@ -376,7 +380,10 @@ function prepareChartData(
                   },
                   features,
                   inputLine: group[i].inputLine,
+                  inputFeatures: inputFeatures[group[i].seed],
                   stderrVars: stderrData[result.id]?.[group[i].seed] || {},
+                  timeLimitMs,
+                  params: result.params,
                 }),
               ),
             });
@@ -390,7 +397,7 @@ function prepareChartData(
             seed: group[0].seed, // Representative seed (not used for single-seed navigation)
             variables: {}, // No specific variables for aggregated point
             group: group.map((g) => {
-              const singleVars = buildChartVariables({
+              const singleVars = ChartVariables.build({
                 caseData: {
                   seed: g.seed,
                   score: g.testCase.score,
@@ -399,11 +406,14 @@ function prepareChartData(
                 },
                 features,
                 inputLine: g.inputLine,
+                inputFeatures: inputFeatures[g.seed],
                 stderrVars: stderrData[result.id]?.[g.seed] || {},
+                timeLimitMs,
+                params: result.params,
               });
 
               try {
-                const singleY = evaluateExpression(yAxis, singleVars);
+                const singleY = ExpressionEvaluator.evaluate(yAxis, singleVars);
                 return { seed: g.seed, y: singleY[0] };
               } catch {
                 return { seed: g.seed, y: g.testCase.score };
@@ -439,16 +449,3 @@ function prepareChartData(
     yAxisLabel: yAxis,
   };
 }
-
-function getColorForResultId(resultId: string): string {
-  let hash = 0;
-  for (let i = 0; i < resultId.length; i++) {
-    hash = resultId.charCodeAt(i) + ((hash << 5) - hash);
-  }
-
-  const hue = Math.abs(hash % 360);
-  const saturation = 70 + (Math.abs(hash >> 8) % 20);
-  const lightness = 50 + (Math.abs(hash >> 16) % 20);
-
-  return `hsl(${hue}, ${saturation}%, ${lightness}%)`;
-}
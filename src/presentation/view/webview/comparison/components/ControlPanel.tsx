@@ -1,38 +1,59 @@
-import { BUILTIN_CHART_VARIABLES } from '../../shared/utils/chartVariables';
-import { isValidExpression } from '../../shared/utils/expression';
-import { parseFeatures } from '../../shared/utils/features';
+import { ChartVariables } from '../../../../../domain/services/chartVariables';
+import { ExpressionEvaluator } from '../../../../../domain/services/expressionEvaluator';
+import type { SeedSetData } from '../types';
 
 interface Props {
   featureString: string;
+  /** Names of the features extracted by the configured rules / script */
+  inputFeatureNames: string[];
   xAxis: string;
   yAxis: string;
   chartType: 'line' | 'scatter';
   skipFailed: boolean;
   filter: string;
+  seedSets: SeedSetData[];
+  seedSetFilter: string;
+  /** All `name=value` combinations of the stderr tags */
+  tagValues: string[];
+  tagFilter: string;
+  groupByTag: string;
   onFeatureStringChange: (value: string) => void;
   onXAxisChange: (value: string) => void;
   onYAxisChange: (value: string) => void;
   onChartTypeChange: (value: 'line' | 'scatter') => void;
   onSkipFailedChange: (value: boolean) => void;
   onFilterChange: (value: string) => void;
+  onSeedSetFilterChange: (value: string) => void;
+  onTagFilterChange: (value: string) => void;
+  onGroupByTagChange: (value: string) => void;
 }
 
 export function ControlPanel({
   featureString,
+  inputFeatureNames,
   xAxis,
   yAxis,
   chartType,
   skipFailed,
   filter,
+  seedSets,
+  seedSetFilter,
+  tagValues,
+  tagFilter,
+  groupByTag,
   onFeatureStringChange,
   onXAxisChange,
   onYAxisChange,
   onChartTypeChange,
   onSkipFailedChange,
   onFilterChange,
+  onSeedSetFilterChange,
+  onTagFilterChange,
+  onGroupByTagChange,
 }: Props) {
-  const features = parseFeatures(featureString);
-  const variableNames = [...BUILTIN_CHART_VARIABLES, ...features];
+  const features = ChartVariables.parseFeatures(featureString);
+  const tagNames = [...new Set(tagValues.map((tag) => tag.slice(0, tag.indexOf('='))))];
+  const variableNames = [...ChartVariables.BUILTIN_NAMES, ...features, ...inputFeatureNames];
 
   const sectionStyle = {
     marginBottom: '20px',
@@ -60,9 +81,9 @@ export function ControlPanel({
     border: '1px solid var(--vscode-input-border)',
   };
 
-  const isXAxisValid = isValidExpression(xAxis, variableNames);
-  const isYAxisValid = isValidExpression(yAxis, variableNames);
-  const isFilterValid = filter.trim() === '' || isValidExpression(filter, variableNames);
+  const isXAxisValid = ExpressionEvaluator.isValid(xAxis, variableNames);
+  const isYAxisValid = ExpressionEvaluator.isValid(yAxis, variableNames);
+  const isFilterValid = filter.trim() === '' || ExpressionEvaluator.isValid(filter, variableNames);
 
   const xAxisInputStyle = {
     ...inputStyle,
@@ -103,6 +124,11 @@ export function ControlPanel({
             onChange={(e) => onFeatureStringChange(e.target.value)}
             placeholder="例: N M K"
             style={{ ...inputStyle, width: '300px' }}
+            title={
+              inputFeatureNames.length > 0
+                ? `抽出ルール・スクリプトの特徴量: ${inputFeatureNames.join(' ')}`
+                : ''
+            }
           />
         </label>
         <label style={labelStyle}>
@@ -116,6 +142,64 @@ export function ControlPanel({
             title={isFilterValid ? '' : '式が不正です'}
           />
         </label>
+        <label style={labelStyle}>
+          Seed セット:
+          <select
+            style={inputStyle}
+            value={seedSetFilter}
+            onChange={(e) => onSeedSetFilterChange(e.target.value)}
+          >
+            <option value="">すべて</option>
+            {seedSets.map((seedSet) => (
+              <option key={seedSet.name} value={seedSet.name}>
+                {seedSet.name} ({seedSet.seeds.length})
+              </option>
+            ))}
+            {seedSetFilter !== '' && !seedSets.some((s) => s.name === seedSetFilter) && (
+              <option value={seedSetFilter}>{seedSetFilter} (見つかりません)</option>
+            )}
+          </select>
+        </label>
+        {(tagValues.length > 0 || tagFilter !== '' || groupByTag !== '') && (
+          <>
+            <label style={labelStyle}>
+              タグ:
+              <select
+                style={inputStyle}
+                value={tagFilter}
+                onChange={(e) => onTagFilterChange(e.target.value)}
+              >
+                <option value="">すべて</option>
+                {tagValues.map((tag) => (
+                  <option key={tag} value={tag}>
+                    {tag}
+                  </option>
+                ))}
+                {tagFilter !== '' && !tagValues.includes(tagFilter) && (
+                  <option value={tagFilter}>{tagFilter} (見つかりません)</option>
+                )}
+              </select>
+            </label>
+            <label style={labelStyle}>
+              グループ:
+              <select
+                style={inputStyle}
+                value={groupByTag}
+                onChange={(e) => onGroupByTagChange(e.target.value)}
+              >
+                <option value="">なし</option>
+                {tagNames.map((name) => (
+                  <option key={name} value={name}>
+                    {name}
+                  </option>
+                ))}
+                {groupByTag !== '' && !tagNames.includes(groupByTag) && (
+                  <option value={groupByTag}>{groupByTag} (見つかりません)</option>
+                )}
+              </select>
+            </label>
+          </>
+        )}
       </div>
       {/* Second row: Chart type, X-axis, Y-axis, Skip Failed */}
       <div style={{ ...controlsStyle, marginTop: '10px' }}>
@@ -277,8 +361,15 @@ export function ControlPanel({
             </li>
           </ul>
           <p style={{ marginTop: '0', marginBottom: '10px' }}>
-            <strong>標準エラー出力の変数:</strong> 標準エラー出力の先頭100行と末尾100行から{' '}
-            <code>$varname = value</code> 形式で抽出 (末尾の値が同名変数より優先)
+            <strong>標準エラー出力の変数:</strong>{' '}
+            標準エラー出力全体から、コマンド「標準エラー出力の形式を設定...」で選択した形式 (
+            <code>$varname = value</code>, JSON Lines, <code>name: value</code>, 独自の正規表現)
+            で抽出 (同名の変数は最後の値)
+          </p>
+          <p style={{ marginTop: '0', marginBottom: '10px' }}>
+            <strong>タグ:</strong> 標準エラー出力の値のうち数値でないもの (例:{' '}
+            <code>$mode = greedy</code>
+            )。「タグ」で値が一致するケースだけに絞り込み、「グループ」で実行をタグの値ごとに分けてグラフ・統計テーブルに表示します
           </p>
           <p style={{ marginTop: '0', marginBottom: '10px' }}>
             <strong>Filter:</strong>{' '}
@@ -289,6 +380,10 @@ export function ControlPanel({
               例: <code>N &gt;= 100</code>, <code>N == 50</code>, <code>N * M &lt;= 1000</code>
             </li>
           </ul>
+          <p style={{ marginTop: '0', marginBottom: '10px' }}>
+            <strong>Seed セット:</strong> 選択した Seed セットに含まれる Seed だけを表示（Filter
+            と併用可能）。Seed セットはコマンド「Seed セットを作成...」で作成します
+          </p>
           <p style={{ marginTop: '0', marginBottom: '10px' }}>
             <strong>グラフタイプ:</strong> 折れ線は X 値の昇順で点を結び、散布図は点のみを表示します
           </p>
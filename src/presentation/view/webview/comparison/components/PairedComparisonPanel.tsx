@@ -0,0 +1,265 @@
+import { useMemo, useState } from 'react';
+import { ChartVariables } from '../../../../../domain/services/chartVariables';
+import { ExpressionEvaluator } from '../../../../../domain/services/expressionEvaluator';
+import { PairedComparisonCalculator } from '../../../../../domain/services/pairedComparisonCalculator';
+import type { ComparisonData, PairedComparisonStats, ResultData } from '../types';
+
+/** 有意とみなす p 値の閾値 */
+const SIGNIFICANCE_LEVEL = 0.05;
+
+interface Props {
+  data: ComparisonData;
+  featureString: string;
+  filter: string;
+}
+
+export function PairedComparisonPanel({ data, featureString, filter }: Props) {
+  // 既定では古い実行を基準、新しい実行を比較対象にする
+  const defaultOrder = useMemo(
+    () => [...data.results].sort((a, b) => a.time.localeCompare(b.time)),
+    [data.results],
+  );
+  const [baseId, setBaseId] = useState<string | undefined>(undefined);
+  const [targetId, setTargetId] = useState<string | undefined>(undefined);
+
+  const base = data.results.find((r) => r.id === baseId) ?? defaultOrder[defaultOrder.length - 2];
+  const target =
+    data.results.find((r) => r.id === targetId && r.id !== base?.id) ??
+    [...defaultOrder].reverse().find((r) => r.id !== base?.id);
+
+  const stats = useMemo(
+    () =>
+      base && target ? calculatePairedStats(data, base, target, featureString, filter) : undefined,
+    [data, base, target, featureString, filter],
+  );
+
+  if (!base || !target || !stats) {
+    return null;
+  }
+
+  const sectionStyle = {
+    marginBottom: '20px',
+    padding: '10px',
+    border: '1px solid var(--vscode-panel-border)',
+  };
+
+  const tableStyle = {
+    width: '100%',
+    borderCollapse: 'collapse' as const,
+  };
+
+  const cellStyle = {
+    padding: '8px',
+    textAlign: 'left' as const,
+  };
+
+  const thStyle = {
+    ...cellStyle,
+    borderBottom: '1px solid var(--vscode-panel-border)',
+    fontWeight: 'bold' as const,
+    width: '220px',
+  };
+
+  const inputStyle = {
+    padding: '4px 8px',
+    backgroundColor: 'var(--vscode-input-background)',
+    color: 'var(--vscode-input-foreground)',
+    border: '1px solid var(--vscode-input-border)',
+  };
+
+  const labelStyle = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    fontSize: '0.9em',
+  };
+
+  const controlsStyle = {
+    display: 'flex',
+    gap: '10px',
+    flexWrap: 'wrap' as const,
+    marginBottom: '10px',
+  };
+
+  const { signTest, wilcoxon, bootstrap } = stats;
+
+  return (
+    <div style={sectionStyle}>
+      <div
+        style={{
+          marginBottom: '10px',
+          fontSize: '0.9em',
+          color: 'var(--vscode-descriptionForeground)',
+        }}
+      >
+        ペア比較（共通 Seed 上の相対スコア差: 比較対象 − 基準）
+      </div>
+      <div style={controlsStyle}>
+        <label style={labelStyle}>
+          基準:
+          <select style={inputStyle} value={base.id} onChange={(e) => setBaseId(e.target.value)}>
+            {data.results.map((r) => (
+              <option key={r.id} value={r.id}>
+                {r.time}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={labelStyle}>
+          比較対象:
+          <select
+            style={inputStyle}
+            value={target.id}
+            onChange={(e) => setTargetId(e.target.value)}
+          >
+            {data.results
+              .filter((r) => r.id !== base.id)
+              .map((r) => (
+                <option key={r.id} value={r.id}>
+                  {r.time}
+                </option>
+              ))}
+          </select>
+        </label>
+      </div>
+      {stats.pairCount === 0 ? (
+        <div style={{ fontSize: '0.9em' }}>共通の Seed がありません</div>
+      ) : (
+        <table style={tableStyle}>
+          <tbody>
+            <tr>
+              <th style={thStyle}>共通 Seed 数</th>
+              <td style={cellStyle}>{stats.pairCount}</td>
+            </tr>
+            <tr>
+              <th style={thStyle}>平均相対スコア差</th>
+              <td style={cellStyle}>
+                {bootstrap ? (
+                  <>
+                    {formatSigned(bootstrap.mean)}% ({Math.round(bootstrap.confidence * 100)}% CI:{' '}
+                    {formatSigned(bootstrap.lower)}% 〜 {formatSigned(bootstrap.upper)}%)
+                    {(bootstrap.lower > 0 || bootstrap.upper < 0) && ' *'}
+                  </>
+                ) : (
+                  '-'
+                )}
+              </td>
+            </tr>
+            <tr>
+              <th style={thStyle}>符号検定</th>
+              <td style={cellStyle}>
+                勝 {signTest.wins} / 負 {signTest.losses} / 分 {signTest.ties}, p ={' '}
+                {formatPValue(signTest.pValue)}
+              </td>
+            </tr>
+            <tr>
+              <th style={thStyle}>Wilcoxon 符号付き順位検定</th>
+              <td style={cellStyle}>
+                W+ = {wilcoxon.wPlus.toLocaleString()}, W− = {wilcoxon.wMinus.toLocaleString()}, p ={' '}
+                {formatPValue(wilcoxon.pValue)}
+                {wilcoxon.n > 0 && (wilcoxon.exact ? '（厳密）' : '（正規近似）')}
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      )}
+      <div
+        style={{
+          marginTop: '8px',
+          fontSize: '0.85em',
+          color: 'var(--vscode-descriptionForeground)',
+        }}
+      >
+        * は有意水準 {SIGNIFICANCE_LEVEL} で有意な差を示します。符号検定は絶対スコアの勝敗（WA
+        は最下位扱い）、Wilcoxon 検定とブートストラップは相対スコア差を使用します。
+      </div>
+    </div>
+  );
+}
+
+function calculatePairedStats(
+  data: ComparisonData,
+  base: ResultData,
+  target: ResultData,
+  featuresStr: string,
+  filter: string,
+): PairedComparisonStats {
+  const { inputData, inputFeatures, stderrData, objective, timeLimitMs } = data;
+  const features = ChartVariables.parseFeatures(featuresStr);
+
+  const baseCases = new Map(base.cases.map((c) => [c.seed, c]));
+  const targetCases = new Map(target.cases.map((c) => [c.seed, c]));
+
+  // フィルタは両方の実行で真になる Seed のみを対象にする
+  const passesFilter = (result: ResultData, seed: number) => {
+    if (filter.trim() === '') return true;
+    const testCase = result.id === base.id ? baseCases.get(seed) : targetCases.get(seed);
+    if (!testCase) return false;
+
+    const variables = ChartVariables.build({
+      caseData: testCase,
+      features,
+      inputLine: inputData[seed] || '',
+      inputFeatures: inputFeatures[seed],
+      stderrVars: stderrData[result.id]?.[seed] || {},
+      timeLimitMs,
+      params: result.params,
+    });
+
+    try {
+      return ExpressionEvaluator.evaluate(filter, variables)[0] === 1;
+    } catch (e) {
+      console.warn(`Filter evaluation failed for seed ${seed}:`, e);
+      return false;
+    }
+  };
+
+  const relativeScoreDiffs: number[] = [];
+  const outcomes: number[] = [];
+  for (const [seed, baseCase] of baseCases) {
+    const targetCase = targetCases.get(seed);
+    if (!targetCase || !passesFilter(base, seed) || !passesFilter(target, seed)) {
+      continue;
+    }
+
+    if (targetCase.relativeScore === undefined || baseCase.relativeScore === undefined) {
+      continue;
+    }
+
+    relativeScoreDiffs.push(targetCase.relativeScore - baseCase.relativeScore);
+    outcomes.push(compareScores(targetCase.score, baseCase.score, objective));
+  }
+
+  return {
+    baseName: base.time,
+    targetName: target.time,
+    pairCount: relativeScoreDiffs.length,
+    relativeScoreDiffs,
+    signTest: PairedComparisonCalculator.signTest(outcomes),
+    wilcoxon: PairedComparisonCalculator.wilcoxonSignedRank(relativeScoreDiffs),
+    bootstrap: PairedComparisonCalculator.bootstrapMeanInterval(relativeScoreDiffs),
+  };
+}
+
+/**
+ * 絶対スコアの優劣を返す（正: target が良い、負: base が良い、0: 同点）
+ * WA（スコア0以下）は objective によらず最下位として扱う
+ */
+function compareScores(target: number, base: number, objective: 'max' | 'min'): number {
+  const targetFailed = target <= 0;
+  const baseFailed = base <= 0;
+  if (targetFailed || baseFailed) {
+    return Number(baseFailed) - Number(targetFailed);
+  }
+  return objective === 'max' ? Math.sign(target - base) : Math.sign(base - target);
+}
+
+function formatSigned(value: number): string {
+  const sign = value > 0 ? '+' : '';
+  return `${sign}${value.toFixed(3)}`;
+}
+
+function formatPValue(pValue: number): string {
+  const text = pValue < 0.0001 ? '< 0.0001' : pValue.toFixed(4);
+  return pValue < SIGNIFICANCE_LEVEL ? `${text} *` : text;
+}
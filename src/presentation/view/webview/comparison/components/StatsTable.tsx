@@ -1,9 +1,10 @@
 import { useMemo } from 'react';
+import { BaselineDeltaCalculator } from '../../../../../domain/services/baselineDeltaCalculator';
 import { BestRankingCalculator } from '../../../../../domain/services/bestRankingCalculator';
 import { BestScoreCalculator } from '../../../../../domain/services/bestScoreCalculator';
-import { buildChartVariables } from '../../shared/utils/chartVariables';
-import { evaluateExpression } from '../../shared/utils/expression';
-import { parseFeatures } from '../../shared/utils/features';
+import { ChartVariables } from '../../../../../domain/services/chartVariables';
+import { ExpressionEvaluator } from '../../../../../domain/services/expressionEvaluator';
+import { RelativeScoreCalculator } from '../../../../../domain/services/relativeScoreCalculator';
 import type { ComparisonData, StatsRow } from '../types';
 
 interface Props {
@@ -112,9 +113,13 @@ export function StatsTable({
             <th style={thStyle}>実行</th>
             <th style={thStyle}>スコア合計</th>
             <th style={thStyle}>Mean ± SD</th>
+            <th style={thStyle}>
+              平均相対スコア（{RelativeScoreCalculator.methodLabel(data.relativeScoreMethod)}）
+            </th>
             <th style={thStyle}>#Best</th>
             <th style={thStyle}>#Unique</th>
             <th style={thStyle}>#Fail</th>
+            {data.baselineExecutionId && <th style={thStyle}>基準との差（合計）</th>}
             {filter.trim() !== '' && <th style={thStyle}>フィルタ後件数</th>}
           </tr>
         </thead>
@@ -126,9 +131,19 @@ export function StatsTable({
               <td style={cellStyle}>
                 {stat.mean.toLocaleString()} ± {stat.sd.toLocaleString()}
               </td>
+              <td style={cellStyle}>{stat.meanRelativeScore.toFixed(3)}%</td>
               <td style={cellStyle}>{stat.bestCount}</td>
               <td style={cellStyle}>{stat.uniqueBestCount}</td>
               <td style={cellStyle}>{stat.failCount}</td>
+              {data.baselineExecutionId && (
+                <td style={cellStyle}>
+                  {stat.isBaseline
+                    ? '基準'
+                    : stat.baselineDelta
+                      ? BaselineDeltaCalculator.format(stat.baselineDelta)
+                      : '-'}
+                </td>
+              )}
               {filter.trim() !== '' && (
                 <td style={cellStyle}>
                   {stat.filteredCount}/{stat.totalCount}
@@ -150,8 +165,17 @@ function calculateStats(
   bestRankingExclude: string,
 ): StatsRow[] {
   const stats: StatsRow[] = [];
-  const { results, seeds, inputData, stderrData, rankingPool, objective } = data;
-  const features = parseFeatures(featuresStr);
+  const {
+    results,
+    seeds,
+    inputData,
+    inputFeatures,
+    stderrData,
+    rankingPool,
+    objective,
+    timeLimitMs,
+  } = data;
+  const features = ChartVariables.parseFeatures(featuresStr);
 
   const filteredRankingPool = BestRankingCalculator.filterByComment(
     rankingPool,
@@ -166,6 +190,8 @@ function calculateStats(
     filteredRankingPool,
     bestScores,
   );
+  const baselineEntry = rankingPool.find((entry) => entry.id === data.baselineExecutionId);
+  const baselineScores = new Map(baselineEntry?.cases.map((c) => [c.seed, c.score]) ?? []);
 
   for (const result of results) {
     // Apply filter for this specific result
@@ -176,7 +202,7 @@ function calculateStats(
       const testCase = result.cases.find((c) => c.seed === seed);
       if (!testCase) return false;
 
-      const variables = buildChartVariables({
+      const variables = ChartVariables.build({
         caseData: {
           seed,
           score: testCase.score,
@@ -185,11 +211,14 @@ function calculateStats(
         },
         features,
         inputLine,
+        inputFeatures: inputFeatures[seed],
         stderrVars: stderrData[result.id]?.[seed] || {},
+        timeLimitMs,
+        params: result.params,
       });
 
       try {
-        const filterResult = evaluateExpression(filter, variables);
+        const filterResult = ExpressionEvaluator.evaluate(filter, variables);
         return filterResult[0] === 1;
       } catch (e) {
         console.warn(`Filter evaluation failed for seed ${seed}:`, e);
@@ -203,10 +232,17 @@ function calculateStats(
     let bestCount = 0;
     let uniqueBestCount = 0;
     let failCount = 0;
+    let totalRelativeScore = 0;
+    let relativeScoreCount = 0;
 
     for (const seed of filteredSeeds) {
       const testCase = result.cases.find((c) => c.seed === seed);
       if (testCase) {
+        // 基準実行にない seed など比較できないものは平均から除く
+        if (testCase.relativeScore !== undefined) {
+          totalRelativeScore += testCase.relativeScore;
+          relativeScoreCount++;
+        }
         if (testCase.score > 0) {
           scores.push(testCase.score);
           totalScore += testCase.score;
@@ -233,6 +269,15 @@ function calculateStats(
         : 0;
     const sd = Math.sqrt(variance);
 
+    const isBaseline = result.id === data.baselineExecutionId;
+    const baselineDelta =
+      baselineEntry && !isBaseline
+        ? BaselineDeltaCalculator.calculateExecution(
+            result.cases.filter((c) => filteredSeeds.includes(c.seed)),
+            baselineScores,
+          )?.total
+        : undefined;
+
     stats.push({
       name: result.time,
       totalScore,
@@ -241,6 +286,9 @@ function calculateStats(
       bestCount,
       uniqueBestCount,
       failCount,
+      baselineDelta,
+      isBaseline,
+      meanRelativeScore: relativeScoreCount > 0 ? totalRelativeScore / relativeScoreCount : 0,
       filteredCount: filteredSeeds.length,
       totalCount: seeds.length,
     });
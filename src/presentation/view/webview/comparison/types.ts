@@ -1,7 +1,12 @@
+import type { BaselineDeltaCalculator } from '../../../../domain/services/baselineDeltaCalculator';
+import type { PairedComparisonCalculator } from '../../../../domain/services/pairedComparisonCalculator';
+import type { RelativeScoreCalculator } from '../../../../domain/services/relativeScoreCalculator';
+
 export interface TestCase {
   seed: number;
   score: number;
-  relativeScore: number;
+  /** Undefined when the seed cannot be compared (e.g. missing from the baseline execution) */
+  relativeScore?: number;
   executionTime: number; // in seconds
 }
 
@@ -9,6 +14,10 @@ export interface ResultData {
   id: string;
   time: string;
   cases: TestCase[];
+  /** Parameter values the execution was run with, exposed as chart variables */
+  params?: Record<string, number>;
+  /** Tag value of the group when the execution is split by a stderr tag */
+  tagGroup?: string;
 }
 
 export interface RankingPoolEntry {
@@ -25,19 +34,41 @@ export interface ComparisonConfig {
   filter: string;
   bestRankingInclude: string;
   bestRankingExclude: string;
+  /** Name of the seed set to restrict the comparison to ('' = all seeds) */
+  seedSetFilter: string;
+  /** stderr tag to restrict the comparison to, as `name=value` ('' = no restriction) */
+  tagFilter: string;
+  /** Name of the stderr tag to split each execution by ('' = no grouping) */
+  groupByTag: string;
+}
+
+export interface SeedSetData {
+  name: string;
+  seeds: number[];
 }
 
 export interface ComparisonData {
   results: ResultData[];
   seeds: number[];
   inputData: Record<number, string>;
+  /** Features extracted from each seed's input file by the configured rules / script */
+  inputFeatures: Record<number, Record<string, number>>;
   stderrData: Record<string, Record<number, Record<string, number>>>; // resultId -> seed -> variables
+  stderrTags: Record<string, Record<number, Record<string, string>>>; // resultId -> seed -> tags
   rankingPool: RankingPoolEntry[];
   /**
    * Optimization direction of the score ('max' = maximize, 'min' = minimize).
    * Used to determine #Best / #Unique in the stats table.
    */
   objective: 'max' | 'min';
+  /** Method used to compute relativeScore of each test case */
+  relativeScoreMethod: RelativeScoreCalculator.Method;
+  /** ID of the pinned baseline execution (undefined if not pinned) */
+  baselineExecutionId?: string;
+  /** Time limit in milliseconds, exposed as the `tl` chart variable (undefined if not configured) */
+  timeLimitMs?: number;
+  /** Named seed sets available as a filter */
+  seedSets: SeedSetData[];
   config: ComparisonConfig;
 }
 
@@ -59,6 +90,23 @@ export interface StatsRow {
   bestCount: number;
   uniqueBestCount: number;
   failCount: number;
+  /** Mean relative score over filtered seeds (failures count as 0) */
+  meanRelativeScore: number;
+  /** Total score delta against the baseline over common filtered seeds */
+  baselineDelta: BaselineDeltaCalculator.Delta | undefined;
+  isBaseline: boolean;
   filteredCount: number;
   totalCount: number;
 }
+
+export interface PairedComparisonStats {
+  baseName: string;
+  targetName: string;
+  /** Number of seeds present in both executions (after filter) */
+  pairCount: number;
+  /** Per-seed relative score differences (target - base) */
+  relativeScoreDiffs: number[];
+  signTest: PairedComparisonCalculator.SignTestResult;
+  wilcoxon: PairedComparisonCalculator.WilcoxonResult;
+  bootstrap: PairedComparisonCalculator.BootstrapResult | undefined;
+}
@@ -0,0 +1,473 @@
+import { type CSSProperties, useEffect, useId, useState } from 'react';
+import { postMessage } from '../shared/utils/vscode';
+import type { PahcerSettingsData, PahcerStep } from './types';
+
+const labelStyle: CSSProperties = {
+  fontSize: '14px',
+  fontWeight: 'bold',
+};
+
+const fieldStyle: CSSProperties = {
+  display: 'flex',
+  flexDirection: 'column',
+  gap: '8px',
+};
+
+const inputStyle: CSSProperties = {
+  padding: '6px 8px',
+  backgroundColor: 'var(--vscode-input-background)',
+  color: 'var(--vscode-input-foreground)',
+  border: '1px solid var(--vscode-input-border)',
+  fontSize: '13px',
+};
+
+const monospaceInputStyle: CSSProperties = {
+  ...inputStyle,
+  fontFamily: 'var(--vscode-editor-font-family)',
+};
+
+const descriptionStyle: CSSProperties = {
+  fontSize: '12px',
+  color: 'var(--vscode-descriptionForeground)',
+  marginTop: '4px',
+};
+
+const buttonStyle: CSSProperties = {
+  padding: '8px 16px',
+  border: 'none',
+  cursor: 'pointer',
+  fontSize: '13px',
+};
+
+const primaryButtonStyle: CSSProperties = {
+  ...buttonStyle,
+  backgroundColor: 'var(--vscode-button-background)',
+  color: 'var(--vscode-button-foreground)',
+};
+
+const secondaryButtonStyle: CSSProperties = {
+  ...buttonStyle,
+  backgroundColor: 'var(--vscode-button-secondaryBackground)',
+  color: 'var(--vscode-button-secondaryForeground)',
+};
+
+const smallButtonStyle: CSSProperties = {
+  ...secondaryButtonStyle,
+  padding: '2px 8px',
+};
+
+const emptyStep: PahcerStep = { program: '', args: [], measureTime: false };
+
+/**
+ * Labeled text input
+ */
+function TextField({
+  label,
+  value,
+  onChange,
+  description,
+  monospace,
+}: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  description?: string;
+  monospace?: boolean;
+}) {
+  const id = useId();
+  return (
+    <div style={fieldStyle}>
+      <label htmlFor={id} style={labelStyle}>
+        {label}
+      </label>
+      <input
+        id={id}
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        style={monospace ? monospaceInputStyle : inputStyle}
+      />
+      {description && <div style={descriptionStyle}>{description}</div>}
+    </div>
+  );
+}
+
+/**
+ * Labeled non-negative integer input (empty input is rejected on save)
+ */
+function NumberField({
+  label,
+  value,
+  onChange,
+  description,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  description?: string;
+}) {
+  const id = useId();
+  return (
+    <div style={fieldStyle}>
+      <label htmlFor={id} style={labelStyle}>
+        {label}
+      </label>
+      <input
+        id={id}
+        type="number"
+        value={Number.isNaN(value) ? '' : value}
+        onChange={(e) => onChange(e.target.value === '' ? Number.NaN : Number(e.target.value))}
+        style={inputStyle}
+        min={0}
+        step={1}
+      />
+      {description && <div style={descriptionStyle}>{description}</div>}
+    </div>
+  );
+}
+
+/**
+ * Editor for a single compile/test step
+ */
+function StepEditor({
+  step,
+  index,
+  count,
+  onChange,
+  onMove,
+  onRemove,
+}: {
+  step: PahcerStep;
+  index: number;
+  count: number;
+  onChange: (step: PahcerStep) => void;
+  onMove: (offset: number) => void;
+  onRemove: () => void;
+}) {
+  const argsId = useId();
+  const measureTimeId = useId();
+  const optional = (value: string) => (value === '' ? undefined : value);
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '12px',
+        padding: '12px',
+        border: '1px solid var(--vscode-panel-border)',
+      }}
+    >
+      <div style={{ display: 'flex', gap: '6px', alignItems: 'center' }}>
+        <span style={{ fontWeight: 'bold', flex: 1 }}>#{index + 1}</span>
+        <button
+          type="button"
+          onClick={() => onMove(-1)}
+          style={smallButtonStyle}
+          disabled={index === 0}
+        >
+          ↑
+        </button>
+        <button
+          type="button"
+          onClick={() => onMove(1)}
+          style={smallButtonStyle}
+          disabled={index === count - 1}
+        >
+          ↓
+        </button>
+        <button type="button" onClick={onRemove} style={smallButtonStyle}>
+          削除
+        </button>
+      </div>
+      <TextField
+        label="program"
+        value={step.program}
+        onChange={(program) => onChange({ ...step, program })}
+        monospace
+      />
+      <div style={fieldStyle}>
+        <label htmlFor={argsId} style={labelStyle}>
+          args
+        </label>
+        <textarea
+          id={argsId}
+          value={step.args.join('\n')}
+          onChange={(e) =>
+            onChange({ ...step, args: e.target.value === '' ? [] : e.target.value.split('\n') })
+          }
+          style={monospaceInputStyle}
+          rows={Math.max(2, step.args.length)}
+        />
+        <div style={descriptionStyle}>引数を 1 行に 1 つ指定します。</div>
+      </div>
+      <TextField
+        label="current_dir"
+        value={step.currentDir ?? ''}
+        onChange={(value) => onChange({ ...step, currentDir: optional(value) })}
+        monospace
+      />
+      <TextField
+        label="stdin"
+        value={step.stdin ?? ''}
+        onChange={(value) => onChange({ ...step, stdin: optional(value) })}
+        monospace
+      />
+      <TextField
+        label="stdout"
+        value={step.stdout ?? ''}
+        onChange={(value) => onChange({ ...step, stdout: optional(value) })}
+        monospace
+      />
+      <TextField
+        label="stderr"
+        value={step.stderr ?? ''}
+        onChange={(value) => onChange({ ...step, stderr: optional(value) })}
+        monospace
+      />
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+        <input
+          id={measureTimeId}
+          type="checkbox"
+          checked={step.measureTime}
+          onChange={(e) => onChange({ ...step, measureTime: e.target.checked })}
+        />
+        <label htmlFor={measureTimeId} style={{ cursor: 'pointer' }}>
+          実行時間を計測する (measure_time)
+        </label>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Editor for a list of steps
+ */
+function StepsEditor({
+  title,
+  description,
+  steps,
+  onChange,
+}: {
+  title: string;
+  description: string;
+  steps: PahcerStep[];
+  onChange: (steps: PahcerStep[]) => void;
+}) {
+  const update = (index: number, step: PahcerStep) =>
+    onChange(steps.map((s, i) => (i === index ? step : s)));
+  const move = (index: number, offset: number) => {
+    const next = [...steps];
+    const [step] = next.splice(index, 1);
+    next.splice(index + offset, 0, step);
+    onChange(next);
+  };
+  const remove = (index: number) => onChange(steps.filter((_, i) => i !== index));
+
+  return (
+    <div style={fieldStyle}>
+      <div style={labelStyle}>{title}</div>
+      <div style={descriptionStyle}>{description}</div>
+      {steps.map((step, i) => (
+        <StepEditor
+          // biome-ignore lint/suspicious/noArrayIndexKey: steps have no stable identity
+          key={i}
+          step={step}
+          index={i}
+          count={steps.length}
+          onChange={(s) => update(i, s)}
+          onMove={(offset) => move(i, offset)}
+          onRemove={() => remove(i)}
+        />
+      ))}
+      <div>
+        <button
+          type="button"
+          onClick={() => onChange([...steps, { ...emptyStep }])}
+          style={smallButtonStyle}
+        >
+          + ステップを追加
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function PahcerSettingsView() {
+  const objectiveId = useId();
+
+  const [settings, setSettings] = useState<PahcerSettingsData | undefined>(undefined);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  // Request the current settings from extension
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      const message = event.data;
+      if (message.command === 'pahcerSettings') {
+        setSettings(message.settings);
+        setErrors([]);
+      } else if (message.command === 'pahcerSettingsErrors') {
+        setErrors(message.errors);
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    postMessage({ command: 'ready' });
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  const update = (patch: Partial<PahcerSettingsData>) => {
+    if (settings) {
+      setSettings({ ...settings, ...patch });
+    }
+  };
+
+  const handleSave = () => {
+    postMessage({ command: 'savePahcerSettings', settings });
+  };
+
+  const handleCancel = () => {
+    postMessage({ command: 'cancelPahcerSettings' });
+  };
+
+  const containerStyle: CSSProperties = {
+    padding: '20px',
+    color: 'var(--vscode-foreground)',
+    backgroundColor: 'var(--vscode-editor-background)',
+    minHeight: '100vh',
+    display: 'flex',
+    flexDirection: 'column',
+  };
+
+  const formStyle: CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '20px',
+    maxWidth: '600px',
+  };
+
+  const errorStyle: CSSProperties = {
+    padding: '8px 12px',
+    color: 'var(--vscode-errorForeground)',
+    border: '1px solid var(--vscode-inputValidation-errorBorder)',
+    backgroundColor: 'var(--vscode-inputValidation-errorBackground)',
+    fontSize: '12px',
+  };
+
+  const errorList =
+    errors.length > 0 ? (
+      <div style={errorStyle}>
+        {errors.map((error) => (
+          <div key={error}>{error}</div>
+        ))}
+      </div>
+    ) : null;
+
+  if (!settings) {
+    return (
+      <div style={containerStyle}>
+        <h2 style={{ marginTop: 0 }}>pahcer 設定</h2>
+        {errorList ?? <div>読み込み中...</div>}
+        <div style={{ marginTop: '20px' }}>
+          <button type="button" onClick={handleCancel} style={secondaryButtonStyle}>
+            閉じる
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div style={containerStyle}>
+      <h2 style={{ marginTop: 0 }}>pahcer 設定</h2>
+      <div style={{ ...descriptionStyle, marginBottom: '20px' }}>
+        {settings.path}
+        {settings.version && ` (version ${settings.version})`}
+        <br />
+        保存時はコメントと書式を保ったまま変更箇所だけを書き換えます。
+      </div>
+
+      <div style={formStyle}>
+        <TextField
+          label="problem_name"
+          value={settings.problemName}
+          onChange={(problemName) => update({ problemName })}
+        />
+
+        <div style={fieldStyle}>
+          <label htmlFor={objectiveId} style={labelStyle}>
+            objective
+          </label>
+          <select
+            id={objectiveId}
+            value={settings.objective}
+            onChange={(e) => update({ objective: e.target.value as 'max' | 'min' })}
+            style={inputStyle}
+          >
+            <option value="max">Max（最大化）</option>
+            <option value="min">Min（最小化）</option>
+          </select>
+        </div>
+
+        <TextField
+          label="score_regex"
+          value={settings.scoreRegex}
+          onChange={(scoreRegex) => update({ scoreRegex })}
+          description="出力からスコアを抽出する正規表現です（Rust の regex 構文）。名前付きグループ (?P<score>...) が必要です。"
+          monospace
+        />
+
+        <NumberField
+          label="start_seed"
+          value={settings.startSeed}
+          onChange={(startSeed) => update({ startSeed })}
+        />
+        <NumberField
+          label="end_seed"
+          value={settings.endSeed}
+          onChange={(endSeed) => update({ endSeed })}
+          description="[start_seed, end_seed) の半開区間が実行されます。"
+        />
+        <NumberField
+          label="threads"
+          value={settings.threads}
+          onChange={(threads) => update({ threads })}
+          description="並列実行数です。0 の場合は CPU の論理コア数で実行します。"
+        />
+
+        <TextField
+          label="out_dir"
+          value={settings.outDir}
+          onChange={(outDir) => update({ outDir })}
+          description="実行結果（result_*.json など）の出力先です。"
+          monospace
+        />
+
+        <StepsEditor
+          title="compile_steps"
+          description="テスト前に 1 回だけ実行するステップです。"
+          steps={settings.compileSteps}
+          onChange={(compileSteps) => update({ compileSteps })}
+        />
+
+        <StepsEditor
+          title="test_steps"
+          description="Seed ごとに実行するステップです。{SEED}, {SEED04} などは Seed に置換されます。"
+          steps={settings.testSteps}
+          onChange={(testSteps) => update({ testSteps })}
+        />
+
+        {errorList}
+
+        <div style={{ display: 'flex', gap: '10px', marginTop: '20px' }}>
+          <button type="button" onClick={handleSave} style={primaryButtonStyle}>
+            保存
+          </button>
+          <button type="button" onClick={handleCancel} style={secondaryButtonStyle}>
+            キャンセル
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,8 @@
+import { createRoot } from 'react-dom/client';
+import { PahcerSettingsView } from './PahcerSettingsView';
+
+const container = document.getElementById('root');
+if (container) {
+  const root = createRoot(container);
+  root.render(<PahcerSettingsView />);
+}
@@ -0,0 +1,22 @@
+import type { PahcerStep } from '../../../../domain/models/configFile';
+
+export type { PahcerStep };
+
+/**
+ * Editable contents of pahcer_config.toml
+ */
+export interface PahcerSettingsData {
+  /** Path to pahcer_config.toml (read-only) */
+  path: string;
+  /** pahcer version that generated the file (read-only) */
+  version: string;
+  problemName: string;
+  objective: 'max' | 'min';
+  scoreRegex: string;
+  startSeed: number;
+  endSeed: number;
+  threads: number;
+  outDir: string;
+  compileSteps: PahcerStep[];
+  testSteps: PahcerStep[];
+}
@@ -0,0 +1,195 @@
+import { type CSSProperties, type ReactNode, useEffect, useState } from 'react';
+import { postMessage } from '../shared/utils/vscode';
+import type { RegressionReportData } from './types';
+
+interface Props {
+  initialData: RegressionReportData;
+}
+
+export function RegressionReportView({ initialData }: Props) {
+  const [data, setData] = useState(initialData);
+
+  // Listen for data updates from extension
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      const message = event.data;
+      if (message.command === 'updateData') {
+        setData(message.data);
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  const { report, thresholds } = data;
+
+  const showVisualizer = (resultId: string, seed: number) => {
+    postMessage({ command: 'showVisualizer', resultId, seed });
+  };
+
+  const sectionStyle: CSSProperties = {
+    marginBottom: '20px',
+    padding: '10px',
+    border: '1px solid var(--vscode-panel-border)',
+  };
+
+  const headingStyle: CSSProperties = {
+    marginBottom: '10px',
+    fontSize: '0.9em',
+    color: 'var(--vscode-descriptionForeground)',
+  };
+
+  const tableStyle: CSSProperties = {
+    width: '100%',
+    borderCollapse: 'collapse',
+  };
+
+  const cellStyle: CSSProperties = {
+    padding: '8px',
+    textAlign: 'left',
+  };
+
+  const thStyle: CSSProperties = {
+    ...cellStyle,
+    borderBottom: '1px solid var(--vscode-panel-border)',
+    fontWeight: 'bold',
+  };
+
+  const linkStyle: CSSProperties = {
+    color: 'var(--vscode-textLink-foreground)',
+    cursor: 'pointer',
+    background: 'none',
+    border: 'none',
+    padding: 0,
+    font: 'inherit',
+    textDecoration: 'underline',
+  };
+
+  const seedCell = (seed: number) => (
+    <td style={cellStyle}>
+      <button type="button" style={linkStyle} onClick={() => showVisualizer(data.targetId, seed)}>
+        {String(seed).padStart(4, '0')}
+      </button>{' '}
+      <button
+        type="button"
+        style={{ ...linkStyle, fontSize: '0.85em' }}
+        onClick={() => showVisualizer(data.referenceId, seed)}
+        title="比較元の実行のビジュアライザを開く"
+      >
+        (比較元)
+      </button>
+    </td>
+  );
+
+  const section = (title: string, count: number, table: ReactNode) => (
+    <div style={sectionStyle}>
+      <div style={headingStyle}>
+        {title}（{count} 件）
+      </div>
+      {count === 0 ? <div style={{ fontSize: '0.9em' }}>該当なし</div> : table}
+    </div>
+  );
+
+  return (
+    <div style={{ padding: '20px' }}>
+      <h2 style={{ marginTop: 0 }}>回帰レポート</h2>
+      <div style={{ marginBottom: '20px', fontSize: '0.9em' }}>
+        <div>対象: {data.targetTitle}</div>
+        <div>
+          比較元: {data.referenceTitle}（{data.referenceIsBaseline ? '基準実行' : '直前の実行'}）
+        </div>
+        <div>共通 Seed 数: {report.commonCount}</div>
+      </div>
+
+      {section(
+        '新たに失敗した Seed',
+        report.newFailures.length,
+        <table style={tableStyle}>
+          <thead>
+            <tr>
+              <th style={thStyle}>Seed</th>
+              <th style={thStyle}>比較元スコア</th>
+              <th style={thStyle}>エラー</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.newFailures.map((f) => (
+              <tr key={f.seed}>
+                {seedCell(f.seed)}
+                <td style={cellStyle}>{f.referenceScore.toLocaleString()}</td>
+                <td style={cellStyle}>{f.errorMessage || 'WA'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>,
+      )}
+
+      {[
+        {
+          title: `スコアが悪化した Seed（${thresholds.scoreChangePercent}% 以上）`,
+          rows: report.scoreDrops,
+        },
+        {
+          title: `スコアが改善した Seed（${thresholds.scoreChangePercent}% 以上）`,
+          rows: report.scoreImprovements,
+        },
+      ].map(({ title, rows }) => (
+        <div key={title}>
+          {section(
+            title,
+            rows.length,
+            <table style={tableStyle}>
+              <thead>
+                <tr>
+                  <th style={thStyle}>Seed</th>
+                  <th style={thStyle}>比較元スコア</th>
+                  <th style={thStyle}>スコア</th>
+                  <th style={thStyle}>変化率</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((c) => (
+                  <tr key={c.seed}>
+                    {seedCell(c.seed)}
+                    <td style={cellStyle}>{c.referenceScore.toLocaleString()}</td>
+                    <td style={cellStyle}>{c.targetScore.toLocaleString()}</td>
+                    <td style={cellStyle}>
+                      {c.changePercent > 0 ? '+' : ''}
+                      {c.changePercent.toFixed(2)}%
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>,
+          )}
+        </div>
+      ))}
+
+      {section(
+        `実行時間が増加した Seed（${thresholds.runtimeIncreasePercent}% 以上）`,
+        report.runtimeIncreases.length,
+        <table style={tableStyle}>
+          <thead>
+            <tr>
+              <th style={thStyle}>Seed</th>
+              <th style={thStyle}>比較元</th>
+              <th style={thStyle}>実行時間</th>
+              <th style={thStyle}>増加率</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.runtimeIncreases.map((r) => (
+              <tr key={r.seed}>
+                {seedCell(r.seed)}
+                <td style={cellStyle}>{(r.referenceTime * 1000).toFixed(0)}ms</td>
+                <td style={cellStyle}>{(r.targetTime * 1000).toFixed(0)}ms</td>
+                <td style={cellStyle}>+{r.increasePercent.toFixed(1)}%</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>,
+      )}
+    </div>
+  );
+}
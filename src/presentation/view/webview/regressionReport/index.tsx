@@ -0,0 +1,16 @@
+import { createRoot } from 'react-dom/client';
+import { RegressionReportView } from './RegressionReportView';
+import type { RegressionReportData } from './types';
+
+// Get initial data from window
+declare global {
+  interface Window {
+    regressionReportData: RegressionReportData;
+  }
+}
+
+const container = document.getElementById('root');
+if (container) {
+  const root = createRoot(container);
+  root.render(<RegressionReportView initialData={window.regressionReportData} />);
+}
@@ -0,0 +1,12 @@
+import type { RegressionAnalyzer } from '../../../../domain/services/regressionAnalyzer';
+
+export interface RegressionReportData {
+  targetId: string;
+  targetTitle: string;
+  referenceId: string;
+  referenceTitle: string;
+  /** Whether the reference is the pinned baseline (otherwise the previous execution) */
+  referenceIsBaseline: boolean;
+  thresholds: RegressionAnalyzer.Thresholds;
+  report: RegressionAnalyzer.Report;
+}
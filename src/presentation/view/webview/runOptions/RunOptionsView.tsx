@@ -1,28 +1,117 @@
-import { type CSSProperties, useId, useState } from 'react';
+import { type CSSProperties, useEffect, useId, useState } from 'react';
 import { postMessage } from '../shared/utils/vscode';
 
 interface RunOptions {
   startSeed: number;
   endSeed: number;
   freezeBestScores: boolean;
+  seedSetName?: string;
+  shuffle?: boolean;
+  threads?: number;
+  json?: boolean;
+  comment?: string;
+  env?: Record<string, string>;
+}
+
+interface SeedSetOption {
+  name: string;
+  seedCount: number;
+}
+
+/**
+ * Parse `KEY=VALUE` lines (blank lines and lines starting with `#` are ignored)
+ */
+function parseEnv(text: string): { env: Record<string, string>; error?: string } {
+  const env: Record<string, string> = {};
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (trimmed === '' || trimmed.startsWith('#')) {
+      continue;
+    }
+    const match = trimmed.match(/^([A-Za-z_][A-Za-z0-9_]*)=(.*)$/);
+    if (!match) {
+      return { env, error: `KEY=VALUE の形式で入力してください: ${trimmed}` };
+    }
+    env[match[1]] = match[2];
+  }
+  return { env };
 }
 
 export function RunOptionsView() {
   const startSeedId = useId();
   const endSeedId = useId();
   const freezeBestScoresId = useId();
+  const seedSetId = useId();
+  const shuffleId = useId();
+  const threadsId = useId();
+  const jsonId = useId();
+  const commentId = useId();
+  const envId = useId();
 
   const [startSeed, setStartSeed] = useState(0);
   const [endSeed, setEndSeed] = useState(100);
   const [freezeBestScores, setFreezeBestScores] = useState(false);
+  const [seedSets, setSeedSets] = useState<SeedSetOption[]>([]);
+  const [seedSetName, setSeedSetName] = useState('');
+  const [shuffle, setShuffle] = useState(false);
+  const [threadsText, setThreadsText] = useState('');
+  const [json, setJson] = useState(false);
+  const [comment, setComment] = useState('');
+  const [envText, setEnvText] = useState('');
+  const envResult = parseEnv(envText);
+  const threadsError =
+    threadsText.trim() === '' || /^\d+$/.test(threadsText.trim())
+      ? undefined
+      : '非負整数を入力してください';
+  const hasError = envResult.error !== undefined || threadsError !== undefined;
 
-  const handleRun = () => {
-    const options: RunOptions = {
-      startSeed,
-      endSeed,
-      freezeBestScores,
+  // Request the list of seed sets and the last used options from extension
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      const message = event.data;
+      if (message.command === 'seedSets') {
+        setSeedSets(message.seedSets);
+      } else if (message.command === 'runOptions') {
+        const options: RunOptions = message.options;
+        setStartSeed(options.startSeed);
+        setEndSeed(options.endSeed);
+        setFreezeBestScores(options.freezeBestScores);
+        setSeedSetName(options.seedSetName ?? '');
+        setShuffle(options.shuffle ?? false);
+        setThreadsText(options.threads !== undefined ? String(options.threads) : '');
+        setJson(options.json ?? false);
+        setComment(options.comment ?? '');
+        setEnvText(
+          Object.entries(options.env ?? {})
+            .map(([key, value]) => `${key}=${value}`)
+            .join('\n'),
+        );
+      }
     };
-    postMessage({ command: 'runWithOptions', options });
+
+    window.addEventListener('message', handleMessage);
+    postMessage({ command: 'ready' });
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  const buildOptions = (): RunOptions => ({
+    startSeed,
+    endSeed,
+    freezeBestScores,
+    seedSetName: seedSetName || undefined,
+    shuffle,
+    threads: threadsText.trim() === '' ? undefined : Number(threadsText.trim()),
+    json,
+    comment: comment.trim() || undefined,
+    env: envResult.env,
+  });
+
+  const handleRun = () => {
+    postMessage({ command: 'runWithOptions', options: buildOptions() });
+  };
+
+  const handleEnqueue = () => {
+    postMessage({ command: 'enqueueRun', options: buildOptions() });
   };
 
   const handleCancel = () => {
@@ -101,11 +190,39 @@ export function RunOptionsView() {
     marginTop: '4px',
   };
 
+  const errorStyle: CSSProperties = {
+    fontSize: '12px',
+    color: 'var(--vscode-errorForeground)',
+  };
+
   return (
     <div style={containerStyle}>
       <h2 style={{ marginTop: 0 }}>詳細実行オプション</h2>
 
       <div style={formStyle}>
+        <div style={fieldStyle}>
+          <label htmlFor={seedSetId} style={labelStyle}>
+            Seed セット
+          </label>
+          <select
+            id={seedSetId}
+            value={seedSetName}
+            onChange={(e) => setSeedSetName(e.target.value)}
+            style={inputStyle}
+          >
+            <option value="">指定しない（Seed 範囲で実行）</option>
+            {seedSets.map((seedSet) => (
+              <option key={seedSet.name} value={seedSet.name}>
+                {seedSet.name} ({seedSet.seedCount} Seeds)
+              </option>
+            ))}
+          </select>
+          <div style={descriptionStyle}>
+            Seed セットを選択すると、開始・終了 Seed の代わりにセットに含まれる Seed
+            だけを実行します。
+          </div>
+        </div>
+
         <div style={fieldStyle}>
           <label htmlFor={startSeedId} style={labelStyle}>
             開始 Seed
@@ -117,6 +234,7 @@ export function RunOptionsView() {
             onChange={(e) => setStartSeed(Number(e.target.value))}
             style={inputStyle}
             min={0}
+            disabled={seedSetName !== ''}
           />
           <div style={descriptionStyle}>テストケースの開始seed値を指定します。</div>
         </div>
@@ -132,6 +250,7 @@ export function RunOptionsView() {
             onChange={(e) => setEndSeed(Number(e.target.value))}
             style={inputStyle}
             min={startSeed + 1}
+            disabled={seedSetName !== ''}
           />
           <div style={descriptionStyle}>
             テストケースの終了seed値を指定します。[start_seed, end_seed)
@@ -156,10 +275,104 @@ export function RunOptionsView() {
           </div>
         </div>
 
+        <div style={fieldStyle}>
+          <div style={checkboxContainerStyle}>
+            <input
+              id={shuffleId}
+              type="checkbox"
+              checked={shuffle}
+              onChange={(e) => setShuffle(e.target.checked)}
+            />
+            <label htmlFor={shuffleId} style={{ cursor: 'pointer' }}>
+              実行順をシャッフルする (--shuffle)
+            </label>
+          </div>
+          <div style={descriptionStyle}>
+            チェックすると、テストケースを Seed 順ではなくランダムな順番で実行します。
+          </div>
+        </div>
+
+        <div style={fieldStyle}>
+          <label htmlFor={threadsId} style={labelStyle}>
+            並列実行数
+          </label>
+          <input
+            id={threadsId}
+            type="number"
+            value={threadsText}
+            onChange={(e) => setThreadsText(e.target.value)}
+            style={inputStyle}
+            min={0}
+            placeholder="pahcer 設定の threads"
+          />
+          {threadsError && <div style={errorStyle}>{threadsError}</div>}
+          <div style={descriptionStyle}>
+            pahcer 設定の threads を上書きします。空欄の場合は上書きせず、0 の場合は CPU
+            の論理コア数で実行します。
+          </div>
+        </div>
+
+        <div style={fieldStyle}>
+          <div style={checkboxContainerStyle}>
+            <input
+              id={jsonId}
+              type="checkbox"
+              checked={json}
+              onChange={(e) => setJson(e.target.checked)}
+            />
+            <label htmlFor={jsonId} style={{ cursor: 'pointer' }}>
+              結果を JSON 形式で出力する (--json)
+            </label>
+          </div>
+          <div style={descriptionStyle}>
+            チェックすると、ターミナルに表の代わりにケースごとの結果を JSON 形式で出力します。
+          </div>
+        </div>
+
+        <div style={fieldStyle}>
+          <label htmlFor={commentId} style={labelStyle}>
+            コメント
+          </label>
+          <input
+            id={commentId}
+            type="text"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            style={inputStyle}
+          />
+          <div style={descriptionStyle}>実行結果に設定するコメントを指定します (--comment)。</div>
+        </div>
+
+        <div style={fieldStyle}>
+          <label htmlFor={envId} style={labelStyle}>
+            環境変数
+          </label>
+          <textarea
+            id={envId}
+            value={envText}
+            onChange={(e) => setEnvText(e.target.value)}
+            style={{ ...inputStyle, fontFamily: 'var(--vscode-editor-font-family)' }}
+            rows={3}
+            placeholder="T0=100"
+          />
+          {envResult.error && <div style={errorStyle}>{envResult.error}</div>}
+          <div style={descriptionStyle}>
+            pahcer run に渡す環境変数を 1 行に 1 つ KEY=VALUE の形式で指定します。
+          </div>
+        </div>
+
         <div style={buttonContainerStyle}>
-          <button type="button" onClick={handleRun} style={primaryButtonStyle}>
+          <button type="button" onClick={handleRun} style={primaryButtonStyle} disabled={hasError}>
             実行
           </button>
+          <button
+            type="button"
+            onClick={handleEnqueue}
+            style={secondaryButtonStyle}
+            disabled={hasError}
+          >
+            キューに追加
+          </button>
           <button type="button" onClick={handleCancel} style={secondaryButtonStyle}>
             キャンセル
           </button>
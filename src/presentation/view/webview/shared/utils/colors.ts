@@ -0,0 +1,15 @@
+/**
+ * 実行 ID から系列の色を決める（同じ実行はどのビューでも同じ色になる）
+ */
+export function getColorForResultId(resultId: string): string {
+  let hash = 0;
+  for (let i = 0; i < resultId.length; i++) {
+    hash = resultId.charCodeAt(i) + ((hash << 5) - hash);
+  }
+
+  const hue = Math.abs(hash % 360);
+  const saturation = 70 + (Math.abs(hash >> 8) % 20);
+  const lightness = 50 + (Math.abs(hash >> 16) % 20);
+
+  return `hsl(${hue}, ${saturation}%, ${lightness}%)`;
+}
@@ -0,0 +1,218 @@
+import {
+  Chart as ChartJS,
+  type ChartType,
+  Legend,
+  LinearScale,
+  LineElement,
+  LogarithmicScale,
+  PointElement,
+  Title,
+  Tooltip,
+  type TooltipItem,
+} from 'chart.js';
+import { type CSSProperties, useEffect, useMemo, useState } from 'react';
+import { Scatter } from 'react-chartjs-2';
+import { getColorForResultId } from '../shared/utils/colors';
+import { postMessage } from '../shared/utils/vscode';
+import type { StderrTimelineData } from './types';
+
+// Register Chart.js components
+ChartJS.register(LinearScale, LogarithmicScale, PointElement, LineElement, Title, Tooltip, Legend);
+
+interface Props {
+  initialData: StderrTimelineData;
+}
+
+export function StderrTimelineView({ initialData }: Props) {
+  const [data, setData] = useState(initialData);
+  const [selectedIds, setSelectedIds] = useState(initialData.selectedExecutionIds);
+  const [variable, setVariable] = useState('');
+  const [logScale, setLogScale] = useState(false);
+
+  // Listen for data updates from extension
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      const message = event.data;
+      if (message.command === 'updateData') {
+        setData(message.data);
+        setSelectedIds(message.data.selectedExecutionIds);
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  const variableNames = useMemo(
+    () => [...new Set(data.executions.flatMap((e) => Object.keys(e.series)))].sort(),
+    [data],
+  );
+
+  // Keep the selected variable if it still exists, otherwise prefer "score"
+  const currentVariable = variableNames.includes(variable)
+    ? variable
+    : variableNames.includes('score')
+      ? 'score'
+      : (variableNames[0] ?? '');
+
+  const plotted = data.executions.filter(
+    (e) => selectedIds.includes(e.id) && e.series[currentVariable] !== undefined,
+  );
+  const xKeys = [...new Set(plotted.map((e) => e.series[currentVariable].xKey ?? '出力順'))];
+
+  const textColor =
+    getComputedStyle(document.body).getPropertyValue('--vscode-foreground') || '#cccccc';
+  const gridColor =
+    getComputedStyle(document.body).getPropertyValue('--vscode-panel-border') || '#3e3e3e';
+
+  const chartData = {
+    datasets: plotted.map((e) => {
+      const color = getColorForResultId(e.id);
+      return {
+        label: e.comment ? `${e.title} - ${e.comment}` : e.title,
+        data: e.series[currentVariable].points.map(([x, y]) => ({ x, y })),
+        showLine: true,
+        borderColor: color,
+        backgroundColor: color,
+        borderWidth: 1.5,
+        pointRadius: 0,
+        pointHitRadius: 5,
+      };
+    }),
+  };
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    animation: false as const,
+    plugins: {
+      legend: {
+        labels: { color: textColor },
+      },
+      tooltip: {
+        callbacks: {
+          label: (context: TooltipItem<ChartType>) => {
+            const point = context.raw as { x: number; y: number };
+            return `${context.dataset.label}: (${point.x.toLocaleString()}, ${point.y.toLocaleString()})`;
+          },
+        },
+      },
+    },
+    scales: {
+      x: {
+        type: 'linear' as const,
+        title: { display: true, text: xKeys.join(' / '), color: textColor },
+        ticks: { color: textColor },
+        grid: { color: gridColor },
+      },
+      y: {
+        type: logScale ? ('logarithmic' as const) : ('linear' as const),
+        title: { display: true, text: currentVariable, color: textColor },
+        ticks: { color: textColor },
+        grid: { color: gridColor },
+      },
+    },
+  };
+
+  const toggleExecution = (id: string) => {
+    setSelectedIds((ids) => (ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id]));
+  };
+
+  const showVisualizer = (resultId: string) => {
+    postMessage({ command: 'showVisualizer', resultId, seed: data.seed });
+  };
+
+  const labelStyle: CSSProperties = {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: '6px',
+    marginRight: '20px',
+  };
+
+  const linkStyle: CSSProperties = {
+    color: 'var(--vscode-textLink-foreground)',
+    cursor: 'pointer',
+    background: 'none',
+    border: 'none',
+    padding: 0,
+    font: 'inherit',
+    textDecoration: 'underline',
+  };
+
+  return (
+    <div style={{ padding: '20px' }}>
+      <h2 style={{ marginTop: 0 }}>Seed {String(data.seed).padStart(4, '0')} の stderr の推移</h2>
+
+      {data.executions.length === 0 ? (
+        <div style={{ fontSize: '0.9em' }}>
+          この Seed の実行結果に、stderr に出力された数値の変数がありません。
+          古い実行結果の場合は「実行結果を再解析」を実行してください。
+        </div>
+      ) : (
+        <>
+          <div style={{ marginBottom: '10px' }}>
+            <label style={labelStyle}>
+              変数
+              <select value={currentVariable} onChange={(e) => setVariable(e.target.value)}>
+                {variableNames.map((name) => (
+                  <option key={name} value={name}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label style={labelStyle}>
+              <input
+                type="checkbox"
+                checked={logScale}
+                onChange={(e) => setLogScale(e.target.checked)}
+              />
+              Y 軸を対数目盛にする
+            </label>
+          </div>
+
+          <div style={{ marginBottom: '10px', fontSize: '0.9em' }}>
+            {data.executions.map((e) => (
+              <div key={e.id} style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(e.id)}
+                  onChange={() => toggleExecution(e.id)}
+                />
+                <span
+                  style={{
+                    display: 'inline-block',
+                    width: '10px',
+                    height: '10px',
+                    backgroundColor: getColorForResultId(e.id),
+                  }}
+                />
+                <button
+                  type="button"
+                  style={linkStyle}
+                  onClick={() => showVisualizer(e.id)}
+                  title="ビジュアライザを開く"
+                >
+                  {e.title}
+                </button>
+                <span>スコア: {e.score.toLocaleString()}</span>
+                {e.comment && (
+                  <span style={{ color: 'var(--vscode-descriptionForeground)' }}>{e.comment}</span>
+                )}
+                {e.series[currentVariable] === undefined && (
+                  <span style={{ color: 'var(--vscode-descriptionForeground)' }}>
+                    （{currentVariable} の出力なし）
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div style={{ position: 'relative', height: '500px' }}>
+            <Scatter data={chartData} options={options} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import { createRoot } from 'react-dom/client';
+import { StderrTimelineView } from './StderrTimelineView';
+import type { StderrTimelineData } from './types';
+
+// Get initial data from window
+declare global {
+  interface Window {
+    stderrTimelineData: StderrTimelineData;
+  }
+}
+
+const container = document.getElementById('root');
+if (container) {
+  const root = createRoot(container);
+  root.render(<StderrTimelineView initialData={window.stderrTimelineData} />);
+}
@@ -0,0 +1,18 @@
+import type { StderrSeries } from '../../../../domain/models/testCase';
+
+export interface StderrTimelineExecution {
+  id: string;
+  title: string;
+  comment: string;
+  score: number;
+  /** Variable name -> series printed to stderr in this execution */
+  series: Record<string, StderrSeries>;
+}
+
+export interface StderrTimelineData {
+  seed: number;
+  /** Executions of this seed that have at least one series (newest first) */
+  executions: StderrTimelineExecution[];
+  /** Executions plotted initially */
+  selectedExecutionIds: string[];
+}
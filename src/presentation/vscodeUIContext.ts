@@ -36,6 +36,14 @@ export class VSCodeUIContext {
     await vscode.commands.executeCommand('setContext', 'pahcer.showRunOptions', show);
   }
 
+  /**
+   * pahcer 設定ビューの表示状態を設定
+   * package.json の when 句で使用: `pahcer.showPahcerSettings`
+   */
+  async setShowPahcerSettings(show: boolean): Promise<void> {
+    await vscode.commands.executeCommand('setContext', 'pahcer.showPahcerSettings', show);
+  }
+
   /**
    * グルーピングモードを設定
    * package.json の when 句で使用: `pahcer.groupingMode == 'byExecution'`
@@ -52,6 +60,14 @@ export class VSCodeUIContext {
     await vscode.commands.executeCommand('setContext', 'pahcer.canShowDiff', canShow);
   }
 
+  /**
+   * pahcer run の実行中状態を設定
+   * package.json の when 句で使用: `pahcer.running`
+   */
+  async setRunning(running: boolean): Promise<void> {
+    await vscode.commands.executeCommand('setContext', 'pahcer.running', running);
+  }
+
   /**
    * PahcerStatus を文字列に変換
    */
@@ -0,0 +1,20 @@
+/**
+ * シェルに渡す引数をクォートする（コメントやパスなど任意の文字列を含む引数用）
+ *
+ * Windows では cmd.exe（`cmd /d /s /c`）を経由してプログラムに渡されるため、
+ * プログラムの引数の解釈（CommandLineToArgvW）に合わせてクォートしたうえで、
+ * cmd.exe の特殊文字（`%`, `^`, `&`, `|`, `"` など）を `^` でエスケープする
+ */
+export function quoteShellArgument(value: string): string {
+  if (process.platform === 'win32') {
+    return quoteCmdArgument(value);
+  }
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+function quoteCmdArgument(value: string): string {
+  // 引用符の直前のバックスラッシュは 2 倍にして引用符をエスケープし、末尾のバックスラッシュも 2 倍にする
+  const quoted = `"${value.replace(/(\\*)"/g, '$1$1\\"').replace(/(\\*)$/, '$1$1')}"`;
+  // 引用符も含めてエスケープすることで、cmd.exe が引用符の内外を取り違えないようにする
+  return quoted.replace(/([()\][%!^"`<>&|;, *?])/g, '^$1');
+}
@@ -0,0 +1,22 @@
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * ZIPファイルを展開する（既存のファイルは上書き）
+ * macOS/Linux では unzip、Windows では PowerShell の Expand-Archive を使用する
+ */
+export async function extractZip(zipPath: string, destPath: string): Promise<void> {
+  if (process.platform === 'win32') {
+    // PowerShell の単一引用符の文字列では ' を '' と書く
+    const quote = (value: string) => `'${value.replace(/'/g, "''")}'`;
+    await execFileAsync('powershell', [
+      '-NoProfile',
+      '-Command',
+      `Expand-Archive -LiteralPath ${quote(zipPath)} -DestinationPath ${quote(destPath)} -Force`,
+    ]);
+  } else {
+    await execFileAsync('unzip', ['-o', zipPath, '-d', destPath]);
+  }
+}